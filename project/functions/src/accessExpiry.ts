@@ -0,0 +1,35 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {SYSTEM_ACTOR, suspendAccount} from "./suspension";
+
+const EXPIRED_REASON = "Your access period has ended.";
+
+/**
+ * Reads an access end date sent by the admin screens.
+ * @param {string} value An ISO date, if any.
+ * @return {Date | null} The date, or null when missing, invalid or past.
+ */
+export function parseAccessExpiry(value?: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) || date <= new Date() ? null : date;
+}
+
+// ⌛ Suspend time-boxed accounts (observers) once their access ends.
+// Security rules already refuse them from accessUntil; this also signs
+// them out. Reactivating without a new end date just suspends them again.
+export const expireTimedAccess = functions.scheduler.onSchedule(
+  "every 1 hours",
+  async () => {
+    const expired = await admin
+      .firestore()
+      .collection("users")
+      .where("accessExpiresAt", "<=", admin.firestore.Timestamp.now())
+      .get();
+
+    for (const userDoc of expired.docs) {
+      if (userDoc.data().accountStatus === "suspended") continue;
+      await suspendAccount(userDoc.id, EXPIRED_REASON, null, SYSTEM_ACTOR);
+    }
+  }
+);
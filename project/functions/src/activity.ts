@@ -0,0 +1,28 @@
+import * as admin from "firebase-admin";
+
+// 📝 Same shape the client writes into activityLogs
+export interface ActivityEntry {
+  userId: string;
+  userName: string;
+  action: string;
+  target?: string;
+  details?: string;
+}
+
+/**
+ * Records a server-side action in the activityLogs collection.
+ * @param {ActivityEntry} entry What happened and who did it.
+ * @return {Promise<void>}
+ */
+export async function logActivity(entry: ActivityEntry): Promise<void> {
+  try {
+    await admin.firestore().collection("activityLogs").add({
+      ...entry,
+      target: entry.target || "",
+      details: entry.details || "",
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (err) {
+    console.error("Error logging activity:", err);
+  }
+}
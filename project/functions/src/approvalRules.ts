@@ -0,0 +1,300 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {logActivity} from "./activity";
+import {assertCan} from "./guards";
+import {enqueueMail} from "./mailQueue";
+import {Actor} from "./suspension";
+import {localeFor} from "./templates";
+
+export type ApprovalDecision = "approve" | "reject";
+
+// 📏 An admin-defined rule; every non-empty condition list must match
+export interface ApprovalRule {
+  name: string;
+  enabled: boolean;
+  priority: number; // lower runs first; the first match decides
+  decision: ApprovalDecision;
+  message?: string; // included in the email to the user
+  conditions: {
+    emailDomains?: string[];
+    roles?: string[];
+    sources?: string[]; // "email", "google" or "invitation"
+  };
+}
+
+const RULES_ACTOR: Actor = {uid: "system", name: "Auto-approval"};
+
+// 🔒 Roles a rule may grant without naming them; signups pick their own
+// role, so anything else, trainer included, waits for an admin unless the
+// rule lists it
+const SELF_SERVICE_ROLES = ["trainee"];
+
+/**
+ * How a user signed up. An address someone invited counts as an
+ * invitation signup, unless the invitation can still be redeemed, which
+ * redeemInvitation does in place of the rules.
+ * @param {string} uid The pending user.
+ * @param {string[]} providers Their Auth sign-in providers.
+ * @param {admin.firestore.DocumentData[]} invitations Invitations sent to
+ * their address.
+ * @param {number} now The current time, in milliseconds.
+ * @return {string | null} "invitation", "google" or "email", or null
+ * while an invitation is live.
+ */
+export function classifySignup(
+  uid: string,
+  providers: string[],
+  invitations: admin.firestore.DocumentData[],
+  now = Date.now()
+): string | null {
+  const live = invitations.some((invitation) =>
+    invitation.redeemedBy === uid ||
+    (invitation.status === "pending" &&
+      invitation.expiresAt?.toMillis() > now)
+  );
+  if (live) return null;
+  if (invitations.length) return "invitation";
+  return providers.includes("google.com") ? "google" : "email";
+}
+
+/**
+ * How the user signed up, from the Auth record and the invitations rather
+ * than the client-written pendingUsers document.
+ * @param {string} uid The pending user.
+ * @return {Promise<string | null>} The source, see classifySignup.
+ */
+async function signupSource(uid: string): Promise<string | null> {
+  const user = await admin.auth().getUser(uid).catch(() => null);
+  const email = String(user?.email || "").toLowerCase();
+  const invitations = email ?
+    await admin
+      .firestore()
+      .collection("invitations")
+      .where("email", "==", email)
+      .get() :
+    null;
+  return classifySignup(
+    uid,
+    (user?.providerData || []).map((p) => p.providerId),
+    invitations?.docs.map((doc) => doc.data()) || []
+  );
+}
+
+/**
+ * Checks a pending signup against one rule's conditions.
+ * @param {ApprovalRule} rule The rule to test.
+ * @param {admin.firestore.DocumentData} pending The pendingUsers document.
+ * @return {boolean} Whether every condition matches.
+ */
+export function ruleMatches(
+  rule: ApprovalRule,
+  pending: admin.firestore.DocumentData
+): boolean {
+  const {emailDomains = [], roles = [], sources = []} = rule.conditions || {};
+  const domain = String(pending.email || "").split("@")[1]?.toLowerCase();
+
+  if (emailDomains.length &&
+    !emailDomains.some((d) => d.toLowerCase().replace(/^@/, "") === domain)) {
+    return false;
+  }
+  if (roles.length && !roles.includes(pending.role)) return false;
+  if (sources.length && !sources.includes(pending.source)) {
+    return false;
+  }
+  // A rule without conditions would decide every signup
+  return emailDomains.length + roles.length + sources.length > 0;
+}
+
+/**
+ * Whether an approve rule may grant a role: trainee, or a role the rule
+ * names in its conditions.
+ * @param {ApprovalRule} rule The matching rule.
+ * @param {string} role The role the signup asked for.
+ * @return {boolean} Whether the rule may approve the signup.
+ */
+export function grantsRole(rule: ApprovalRule, role: string): boolean {
+  return SELF_SERVICE_ROLES.includes(role) ||
+    (rule.conditions?.roles || []).includes(role);
+}
+
+/**
+ * Applies the first matching approval rule to a pending signup.
+ * @param {string} uid The pending user.
+ * @param {admin.firestore.DocumentData} pending The pendingUsers document.
+ * @return {Promise<void>}
+ */
+export async function applyRulesTo(
+  uid: string,
+  pending: admin.firestore.DocumentData
+): Promise<void> {
+  // Signups put back by revertApprovalDecision are left to the admins
+  if (pending.manualReview) return;
+  const db = admin.firestore();
+  const pendingRef = db.collection("pendingUsers").doc(uid);
+
+  const source = await signupSource(uid);
+  if (!source) return;
+  if (pending.source !== source) await pendingRef.update({source});
+  pending = {...pending, source};
+
+  const rules = await db
+    .collection("approvalRules")
+    .where("enabled", "==", true)
+    .orderBy("priority")
+    .get();
+  const match = rules.docs.find((doc) =>
+    ruleMatches(doc.data() as ApprovalRule, pending)
+  );
+  if (!match) return;
+
+  const rule = match.data() as ApprovalRule;
+  if (rule.decision === "approve" && !grantsRole(rule, pending.role)) return;
+  const decisionRef = db.collection("approvalDecisions").doc();
+  // Read before a rejection removes the users document
+  const locale = await localeFor(uid);
+
+  const applied = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(pendingRef);
+    // An admin may have handled the signup already
+    if (!snap.exists) return false;
+
+    if (rule.decision === "approve") {
+      tx.set(db.collection("users").doc(uid), {
+        role: pending.role,
+        approvedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, {merge: true});
+    } else {
+      // Recorded like a rejection from PendingUsers
+      tx.set(db.collection("rejectedUsers").doc(uid), {
+        ...pending,
+        reason: "rejected",
+        rejectionMessage: rule.message || "",
+        rejectedBy: RULES_ACTOR.uid,
+        rejectedByName: RULES_ACTOR.name,
+        rejectedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      tx.delete(db.collection("users").doc(uid));
+    }
+    tx.delete(pendingRef);
+    tx.set(decisionRef, {
+      uid,
+      email: pending.email || "",
+      displayName: pending.displayName || "",
+      role: pending.role || "",
+      source,
+      decision: rule.decision,
+      ruleId: match.id,
+      ruleName: rule.name,
+      pending,
+      status: "applied",
+      decidedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+  if (!applied) return;
+
+  await logActivity({
+    userId: RULES_ACTOR.uid,
+    userName: RULES_ACTOR.name,
+    action: rule.decision === "approve" ? "auto-approved" : "auto-rejected",
+    target: pending.displayName || pending.email,
+    details: `Rule: ${rule.name}`,
+  });
+
+  if (pending.email) {
+    await enqueueMail(
+      rule.decision === "approve" ? "approval" : "rejection",
+      pending.email,
+      {
+        name: pending.displayName || pending.email,
+        message: rule.message || "",
+      },
+      locale
+    );
+  }
+}
+
+// 🤖 Apply the approval rules to a new signup once its email is verified
+export const applyApprovalRules = functions.firestore.onDocumentCreated(
+  "pendingUsers/{uid}",
+  async (event) => {
+    const pending = event.data?.data();
+    if (!pending) return;
+    const uid = event.params.uid;
+
+    // The Auth record is the authority; the client's flag is only a hint
+    const emailVerified = await admin
+      .auth()
+      .getUser(uid)
+      .then((user) => user.emailVerified, () => false);
+    if (pending.emailVerified !== emailVerified) {
+      await event.data?.ref.update({emailVerified});
+    }
+    // markEmailVerified runs the rules once the address is confirmed
+    if (!emailVerified) return;
+
+    await applyRulesTo(uid, {...pending, emailVerified});
+  }
+);
+
+// ↩️ Undo an automated decision and put the signup back for manual review
+export const revertApprovalDecision = functions.https.onCall(
+  async (request: functions.https.CallableRequest<{ decisionId: string }>) => {
+    const auth = assertCan(request, "users.approve");
+    const db = admin.firestore();
+    const decisionRef = db
+      .collection("approvalDecisions")
+      .doc(String(request.data.decisionId || ""));
+
+    const decision = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(decisionRef);
+      const data = snap.data();
+      if (!data) {
+        throw new functions.https.HttpsError(
+          "not-found",
+          "Decision not found."
+        );
+      }
+      if (data.status !== "applied") {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          "This decision has already been reverted."
+        );
+      }
+
+      if (data.decision === "approve") {
+        tx.update(db.collection("users").doc(data.uid), {
+          role: "pending",
+          approvedAt: admin.firestore.FieldValue.delete(),
+        });
+      } else {
+        tx.delete(db.collection("rejectedUsers").doc(data.uid));
+        tx.set(db.collection("users").doc(data.uid), {
+          uid: data.uid,
+          email: data.email || "",
+          displayName: data.displayName || "",
+          role: "pending",
+        }, {merge: true});
+      }
+      tx.set(db.collection("pendingUsers").doc(data.uid), {
+        ...data.pending,
+        manualReview: true,
+      });
+      tx.update(decisionRef, {
+        status: "reverted",
+        revertedBy: auth.uid,
+        revertedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return data;
+    });
+
+    await logActivity({
+      userId: auth.uid,
+      userName: auth.token.name || auth.token.email || "Admin",
+      action: "reverted auto-decision",
+      target: decision.displayName || decision.email,
+      details: `Rule: ${decision.ruleName} (${decision.decision})`,
+    });
+    return {success: true};
+  }
+);
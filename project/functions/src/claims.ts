@@ -0,0 +1,185 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  capabilitiesFor,
+  grantedCapabilities,
+  loadRole,
+} from "./permissions";
+import {assertSignedIn} from "./guards";
+
+// 🔐 Claims mirrored from users/{uid} and its role onto the Auth user
+export interface RoleClaims {
+  role?: string;
+  isSuperAdmin?: boolean;
+  caps?: string[]; // capabilities granted by the role
+  readOnly?: boolean; // the role may not write anything
+  accessUntil?: number; // seconds since the epoch, for time-boxed accounts
+}
+
+const CLAIM_KEYS: (keyof RoleClaims)[] =
+  ["role", "isSuperAdmin", "caps", "readOnly", "accessUntil"];
+
+/**
+ * Builds the role claims for a users document.
+ * @param {admin.firestore.DocumentData} data The users document, if any.
+ * @return {Promise<RoleClaims>} The claims the Auth user should carry.
+ */
+export async function claimsFromUserDoc(
+  data?: admin.firestore.DocumentData
+): Promise<RoleClaims> {
+  if (!data) return {};
+  const role = data.role || "pending";
+  const definition = await loadRole(role);
+  const claims: RoleClaims = {
+    role,
+    isSuperAdmin: data.isSuperAdmin === true,
+    caps: grantedCapabilities(definition),
+  };
+  if (definition?.readOnly) claims.readOnly = true;
+  if (data.accessExpiresAt) {
+    claims.accessUntil = (data.accessExpiresAt as admin.firestore.Timestamp)
+      .seconds;
+  }
+  return claims;
+}
+
+/**
+ * Compares two capability lists regardless of order.
+ * @param {string[]} a One list, possibly missing.
+ * @param {string[]} b The other list, possibly missing.
+ * @return {boolean} Whether they hold the same capabilities.
+ */
+function sameCapabilities(a?: string[], b?: string[]): boolean {
+  return [...(a || [])].sort().join(",") === [...(b || [])].sort().join(",");
+}
+
+/**
+ * Writes role claims onto an Auth user, keeping any unrelated claims.
+ * @param {string} uid The Auth user id.
+ * @param {RoleClaims} claims The role claims to apply.
+ * @return {Promise<boolean>} Whether the claims actually changed.
+ */
+export async function applyRoleClaims(
+  uid: string,
+  claims: RoleClaims
+): Promise<boolean> {
+  let user: admin.auth.UserRecord;
+  try {
+    user = await admin.auth().getUser(uid);
+  } catch (err) {
+    if ((err as { code?: string }).code === "auth/user-not-found") {
+      console.warn(`No Auth user for ${uid}, skipping claims sync.`);
+      return false;
+    }
+    throw err;
+  }
+
+  const current = user.customClaims || {};
+  if (
+    current.role === claims.role &&
+    (current.isSuperAdmin === true) === (claims.isSuperAdmin === true) &&
+    sameCapabilities(current.caps, claims.caps) &&
+    (current.readOnly === true) === (claims.readOnly === true) &&
+    current.accessUntil === claims.accessUntil
+  ) {
+    return false;
+  }
+
+  const otherClaims = {...current};
+  CLAIM_KEYS.forEach((key) => delete otherClaims[key]);
+  await admin.auth().setCustomUserClaims(uid, {...otherClaims, ...claims});
+  return true;
+}
+
+/**
+ * Stamps the users document so signed-in clients refresh their ID token.
+ * @param {string} uid The user whose claims changed.
+ * @return {Promise<void>}
+ */
+async function markClaimsUpdated(uid: string): Promise<void> {
+  await admin.firestore().collection("users").doc(uid).set(
+    {claimsUpdatedAt: admin.firestore.FieldValue.serverTimestamp()},
+    {merge: true}
+  );
+}
+
+// 🔄 Keep custom claims in step with users/{uid}.role and isSuperAdmin
+export const syncUserClaims = functions.firestore.onDocumentWritten(
+  "users/{uid}",
+  async (event) => {
+    const uid = event.params.uid;
+    const after = event.data?.after;
+    const data = after?.exists ? after.data() : undefined;
+
+    const changed = await applyRoleClaims(
+      uid,
+      await claimsFromUserDoc(data)
+    );
+
+    // The stamp re-triggers this function, which then finds nothing to change
+    if (changed && data) {
+      await markClaimsUpdated(uid);
+    }
+  }
+);
+
+// 🧩 Re-issue claims for everyone holding a role when it is edited
+export const syncRoleClaims = functions.firestore.onDocumentWritten(
+  "roles/{roleId}",
+  async (event) => {
+    const holders = await admin
+      .firestore()
+      .collection("users")
+      .where("role", "==", event.params.roleId)
+      .get();
+
+    for (const userDoc of holders.docs) {
+      const claims = await claimsFromUserDoc(userDoc.data());
+      if (await applyRoleClaims(userDoc.id, claims)) {
+        await markClaimsUpdated(userDoc.id);
+      }
+    }
+  }
+);
+
+// 🧹 One-off backfill for users created before the trigger existed
+export const backfillUserClaims = functions.https.onCall(
+  async (request: functions.https.CallableRequest) => {
+    const auth = assertSignedIn(request);
+
+    // Existing admins may not carry the claims yet, so read the document
+    const callerSnap = await admin
+      .firestore()
+      .collection("users")
+      .doc(auth.uid)
+      .get();
+    const caller = callerSnap.data();
+    if (
+      caller?.isSuperAdmin !== true &&
+      !(await capabilitiesFor(caller?.role || "pending"))
+        .includes("roles.manage")
+    ) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "You need the roles.manage permission to perform this action."
+      );
+    }
+
+    const snapshot = await admin.firestore().collection("users").get();
+    let updated = 0;
+
+    for (const userDoc of snapshot.docs) {
+      const claims = await claimsFromUserDoc(userDoc.data());
+      if (await applyRoleClaims(userDoc.id, claims)) {
+        await markClaimsUpdated(userDoc.id);
+        updated++;
+      }
+    }
+
+    return {
+      success: true,
+      total: snapshot.size,
+      updated,
+    };
+  }
+);
@@ -0,0 +1,164 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {logActivity} from "./activity";
+import {assertCan} from "./guards";
+
+// 🙈 Bookkeeping that changes without anyone editing the course: seat
+// counters, the review workflow and the fields that describe the change.
+// Status is tracked, so rolling back also restores it.
+const UNTRACKED_FIELDS = [
+  "createdAt",
+  "updatedAt",
+  "updatedBy",
+  "updatedByName",
+  "currentParticipants",
+  "waitlist",
+  "draft",
+  "review",
+  "publishedAt",
+  "publishedByName",
+  "lastRollback",
+];
+
+type CourseFields = Record<string, unknown>;
+
+// 🧾 courses/{courseId}/revisions/{revisionId}, written only here
+interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// 📦 Data shape from CourseHistory
+interface RollbackCourseData {
+  courseId: string;
+  revisionId: string;
+}
+
+/**
+ * The course fields a revision keeps.
+ * @param {CourseFields} data A course document.
+ * @return {CourseFields} The data without untracked fields.
+ */
+export function trackedFields(data: CourseFields): CourseFields {
+  return Object.fromEntries(
+    Object.entries(data).filter(([key]) => !UNTRACKED_FIELDS.includes(key))
+  );
+}
+
+/**
+ * A comparable form of a Firestore value; maps may come back with their
+ * keys in any order.
+ * @param {unknown} value A field value.
+ * @return {string} The same string for equal values.
+ */
+function canonical(value: unknown): string {
+  if (value instanceof admin.firestore.Timestamp) {
+    return `timestamp:${value.toMillis()}`;
+  }
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    const map = value as Record<string, unknown>;
+    return `{${Object.keys(map).sort()
+      .map((key) => `${key}:${canonical(map[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+// 🕰️ Keep an immutable revision of every course change, with its author,
+// the changed fields and the full course as it stood afterwards
+export const recordCourseRevision = functions.firestore.onDocumentWritten(
+  "courses/{courseId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!after || !event.data) return;
+
+    const previous = before ? trackedFields(before) : {};
+    const current = trackedFields(after);
+    const changes: FieldChange[] = [
+      ...new Set([...Object.keys(previous), ...Object.keys(current)]),
+    ]
+      .sort()
+      .filter((field) =>
+        canonical(previous[field]) !== canonical(current[field]))
+      .map((field) => ({
+        field,
+        before: previous[field] ?? null,
+        after: current[field] ?? null,
+      }));
+    if (!changes.length) return;
+
+    const rolledBack =
+      canonical(before?.lastRollback) !== canonical(after.lastRollback);
+    await event.data.after.ref.collection("revisions").add({
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      authorId: after.updatedBy || null,
+      authorName: after.updatedByName || "System",
+      action: !before ? "created" : rolledBack ? "rolled back" : "updated",
+      rolledBackTo: rolledBack ? after.lastRollback?.revisionId ?? null : null,
+      changes,
+      snapshot: current,
+    });
+  }
+);
+
+// ⏪ Put a course back the way it was after an earlier revision. The
+// rollback is itself recorded as a new revision.
+export const rollbackCourse = functions.https.onCall(
+  async (request: functions.https.CallableRequest<RollbackCourseData>) => {
+    const auth = assertCan(request, "courses.manage");
+    const {courseId, revisionId} = request.data;
+    if (!courseId || !revisionId) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A course and a revision are required."
+      );
+    }
+
+    const courseRef = admin.firestore().collection("courses").doc(courseId);
+    const [courseSnap, revisionSnap] = await Promise.all([
+      courseRef.get(),
+      courseRef.collection("revisions").doc(revisionId).get(),
+    ]);
+    if (!courseSnap.exists || !revisionSnap.exists) {
+      throw new functions.https.HttpsError(
+        "not-found",
+        "Course revision not found."
+      );
+    }
+
+    const snapshot = (revisionSnap.data()?.snapshot || {}) as CourseFields;
+    const update: CourseFields = {...snapshot};
+    // Fields added since the revision go too
+    Object.keys(trackedFields(courseSnap.data() || {}))
+      .filter((field) => !(field in snapshot))
+      .forEach((field) => {
+        update[field] = admin.firestore.FieldValue.delete();
+      });
+
+    const actorName = auth.token.name || auth.token.email || "Admin";
+    await courseRef.update({
+      ...update,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedBy: auth.uid,
+      updatedByName: actorName,
+      lastRollback: {
+        revisionId,
+        at: admin.firestore.FieldValue.serverTimestamp(),
+      },
+    });
+
+    const revisionDate = revisionSnap.data()?.createdAt?.toDate();
+    await logActivity({
+      userId: auth.uid,
+      userName: actorName,
+      action: "rolled back course",
+      target: String(snapshot.title || courseSnap.data()?.title || courseId),
+      details: revisionDate ?
+        `To the revision of ${revisionDate.toISOString()}` :
+        `To revision ${revisionId}`,
+    });
+    return {success: true};
+  }
+);
@@ -0,0 +1,172 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import JSZip from "jszip";
+import {logActivity} from "./activity";
+import {assertSignedIn, hasCapability} from "./guards";
+
+// 🗂️ Collections holding a user's personal data and the fields keyed by uid
+interface ExportSource {
+  collection: string;
+  // "__id__" when the document id is the uid
+  fields: string[];
+}
+
+const EXPORT_SOURCES: ExportSource[] = [
+  {collection: "users", fields: ["__id__"]},
+  {collection: "enrollments", fields: ["__id__"]},
+  {collection: "grades", fields: ["traineeId"]},
+  {collection: "finalGrade", fields: ["traineeId"]},
+  {collection: "attendance", fields: ["userId"]},
+  {collection: "feedbacks", fields: ["traineeId", "trainerId"]},
+  {collection: "activityLogs", fields: ["userId"]},
+  {collection: "videoProgress", fields: ["userId"]},
+  {collection: "documentProgress", fields: ["userId"]},
+  {collection: "progress", fields: ["userId"]},
+  {collection: "userSessions", fields: ["uid"]},
+];
+
+type ExportRecord = Record<string, unknown>;
+
+interface ManifestEntry {
+  collection: string;
+  records: number;
+  files: string[];
+}
+
+/**
+ * Converts Firestore values into plain JSON, turning timestamps into ISO
+ * strings and references into paths.
+ * @param {unknown} value A field value read from Firestore.
+ * @return {unknown} The JSON-safe value.
+ */
+function toPlain(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate().toISOString();
+  }
+  if (value instanceof admin.firestore.DocumentReference) {
+    return value.path;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlain);
+  }
+  if (value && typeof value === "object") {
+    const plain: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, nested]) => {
+      plain[key] = toPlain(nested);
+    });
+    return plain;
+  }
+  return value;
+}
+
+/**
+ * Reads every document of one source that belongs to the user.
+ * @param {ExportSource} source Where to look.
+ * @param {string} uid The user whose data is exported.
+ * @return {Promise<ExportRecord[]>} The documents, with their ids.
+ */
+async function collectRecords(
+  source: ExportSource,
+  uid: string
+): Promise<ExportRecord[]> {
+  const collection = admin.firestore().collection(source.collection);
+  const records = new Map<string, ExportRecord>();
+
+  for (const field of source.fields) {
+    const docs = field === "__id__" ?
+      [await collection.doc(uid).get()].filter((snap) => snap.exists) :
+      (await collection.where(field, "==", uid).get()).docs;
+
+    docs.forEach((doc) => {
+      records.set(doc.id, {id: doc.id, ...(toPlain(doc.data()) as object)});
+    });
+  }
+  return [...records.values()];
+}
+
+/**
+ * Quotes a value for a CSV cell; nested values are written as JSON.
+ * @param {unknown} value The cell value.
+ * @return {string} The escaped cell.
+ */
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "object" ?
+    JSON.stringify(value) :
+    String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+/**
+ * Renders records as CSV with one column per top-level field.
+ * @param {ExportRecord[]} records The records to render.
+ * @return {string} The CSV text.
+ */
+function toCsv(records: ExportRecord[]): string {
+  const columns = new Set<string>();
+  records.forEach((record) => {
+    Object.keys(record).forEach((key) => columns.add(key));
+  });
+  const header = [...columns];
+  const lines = records.map((record) =>
+    header.map((column) => csvCell(record[column])).join(",")
+  );
+  return [header.join(","), ...lines].join("\n");
+}
+
+// 📦 Export a user's data as a ZIP of JSON and CSV files with a manifest
+export const exportUserData = functions.https.onCall(
+  {timeoutSeconds: 300},
+  async (request: functions.https.CallableRequest<{ uid?: string }>) => {
+    const auth = assertSignedIn(request);
+    const uid = request.data?.uid || auth.uid;
+
+    if (uid !== auth.uid && !hasCapability(auth, "data.export")) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "You cannot export another user's data."
+      );
+    }
+
+    const zip = new JSZip();
+    const files: ManifestEntry[] = [];
+
+    for (const source of EXPORT_SOURCES) {
+      const records = await collectRecords(source, uid);
+      const names = [`${source.collection}.json`, `${source.collection}.csv`];
+      zip.file(names[0], JSON.stringify(records, null, 2));
+      zip.file(names[1], toCsv(records));
+      files.push({
+        collection: source.collection,
+        records: records.length,
+        files: names,
+      });
+    }
+
+    const generatedAt = new Date().toISOString();
+    const manifest = {
+      subject: uid,
+      requestedBy: auth.uid,
+      generatedAt,
+      collections: files,
+    };
+    zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+
+    const actorName = auth.token.name || auth.token.email || "User";
+    await logActivity({
+      userId: auth.uid,
+      userName: actorName,
+      action: "exported data",
+      target: uid === auth.uid ? actorName : uid,
+    });
+
+    return {
+      fileName: `user-data-${uid}-${generatedAt.slice(0, 10)}.zip`,
+      zipBase64: await zip.generateAsync({
+        type: "base64",
+        compression: "DEFLATE",
+      }),
+      manifest,
+    };
+  }
+);
@@ -0,0 +1,415 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {createHash} from "crypto";
+import {logActivity} from "./activity";
+import {assertCan, hasCapability} from "./guards";
+import {releaseSeat} from "./enrollment";
+import {localeFor, sendTemplatedMail} from "./templates";
+import {Actor} from "./suspension";
+
+export type RetentionAction = "delete" | "anonymize";
+
+// 🗂️ Where user-owned documents live and what happens to them on deletion
+export interface RetentionRule {
+  collection: string;
+  // Field holding the uid, or "__id__" when the document id is the uid,
+  // which always means "delete"
+  field: string;
+  // Mail records hold the recipient's address rather than the uid
+  matchEmail?: boolean;
+  // Audit entries name the user by display name or address
+  matchName?: boolean;
+  action: RetentionAction;
+  // Fields overwritten with a placeholder name when anonymizing
+  nameFields?: string[];
+  // Free-text fields in which the user's name and address are replaced
+  scrubFields?: string[];
+  // Anonymizing the account itself is not an option
+  fixed?: boolean;
+}
+
+const DELETED_NAME = "Deleted user";
+
+export const DEFAULT_RETENTION_POLICY: RetentionRule[] = [
+  {collection: "users", field: "__id__", action: "delete", fixed: true},
+  {collection: "pendingUsers", field: "__id__", action: "delete", fixed: true},
+  {collection: "rejectedUsers", field: "__id__", action: "delete", fixed: true},
+  {collection: "tokenRevocations", field: "__id__", action: "delete",
+    fixed: true},
+  {collection: "emailVerifications", field: "__id__", action: "delete",
+    fixed: true},
+  {collection: "enrollments", field: "__id__", action: "delete"},
+  {collection: "grades", field: "traineeId", action: "delete",
+    nameFields: ["traineeName"]},
+  {collection: "finalGrade", field: "traineeId", action: "delete",
+    nameFields: ["traineeName"]},
+  {collection: "attendance", field: "userId", action: "delete"},
+  {collection: "videoProgress", field: "userId", action: "delete"},
+  {collection: "documentProgress", field: "userId", action: "delete"},
+  {collection: "progress", field: "userId", action: "delete"},
+  {collection: "feedbacks", field: "traineeId", action: "delete"},
+  {collection: "feedbacks", field: "trainerId", action: "anonymize"},
+  {collection: "hiddenMessages", field: "traineeId", action: "delete"},
+  {collection: "hiddenMessages", field: "trainerId", action: "delete"},
+  {collection: "trainingMaterials", field: "trainerId", action: "anonymize",
+    nameFields: ["trainerName"]},
+  {collection: "activityLogs", field: "userId", action: "anonymize",
+    nameFields: ["userName"], scrubFields: ["target", "details"]},
+  {collection: "activityLogs", field: "target", matchName: true,
+    action: "anonymize", scrubFields: ["details"]},
+  {collection: "Notifications", field: "traineeId", action: "delete"},
+  {collection: "Notifications", field: "trainerId", action: "delete"},
+  {collection: "approvalDecisions", field: "uid", action: "delete"},
+  {collection: "invitations", field: "email", matchEmail: true,
+    action: "delete"},
+  {collection: "invitations", field: "createdBy", action: "anonymize",
+    nameFields: ["createdByName"]},
+  {collection: "mailOutbox", field: "to", matchEmail: true, action: "delete"},
+  {collection: "emailLog", field: "to", matchEmail: true, action: "anonymize",
+    scrubFields: ["subject"]},
+  {collection: "mailQueue", field: "to", matchEmail: true, action: "delete"},
+  {collection: "impersonationSessions", field: "adminUid",
+    action: "anonymize", nameFields: ["adminName"]},
+  {collection: "impersonationSessions", field: "targetUid",
+    action: "anonymize", nameFields: ["targetName"]},
+  {collection: "userSessions", field: "uid", action: "delete"},
+];
+
+// 🪪 How records may name the user being deleted
+export interface DeletedIdentity {
+  email: string;
+  name: string;
+}
+
+export interface DeletionReceiptEntry {
+  collection: string;
+  field: string;
+  action: RetentionAction;
+  count: number;
+  failed: number; // writes that did not go through
+}
+
+/**
+ * Stable pseudonym for a deleted uid, so anonymized records still group
+ * together without pointing at the person.
+ * @param {string} uid The deleted user's uid.
+ * @return {string} The pseudonymous id.
+ */
+export function pseudonymFor(uid: string): string {
+  const digest = createHash("sha256").update(uid).digest("hex");
+  return `deleted-${digest.slice(0, 16)}`;
+}
+
+/**
+ * Applies per-collection overrides, a map of collection name to "delete"
+ * or "anonymize", to the default policy. Documents keyed by the uid have
+ * no uid field to replace, so they can only be deleted.
+ * @param {Record<string, unknown>} overrides settings/retentionPolicy.
+ * @return {RetentionRule[]} The effective policy.
+ */
+export function effectivePolicy(
+  overrides: Record<string, unknown>
+): RetentionRule[] {
+  return DEFAULT_RETENTION_POLICY.map((rule) => {
+    const override = overrides[rule.collection];
+    if (rule.fixed || (override !== "delete" && override !== "anonymize")) {
+      return rule;
+    }
+    if (override === "anonymize" && rule.field === "__id__") {
+      console.warn(
+        `Ignoring anonymize for ${rule.collection}: its documents are keyed ` +
+          "by the uid and can only be deleted."
+      );
+      return rule;
+    }
+    return {...rule, action: override};
+  });
+}
+
+/**
+ * Reads the retention policy with the overrides from
+ * settings/retentionPolicy applied.
+ * @return {Promise<RetentionRule[]>} The effective policy.
+ */
+async function loadRetentionPolicy(): Promise<RetentionRule[]> {
+  const snap = await admin
+    .firestore()
+    .collection("settings")
+    .doc("retentionPolicy")
+    .get();
+  return effectivePolicy(snap.data() || {});
+}
+
+/**
+ * Replaces the user's address and name, as whole words, in free text.
+ * @param {string} text The text to scrub.
+ * @param {DeletedIdentity} identity The deleted user.
+ * @return {string} The text without them.
+ */
+function scrubIdentity(text: string, identity: DeletedIdentity): string {
+  // The address first, so the name does not break it apart
+  return [identity.email, identity.name]
+    .filter((value) => value.trim())
+    .reduce((result, value) => {
+      const escaped = value.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      return result.replace(
+        new RegExp(`(?<!\\w)${escaped}(?!\\w)`, "gi"),
+        DELETED_NAME
+      );
+    }, text);
+}
+
+/**
+ * The update that anonymizes one document: the matched field becomes the
+ * pseudonym, name fields a placeholder, and the user's name and address
+ * are scrubbed from free-text fields.
+ * @param {RetentionRule} rule The anonymizing rule.
+ * @param {string} pseudonym The deleted user's pseudonym.
+ * @param {admin.firestore.DocumentData} data The document's fields.
+ * @param {DeletedIdentity} identity The deleted user.
+ * @return {Record<string, string>} The fields to write.
+ */
+export function anonymizedFields(
+  rule: RetentionRule,
+  pseudonym: string,
+  data: admin.firestore.DocumentData = {},
+  identity: DeletedIdentity = {email: "", name: ""}
+): Record<string, string> {
+  const update: Record<string, string> = {};
+  (rule.scrubFields || []).forEach((field) => {
+    if (typeof data[field] !== "string") return;
+    const scrubbed = scrubIdentity(data[field], identity);
+    if (scrubbed !== data[field]) update[field] = scrubbed;
+  });
+  update[rule.field] = pseudonym;
+  (rule.nameFields || []).forEach((field) => {
+    update[field] = DELETED_NAME;
+  });
+  return update;
+}
+
+/**
+ * Finds the documents a retention rule covers for one user.
+ * @param {RetentionRule} rule The rule to apply.
+ * @param {string} uid The user being deleted.
+ * @param {DeletedIdentity} identity The user's address and name, if known.
+ * @return {Promise<admin.firestore.DocumentSnapshot[]>} Matching documents.
+ */
+async function findDocuments(
+  rule: RetentionRule,
+  uid: string,
+  identity: DeletedIdentity
+): Promise<admin.firestore.DocumentSnapshot[]> {
+  const collection = admin.firestore().collection(rule.collection);
+  if (rule.matchEmail || rule.matchName) {
+    const {email, name} = identity;
+    const values = [...new Set([
+      email,
+      email.toLowerCase(),
+      ...(rule.matchName ? [name] : []),
+    ])].filter(Boolean);
+    if (!values.length) return [];
+    const snapshot = await collection.where(rule.field, "in", values).get();
+    return snapshot.docs;
+  }
+  if (rule.field === "__id__") {
+    const snap = await collection.doc(uid).get();
+    return snap.exists ? [snap] : [];
+  }
+  const snapshot = await collection.where(rule.field, "==", uid).get();
+  return snapshot.docs;
+}
+
+/**
+ * Gives up the user's course seats and waitlist places, so the next
+ * trainees in line move up as when they unenroll.
+ * @param {string} uid The account being deleted.
+ * @return {Promise<void>}
+ */
+async function releaseSeats(uid: string): Promise<void> {
+  const db = admin.firestore();
+  const [enrollment, waitlisted] = await Promise.all([
+    db.collection("enrollments").doc(uid).get(),
+    db.collection("courses").where("waitlist", "array-contains", uid).get(),
+  ]);
+  const courseIds = new Set<string>([
+    ...((enrollment.data()?.courses || []) as { courseId: string }[])
+      .map((entry) => entry.courseId),
+    ...waitlisted.docs.map((course) => course.id),
+  ]);
+  for (const courseId of courseIds) {
+    await releaseSeat(uid, courseId);
+  }
+}
+
+/**
+ * Removes the files the user uploaded under users/{uid}/ in Storage, such
+ * as their profile photo.
+ * @param {string} uid The account being deleted.
+ * @return {Promise<number>} How many files were removed.
+ */
+async function deleteUserFiles(uid: string): Promise<number> {
+  const bucket = admin.storage().bucket();
+  const [files] = await bucket.getFiles({prefix: `users/${uid}/`});
+  await Promise.all(files.map((file) => file.delete()));
+  return files.length;
+}
+
+/**
+ * Deletes or anonymizes every document keyed by a uid, and the user's
+ * uploaded files, then removes the Auth account and stores a deletion
+ * receipt. Writes that fail are counted in the receipt rather than
+ * reported as done.
+ * @param {string} uid The account to delete.
+ * @param {Actor} actor Who requested the deletion.
+ * @return {Promise<object>} The stored receipt, with its id.
+ */
+export async function deleteUserData(uid: string, actor: Actor) {
+  const db = admin.firestore();
+  const pseudonym = pseudonymFor(uid);
+  const policy = await loadRetentionPolicy();
+  const writer = db.bulkWriter();
+  const entries: DeletionReceiptEntry[] = [];
+  const profile = (await db.collection("users").doc(uid).get()).data();
+  const identity: DeletedIdentity = {
+    email: String(profile?.email || ""),
+    name: String(profile?.displayName || ""),
+  };
+  // A document matched by several rules is handled by the first
+  const handled = new Set<string>();
+
+  // Each write settles on its own; failures are counted into the receipt
+  const writes: Promise<unknown>[] = [];
+
+  await releaseSeats(uid);
+  for (const rule of policy) {
+    const snaps = (await findDocuments(rule, uid, identity))
+      .filter((snap) => !handled.has(snap.ref.path));
+    const entry: DeletionReceiptEntry = {
+      collection: rule.collection,
+      field: rule.field,
+      action: rule.action,
+      count: snaps.length,
+      failed: 0,
+    };
+    for (const snap of snaps) {
+      handled.add(snap.ref.path);
+      let write: Promise<unknown>;
+      if (rule.action === "delete") {
+        write = writer.delete(snap.ref);
+      } else {
+        write = writer.update(
+          snap.ref,
+          anonymizedFields(rule, pseudonym, snap.data(), identity)
+        );
+      }
+      writes.push(write.catch((err) => {
+        console.error(`Could not ${rule.action} ${snap.ref.path}:`, err);
+        entry.failed++;
+      }));
+    }
+    entries.push(entry);
+  }
+  await writer.close();
+  await Promise.all(writes);
+  const failed = entries.reduce((sum, entry) => sum + entry.failed, 0);
+  const filesDeleted = await deleteUserFiles(uid);
+
+  let authDeleted = true;
+  try {
+    await admin.auth().deleteUser(uid);
+  } catch (err) {
+    if ((err as { code?: string }).code !== "auth/user-not-found") throw err;
+    authDeleted = false;
+  }
+
+  const receipt = {
+    subject: pseudonym,
+    requestedBy: actor.uid,
+    requestedByName: actor.name,
+    completedAt: admin.firestore.FieldValue.serverTimestamp(),
+    authDeleted,
+    filesDeleted,
+    // False when some documents could not be deleted or anonymized
+    complete: failed === 0,
+    collections: entries,
+  };
+  const receiptRef = await db.collection("deletionReceipts").add(receipt);
+
+  await logActivity({
+    userId: actor.uid,
+    userName: actor.name,
+    action: "deleted",
+    target: pseudonym,
+    details: `Deletion receipt ${receiptRef.id}` +
+      (failed ? `, ${failed} records could not be removed` : ""),
+  });
+
+  return {id: receiptRef.id, ...receipt, completedAt: new Date().toISOString()};
+}
+
+// 🗑️ Delete an account and everything keyed by its uid
+export const deleteUserAccount = functions.https.onCall(
+  {timeoutSeconds: 300},
+  async (request: functions.https.CallableRequest<{ uid: string }>) => {
+    const auth = assertCan(request, "users.manage");
+    const {uid} = request.data;
+
+    if (!uid) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A user is required."
+      );
+    }
+    if (uid === auth.uid) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "You cannot delete your own account."
+      );
+    }
+
+    const target = await admin.firestore().collection("users").doc(uid).get();
+    if (target.data()?.isSuperAdmin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "You cannot delete the Super Admin."
+      );
+    }
+    if (
+      target.data()?.role === "admin" &&
+      !hasCapability(auth, "admins.manage")
+    ) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Only Super Admins can delete admins."
+      );
+    }
+
+    // Read before the users document goes
+    const {email, displayName} = target.data() || {};
+    const locale = await localeFor(uid);
+
+    // Sent straight away rather than queued, and before the purge, so the
+    // log and outbox records of the send are purged with everything else
+    let emailSent = false;
+    if (email) {
+      try {
+        await sendTemplatedMail(
+          "accountDeleted",
+          email,
+          {name: displayName || email, message: ""},
+          locale
+        );
+        emailSent = true;
+      } catch (err) {
+        console.error("Deletion email could not be sent:", err);
+      }
+    }
+
+    const receipt = await deleteUserData(uid, {
+      uid: auth.uid,
+      name: auth.token.name || auth.token.email || "Admin",
+    });
+    return {success: true, receipt, emailSent};
+  }
+);
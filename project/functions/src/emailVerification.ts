@@ -0,0 +1,217 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {applyRulesTo} from "./approvalRules";
+import {assertCan, assertSignedIn} from "./guards";
+import {enqueueMail} from "./mailQueue";
+import {localeFor} from "./templates";
+
+// Resends are limited per account so the mail queue cannot be flooded
+const RESEND_COOLDOWN_SECONDS = 60;
+const MAX_SENDS_PER_DAY = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SYNC_BATCH = 200;
+
+// 📦 Data shapes from AuthContext, the pending banner and PendingUsers
+interface SendVerificationData {
+  appUrl: string;
+}
+
+interface SyncVerificationData {
+  uids?: string[]; // omitted to check the caller
+}
+
+// 🧮 emailVerifications/{uid}: resend bookkeeping, only read by functions
+interface SendLog {
+  lastSentAt: admin.firestore.Timestamp;
+  windowStart: admin.firestore.Timestamp;
+  count: number;
+}
+
+/**
+ * Checks the Auth record, which is the only trustworthy source.
+ * @param {string} uid The account.
+ * @return {Promise<boolean>} Whether its email is verified.
+ */
+export async function isEmailVerified(uid: string): Promise<boolean> {
+  return admin
+    .auth()
+    .getUser(uid)
+    .then((user) => user.emailVerified, () => false);
+}
+
+/**
+ * Marks a pending signup as verified and gives the approval rules a
+ * chance to decide it.
+ * @param {string} uid The pending user.
+ * @return {Promise<void>}
+ */
+async function markEmailVerified(uid: string): Promise<void> {
+  const pendingRef = admin.firestore().collection("pendingUsers").doc(uid);
+  const snap = await pendingRef.get();
+  const pending = snap.data();
+  if (!pending || pending.emailVerified === true) return;
+
+  await pendingRef.update({
+    emailVerified: true,
+    emailVerifiedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  await applyRulesTo(uid, {...pending, emailVerified: true});
+}
+
+/**
+ * Refuses a send when the account is over its limits.
+ * @param {SendLog | undefined} log The account's bookkeeping, if any.
+ * @param {number} now The current time in milliseconds.
+ */
+function assertWithinLimits(log: SendLog | undefined, now: number): void {
+  if (log) {
+    const wait = RESEND_COOLDOWN_SECONDS -
+      Math.floor((now - log.lastSentAt.toMillis()) / 1000);
+    if (wait > 0) {
+      throw new functions.https.HttpsError(
+        "resource-exhausted",
+        `Please wait ${wait} seconds before asking for another email.`,
+        {retryAfterSeconds: wait}
+      );
+    }
+  }
+
+  const sameWindow = log && now - log.windowStart.toMillis() < DAY_MS;
+  if (sameWindow && log.count >= MAX_SENDS_PER_DAY) {
+    throw new functions.https.HttpsError(
+      "resource-exhausted",
+      "Too many verification emails today. Please try again tomorrow."
+    );
+  }
+}
+
+/**
+ * Checks the account's limits and claims a send in one transaction, so
+ * parallel requests cannot all slip under the limits before any is
+ * counted.
+ * @param {string} uid The account asking for a link.
+ * @return {Promise<object>} The bookkeeping before and after the claim,
+ * for releaseSend.
+ */
+async function reserveSend(
+  uid: string
+): Promise<{ previous?: SendLog; reserved: SendLog }> {
+  const db = admin.firestore();
+  const logRef = db.collection("emailVerifications").doc(uid);
+
+  return db.runTransaction(async (tx) => {
+    const previous = (await tx.get(logRef)).data() as SendLog | undefined;
+    const now = Date.now();
+    assertWithinLimits(previous, now);
+
+    const sameWindow =
+      previous && now - previous.windowStart.toMillis() < DAY_MS;
+    const reserved: SendLog = {
+      lastSentAt: admin.firestore.Timestamp.fromMillis(now),
+      windowStart: sameWindow ?
+        previous.windowStart :
+        admin.firestore.Timestamp.fromMillis(now),
+      count: sameWindow ? previous.count + 1 : 1,
+    };
+    tx.set(logRef, reserved);
+    return {previous, reserved};
+  });
+}
+
+/**
+ * Gives back a claimed send whose email could not be queued, so a failed
+ * send does not use up the account's allowance.
+ * @param {string} uid The account.
+ * @param {object} claim What reserveSend returned.
+ * @return {Promise<void>}
+ */
+async function releaseSend(
+  uid: string,
+  claim: { previous?: SendLog; reserved: SendLog }
+): Promise<void> {
+  const db = admin.firestore();
+  const logRef = db.collection("emailVerifications").doc(uid);
+
+  await db.runTransaction(async (tx) => {
+    const current = (await tx.get(logRef)).data() as SendLog | undefined;
+    // Leave a later send's claim alone
+    if (!current?.lastSentAt.isEqual(claim.reserved.lastSentAt)) return;
+    if (claim.previous) {
+      tx.set(logRef, claim.previous);
+    } else {
+      tx.delete(logRef);
+    }
+  });
+}
+
+// ✉️ Send (or resend) the caller's email verification link
+export const sendVerificationEmail = functions.https.onCall(
+  async (request: functions.https.CallableRequest<SendVerificationData>) => {
+    const auth = assertSignedIn(request);
+    const {appUrl} = request.data;
+    if (!/^https?:\/\//.test(appUrl || "")) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A valid app URL is required."
+      );
+    }
+
+    const user = await admin.auth().getUser(auth.uid);
+    if (!user.email) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "This account has no email address."
+      );
+    }
+    if (user.emailVerified) {
+      await markEmailVerified(auth.uid);
+      return {alreadyVerified: true};
+    }
+
+    const claim = await reserveSend(auth.uid);
+    try {
+      await enqueueMail(
+        "emailVerification",
+        user.email,
+        {name: user.displayName || user.email},
+        await localeFor(auth.uid),
+        {verifyLink: {kind: "emailVerification", continueUrl: appUrl}}
+      );
+    } catch (err) {
+      await releaseSend(auth.uid, claim);
+      throw err;
+    }
+
+    return {
+      alreadyVerified: false,
+      retryAfterSeconds: RESEND_COOLDOWN_SECONDS,
+    };
+  }
+);
+
+// 🔁 Copy verification from Auth to pendingUsers: the caller's own after
+// following the link, or a list of signups for PendingUsers
+export const syncEmailVerification = functions.https.onCall(
+  async (request: functions.https.CallableRequest<SyncVerificationData>) => {
+    const auth = request.data.uids ?
+      assertCan(request, "users.approve") :
+      assertSignedIn(request);
+    const uids = request.data.uids || [auth.uid];
+
+    if (!Array.isArray(uids) || uids.length > MAX_SYNC_BATCH) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        `At most ${MAX_SYNC_BATCH} users can be checked at once.`
+      );
+    }
+
+    const verified: string[] = [];
+    for (const uid of uids) {
+      if (await isEmailVerified(uid)) {
+        await markEmailVerified(uid);
+        verified.push(uid);
+      }
+    }
+    return {verified};
+  }
+);
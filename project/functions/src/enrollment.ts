@@ -0,0 +1,554 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {logActivity} from "./activity";
+import {assertCan, assertSignedIn} from "./guards";
+import {emailUser} from "./transactionalEmails";
+
+// 🧮 The course fields enrollment reads and keeps up to date
+interface CourseSeats {
+  title?: string;
+  status?: string;
+  capacity?: number | null; // missing or null means unlimited
+  currentParticipants?: number;
+  waitlist?: string[]; // uids, first come first served
+  unitIds?: string[];
+  prerequisites?: Prerequisite[];
+  [field: string]: unknown;
+}
+
+// 🔗 courses.prerequisites, set in the course forms
+interface Prerequisite {
+  courseId: string;
+  courseTitle: string;
+  minGrade: number | null; // any recorded grade counts when null
+}
+
+interface EnrolledCourse {
+  courseId: string;
+  [field: string]: unknown;
+}
+
+type EnrollResult =
+  {status: "enrolled"} | {status: "waitlisted"; position: number};
+
+// 📦 Data shapes from useCourses and CourseManagement
+interface CourseActionData {
+  courseId: string;
+}
+
+interface EnrollTraineeData {
+  courseId: string;
+  traineeId: string;
+  overrideReason?: string; // required when prerequisites are missing
+}
+
+/**
+ * Whether another trainee fits in the course.
+ * @param {CourseSeats} course The course document.
+ * @return {boolean} True when a seat is free.
+ */
+function hasSeat(course: CourseSeats): boolean {
+  if (!course.capacity) return true;
+  return (course.currentParticipants || 0) < course.capacity;
+}
+
+/**
+ * Stores currentParticipants on a course whose seats were never counted,
+ * from the trainees' enrollment documents. Runs once per course, before
+ * any transaction that seats or frees a trainee; later changes keep the
+ * stored count up to date.
+ * @param {string} courseId The course.
+ * @return {Promise<void>}
+ */
+async function ensureSeatCount(courseId: string): Promise<void> {
+  const db = admin.firestore();
+  const courseRef = db.collection("courses").doc(courseId);
+  const courseSnap = await courseRef.get();
+  if (!courseSnap.exists || courseSnap.data()?.currentParticipants != null) {
+    return;
+  }
+
+  const enrollments = await db.collection("enrollments").get();
+  const count = enrollments.docs.filter((enrollmentDoc) =>
+    ((enrollmentDoc.data().courses || []) as EnrolledCourse[])
+      .some((entry) => entry.courseId === courseId)
+  ).length;
+
+  // Another request may have counted the course in the meantime
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(courseRef);
+    if (snap.exists && snap.data()?.currentParticipants == null) {
+      tx.update(courseRef, {currentParticipants: count});
+    }
+  });
+}
+
+/**
+ * The instructors of a trainee's courses, which firestore.rules checks
+ * before letting a trainer read their user document.
+ * @param {EnrolledCourse[]} courses enrollments/{uid}.courses.
+ * @return {string[]} The distinct instructor uids, sorted.
+ */
+export function enrollmentInstructors(courses: EnrolledCourse[]): string[] {
+  const ids = courses
+    .map((entry) => String(entry.instructorId ?? ""))
+    .filter((id) => id);
+  return [...new Set(ids)].sort();
+}
+
+/**
+ * The entry stored in enrollments/{uid}.courses, a copy of the course
+ * details the trainee screens show.
+ * @param {string} courseId The course.
+ * @param {CourseSeats} course The course document.
+ * @return {object} The enrollment entry.
+ */
+function enrollmentEntry(courseId: string, course: CourseSeats) {
+  return {
+    courseId,
+    enrolledAt: admin.firestore.Timestamp.now(),
+    title: course.title || "",
+    instructorId: String(course.instructorId ?? ""),
+    instructorName: course.instructorName ?? "",
+    hours: course.hours ?? null,
+    level: course.level ?? null,
+    category: course.category ?? null,
+    startDate: course.startDate ?? null,
+    endDate: course.endDate ?? null,
+    materials: course.materials ?? [],
+    status: course.status ?? "active",
+  };
+}
+
+/**
+ * Reads the course id from a callable request.
+ * @param {CourseActionData} data The request data.
+ * @return {string} The course id.
+ */
+function requireCourseId(data: CourseActionData): string {
+  if (!data?.courseId) {
+    throw new functions.https.HttpsError(
+      "invalid-argument",
+      "A course is required."
+    );
+  }
+  return data.courseId;
+}
+
+/**
+ * The prerequisites a trainee has not completed yet. Published final
+ * grades and trainers' grades both count; the best grade is used.
+ * @param {string} uid The trainee.
+ * @param {CourseSeats} course The course document.
+ * @return {Promise<string[]>} The missing courses, ready to show.
+ */
+async function unmetPrerequisites(
+  uid: string,
+  course: CourseSeats
+): Promise<string[]> {
+  const prerequisites = course.prerequisites || [];
+  if (!prerequisites.length) return [];
+
+  const db = admin.firestore();
+  const [grades, finalGrades] = await Promise.all([
+    db.collection("grades").where("traineeId", "==", uid).get(),
+    db.collection("finalGrade").where("traineeId", "==", uid).get(),
+  ]);
+  const best = new Map<string, number>();
+  const record = (courseId: unknown, grade: unknown) => {
+    if (typeof courseId !== "string" || typeof grade !== "number") return;
+    best.set(courseId, Math.max(grade, best.get(courseId) ?? grade));
+  };
+  grades.docs.forEach((gradeDoc) =>
+    record(gradeDoc.data().courseId, gradeDoc.data().grade)
+  );
+  finalGrades.docs.forEach((finalDoc) =>
+    (finalDoc.data().courses || []).forEach(
+      (entry: {courseId?: unknown; grade?: unknown}) =>
+        record(entry.courseId, entry.grade)
+    )
+  );
+
+  return prerequisites
+    .filter((prerequisite) => {
+      const grade = best.get(prerequisite.courseId);
+      if (grade === undefined) return true;
+      return prerequisite.minGrade != null && grade < prerequisite.minGrade;
+    })
+    .map((prerequisite) =>
+      prerequisite.minGrade != null ?
+        `${prerequisite.courseTitle} (grade ${prerequisite.minGrade}+)` :
+        prerequisite.courseTitle
+    );
+}
+
+/**
+ * Enrolls a trainee, or adds them to the waitlist when the course is full.
+ * Prerequisites are checked by the callers.
+ * @param {string} uid The trainee.
+ * @param {string} courseId The course.
+ * @return {Promise<EnrollResult>} Whether they got a seat.
+ */
+export async function seatTrainee(
+  uid: string,
+  courseId: string
+): Promise<EnrollResult> {
+  await ensureSeatCount(courseId);
+  const db = admin.firestore();
+  const courseRef = db.collection("courses").doc(courseId);
+  const enrollmentRef = db.collection("enrollments").doc(uid);
+  const userRef = db.collection("users").doc(uid);
+
+  return db.runTransaction(async (tx) => {
+    const [courseSnap, enrollmentSnap, userSnap] = await Promise.all([
+      tx.get(courseRef),
+      tx.get(enrollmentRef),
+      tx.get(userRef),
+    ]);
+    const course = courseSnap.data() as CourseSeats | undefined;
+    if (!course) {
+      throw new functions.https.HttpsError("not-found", "Course not found.");
+    }
+    if (course.status !== "active") {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "This course is not open for enrollment."
+      );
+    }
+    const unitPath = (userSnap.data()?.unitPath || []) as string[];
+    if (
+      course.unitIds?.length &&
+      !unitPath.some((id) => course.unitIds?.includes(id))
+    ) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "This course is only open to other departments."
+      );
+    }
+
+    const courses = (enrollmentSnap.data()?.courses ||
+      []) as EnrolledCourse[];
+    if (courses.some((entry) => entry.courseId === courseId)) {
+      throw new functions.https.HttpsError(
+        "already-exists",
+        "Already enrolled!"
+      );
+    }
+    const waitlist = course.waitlist || [];
+    if (waitlist.includes(uid)) {
+      throw new functions.https.HttpsError(
+        "already-exists",
+        "Already on the waitlist for this course."
+      );
+    }
+
+    if (hasSeat(course)) {
+      tx.set(
+        enrollmentRef,
+        {
+          userId: uid,
+          courses: [...courses, enrollmentEntry(courseId, course)],
+        },
+        {merge: true}
+      );
+      tx.update(courseRef, {
+        currentParticipants: (course.currentParticipants || 0) + 1,
+      });
+      return {status: "enrolled" as const};
+    }
+
+    tx.update(courseRef, {waitlist: [...waitlist, uid]});
+    return {status: "waitlisted" as const, position: waitlist.length + 1};
+  });
+}
+
+/**
+ * Reads a course for an enrollment request.
+ * @param {string} courseId The course.
+ * @return {Promise<CourseSeats>} The course document.
+ */
+async function loadCourse(courseId: string): Promise<CourseSeats> {
+  const snap = await admin.firestore().collection("courses").doc(courseId)
+    .get();
+  if (!snap.exists) {
+    throw new functions.https.HttpsError("not-found", "Course not found.");
+  }
+  return snap.data() as CourseSeats;
+}
+
+/**
+ * Moves waitlisted trainees into free seats, in order, and tells each
+ * of them. Each promotion is its own transaction so a concurrent
+ * enrollment cannot take the same seat.
+ * @param {string} courseId The course.
+ * @return {Promise<number>} How many trainees were promoted.
+ */
+export async function promoteFromWaitlist(courseId: string): Promise<number> {
+  const db = admin.firestore();
+  const courseRef = db.collection("courses").doc(courseId);
+  let promoted = 0;
+  await ensureSeatCount(courseId);
+
+  for (;;) {
+    const next = await db.runTransaction(async (tx) => {
+      const courseSnap = await tx.get(courseRef);
+      const course = courseSnap.data() as CourseSeats | undefined;
+      const waitlist = course?.waitlist || [];
+      if (!course || course.status !== "active" || !waitlist.length) {
+        return null;
+      }
+      if (!hasSeat(course)) return null;
+
+      const uid = waitlist[0];
+      const enrollmentRef = db.collection("enrollments").doc(uid);
+      const courses = ((await tx.get(enrollmentRef)).data()?.courses ||
+        []) as EnrolledCourse[];
+
+      if (courses.some((entry) => entry.courseId === courseId)) {
+        tx.update(courseRef, {waitlist: waitlist.slice(1)});
+        return {uid, title: course.title || "", seated: false};
+      }
+
+      tx.set(
+        enrollmentRef,
+        {userId: uid, courses: [...courses, enrollmentEntry(courseId, course)]},
+        {merge: true}
+      );
+      tx.update(courseRef, {
+        waitlist: waitlist.slice(1),
+        currentParticipants: (course.currentParticipants || 0) + 1,
+      });
+      return {uid, title: course.title || "", seated: true};
+    });
+
+    if (!next) return promoted;
+    if (!next.seated) continue;
+
+    promoted++;
+    const user = (await db.collection("users").doc(next.uid).get()).data();
+    await logActivity({
+      userId: next.uid,
+      userName: user?.displayName || user?.email || next.uid,
+      action: "promoted from waitlist",
+      target: next.title,
+    });
+    await emailUser("waitlistPromoted", next.uid, {courseTitle: next.title});
+  }
+}
+
+// 🎟️ Enroll the caller, or put them on the waitlist when the course is full
+export const enrollInCourse = functions.https.onCall(
+  async (request: functions.https.CallableRequest<CourseActionData>) => {
+    const auth = assertCan(request, "courses.enroll");
+    const courseId = requireCourseId(request.data);
+
+    const course = await loadCourse(courseId);
+    const unmet = await unmetPrerequisites(auth.uid, course);
+    if (unmet.length) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `Complete these courses first: ${unmet.join(", ")}.`,
+        {unmet}
+      );
+    }
+    return seatTrainee(auth.uid, courseId);
+  }
+);
+
+// 🧾 Enroll a trainee on their behalf. Missing prerequisites can be
+// overridden with a reason, which goes to the activity log.
+export const enrollTrainee = functions.https.onCall(
+  async (request: functions.https.CallableRequest<EnrollTraineeData>) => {
+    const auth = assertCan(request, "courses.manage");
+    const courseId = requireCourseId(request.data);
+    const {traineeId} = request.data;
+    const overrideReason = request.data.overrideReason?.trim();
+    if (!traineeId) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A trainee is required."
+      );
+    }
+
+    const userSnap = await admin.firestore().collection("users")
+      .doc(traineeId).get();
+    if (!userSnap.exists) {
+      throw new functions.https.HttpsError("not-found", "User not found.");
+    }
+    const course = await loadCourse(courseId);
+    const unmet = await unmetPrerequisites(traineeId, course);
+    if (unmet.length && !overrideReason) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `The trainee has not completed: ${unmet.join(", ")}.`,
+        {unmet}
+      );
+    }
+
+    const result = await seatTrainee(traineeId, courseId);
+
+    const traineeName =
+      userSnap.data()?.displayName || userSnap.data()?.email || traineeId;
+    const target = `${traineeName} in ${course.title || courseId}`;
+    const actorName = auth.token.name || auth.token.email || "Admin";
+    if (unmet.length) {
+      await logActivity({
+        userId: auth.uid,
+        userName: actorName,
+        action: "overrode prerequisites",
+        target,
+        details: `Missing: ${unmet.join(", ")}. Reason: ${overrideReason}`,
+      });
+    }
+    await logActivity({
+      userId: auth.uid,
+      userName: actorName,
+      action: result.status === "enrolled" ?
+        "enrolled trainee" :
+        "waitlisted trainee",
+      target,
+    });
+    return result;
+  }
+);
+
+/**
+ * Takes a trainee out of a course, or off its waitlist. A freed seat goes
+ * to the next trainee in line.
+ * @param {string} uid The trainee.
+ * @param {string} courseId The course.
+ * @return {Promise<string>} "unenrolled" or "left waitlist".
+ */
+export async function releaseSeat(
+  uid: string,
+  courseId: string
+): Promise<"unenrolled" | "left waitlist"> {
+  const db = admin.firestore();
+  const courseRef = db.collection("courses").doc(courseId);
+  const enrollmentRef = db.collection("enrollments").doc(uid);
+
+  const result = await db.runTransaction(async (tx) => {
+    const [courseSnap, enrollmentSnap] = await Promise.all([
+      tx.get(courseRef),
+      tx.get(enrollmentRef),
+    ]);
+    const course = courseSnap.data() as CourseSeats | undefined;
+
+    const waitlist = course?.waitlist || [];
+    if (waitlist.includes(uid)) {
+      tx.update(courseRef, {
+        waitlist: waitlist.filter((id) => id !== uid),
+      });
+      return "left waitlist" as const;
+    }
+
+    const courses = (enrollmentSnap.data()?.courses ||
+      []) as EnrolledCourse[];
+    if (!courses.some((entry) => entry.courseId === courseId)) {
+      throw new functions.https.HttpsError(
+        "not-found",
+        "You are not enrolled in this course."
+      );
+    }
+
+    tx.update(enrollmentRef, {
+      courses: courses.filter((entry) => entry.courseId !== courseId),
+    });
+    // Uncounted courses are counted before anyone is seated
+    if (course?.currentParticipants != null) {
+      tx.update(courseRef, {
+        currentParticipants: Math.max(
+          0,
+          (course.currentParticipants || 0) - 1
+        ),
+      });
+    }
+    return "unenrolled" as const;
+  });
+
+  if (result === "unenrolled") await promoteFromWaitlist(courseId);
+  return result;
+}
+
+// 🚪 Leave a course, or its waitlist; a freed seat goes to the next in line
+export const unenrollFromCourse = functions.https.onCall(
+  async (request: functions.https.CallableRequest<CourseActionData>) => {
+    const auth = assertSignedIn(request);
+    const courseId = requireCourseId(request.data);
+    return {status: await releaseSeat(auth.uid, courseId)};
+  }
+);
+
+// 🪑 Seat waitlisted trainees when a course gains capacity. Courses from
+// before capacity limits get their existing enrollments counted first.
+export const fillWaitlistOnCapacityChange =
+  functions.firestore.onDocumentWritten(
+    "courses/{courseId}",
+    async (event) => {
+      const before = event.data?.before.data() as CourseSeats | undefined;
+      const after = event.data?.after.data() as CourseSeats | undefined;
+      if (!before || !after) return;
+
+      if (after.capacity && after.currentParticipants == null) {
+        // The update runs this trigger again with the count in place
+        await ensureSeatCount(event.params.courseId);
+        return;
+      }
+
+      if (!after.waitlist?.length) return;
+      if (
+        before.capacity === after.capacity &&
+        before.status === after.status
+      ) {
+        return;
+      }
+
+      await promoteFromWaitlist(event.params.courseId);
+    }
+  );
+
+/**
+ * Writes instructorIds onto an enrollment when its courses moved on.
+ * @param {admin.firestore.DocumentSnapshot} snap enrollments/{uid}.
+ * @return {Promise<boolean>} Whether it was updated.
+ */
+async function syncInstructorIds(
+  snap: admin.firestore.DocumentSnapshot
+): Promise<boolean> {
+  const data = snap.data() || {};
+  const ids = enrollmentInstructors(data.courses || []);
+  const current = (data.instructorIds || []) as string[];
+  if (
+    ids.length === current.length &&
+    ids.every((id, i) => id === current[i])
+  ) {
+    return false;
+  }
+  await snap.ref.update({instructorIds: ids});
+  return true;
+}
+
+// 🧑‍🏫 Keep enrollments/{uid}.instructorIds in line with its courses
+export const syncEnrollmentInstructors = functions.firestore.onDocumentWritten(
+  "enrollments/{uid}",
+  async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return;
+
+    await syncInstructorIds(after);
+  }
+);
+
+// 🧹 One-off backfill for enrollments written before the trigger existed
+export const backfillEnrollmentInstructors = functions.https.onCall(
+  async (request: functions.https.CallableRequest) => {
+    assertCan(request, "users.manage");
+
+    const snapshot = await admin.firestore().collection("enrollments").get();
+    let updated = 0;
+    for (const enrollment of snapshot.docs) {
+      if (await syncInstructorIds(enrollment)) updated++;
+    }
+    return {success: true, total: snapshot.size, updated};
+  }
+);
@@ -0,0 +1,95 @@
+import {promises as fs} from "fs";
+import * as path from "path";
+import {
+  COLLECTION_GRANTS,
+  Capability,
+  DEFAULT_ROLES,
+  grantedCapabilities,
+} from "./permissions";
+
+const RULES_FILE = path.resolve(__dirname, "../../firestore.rules");
+const BEGIN = "// BEGIN GENERATED CAPABILITY RULES";
+const END = "// END GENERATED CAPABILITY RULES";
+const INDENT = "    ";
+
+/**
+ * Renders a capability list as a rules condition.
+ * @param {Capability[]} capabilities Any one of these is enough.
+ * @return {string} The condition, e.g. `can('a') || can('b')`.
+ */
+function condition(capabilities: Capability[]): string {
+  return capabilities.map((cap) => `can('${cap}')`).join(" || ");
+}
+
+/**
+ * Renders a rules function listing the built-in roles' capabilities, for
+ * roles that have no roles document.
+ * @return {string} The function, indented.
+ */
+function renderBuiltInRoles(): string {
+  const entries = Object.keys(DEFAULT_ROLES).map((id) => {
+    const caps = grantedCapabilities(DEFAULT_ROLES[id])
+      .map((cap) => `'${cap}'`)
+      .join(", ");
+    return `    '${id}': [${caps}]`;
+  });
+  return [
+    "// Capabilities of the built-in roles (DEFAULT_ROLES)",
+    "function builtInRoleCaps(roleId) {",
+    "  return {",
+    entries.join(",\n"),
+    "  }.get(roleId, []);",
+    "}",
+  ].join("\n").split("\n").map((line) => INDENT + line).join("\n");
+}
+
+/**
+ * Renders the built-in roles and the match blocks for COLLECTION_GRANTS.
+ * @return {string} The generated section, markers included.
+ */
+export function renderGrantRules(): string {
+  const blocks = COLLECTION_GRANTS.map((grant) => {
+    const lines = [
+      `// ${grant.comment}`,
+      `match ${grant.match} {`,
+      `  allow read: if ${condition(grant.read)};`,
+    ];
+    if (grant.write) {
+      lines.push(
+        `  allow write: if canWrite() && (${condition(grant.write)});`
+      );
+    }
+    lines.push("}");
+    return lines.map((line) => INDENT + line).join("\n");
+  });
+  return [
+    INDENT + BEGIN + " (npm --prefix functions run rules)",
+    [renderBuiltInRoles(), ...blocks].join("\n\n"),
+    INDENT + END,
+  ].join("\n");
+}
+
+/**
+ * Rewrites the generated section of firestore.rules in place.
+ * @return {Promise<void>}
+ */
+async function main(): Promise<void> {
+  const rules = await fs.readFile(RULES_FILE, "utf8");
+  const start = rules.indexOf(INDENT + BEGIN);
+  const end = rules.indexOf(END);
+  if (start === -1 || end === -1) {
+    throw new Error(`${RULES_FILE} has no generated section markers.`);
+  }
+
+  const updated = rules.slice(0, start) + renderGrantRules() +
+    rules.slice(end + END.length);
+  await fs.writeFile(RULES_FILE, updated);
+  console.log(`Wrote ${COLLECTION_GRANTS.length} rules to ${RULES_FILE}`);
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,108 @@
+import * as functions from "firebase-functions";
+import {
+  Capability,
+  RoleDefinition,
+  grantedCapabilities,
+} from "./permissions";
+
+export type CallerAuth = NonNullable<functions.https.CallableRequest["auth"]>;
+
+// 🔓 Set on callables that only read, or that end a "view as" session
+export interface GuardOptions {
+  allowViewingAs?: boolean;
+}
+
+/**
+ * Whether the caller is an admin in an open "view as" session.
+ * @param {CallerAuth} auth The caller's auth data.
+ * @return {boolean} True until the viewAsUntil claim runs out.
+ */
+export function isViewingAs(auth: CallerAuth): boolean {
+  const until = auth.token.viewAsUntil;
+  return typeof until === "number" && until * 1000 > Date.now();
+}
+
+/**
+ * Rejects callers that are not signed in, and admins viewing as another
+ * user, who may look but not change anything.
+ * @param {functions.https.CallableRequest} request The callable request.
+ * @param {GuardOptions} options Whether a "view as" session may call.
+ * @return {CallerAuth} The caller's auth data.
+ */
+export function assertSignedIn(
+  request: functions.https.CallableRequest,
+  options: GuardOptions = {}
+): CallerAuth {
+  if (!request.auth) {
+    throw new functions.https.HttpsError(
+      "unauthenticated",
+      "You must be logged in to perform this action."
+    );
+  }
+  if (!options.allowViewingAs && isViewingAs(request.auth)) {
+    throw new functions.https.HttpsError(
+      "failed-precondition",
+      "Viewing as another user is read-only. End the session to make changes."
+    );
+  }
+  return request.auth;
+}
+
+/**
+ * Checks the capabilities carried in the caller's claims. Super admins hold
+ * every capability.
+ * @param {CallerAuth} auth The caller's auth data.
+ * @param {Capability} capability The capability to look for.
+ * @return {boolean} Whether the caller has it.
+ */
+export function hasCapability(
+  auth: CallerAuth,
+  capability: Capability
+): boolean {
+  if (auth.token.isSuperAdmin === true) return true;
+  const caps = auth.token.caps;
+  return Array.isArray(caps) && caps.includes(capability);
+}
+
+/**
+ * Rejects callers whose role does not grant a capability.
+ * @param {functions.https.CallableRequest} request The callable request.
+ * @param {Capability} capability The capability the action needs.
+ * @param {GuardOptions} options Whether a "view as" session may call.
+ * @return {CallerAuth} The caller's auth data.
+ */
+export function assertCan(
+  request: functions.https.CallableRequest,
+  capability: Capability,
+  options: GuardOptions = {}
+): CallerAuth {
+  const auth = assertSignedIn(request, options);
+  if (!hasCapability(auth, capability)) {
+    throw new functions.https.HttpsError(
+      "permission-denied",
+      `You need the ${capability} permission to perform this action.`
+    );
+  }
+  return auth;
+}
+
+/**
+ * Whether the caller may move an account into or out of a role. Holders of
+ * admins.manage may assign anything; everyone else only roles that grant
+ * nothing they lack themselves, and never the admin role.
+ * @param {CallerAuth} auth The caller's auth data.
+ * @param {string} roleId The role being granted or taken away.
+ * @param {RoleDefinition | null} role The role's definition, if it exists.
+ * @return {boolean} Whether the assignment is allowed.
+ */
+export function canAssignRole(
+  auth: CallerAuth,
+  roleId: string,
+  role: RoleDefinition | null
+): boolean {
+  if (hasCapability(auth, "admins.manage")) return true;
+  if (roleId === "admin") return false;
+  return grantedCapabilities(role).every((cap) =>
+    hasCapability(auth, cap as Capability)
+  );
+}
@@ -0,0 +1,230 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {logActivity} from "./activity";
+import {assertCan, assertSignedIn, hasCapability} from "./guards";
+
+// How long a "view as" session lasts before it ends on its own
+const VIEW_AS_MINUTES = 30;
+
+// Claims carried by an admin while viewing as someone else; security rules
+// refuse their writes until viewAsUntil
+const VIEW_AS_CLAIMS = ["viewingAs", "viewAsUntil"];
+
+// 📦 Data shapes from UserManagement and the impersonation banner
+interface StartImpersonationData {
+  uid: string;
+}
+
+interface EndImpersonationData {
+  sessionId: string;
+}
+
+type EndReason = "ended" | "expired";
+
+/**
+ * Converts a date to the seconds stored in viewAsUntil.
+ * @param {Date} date The date.
+ * @return {number} Whole seconds since the epoch.
+ */
+function toSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Sets or clears the view-as claims on an admin, keeping their other claims.
+ * Clearing only happens while the claims still belong to the given session,
+ * so closing an old session cannot end a newer one.
+ * @param {string} uid The admin's Auth user id.
+ * @param {string} targetUid The user being viewed.
+ * @param {Date} until When the session ends.
+ * @param {boolean} active True to set the claims, false to clear them.
+ * @return {Promise<void>}
+ */
+async function setViewAsClaims(
+  uid: string,
+  targetUid: string,
+  until: Date,
+  active: boolean
+): Promise<void> {
+  const user = await admin.auth().getUser(uid);
+  const claims = {...(user.customClaims || {})};
+  if (!active && claims.viewAsUntil !== toSeconds(until)) return;
+
+  VIEW_AS_CLAIMS.forEach((key) => delete claims[key]);
+  if (active) {
+    claims.viewingAs = targetUid;
+    claims.viewAsUntil = toSeconds(until);
+  }
+  await admin.auth().setCustomUserClaims(uid, claims);
+}
+
+/**
+ * Closes an impersonation session, clears the admin's claims and logs the
+ * start and end times.
+ * @param {admin.firestore.DocumentSnapshot} snap The open session.
+ * @param {EndReason} reason Whether the admin ended it or it ran out.
+ * @return {Promise<void>}
+ */
+async function closeSession(
+  snap: admin.firestore.DocumentSnapshot,
+  reason: EndReason
+): Promise<void> {
+  const session = snap.data();
+  if (!session || session.endedAt) return;
+
+  const startedAt = (session.startedAt as admin.firestore.Timestamp).toDate();
+  const expiresAt = (session.expiresAt as admin.firestore.Timestamp).toDate();
+  const endedAt = reason === "expired" ? expiresAt : new Date();
+
+  await snap.ref.update({
+    endedAt: admin.firestore.Timestamp.fromDate(endedAt),
+    endReason: reason,
+  });
+
+  try {
+    await setViewAsClaims(session.adminUid, session.targetUid, expiresAt,
+      false);
+  } catch (err) {
+    // The claims run out on their own; the session record matters more
+    console.error(`Could not clear view-as claims for ${session.adminUid}:`,
+      err);
+  }
+
+  const minutes = Math.max(
+    1,
+    Math.round((endedAt.getTime() - startedAt.getTime()) / 60000)
+  );
+  await logActivity({
+    userId: session.adminUid,
+    userName: session.adminName,
+    action: "stopped viewing as",
+    target: session.targetName,
+    details: `From ${startedAt.toISOString()} to ${endedAt.toISOString()} ` +
+      `(${minutes} min, ${reason})`,
+  });
+}
+
+// 👁️ Start viewing the app as another user, read-only
+export const startImpersonation = functions.https.onCall(
+  async (request: functions.https.CallableRequest<StartImpersonationData>) => {
+    const auth = assertCan(request, "users.impersonate");
+    const {uid} = request.data;
+
+    if (!uid) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A user is required."
+      );
+    }
+    if (uid === auth.uid) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "You cannot view the app as yourself."
+      );
+    }
+
+    const target = await admin.firestore().collection("users").doc(uid).get();
+    if (!target.exists) {
+      throw new functions.https.HttpsError("not-found", "User not found.");
+    }
+    if (target.data()?.isSuperAdmin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "You cannot view the app as the Super Admin."
+      );
+    }
+    if (
+      target.data()?.role === "admin" &&
+      !hasCapability(auth, "admins.manage")
+    ) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Only Super Admins can view the app as an admin."
+      );
+    }
+
+    // One session per admin at a time
+    const sessions = admin.firestore().collection("impersonationSessions");
+    const open = await sessions
+      .where("adminUid", "==", auth.uid)
+      .where("endedAt", "==", null)
+      .get();
+    for (const snap of open.docs) {
+      await closeSession(snap, "ended");
+    }
+
+    const startedAt = new Date();
+    const expiresAt = new Date(startedAt.getTime() + VIEW_AS_MINUTES * 60000);
+    const adminName = auth.token.name || auth.token.email || "Admin";
+    const targetName = target.data()?.displayName ||
+      target.data()?.email || uid;
+
+    const sessionRef = await sessions.add({
+      adminUid: auth.uid,
+      adminName,
+      targetUid: uid,
+      targetName,
+      startedAt: admin.firestore.Timestamp.fromDate(startedAt),
+      expiresAt: admin.firestore.Timestamp.fromDate(expiresAt),
+      endedAt: null,
+    });
+    await setViewAsClaims(auth.uid, uid, expiresAt, true);
+
+    await logActivity({
+      userId: auth.uid,
+      userName: adminName,
+      action: "started viewing as",
+      target: targetName,
+      details: `From ${startedAt.toISOString()}, ` +
+        `ends by ${expiresAt.toISOString()}`,
+    });
+
+    return {sessionId: sessionRef.id, expiresAt: expiresAt.toISOString()};
+  }
+);
+
+// 🚪 Stop viewing as another user
+export const endImpersonation = functions.https.onCall(
+  async (request: functions.https.CallableRequest<EndImpersonationData>) => {
+    const auth = assertSignedIn(request, {allowViewingAs: true});
+    const {sessionId} = request.data;
+    if (!sessionId) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A session is required."
+      );
+    }
+
+    const snap = await admin
+      .firestore()
+      .collection("impersonationSessions")
+      .doc(sessionId)
+      .get();
+    if (!snap.exists || snap.data()?.adminUid !== auth.uid) {
+      throw new functions.https.HttpsError(
+        "not-found",
+        "Impersonation session not found."
+      );
+    }
+
+    await closeSession(snap, "ended");
+    return {success: true};
+  }
+);
+
+// ⏲️ Close sessions left open when the admin closed the tab
+export const closeExpiredImpersonations = functions.scheduler.onSchedule(
+  "every 15 minutes",
+  async () => {
+    const expired = await admin
+      .firestore()
+      .collection("impersonationSessions")
+      .where("endedAt", "==", null)
+      .where("expiresAt", "<=", admin.firestore.Timestamp.now())
+      .get();
+
+    for (const snap of expired.docs) {
+      await closeSession(snap, "expired");
+    }
+  }
+);
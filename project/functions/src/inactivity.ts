@@ -0,0 +1,235 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {logActivity} from "./activity";
+import {assertCan, hasCapability} from "./guards";
+import {enqueueMail} from "./mailQueue";
+import {usersWithCapability} from "./permissions";
+import {SYSTEM_ACTOR, suspendAccount} from "./suspension";
+import {localeFor} from "./templates";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INACTIVE_REASON =
+  "Your account was disabled because it was not used for a long time. " +
+  "Contact an admin to reactivate it.";
+
+// ⚙️ settings/inactivityPolicy, edited on the admin settings page
+export interface InactivityPolicy {
+  enabled: boolean;
+  inactiveDays: number; // without a sign-in before the warning
+  graceDays: number; // between the warning and disabling the account
+  roles: string[]; // roles that are checked
+}
+
+export const DEFAULT_INACTIVITY_POLICY: InactivityPolicy = {
+  enabled: false,
+  inactiveDays: 90,
+  graceDays: 14,
+  roles: ["trainer", "trainee"],
+};
+
+// 🧮 users.inactivity: warning and exemption state, written by functions
+interface AccountInactivity {
+  exempt?: boolean;
+  exemptReason?: string;
+  exemptByName?: string;
+  warnedAt?: admin.firestore.Timestamp;
+  disableAt?: admin.firestore.Timestamp;
+  disabledAt?: admin.firestore.Timestamp;
+}
+
+// 📦 Data shape from DormantAccounts
+interface SetExemptionData {
+  uid: string;
+  exempt: boolean;
+  reason?: string;
+}
+
+/**
+ * Reads the inactivity policy, falling back to the defaults.
+ * @return {Promise<InactivityPolicy>} The policy in force.
+ */
+async function loadInactivityPolicy(): Promise<InactivityPolicy> {
+  const snap = await admin
+    .firestore()
+    .collection("settings")
+    .doc("inactivityPolicy")
+    .get();
+  return {...DEFAULT_INACTIVITY_POLICY, ...snap.data()};
+}
+
+/**
+ * Milliseconds of a timestamp field, or 0 when it is missing.
+ * @param {unknown} value A Firestore timestamp, if any.
+ * @return {number} The time in milliseconds.
+ */
+function millisOf(value: unknown): number {
+  return value instanceof admin.firestore.Timestamp ? value.toMillis() : 0;
+}
+
+/**
+ * The last sign of life from an account. Sign-ins only record lastLogin,
+ * so browsers that stay signed in are found through their sessions.
+ * @param {admin.firestore.QueryDocumentSnapshot} userDoc The user.
+ * @param {number} cutoff Sessions are only looked up when the user
+ * document alone puts the account before this time.
+ * @return {Promise<number>} The time in milliseconds.
+ */
+async function lastActiveAt(
+  userDoc: admin.firestore.QueryDocumentSnapshot,
+  cutoff: number
+): Promise<number> {
+  const data = userDoc.data();
+  const fromProfile = Math.max(
+    millisOf(data.lastLogin),
+    millisOf(data.createdAt),
+    millisOf(data.reactivatedAt)
+  );
+  if (fromProfile > cutoff) return fromProfile;
+
+  const latest = await admin
+    .firestore()
+    .collection("userSessions")
+    .where("uid", "==", userDoc.id)
+    .orderBy("lastSeenAt", "desc")
+    .limit(1)
+    .get();
+  return Math.max(fromProfile, millisOf(latest.docs[0]?.data().lastSeenAt));
+}
+
+// 💤 Warn accounts that have not been used for a while, then disable them
+// once the grace period passes. Admins get a summary of what changed.
+export const detectInactiveAccounts = functions.scheduler.onSchedule(
+  "every day 06:00",
+  async () => {
+    const policy = await loadInactivityPolicy();
+    if (!policy.enabled || policy.roles.length === 0) return;
+
+    const db = admin.firestore();
+    const now = Date.now();
+    const cutoff = now - policy.inactiveDays * DAY_MS;
+    const users = await db
+      .collection("users")
+      .where("role", "in", policy.roles.slice(0, 30))
+      .get();
+
+    let warned = 0;
+    let disabled = 0;
+    for (const userDoc of users.docs) {
+      const data = userDoc.data();
+      const inactivity = (data.inactivity || {}) as AccountInactivity;
+      if (
+        data.isSuperAdmin ||
+        data.accountStatus === "suspended" ||
+        inactivity.exempt
+      ) {
+        continue;
+      }
+
+      const lastActive = await lastActiveAt(userDoc, cutoff);
+
+      // Back since the warning: start over
+      if (inactivity.warnedAt && lastActive > millisOf(inactivity.warnedAt)) {
+        await userDoc.ref.update({
+          inactivity: admin.firestore.FieldValue.delete(),
+        });
+        continue;
+      }
+      if (lastActive > cutoff) continue;
+
+      if (!inactivity.warnedAt) {
+        const disableAt = new Date(now + policy.graceDays * DAY_MS);
+        await userDoc.ref.update({
+          "inactivity.warnedAt": admin.firestore.Timestamp.fromMillis(now),
+          "inactivity.disableAt": admin.firestore.Timestamp.fromDate(disableAt),
+        });
+        if (data.email) {
+          await enqueueMail(
+            "inactivityWarning",
+            data.email,
+            {
+              name: data.displayName || data.email,
+              inactiveDays: policy.inactiveDays,
+              disableOn: disableAt.toISOString().slice(0, 10),
+            },
+            await localeFor(userDoc.id)
+          );
+        }
+        warned++;
+      } else if (millisOf(inactivity.disableAt) <= now) {
+        await suspendAccount(userDoc.id, INACTIVE_REASON, null, SYSTEM_ACTOR);
+        await userDoc.ref.update({
+          "inactivity.disabledAt": admin.firestore.FieldValue.serverTimestamp(),
+        });
+        disabled++;
+      }
+    }
+
+    if (!warned && !disabled) return;
+
+    const admins = await usersWithCapability("users.manage");
+    for (const adminDoc of admins) {
+      const {email, displayName} = adminDoc.data();
+      if (!email) continue;
+      await enqueueMail(
+        "inactivityReport",
+        email,
+        {name: displayName || email, warned, disabled},
+        await localeFor(adminDoc.id)
+      );
+    }
+  }
+);
+
+// 🛡️ Exempt an account from inactivity checks, or lift the exemption
+export const setInactivityExemption = functions.https.onCall(
+  async (request: functions.https.CallableRequest<SetExemptionData>) => {
+    const auth = assertCan(request, "users.manage");
+    const {uid, exempt, reason} = request.data;
+    if (!uid) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A user is required."
+      );
+    }
+
+    const userRef = admin.firestore().collection("users").doc(uid);
+    const snap = await userRef.get();
+    if (!snap.exists) {
+      throw new functions.https.HttpsError("not-found", "User not found.");
+    }
+    if (
+      snap.data()?.role === "admin" &&
+      !hasCapability(auth, "admins.manage")
+    ) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Only Super Admins can change admins."
+      );
+    }
+
+    const actorName = auth.token.name || auth.token.email || "Admin";
+    // Any pending warning goes too, so lifting an exemption starts afresh
+    await userRef.update({
+      inactivity: exempt ?
+        {
+          exempt: true,
+          exemptReason: reason || "",
+          exemptByName: actorName,
+          exemptAt: admin.firestore.FieldValue.serverTimestamp(),
+        } :
+        admin.firestore.FieldValue.delete(),
+    });
+
+    await logActivity({
+      userId: auth.uid,
+      userName: actorName,
+      action: exempt ?
+        "exempted from inactivity checks" :
+        "removed inactivity exemption",
+      target: snap.data()?.displayName || snap.data()?.email || uid,
+      details: reason ? `Reason: ${reason}` : "",
+    });
+    return {success: true};
+  }
+);
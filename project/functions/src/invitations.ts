@@ -0,0 +1,265 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {randomBytes} from "crypto";
+import {logActivity} from "./activity";
+import {seatTrainee} from "./enrollment";
+import {assertCan, assertSignedIn, canAssignRole} from "./guards";
+import {enqueueMail} from "./mailQueue";
+import {loadRole} from "./permissions";
+
+const INVITABLE_ROLES = ["trainee", "trainer"];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DEFAULT_EXPIRY_DAYS = 7;
+const MAX_EXPIRY_DAYS = 90;
+
+// 📦 Data shape from the invitations panel
+interface CreateInvitationData {
+  email: string;
+  role: string;
+  courseIds?: string[];
+  expiresInDays?: number;
+  appUrl: string;
+}
+
+interface InvitationRefData {
+  token: string;
+}
+
+// ✉️ Issue a single-use invitation tied to an email and role
+export const createInvitation = functions.https.onCall(
+  async (request: functions.https.CallableRequest<CreateInvitationData>) => {
+    const auth = assertCan(request, "users.invite");
+    const {role, courseIds = [], appUrl} = request.data;
+    const email = String(request.data.email || "").trim().toLowerCase();
+
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Email address is not valid."
+      );
+    }
+    if (!INVITABLE_ROLES.includes(role)) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        `Unknown role: ${role}`
+      );
+    }
+    // Same rule as creating an account: no granting more than the inviter
+    // holds
+    if (!canAssignRole(auth, role, await loadRole(role))) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "You can only invite users into roles that hold no permissions " +
+          "beyond your own."
+      );
+    }
+    if (!/^https?:\/\//.test(appUrl || "")) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A valid app URL is required to build the invitation link."
+      );
+    }
+
+    const days = Math.min(
+      Math.max(Number(request.data.expiresInDays) || DEFAULT_EXPIRY_DAYS, 1),
+      MAX_EXPIRY_DAYS
+    );
+    const expiresAt = admin.firestore.Timestamp.fromMillis(
+      Date.now() + days * 24 * 60 * 60 * 1000
+    );
+
+    const token = randomBytes(24).toString("hex");
+    const inviteLink = `${appUrl.replace(/\/$/, "")}/?invite=${token}`;
+
+    await admin.firestore().collection("invitations").doc(token).set({
+      email,
+      role,
+      courseIds,
+      status: "pending",
+      createdBy: auth.uid,
+      createdByName: auth.token.name || auth.token.email || "Admin",
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      expiresAt,
+    });
+
+    let emailQueued = true;
+    try {
+      // Built when the email is sent, so the mail outbox can redact it
+      await enqueueMail(
+        "invite",
+        email,
+        {role, days},
+        undefined,
+        {
+          inviteLink: {
+            kind: "invitation",
+            continueUrl: appUrl,
+            invitationId: token,
+          },
+        }
+      );
+    } catch (err) {
+      console.error("Invitation email could not be queued:", err);
+      emailQueued = false;
+    }
+
+    await logActivity({
+      userId: auth.uid,
+      userName: auth.token.name || auth.token.email || "Admin",
+      action: "invited",
+      target: email,
+      details: `Role: ${role}`,
+    });
+
+    return {success: true, token, inviteLink, emailQueued};
+  }
+);
+
+// 🚫 Revoke an invitation that has not been used yet
+export const revokeInvitation = functions.https.onCall(
+  async (request: functions.https.CallableRequest<InvitationRefData>) => {
+    const auth = assertCan(request, "users.invite");
+    const inviteRef = admin
+      .firestore()
+      .collection("invitations")
+      .doc(String(request.data.token || ""));
+
+    const snap = await inviteRef.get();
+    if (!snap.exists) {
+      throw new functions.https.HttpsError(
+        "not-found",
+        "Invitation not found."
+      );
+    }
+    if (snap.data()?.status !== "pending") {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "Only pending invitations can be revoked."
+      );
+    }
+
+    await inviteRef.update({
+      status: "revoked",
+      revokedBy: auth.uid,
+      revokedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    await logActivity({
+      userId: auth.uid,
+      userName: auth.token.name || auth.token.email || "Admin",
+      action: "revoked invitation",
+      target: snap.data()?.email,
+    });
+
+    return {success: true};
+  }
+);
+
+// 🔎 Public lookup so the signup screen can show who the link is for
+export const getInvitation = functions.https.onCall(
+  async (request: functions.https.CallableRequest<InvitationRefData>) => {
+    const snap = await admin
+      .firestore()
+      .collection("invitations")
+      .doc(String(request.data.token || ""))
+      .get();
+    const data = snap.data();
+
+    if (!snap.exists || !data) {
+      throw new functions.https.HttpsError(
+        "not-found",
+        "This invitation link is not valid."
+      );
+    }
+
+    const expired = data.expiresAt.toMillis() < Date.now();
+    return {
+      email: data.email,
+      role: data.role,
+      status: data.status === "pending" && expired ? "expired" : data.status,
+      expiresAt: data.expiresAt.toMillis(),
+    };
+  }
+);
+
+// 🎟️ Activate the caller's account from an invitation
+export const redeemInvitation = functions.https.onCall(
+  async (request: functions.https.CallableRequest<InvitationRefData>) => {
+    const auth = assertSignedIn(request);
+    const db = admin.firestore();
+    const inviteRef = db
+      .collection("invitations")
+      .doc(String(request.data.token || ""));
+    const userRef = db.collection("users").doc(auth.uid);
+
+    const invitation = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(inviteRef);
+      const data = snap.data();
+
+      if (!snap.exists || !data) {
+        throw new functions.https.HttpsError(
+          "not-found",
+          "This invitation link is not valid."
+        );
+      }
+      if (data.status !== "pending") {
+        throw new functions.https.HttpsError(
+          "failed-precondition",
+          `This invitation has already been ${data.status}.`
+        );
+      }
+      if (data.expiresAt.toMillis() < Date.now()) {
+        throw new functions.https.HttpsError(
+          "deadline-exceeded",
+          "This invitation has expired."
+        );
+      }
+      if (String(auth.token.email || "").toLowerCase() !== data.email) {
+        throw new functions.https.HttpsError(
+          "permission-denied",
+          "This invitation was issued for a different email address."
+        );
+      }
+
+      tx.set(userRef, {
+        role: data.role,
+        invitationId: inviteRef.id,
+        approvedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, {merge: true});
+
+      tx.delete(db.collection("pendingUsers").doc(auth.uid));
+      tx.update(inviteRef, {
+        status: "redeemed",
+        redeemedBy: auth.uid,
+        redeemedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return data;
+    });
+
+    // Seats are taken like any other enrollment, so full courses put the
+    // invitee on the waitlist
+    const skipped: string[] = [];
+    for (const courseId of (invitation.courseIds || []) as string[]) {
+      try {
+        await seatTrainee(auth.uid, courseId);
+      } catch (err) {
+        // Closed, removed or restricted since the invitation was sent
+        if (!(err instanceof functions.https.HttpsError)) throw err;
+        skipped.push(courseId);
+      }
+    }
+
+    await logActivity({
+      userId: auth.uid,
+      userName: auth.token.name || auth.token.email || "User",
+      action: "redeemed invitation",
+      target: invitation.email,
+      details: skipped.length ?
+        `Role: ${invitation.role}. Not enrolled in: ${skipped.join(", ")}` :
+        `Role: ${invitation.role}`,
+    });
+
+    return {success: true, role: invitation.role};
+  }
+);
@@ -0,0 +1,198 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import * as nodemailer from "nodemailer";
+import {randomBytes} from "crypto";
+import {promises as fs} from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// ✉️ A message as the callers build it; the sender is filled in here
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export type MailDriverName = "gmail" | "smtp" | "capture";
+export type CaptureTarget = "console" | "file" | "firestore";
+
+export interface MailResult {
+  driver: MailDriverName;
+  messageId: string;
+}
+
+interface RenderedMessage extends MailMessage {
+  from: string;
+}
+
+interface MailDriver {
+  name: MailDriverName;
+  send(message: RenderedMessage, secrets: string[]): Promise<string>;
+}
+
+const REDACTED = "[redacted]";
+
+/**
+ * Blanks out secrets, such as action links, from a captured message.
+ * @param {RenderedMessage} message The rendered message.
+ * @param {string[]} secrets The values to remove.
+ * @return {RenderedMessage} The message without them.
+ */
+function redact(
+  message: RenderedMessage,
+  secrets: string[]
+): RenderedMessage {
+  const scrub = (value: string) => secrets.reduce(
+    (result, secret) => result.split(secret).join(REDACTED),
+    value
+  );
+  return {
+    ...message,
+    text: scrub(message.text),
+    ...(message.html ? {html: scrub(message.html)} : {}),
+  };
+}
+
+/**
+ * Reads mail settings from Firebase config, with environment variables
+ * taking precedence so the emulator and CI need no runtime config.
+ * Missing sections never throw; sendMail falls back to capture instead.
+ * @return {object} The resolved settings.
+ */
+function readMailConfig() {
+  const config = functions.config();
+  const gmail = config.gmail || {};
+  const smtp = config.smtp || {};
+  const mail = config.mail || {};
+
+  return {
+    driver: (process.env.MAIL_DRIVER || mail.driver) as
+      MailDriverName | undefined,
+    capture: (process.env.MAIL_CAPTURE || mail.capture || "firestore") as
+      CaptureTarget,
+    outboxDir: process.env.MAIL_OUTBOX_DIR || mail.outbox_dir ||
+      path.join(os.tmpdir(), "mail-outbox"),
+    fromName: mail.from_name || "Your Platform",
+    fromEmail: mail.from || gmail.email || smtp.user || "no-reply@localhost",
+    gmail: {email: gmail.email, password: gmail.password},
+    smtp: {
+      host: smtp.host,
+      port: Number(smtp.port) || 587,
+      secure: smtp.secure === "true" || smtp.secure === true,
+      user: smtp.user,
+      password: smtp.password,
+    },
+  };
+}
+
+type MailConfig = ReturnType<typeof readMailConfig>;
+
+/**
+ * Wraps a nodemailer transport as a driver.
+ * @param {MailDriverName} name The driver name reported in results.
+ * @param {nodemailer.Transporter} transport The configured transport.
+ * @return {MailDriver} The driver.
+ */
+function transportDriver(
+  name: MailDriverName,
+  transport: nodemailer.Transporter
+): MailDriver {
+  return {
+    name,
+    async send(message) {
+      const info = await transport.sendMail(message);
+      return info.messageId;
+    },
+  };
+}
+
+/**
+ * Keeps rendered messages in a local outbox instead of sending them.
+ * Admins can read the Firestore outbox, so action links are redacted there;
+ * use the file outbox to follow them.
+ * @param {MailConfig} config The resolved settings.
+ * @return {MailDriver} The capture driver.
+ */
+function captureDriver(config: MailConfig): MailDriver {
+  return {
+    name: "capture",
+    async send(message, secrets) {
+      const messageId = `${Date.now()}-${randomBytes(4).toString("hex")}`;
+
+      if (config.capture === "file") {
+        await fs.mkdir(config.outboxDir, {recursive: true});
+        await fs.writeFile(
+          path.join(config.outboxDir, `${messageId}.json`),
+          JSON.stringify({messageId, ...message}, null, 2)
+        );
+      } else if (config.capture === "firestore") {
+        await admin.firestore().collection("mailOutbox").doc(messageId).set({
+          ...redact(message, secrets),
+          capturedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+      console.log(`📭 Captured mail ${messageId} to ${message.to}: ` +
+        message.subject);
+      return messageId;
+    },
+  };
+}
+
+/**
+ * Builds the configured driver. Without an explicit choice, Gmail or SMTP
+ * is used when its credentials exist and capture otherwise.
+ * @param {MailConfig} config The resolved settings.
+ * @return {MailDriver} The driver to send with.
+ */
+function createDriver(config: MailConfig): MailDriver {
+  const hasGmail = Boolean(config.gmail.email && config.gmail.password);
+  const hasSmtp = Boolean(config.smtp.host);
+  const name = config.driver ||
+    (hasGmail ? "gmail" : hasSmtp ? "smtp" : "capture");
+
+  if (name === "gmail" && hasGmail) {
+    return transportDriver("gmail", nodemailer.createTransport({
+      service: "gmail",
+      auth: {user: config.gmail.email, pass: config.gmail.password},
+    }));
+  }
+  if (name === "smtp" && hasSmtp) {
+    return transportDriver("smtp", nodemailer.createTransport({
+      host: config.smtp.host,
+      port: config.smtp.port,
+      secure: config.smtp.secure,
+      auth: config.smtp.user ?
+        {user: config.smtp.user, pass: config.smtp.password} :
+        undefined,
+    }));
+  }
+  if (name !== "capture") {
+    console.warn(`⚠️ Mail driver "${name}" is not configured, ` +
+      "capturing messages instead.");
+  }
+  return captureDriver(config);
+}
+
+let driver: MailDriver | null = null;
+let sender = "";
+
+/**
+ * Sends a message through the configured driver, created on first use.
+ * @param {MailMessage} message The message to send.
+ * @param {string[]} secrets Values kept out of captured copies.
+ * @return {Promise<MailResult>} Which driver handled it and its id.
+ */
+export async function sendMail(
+  message: MailMessage,
+  secrets: string[] = []
+): Promise<MailResult> {
+  if (!driver) {
+    const config = readMailConfig();
+    driver = createDriver(config);
+    sender = `${config.fromName} <${config.fromEmail}>`;
+  }
+
+  const messageId = await driver.send({from: sender, ...message}, secrets);
+  return {driver: driver.name, messageId};
+}
@@ -0,0 +1,241 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {assertCan} from "./guards";
+import {logActivity} from "./activity";
+import {
+  DEFAULT_LOCALE,
+  sendTemplatedMail,
+  TemplateKey,
+  TemplateVariables,
+} from "./templates";
+
+export type MailStatus = "pending" | "sending" | "retrying" | "sent" | "dead";
+
+const MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+// A send that has not finished by then crashed or timed out
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Delay before the next attempt: one minute, doubling per failure, capped
+ * at six hours.
+ * @param {number} attempts Attempts made so far.
+ * @return {number} Milliseconds to wait.
+ */
+function backoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+// 🔗 A link filled in only when the message is sent. Auth action links are
+// generated then, so the queue never holds one that works; invitation links
+// are built from the invitation's token. Either way the capture outbox
+// redacts them.
+export interface MailLink {
+  kind: "passwordReset" | "emailVerification" | "invitation";
+  continueUrl?: string; // the app URL for invitations
+  invitationId?: string;
+}
+
+// Template variable name to the link it is filled with
+export type MailLinks = Record<string, MailLink>;
+
+/**
+ * Generates the action links a queued message asks for.
+ * @param {string} to The recipient's address.
+ * @param {MailLinks} links The links by template variable.
+ * @return {Promise<TemplateVariables>} The links by template variable.
+ */
+async function generateLinks(
+  to: string,
+  links: MailLinks
+): Promise<TemplateVariables> {
+  const generated: TemplateVariables = {};
+  for (const [variable, link] of Object.entries(links)) {
+    if (link.kind === "invitation") {
+      generated[variable] = `${String(link.continueUrl).replace(/\/$/, "")}` +
+        `/?invite=${link.invitationId}`;
+      continue;
+    }
+    const settings = link.continueUrl ? {url: link.continueUrl} : undefined;
+    generated[variable] = link.kind === "passwordReset" ?
+      await admin.auth().generatePasswordResetLink(to, settings) :
+      await admin.auth().generateEmailVerificationLink(to, settings);
+  }
+  return generated;
+}
+
+/**
+ * Queues a templated email; processMailQueue sends it and retries on
+ * failure, so callers never wait on the mail server.
+ * @param {TemplateKey} template The template to send.
+ * @param {string} to The recipient's address.
+ * @param {TemplateVariables} variables The values to insert.
+ * @param {string} locale The recipient's locale.
+ * @param {MailLinks} links Action links to generate at send time.
+ * @return {Promise<string>} The queue document id.
+ */
+export async function enqueueMail(
+  template: TemplateKey,
+  to: string,
+  variables: TemplateVariables,
+  locale: string = DEFAULT_LOCALE,
+  links: MailLinks = {}
+): Promise<string> {
+  const ref = await admin.firestore().collection("mailQueue").add({
+    template,
+    to,
+    variables,
+    locale,
+    links,
+    status: "pending",
+    attempts: 0,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return ref.id;
+}
+
+// 📮 Send queued messages as they become pending
+export const processMailQueue = functions.firestore.onDocumentWritten(
+  "mailQueue/{messageId}",
+  async (event) => {
+    const ref = event.data?.after.ref;
+    if (!ref || event.data?.after.data()?.status !== "pending") return;
+
+    // Claim the message so a duplicate trigger cannot send it twice
+    const message = await admin.firestore().runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      if (snap.data()?.status !== "pending") return null;
+      tx.update(ref, {
+        status: "sending",
+        claimedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return snap.data();
+    });
+    if (!message) return;
+
+    const attempts = (message.attempts || 0) + 1;
+    try {
+      const links = await generateLinks(message.to, message.links || {});
+      const result = await sendTemplatedMail(
+        message.template,
+        message.to,
+        {...message.variables, ...links},
+        message.locale,
+        Object.values(links).map(String)
+      );
+      await ref.update({
+        status: "sent",
+        attempts,
+        driver: result.driver,
+        messageId: result.messageId,
+        templateVersion: result.version,
+        sentAt: admin.firestore.FieldValue.serverTimestamp(),
+        lastError: admin.firestore.FieldValue.delete(),
+        nextAttemptAt: admin.firestore.FieldValue.delete(),
+      });
+    } catch (err) {
+      const lastError = (err as Error).message || String(err);
+      console.error(`Mail ${ref.id} attempt ${attempts} failed:`, err);
+
+      await ref.update(attempts >= MAX_ATTEMPTS ? {
+        status: "dead",
+        attempts,
+        lastError,
+        deadAt: admin.firestore.FieldValue.serverTimestamp(),
+      } : {
+        status: "retrying",
+        attempts,
+        lastError,
+        nextAttemptAt: admin.firestore.Timestamp.fromMillis(
+          Date.now() + backoffMs(attempts)
+        ),
+      });
+    }
+  }
+);
+
+// 🔁 Put messages whose backoff has elapsed back in the queue, along with
+// messages whose send never finished
+export const retryMailQueue = functions.scheduler.onSchedule(
+  "every 5 minutes",
+  async () => {
+    const db = admin.firestore();
+    const due = await db
+      .collection("mailQueue")
+      .where("status", "==", "retrying")
+      .where("nextAttemptAt", "<=", admin.firestore.Timestamp.now())
+      .get();
+
+    for (const doc of due.docs) {
+      await doc.ref.update({status: "pending"});
+    }
+
+    const stuck = await db
+      .collection("mailQueue")
+      .where("status", "==", "sending")
+      .where(
+        "claimedAt",
+        "<=",
+        admin.firestore.Timestamp.fromMillis(Date.now() - CLAIM_TIMEOUT_MS)
+      )
+      .get();
+
+    for (const doc of stuck.docs) {
+      // The lost attempt counts, so a message that always crashes still
+      // ends up dead-lettered
+      await db.runTransaction(async (tx) => {
+        const snap = await tx.get(doc.ref);
+        if (snap.data()?.status !== "sending") return;
+        const attempts = (snap.data()?.attempts || 0) + 1;
+        const lastError = "The send did not finish in time.";
+        tx.update(doc.ref, attempts >= MAX_ATTEMPTS ? {
+          status: "dead",
+          attempts,
+          lastError,
+          deadAt: admin.firestore.FieldValue.serverTimestamp(),
+        } : {
+          status: "pending",
+          attempts,
+          lastError,
+        });
+      });
+    }
+  }
+);
+
+// 📨 Resend a dead-lettered message with a fresh set of attempts
+export const resendMail = functions.https.onCall(
+  async (request: functions.https.CallableRequest<{ id: string }>) => {
+    const auth = assertCan(request, "emails.manage");
+    const ref = admin.firestore().collection("mailQueue").doc(
+      String(request.data.id || "")
+    );
+    const snap = await ref.get();
+
+    if (!snap.exists) {
+      throw new functions.https.HttpsError("not-found", "Message not found.");
+    }
+    if (snap.data()?.status !== "dead") {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "Only failed messages can be resent."
+      );
+    }
+
+    await ref.update({
+      status: "pending",
+      attempts: 0,
+      resentBy: auth.uid,
+      resentAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await logActivity({
+      userId: auth.uid,
+      userName: auth.token.name || auth.token.email || "Admin",
+      action: "resent email",
+      target: snap.data()?.to,
+      details: `Template ${snap.data()?.template}`,
+    });
+    return {success: true};
+  }
+);
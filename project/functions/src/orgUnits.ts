@@ -0,0 +1,130 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+
+// Guards against parent cycles introduced by concurrent edits
+const MAX_DEPTH = 20;
+
+// 🏢 orgUnits/{unitId}: audit divisions, regional offices and their units.
+// Members carry users.unitPath, so "array-contains" on it scopes any query
+// to a unit and everything below it.
+export interface OrgUnit {
+  name: string;
+  type: "division" | "region" | "unit";
+  parentId: string | null;
+  managerId: string | null;
+  managerName?: string;
+  path?: string[]; // ancestor ids then the unit's own, kept by syncUnitPaths
+}
+
+/**
+ * Compares two id lists in order.
+ * @param {string[]} a One list, possibly missing.
+ * @param {string[]} b The other list, possibly missing.
+ * @return {boolean} Whether they are the same.
+ */
+function samePath(a?: string[], b?: string[]): boolean {
+  return (a || []).join("/") === (b || []).join("/");
+}
+
+/**
+ * Walks a unit's parents up to the root.
+ * @param {string} unitId The unit to start from.
+ * @return {Promise<string[] | null>} Root-first ids ending with the unit,
+ *   or null if the unit is missing or its parents loop.
+ */
+export async function unitPath(unitId: string): Promise<string[] | null> {
+  const units = admin.firestore().collection("orgUnits");
+  const path: string[] = [];
+  let current: string | null = unitId;
+
+  while (current) {
+    if (path.includes(current) || path.length >= MAX_DEPTH) return null;
+    const snap = await units.doc(current).get();
+    if (!snap.exists) return path.length ? path.reverse() : null;
+    path.push(current);
+    current = (snap.data() as OrgUnit).parentId;
+  }
+  return path.reverse();
+}
+
+/**
+ * Lists every unit by id, for validating and matching imports.
+ * @return {Promise<Map<string, string>>} Unit names keyed by id.
+ */
+export async function loadUnitNames(): Promise<Map<string, string>> {
+  const snapshot = await admin.firestore().collection("orgUnits").get();
+  return new Map(snapshot.docs.map((doc) => [doc.id, doc.data().name]));
+}
+
+// 🌳 Keep each unit's path, its children's and its members' in step
+export const syncUnitPaths = functions.firestore.onDocumentWritten(
+  "orgUnits/{unitId}",
+  async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return; // the admin screen refuses non-empty deletes
+
+    const unitId = event.params.unitId;
+    const unit = after.data() as OrgUnit;
+    const path = await unitPath(unitId);
+
+    if (!path) {
+      // A parent loop: detach the unit rather than leave it unreachable
+      console.error(`Unit ${unitId} has a parent loop, moving it to the top.`);
+      await after.ref.update({parentId: null});
+      return;
+    }
+    if (samePath(unit.path, path)) return;
+
+    // The path update re-triggers this function, which then stops above
+    await after.ref.update({path});
+
+    const db = admin.firestore();
+    const children = await db
+      .collection("orgUnits")
+      .where("parentId", "==", unitId)
+      .get();
+    // Clearing a child's path makes its own trigger rebuild the subtree
+    for (const child of children.docs) {
+      await child.ref.update({path: admin.firestore.FieldValue.delete()});
+    }
+
+    const members = await db
+      .collection("users")
+      .where("unitId", "==", unitId)
+      .get();
+    for (const member of members.docs) {
+      await member.ref.update({unitPath: path});
+    }
+  }
+);
+
+// 🧭 Fill users/{uid}.unitPath whenever the unit assignment changes
+export const syncUserUnit = functions.firestore.onDocumentWritten(
+  "users/{uid}",
+  async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return;
+
+    const data = after.data() || {};
+    if (!data.unitId) {
+      if (data.unitPath) {
+        await after.ref.update({
+          unitPath: admin.firestore.FieldValue.delete(),
+        });
+      }
+      return;
+    }
+
+    const unit = await admin
+      .firestore()
+      .collection("orgUnits")
+      .doc(data.unitId)
+      .get();
+    const path = unit.exists ?
+      (unit.data() as OrgUnit).path || await unitPath(data.unitId) :
+      null;
+    if (path && !samePath(data.unitPath, path)) {
+      await after.ref.update({unitPath: path});
+    }
+  }
+);
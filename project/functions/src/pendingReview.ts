@@ -0,0 +1,310 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {logActivity} from "./activity";
+import {assertCan, canAssignRole} from "./guards";
+import {isEmailVerified} from "./emailVerification";
+import {enqueueMail} from "./mailQueue";
+import {Actor} from "./suspension";
+import {localeFor} from "./templates";
+import {assignableRoles, usersWithCapability} from "./permissions";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REVIEW_BATCH = 200;
+
+const DEFAULT_MESSAGES = {
+  approve: "Your account has been approved. You can now access the system.",
+  reject: "Your account registration has been rejected.",
+  expire: "Your registration request expired before it could be reviewed.",
+};
+
+// ⏱️ settings/pendingApprovals, edited from the admin settings page
+interface PendingApprovalSettings {
+  slaDays: number;
+  reminderEnabled: boolean;
+  expireAfterDays: number | null; // null keeps requests until reviewed
+}
+
+const DEFAULT_SETTINGS: PendingApprovalSettings = {
+  slaDays: 3,
+  reminderEnabled: true,
+  expireAfterDays: null,
+};
+
+// 📦 Data shape from PendingUsers
+interface ReviewPendingData {
+  uids: string[];
+  decision: "approve" | "reject";
+  message?: string;
+}
+
+// 🧾 What happened to one request in a review
+type ReviewOutcome = "reviewed" | "missing" | "invalidRole";
+
+/**
+ * Reads the approval SLA settings, filling in defaults.
+ * @return {Promise<PendingApprovalSettings>} The effective settings.
+ */
+async function loadSettings(): Promise<PendingApprovalSettings> {
+  const snap = await admin
+    .firestore()
+    .collection("settings")
+    .doc("pendingApprovals")
+    .get();
+  return {...DEFAULT_SETTINGS, ...snap.data()};
+}
+
+/**
+ * Approves or rejects one pending signup and queues the user's email.
+ * Rejections are kept in rejectedUsers so they can be reconsidered.
+ * @param {string} uid The pending user.
+ * @param {string} decision "approve", "reject", or "expire" for stale
+ * requests, which are recorded as rejections.
+ * @param {string} message Shown to the user in the email.
+ * @param {Actor} actor Who made the decision.
+ * @param {Set<string>} grantable Roles the reviewer may approve into; only
+ * checked for approvals.
+ * @return {Promise<ReviewOutcome>} "missing" when the request no longer
+ * exists, "invalidRole" when its role cannot be granted.
+ */
+async function reviewPendingUser(
+  uid: string,
+  decision: "approve" | "reject" | "expire",
+  message: string,
+  actor: Actor,
+  grantable: Set<string> = new Set()
+): Promise<ReviewOutcome> {
+  const db = admin.firestore();
+  const pendingRef = db.collection("pendingUsers").doc(uid);
+  const userRef = db.collection("users").doc(uid);
+  // Read before a rejection deletes the users document
+  const locale = await localeFor(uid);
+
+  const pending = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(pendingRef);
+    const data = snap.data();
+    if (!data) return "missing";
+
+    if (decision === "approve") {
+      if (!grantable.has(data.role)) return "invalidRole";
+      tx.set(userRef, {
+        role: data.role,
+        approvedAt: admin.firestore.FieldValue.serverTimestamp(),
+        approvedBy: actor.uid,
+      }, {merge: true});
+    } else {
+      tx.set(db.collection("rejectedUsers").doc(uid), {
+        ...data,
+        reason: decision === "expire" ? "expired" : "rejected",
+        rejectionMessage: message,
+        rejectedBy: actor.uid,
+        rejectedByName: actor.name,
+        rejectedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      tx.delete(userRef);
+    }
+    tx.delete(pendingRef);
+    return data;
+  });
+  if (typeof pending === "string") return pending;
+
+  const action = decision === "approve" ? "approved" :
+    decision === "reject" ? "rejected" : "expired";
+  await logActivity({
+    userId: actor.uid,
+    userName: actor.name,
+    action,
+    target: pending.displayName || pending.email,
+    details: message,
+  });
+
+  if (pending.email) {
+    await enqueueMail(
+      decision === "approve" ? "approval" : "rejection",
+      pending.email,
+      {name: pending.displayName || pending.email, message},
+      locale
+    );
+  }
+  return "reviewed";
+}
+
+// ✅ Approve or reject one or many pending signups with a shared message
+export const reviewPendingUsers = functions.https.onCall(
+  async (request: functions.https.CallableRequest<ReviewPendingData>) => {
+    const auth = assertCan(request, "users.approve");
+    const {uids, decision} = request.data;
+
+    if (!Array.isArray(uids) || uids.length === 0) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Select at least one user."
+      );
+    }
+    if (uids.length > MAX_REVIEW_BATCH) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        `At most ${MAX_REVIEW_BATCH} users can be reviewed at once.`
+      );
+    }
+    if (decision !== "approve" && decision !== "reject") {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Decision must be approve or reject."
+      );
+    }
+
+    const actor = {
+      uid: auth.uid,
+      name: auth.token.name || auth.token.email || "Admin",
+    };
+    const message = request.data.message?.trim() || DEFAULT_MESSAGES[decision];
+
+    // Same rule as creating an account: no granting more than the reviewer
+    // holds, and only Super Admins make new admins
+    const roles = await assignableRoles();
+    const grantable = new Set(
+      Object.keys(roles).filter((id) => canAssignRole(auth, id, roles[id]))
+    );
+
+    const missing: string[] = [];
+    const unverified: string[] = [];
+    const invalidRole: string[] = [];
+    for (const uid of uids) {
+      // Only confirmed addresses can be approved; anything can be rejected
+      if (decision === "approve" && !(await isEmailVerified(uid))) {
+        unverified.push(uid);
+        continue;
+      }
+      const outcome = await reviewPendingUser(
+        uid,
+        decision,
+        message,
+        actor,
+        grantable
+      );
+      if (outcome === "missing") missing.push(uid);
+      if (outcome === "invalidRole") invalidRole.push(uid);
+    }
+    return {
+      success: true,
+      reviewed:
+        uids.length - missing.length - unverified.length - invalidRole.length,
+      missing,
+      unverified,
+      invalidRole,
+    };
+  }
+);
+
+// 🔄 Send a rejected signup back to the pending list
+export const reconsiderRejection = functions.https.onCall(
+  async (request: functions.https.CallableRequest<{ uid: string }>) => {
+    const auth = assertCan(request, "users.approve");
+    const db = admin.firestore();
+    const uid = String(request.data.uid || "");
+    const rejectedRef = db.collection("rejectedUsers").doc(uid);
+
+    const rejected = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(rejectedRef);
+      const data = snap.data();
+      if (!data) {
+        throw new functions.https.HttpsError(
+          "not-found",
+          "Rejected user not found."
+        );
+      }
+
+      const pending = {...data};
+      ["reason", "rejectionMessage", "rejectedBy", "rejectedByName",
+        "rejectedAt"].forEach((field) => delete pending[field]);
+
+      tx.set(db.collection("pendingUsers").doc(uid), {
+        ...pending,
+        manualReview: true,
+        originalTimestamp: data.timestamp || null,
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      tx.set(db.collection("users").doc(uid), {
+        uid,
+        email: data.email || "",
+        displayName: data.displayName || "",
+        role: "pending",
+      }, {merge: true});
+      tx.delete(rejectedRef);
+      return data;
+    });
+
+    await logActivity({
+      userId: auth.uid,
+      userName: auth.token.name || auth.token.email || "Admin",
+      action: "reconsidered",
+      target: rejected.displayName || rejected.email,
+    });
+    return {success: true};
+  }
+);
+
+// 📅 Remind approvers of overdue requests and expire stale ones
+export const pendingApprovalsDaily = functions.scheduler.onSchedule(
+  "every day 09:00",
+  async () => {
+    const db = admin.firestore();
+    const settings = await loadSettings();
+    const now = Date.now();
+
+    if (settings.expireAfterDays) {
+      const cutoff = admin.firestore.Timestamp.fromMillis(
+        now - settings.expireAfterDays * DAY_MS
+      );
+      const stale = await db
+        .collection("pendingUsers")
+        .where("timestamp", "<=", cutoff)
+        .get();
+      for (const doc of stale.docs) {
+        await reviewPendingUser(
+          doc.id,
+          "expire",
+          DEFAULT_MESSAGES.expire,
+          {uid: "system", name: "System"}
+        );
+      }
+    }
+
+    if (!settings.reminderEnabled) return;
+
+    const overdue = await db
+      .collection("pendingUsers")
+      .where(
+        "timestamp",
+        "<=",
+        admin.firestore.Timestamp.fromMillis(now - settings.slaDays * DAY_MS)
+      )
+      .orderBy("timestamp")
+      .get();
+    // Signups still confirming their email cannot be reviewed yet
+    const actionable = overdue.docs.filter(
+      (doc) => doc.data().emailVerified !== false
+    );
+    if (!actionable.length) return;
+
+    const oldest = (actionable[0].data().timestamp as
+      admin.firestore.Timestamp).toDate();
+    const approvers = await usersWithCapability("users.approve");
+
+    for (const approverDoc of approvers) {
+      const {email, displayName} = approverDoc.data();
+      if (!email) continue;
+      await enqueueMail(
+        "pendingReminder",
+        email,
+        {
+          name: displayName || email,
+          count: actionable.length,
+          slaDays: settings.slaDays,
+          oldest: oldest.toISOString().slice(0, 10),
+        },
+        await localeFor(approverDoc.id)
+      );
+    }
+  }
+);
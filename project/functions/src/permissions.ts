@@ -0,0 +1,276 @@
+import * as admin from "firebase-admin";
+
+// 🔑 Every capability a role can grant. The client keeps a labelled copy in
+// src/lib/permissions.ts for the role editor.
+export const CAPABILITIES = [
+  "users.manage",
+  "users.approve",
+  "users.invite",
+  "users.impersonate",
+  "admins.manage",
+  "roles.manage",
+  "org.manage",
+  "courses.manage",
+  "courses.publish",
+  "courses.teach",
+  "courses.enroll",
+  "sessions.manage",
+  "grades.edit",
+  "grades.approve",
+  "activity.view",
+  "emails.manage",
+  "settings.manage",
+  "data.export",
+  "records.view",
+] as const;
+
+export type Capability = typeof CAPABILITIES[number];
+
+export type RoleDashboard =
+  "admin" | "trainer" | "trainee" | "user" | "observer";
+
+// 🧩 roles/{roleId}; built-in roles work without a document
+export interface RoleDefinition {
+  name: string;
+  description?: string;
+  dashboard: RoleDashboard;
+  capabilities: string[];
+  readOnly?: boolean; // security rules refuse every write
+  timeBoxed?: boolean; // accounts need accessExpiresAt and lose access then
+}
+
+export type RoleCatalog = Record<string, RoleDefinition>;
+
+export const DEFAULT_ROLES: RoleCatalog = {
+  admin: {
+    name: "Admin",
+    dashboard: "admin",
+    // admins.manage is reserved for super admins
+    capabilities: CAPABILITIES.filter((cap) => cap !== "admins.manage"),
+  },
+  trainer: {
+    name: "Trainer",
+    dashboard: "trainer",
+    capabilities: ["courses.teach", "sessions.manage", "grades.edit"],
+  },
+  trainee: {
+    name: "Trainee",
+    dashboard: "trainee",
+    capabilities: ["courses.enroll"],
+  },
+  user: {
+    name: "User",
+    dashboard: "user",
+    capabilities: [],
+  },
+  observer: {
+    name: "Observer",
+    description: "External reviewers with read-only, time-limited access",
+    dashboard: "observer",
+    capabilities: ["records.view"],
+    readOnly: true,
+    timeBoxed: true,
+  },
+  pending: {
+    name: "Pending",
+    dashboard: "user",
+    capabilities: [],
+  },
+};
+
+// Roles nobody can be created with or assigned through the user screens
+const UNASSIGNABLE_ROLES = ["pending", "user"];
+
+/**
+ * Reads a role, falling back to the built-in definition.
+ * @param {string} roleId The users document's role.
+ * @return {Promise<RoleDefinition | null>} The role, or null if unknown.
+ */
+export async function loadRole(roleId: string): Promise<RoleDefinition | null> {
+  const snap = await admin.firestore().collection("roles").doc(roleId).get();
+  const stored = snap.data() as Partial<RoleDefinition> | undefined;
+  const builtIn = DEFAULT_ROLES[roleId];
+  if (!stored && !builtIn) return null;
+  return {...builtIn, ...stored} as RoleDefinition;
+}
+
+/**
+ * Lists the capabilities a role grants, ignoring names no longer in the
+ * catalogue.
+ * @param {string} roleId The role to look up.
+ * @return {Promise<string[]>} The role's capabilities.
+ */
+export async function capabilitiesFor(roleId: string): Promise<string[]> {
+  return grantedCapabilities(await loadRole(roleId));
+}
+
+/**
+ * Lists a loaded role's capabilities that are still in the catalogue.
+ * @param {RoleDefinition | null} role The role, if it exists.
+ * @return {string[]} The capabilities it grants.
+ */
+export function grantedCapabilities(role: RoleDefinition | null): string[] {
+  return (role?.capabilities || []).filter((cap) =>
+    (CAPABILITIES as readonly string[]).includes(cap)
+  );
+}
+
+/**
+ * Lists the roles an admin may give to an account.
+ * @return {Promise<RoleCatalog>} Built-in and custom roles by id.
+ */
+export async function assignableRoles(): Promise<RoleCatalog> {
+  const snapshot = await admin.firestore().collection("roles").get();
+  const roles: RoleCatalog = {...DEFAULT_ROLES};
+  snapshot.docs.forEach((doc) => {
+    roles[doc.id] = {
+      ...DEFAULT_ROLES[doc.id],
+      ...doc.data(),
+    } as RoleDefinition;
+  });
+  UNASSIGNABLE_ROLES.forEach((id) => delete roles[id]);
+  return roles;
+}
+
+/**
+ * Finds the accounts holding a capability, built-in, custom role or super
+ * admin. The Auth claims have the final say, so suspended accounts and
+ * roles changed since the last claims sync are left out.
+ * @param {Capability} capability The capability to look for.
+ * @return {Promise<admin.firestore.QueryDocumentSnapshot[]>} Their users
+ * documents.
+ */
+export async function usersWithCapability(
+  capability: Capability
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const db = admin.firestore();
+  const stored = await db.collection("roles").get();
+  const roles: RoleCatalog = {...DEFAULT_ROLES};
+  stored.docs.forEach((doc) => {
+    roles[doc.id] = {...DEFAULT_ROLES[doc.id], ...doc.data()} as
+      RoleDefinition;
+  });
+  const roleIds = Object.keys(roles).filter((id) =>
+    grantedCapabilities(roles[id]).includes(capability)
+  );
+
+  const queries = [db.collection("users").where("isSuperAdmin", "==", true)];
+  for (let i = 0; i < roleIds.length; i += 30) {
+    queries.push(
+      db.collection("users").where("role", "in", roleIds.slice(i, i + 30))
+    );
+  }
+  const candidates = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+  for (const snap of await Promise.all(queries.map((q) => q.get()))) {
+    snap.docs.forEach((doc) => candidates.set(doc.id, doc));
+  }
+
+  const uids = [...candidates.keys()];
+  const holders = new Set<string>();
+  for (let i = 0; i < uids.length; i += 100) {
+    const {users} = await admin
+      .auth()
+      .getUsers(uids.slice(i, i + 100).map((uid) => ({uid})));
+    users.forEach((user) => {
+      const claims = user.customClaims || {};
+      const caps = Array.isArray(claims.caps) ? claims.caps : [];
+      if (!user.disabled &&
+        (claims.isSuperAdmin === true || caps.includes(capability))) {
+        holders.add(user.uid);
+      }
+    });
+  }
+  return uids.filter((uid) => holders.has(uid))
+    .map((uid) => candidates.get(uid) as admin.firestore.QueryDocumentSnapshot);
+}
+
+// 📜 Collections whose security rules are nothing but capability checks.
+// `npm run rules` writes these into firestore.rules.
+export interface CollectionGrant {
+  match: string;
+  comment: string;
+  read: Capability[];
+  write?: Capability[];
+}
+
+export const COLLECTION_GRANTS: CollectionGrant[] = [
+  {
+    match: "/invitations/{token}",
+    comment: "Invitations are issued, redeemed and revoked through Cloud " +
+      "Functions",
+    read: ["users.invite"],
+  },
+  {
+    match: "/deletionReceipts/{receiptId}",
+    comment: "Deletion receipts are written by the deleteUserAccount function",
+    read: ["users.manage"],
+  },
+  {
+    match: "/mailOutbox/{messageId}",
+    comment: "Mail captured by the \"capture\" mail driver instead of " +
+      "being sent",
+    read: ["emails.manage"],
+  },
+  {
+    match: "/emailTemplates/{templateKey}/{document=**}",
+    comment: "Email templates are edited through Cloud Functions",
+    read: ["emails.manage"],
+  },
+  {
+    match: "/emailLog/{logId}",
+    comment: "Every send, with the template version used",
+    read: ["emails.manage"],
+  },
+  {
+    match: "/mailQueue/{messageId}",
+    comment: "Outbound email queue, processed and retried by Cloud Functions",
+    read: ["emails.manage"],
+  },
+  {
+    match: "/approvalRules/{ruleId}",
+    comment: "Auto-approval rules applied to new signups",
+    read: ["users.approve"],
+    write: ["users.approve"],
+  },
+  {
+    match: "/approvalDecisions/{decisionId}",
+    comment: "Decisions made by approval rules, reverted through a function",
+    read: ["users.approve"],
+  },
+  {
+    match: "/rejectedUsers/{userId}",
+    comment: "Rejected and expired signups, kept so they can be reconsidered",
+    read: ["users.approve"],
+  },
+  {
+    match: "/grades/{gradeId}",
+    comment: "Training records open to observers",
+    read: ["records.view", "grades.approve", "grades.edit"],
+  },
+  {
+    match: "/finalGrade/{gradeId}",
+    comment: "Published final grades",
+    read: ["records.view", "grades.approve"],
+  },
+  {
+    match: "/attendance/{recordId}",
+    comment: "Session attendance",
+    read: ["records.view", "sessions.manage"],
+  },
+  {
+    match: "/activityLogs/{logId}",
+    comment: "Audit trail of admin and user actions",
+    read: ["records.view", "activity.view"],
+  },
+  {
+    match: "/impersonationSessions/{sessionId}",
+    comment: "\"View as\" sessions, opened and closed through Cloud Functions",
+    read: ["users.impersonate", "activity.view"],
+  },
+  {
+    match: "/settings/{settingId}",
+    comment: "Platform settings edited from the admin settings page",
+    read: ["settings.manage", "users.approve"],
+    write: ["settings.manage"],
+  },
+];
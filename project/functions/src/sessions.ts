@@ -0,0 +1,220 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {logActivity} from "./activity";
+import {assertCan, assertSignedIn, hasCapability} from "./guards";
+import {loadRole} from "./permissions";
+
+// Browsers check in every few minutes; a session silent for longer than
+// this was closed without signing out
+const STALE_MINUTES = 30;
+
+/**
+ * Revokes a user's refresh tokens and records when, so the security rules
+ * also turn away ID tokens issued before then instead of honouring them
+ * until they expire.
+ * @param {string} uid The user to sign out everywhere.
+ * @return {Promise<void>}
+ */
+export async function revokeTokens(uid: string): Promise<void> {
+  await admin.auth().revokeRefreshTokens(uid);
+  const {tokensValidAfterTime} = await admin.auth().getUser(uid);
+  await admin.firestore().collection("tokenRevocations").doc(uid).set({
+    revokeTime: Math.floor(
+      new Date(tokensValidAfterTime || Date.now()).getTime() / 1000
+    ),
+  });
+}
+
+// ⚙️ settings/sessionPolicy, edited on the admin settings page
+export interface SessionPolicy {
+  idleTimeoutMinutes: number | null; // null never signs anyone out
+  warningSeconds: number; // how long the warning shows before logout
+  examMode: boolean; // trainees may only be signed in once
+}
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  idleTimeoutMinutes: 30,
+  warningSeconds: 60,
+  examMode: false,
+};
+
+type EndReason = "signed out" | "idle" | "revoked" | "replaced" | "stale";
+
+// 📦 Data shapes from AuthContext and UserManagement
+interface RegisterSessionData {
+  userAgent?: string;
+}
+
+interface RevokeSessionsData {
+  uid: string;
+  sessionId?: string; // omitted to sign the user out everywhere
+}
+
+/**
+ * Reads the session policy, falling back to the defaults.
+ * @return {Promise<SessionPolicy>} The policy in force.
+ */
+export async function loadSessionPolicy(): Promise<SessionPolicy> {
+  const snap = await admin
+    .firestore()
+    .collection("settings")
+    .doc("sessionPolicy")
+    .get();
+  return {...DEFAULT_SESSION_POLICY, ...snap.data()};
+}
+
+/**
+ * Lists a user's sessions that have not ended.
+ * @param {string} uid The user.
+ * @return {Promise<admin.firestore.QueryDocumentSnapshot[]>} Open sessions.
+ */
+async function openSessions(
+  uid: string
+): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+  const snapshot = await admin
+    .firestore()
+    .collection("userSessions")
+    .where("uid", "==", uid)
+    .where("endedAt", "==", null)
+    .get();
+  return snapshot.docs;
+}
+
+/**
+ * Marks sessions as ended. Their browsers watch the document and sign out.
+ * @param {admin.firestore.DocumentSnapshot[]} sessions The sessions.
+ * @param {EndReason} reason Why they ended.
+ * @return {Promise<void>}
+ */
+async function endSessions(
+  sessions: admin.firestore.DocumentSnapshot[],
+  reason: EndReason
+): Promise<void> {
+  for (const session of sessions) {
+    await session.ref.update({
+      endedAt: admin.firestore.FieldValue.serverTimestamp(),
+      endReason: reason,
+    });
+  }
+}
+
+// 🖥️ userSessions/{sessionId}: one per signed-in browser. In exam mode a
+// trainee's new sign-in ends their other sessions.
+export const registerSession = functions.https.onCall(
+  async (request: functions.https.CallableRequest<RegisterSessionData>) => {
+    const auth = assertSignedIn(request, {allowViewingAs: true});
+    const policy = await loadSessionPolicy();
+    const roleId = (auth.token.role as string) || "pending";
+
+    let replaced = 0;
+    if (policy.examMode) {
+      const role = await loadRole(roleId);
+      if (role?.dashboard === "trainee") {
+        const others = await openSessions(auth.uid);
+        await endSessions(others, "replaced");
+        replaced = others.length;
+      }
+    }
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const sessionRef = await admin.firestore().collection("userSessions").add({
+      uid: auth.uid,
+      userName: auth.token.name || auth.token.email || auth.uid,
+      role: roleId,
+      userAgent: (request.data.userAgent || "").slice(0, 200),
+      startedAt: now,
+      lastSeenAt: now,
+      endedAt: null,
+    });
+
+    if (replaced) {
+      await logActivity({
+        userId: auth.uid,
+        userName: auth.token.name || auth.token.email || "User",
+        action: "replaced sessions",
+        target: auth.token.email || auth.uid,
+        details: `Exam mode ended ${replaced} other session(s)`,
+      });
+    }
+
+    return {sessionId: sessionRef.id, policy};
+  }
+);
+
+// 🔌 End one of a user's sessions, or all of them. Signing out everywhere
+// also revokes the user's refresh tokens so no browser can renew its token.
+export const revokeSessions = functions.https.onCall(
+  async (request: functions.https.CallableRequest<RevokeSessionsData>) => {
+    const auth = assertCan(request, "users.manage");
+    const {uid, sessionId} = request.data;
+
+    if (!uid) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A user is required."
+      );
+    }
+
+    const target = await admin.firestore().collection("users").doc(uid).get();
+    if (target.data()?.isSuperAdmin && uid !== auth.uid) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "You cannot revoke the Super Admin's sessions."
+      );
+    }
+    if (
+      target.data()?.role === "admin" &&
+      uid !== auth.uid &&
+      !hasCapability(auth, "admins.manage")
+    ) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Only Super Admins can revoke an admin's sessions."
+      );
+    }
+
+    let sessions = await openSessions(uid);
+    if (sessionId) {
+      sessions = sessions.filter((session) => session.id === sessionId);
+      if (!sessions.length) {
+        throw new functions.https.HttpsError(
+          "not-found",
+          "That session has already ended."
+        );
+      }
+    } else {
+      await revokeTokens(uid);
+    }
+    await endSessions(sessions, "revoked");
+
+    await logActivity({
+      userId: auth.uid,
+      userName: auth.token.name || auth.token.email || "Admin",
+      action: sessionId ? "revoked session" : "signed out everywhere",
+      target: target.data()?.displayName || target.data()?.email || uid,
+      details: sessionId ?
+        sessions[0].data().userAgent || "" :
+        `${sessions.length} open session(s); refresh tokens revoked`,
+    });
+
+    return {revoked: sessions.length};
+  }
+);
+
+// 🧹 Close sessions whose browser stopped checking in
+export const closeStaleSessions = functions.scheduler.onSchedule(
+  "every 60 minutes",
+  async () => {
+    const cutoff = admin.firestore.Timestamp.fromMillis(
+      Date.now() - STALE_MINUTES * 60000
+    );
+    const stale = await admin
+      .firestore()
+      .collection("userSessions")
+      .where("endedAt", "==", null)
+      .where("lastSeenAt", "<=", cutoff)
+      .get();
+
+    await endSessions(stale.docs, "stale");
+  }
+);
@@ -0,0 +1,215 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {logActivity} from "./activity";
+import {assertCan, hasCapability} from "./guards";
+import {revokeTokens} from "./sessions";
+
+// 🙋 Who triggered a suspension transition
+export interface Actor {
+  uid: string;
+  name: string;
+}
+
+export const SYSTEM_ACTOR: Actor = {uid: "system", name: "System"};
+
+// 📦 Data shapes from UserManagement
+interface SuspendUserData {
+  uid: string;
+  reason: string;
+  until?: string | null; // ISO date; omitted for an open-ended suspension
+}
+
+interface ReactivateUserData {
+  uid: string;
+}
+
+/**
+ * Suspends an account: flags the users document, disables the Auth user
+ * and revokes its tokens so open sessions lose access right away.
+ * @param {string} uid The account to suspend.
+ * @param {string} reason Why, shown to the user.
+ * @param {Date | null} until When the suspension ends on its own, if ever.
+ * @param {Actor} actor Who suspended the account.
+ * @return {Promise<void>}
+ */
+export async function suspendAccount(
+  uid: string,
+  reason: string,
+  until: Date | null,
+  actor: Actor
+): Promise<void> {
+  const userRef = admin.firestore().collection("users").doc(uid);
+  const snap = await userRef.get();
+  if (!snap.exists) {
+    throw new functions.https.HttpsError("not-found", "User not found.");
+  }
+
+  await userRef.update({
+    accountStatus: "suspended",
+    suspension: {
+      reason,
+      until: until ? admin.firestore.Timestamp.fromDate(until) : null,
+      suspendedBy: actor.uid,
+      suspendedByName: actor.name,
+      suspendedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+  });
+  await admin.auth().updateUser(uid, {disabled: true});
+  await revokeTokens(uid);
+
+  await logActivity({
+    userId: actor.uid,
+    userName: actor.name,
+    action: "suspended",
+    target: snap.data()?.displayName || snap.data()?.email || uid,
+    details: until ?
+      `Reason: ${reason} (until ${until.toISOString().slice(0, 10)})` :
+      `Reason: ${reason}`,
+  });
+}
+
+/**
+ * Lifts a suspension and re-enables the Auth user.
+ * @param {string} uid The account to reactivate.
+ * @param {Actor} actor Who reactivated the account.
+ * @return {Promise<void>}
+ */
+export async function reactivateAccount(
+  uid: string,
+  actor: Actor
+): Promise<void> {
+  const userRef = admin.firestore().collection("users").doc(uid);
+  const snap = await userRef.get();
+  if (!snap.exists) {
+    throw new functions.https.HttpsError("not-found", "User not found.");
+  }
+
+  await userRef.update({
+    accountStatus: "active",
+    suspension: admin.firestore.FieldValue.delete(),
+    reactivatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  await admin.auth().updateUser(uid, {disabled: false});
+
+  await logActivity({
+    userId: actor.uid,
+    userName: actor.name,
+    action: "reactivated",
+    target: snap.data()?.displayName || snap.data()?.email || uid,
+  });
+}
+
+// ⛔ Suspend an account without deleting anything
+export const suspendUser = functions.https.onCall(
+  async (request: functions.https.CallableRequest<SuspendUserData>) => {
+    const auth = assertCan(request, "users.manage");
+    const {uid, reason, until} = request.data;
+
+    if (!uid || !reason) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A user and a reason are required."
+      );
+    }
+    if (uid === auth.uid) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "You cannot suspend your own account."
+      );
+    }
+
+    const untilDate = until ? new Date(until) : null;
+    if (untilDate && (isNaN(untilDate.getTime()) || untilDate <= new Date())) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "The end date must be in the future."
+      );
+    }
+
+    const target = await admin.firestore().collection("users").doc(uid).get();
+    if (target.data()?.isSuperAdmin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "You cannot suspend the Super Admin."
+      );
+    }
+    if (
+      target.data()?.role === "admin" &&
+      !hasCapability(auth, "admins.manage")
+    ) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Only Super Admins can suspend admins."
+      );
+    }
+
+    await suspendAccount(uid, reason, untilDate, {
+      uid: auth.uid,
+      name: auth.token.name || auth.token.email || "Admin",
+    });
+    return {success: true};
+  }
+);
+
+// ✅ Reactivate a suspended account
+export const reactivateUser = functions.https.onCall(
+  async (request: functions.https.CallableRequest<ReactivateUserData>) => {
+    const auth = assertCan(request, "users.manage");
+    const {uid} = request.data;
+    if (!uid) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A user is required."
+      );
+    }
+
+    const target = await admin.firestore().collection("users").doc(uid).get();
+    if (!target.exists) {
+      throw new functions.https.HttpsError("not-found", "User not found.");
+    }
+    if (target.data()?.isSuperAdmin) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "You cannot reactivate the Super Admin."
+      );
+    }
+    if (
+      target.data()?.role === "admin" &&
+      !hasCapability(auth, "admins.manage")
+    ) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "Only Super Admins can reactivate admins."
+      );
+    }
+    if (target.data()?.accountStatus !== "suspended") {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        "This account is not suspended."
+      );
+    }
+
+    await reactivateAccount(uid, {
+      uid: auth.uid,
+      name: auth.token.name || auth.token.email || "Admin",
+    });
+    return {success: true};
+  }
+);
+
+// ⏰ Lift suspensions whose end date has passed
+export const reactivateExpiredSuspensions = functions.scheduler.onSchedule(
+  "every 60 minutes",
+  async () => {
+    const snapshot = await admin
+      .firestore()
+      .collection("users")
+      .where("accountStatus", "==", "suspended")
+      .where("suspension.until", "<=", admin.firestore.Timestamp.now())
+      .get();
+
+    for (const userDoc of snapshot.docs) {
+      await reactivateAccount(userDoc.id, SYSTEM_ACTOR);
+    }
+  }
+);
@@ -0,0 +1,525 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {assertCan} from "./guards";
+import {MailResult, sendMail} from "./mail";
+
+export type TemplateKey =
+  | "approval"
+  | "rejection"
+  | "accountUpdated"
+  | "accountDeleted"
+  | "invite"
+  | "accountSetup"
+  | "emailVerification"
+  | "gradePublished"
+  | "sessionReminder"
+  | "certificateIssued"
+  | "pendingReminder"
+  | "inactivityWarning"
+  | "inactivityReport"
+  | "waitlistPromoted"
+  | "coursePublished"
+  | "courseReturned";
+
+export const DEFAULT_LOCALE = "en";
+
+// 🌐 One language variant of a template
+export interface TemplateContent {
+  subject: string;
+  html: string;
+  text: string; // plain-text fallback; derived from html when empty
+}
+
+interface TemplateDefinition {
+  description: string;
+  variables: string[];
+  locales: Record<string, TemplateContent>;
+}
+
+// 📝 Built-in templates, used as version 0 until an admin saves a change
+export const DEFAULT_TEMPLATES: Record<TemplateKey, TemplateDefinition> = {
+  approval: {
+    description: "Sent when an admin approves a pending account.",
+    variables: ["name", "message"],
+    locales: {en: {
+      subject: "Your account has been approved",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>Your account has been approved by the admin.</p>" +
+        "<p>Message: {{message}}</p><p>Thank you!</p>",
+      text: "",
+    }},
+  },
+  rejection: {
+    description: "Sent when an admin rejects a pending account.",
+    variables: ["name", "message"],
+    locales: {en: {
+      subject: "Your account has been rejected",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>Your account has been rejected by the admin.</p>" +
+        "<p>Message: {{message}}</p><p>Thank you!</p>",
+      text: "",
+    }},
+  },
+  accountUpdated: {
+    description: "Sent when an admin edits an account's name or email.",
+    variables: ["name", "message"],
+    locales: {en: {
+      subject: "Your account has been updated",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>Your account details have been updated by the admin.</p>" +
+        "<p>Message: {{message}}</p><p>Thank you!</p>",
+      text: "",
+    }},
+  },
+  accountDeleted: {
+    description: "Sent when an admin deletes an account.",
+    variables: ["name", "message"],
+    locales: {en: {
+      subject: "Your account has been deleted",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>Your account and its data have been deleted by the admin.</p>" +
+        "<p>Message: {{message}}</p><p>Thank you!</p>",
+      text: "",
+    }},
+  },
+  invite: {
+    description: "Invitation link for a new trainee or trainer.",
+    variables: ["role", "inviteLink", "days"],
+    locales: {en: {
+      subject: "You have been invited to ATMS",
+      html: "<p>Hello,</p>" +
+        "<p>You have been invited to join ATMS as a {{role}}.</p>" +
+        "<p><a href=\"{{inviteLink}}\">Create your account</a></p>" +
+        "<p>This link can be used once and expires in {{days}} days.</p>" +
+        "<p>Thank you!</p>",
+      text: "Hello,\n\nYou have been invited to join ATMS as a {{role}}.\n\n" +
+        "Create your account here: {{inviteLink}}\n\n" +
+        "This link can be used once and expires in {{days}} days.\n\n" +
+        "Thank you!",
+    }},
+  },
+  accountSetup: {
+    description: "Password setup link for an account created by an admin.",
+    variables: ["name", "role", "passwordSetupLink"],
+    locales: {en: {
+      subject: "Set up your account password",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>An account has been created for you as a {{role}}.</p>" +
+        "<p><a href=\"{{passwordSetupLink}}\">Set your password</a></p>" +
+        "<p>Thank you!</p>",
+      text: "Hello {{name}},\n\n" +
+        "An account has been created for you as a {{role}}.\n\n" +
+        "Set your password here: {{passwordSetupLink}}\n\nThank you!",
+    }},
+  },
+  emailVerification: {
+    description: "Link a new signup follows to confirm their email address.",
+    variables: ["name", "verifyLink"],
+    locales: {en: {
+      subject: "Confirm your email address",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>Please confirm your email address so an admin can review " +
+        "your account.</p>" +
+        "<p><a href=\"{{verifyLink}}\">Confirm my email</a></p>" +
+        "<p>If you did not sign up for ATMS, you can ignore this email.</p>",
+      text: "Hello {{name}},\n\n" +
+        "Please confirm your email address so an admin can review your " +
+        "account: {{verifyLink}}\n\n" +
+        "If you did not sign up for ATMS, you can ignore this email.",
+    }},
+  },
+  gradePublished: {
+    description: "Sent to a trainee when a trainer records or changes a grade.",
+    variables: ["name", "courseTitle", "grade"],
+    locales: {en: {
+      subject: "Your grade for {{courseTitle}} is available",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>Your grade for <strong>{{courseTitle}}</strong> is {{grade}}.</p>" +
+        "<p>Thank you!</p>",
+      text: "",
+    }},
+  },
+  sessionReminder: {
+    description: "Sent to enrolled trainees the day before a training session.",
+    variables: ["name", "courseName", "date"],
+    locales: {en: {
+      subject: "Reminder: {{courseName}} session on {{date}}",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>This is a reminder that your <strong>{{courseName}}</strong> " +
+        "session takes place on {{date}}.</p><p>Thank you!</p>",
+      text: "",
+    }},
+  },
+  certificateIssued: {
+    description: "Sent when a trainee's course certificate is issued.",
+    variables: ["name", "courseTitle"],
+    locales: {en: {
+      subject: "Your certificate for {{courseTitle}}",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>Congratulations! Your certificate for " +
+        "<strong>{{courseTitle}}</strong> has been issued.</p>" +
+        "<p>Thank you!</p>",
+      text: "",
+    }},
+  },
+  pendingReminder: {
+    description: "Daily note to admins about signups waiting past the SLA.",
+    variables: ["name", "count", "slaDays", "oldest"],
+    locales: {en: {
+      subject: "{{count}} signups are waiting for approval",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>{{count}} pending signups have waited more than {{slaDays}} " +
+        "days for review. The oldest was submitted on {{oldest}}.</p>" +
+        "<p>Thank you!</p>",
+      text: "",
+    }},
+  },
+  inactivityWarning: {
+    description: "Sent before an unused account is disabled.",
+    variables: ["name", "inactiveDays", "disableOn"],
+    locales: {en: {
+      subject: "Your ATMS account will be disabled soon",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>You have not signed in to ATMS for {{inactiveDays}} days. " +
+        "Your account will be disabled on {{disableOn}} unless you sign " +
+        "in before then.</p>" +
+        "<p>Thank you!</p>",
+      text: "",
+    }},
+  },
+  inactivityReport: {
+    description: "Note to admins after unused accounts are warned or " +
+      "disabled.",
+    variables: ["name", "warned", "disabled"],
+    locales: {en: {
+      subject: "Inactive accounts: {{warned}} warned, {{disabled}} disabled",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>Today's inactivity check warned {{warned}} accounts and " +
+        "disabled {{disabled}}. See Dormant Accounts in ATMS for the " +
+        "list and to exempt accounts.</p>" +
+        "<p>Thank you!</p>",
+      text: "",
+    }},
+  },
+  waitlistPromoted: {
+    description: "Sent when a seat opens and a waitlisted trainee is " +
+      "enrolled.",
+    variables: ["name", "courseTitle"],
+    locales: {en: {
+      subject: "You have a seat in {{courseTitle}}",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>A seat opened in <strong>{{courseTitle}}</strong> and you " +
+        "have been enrolled from the waitlist. You will find the course " +
+        "under My Courses.</p>" +
+        "<p>Thank you!</p>",
+      text: "",
+    }},
+  },
+  coursePublished: {
+    description: "Sent to a trainer when an admin approves their course " +
+      "or their changes to it.",
+    variables: ["name", "courseTitle"],
+    locales: {en: {
+      subject: "{{courseTitle}} is published",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>An admin approved <strong>{{courseTitle}}</strong>. Trainees " +
+        "can now see it under Browse Courses.</p>" +
+        "<p>Thank you!</p>",
+      text: "",
+    }},
+  },
+  courseReturned: {
+    description: "Sent to a trainer when an admin returns their course " +
+      "with comments instead of publishing it.",
+    variables: ["name", "courseTitle", "reviewer", "comments"],
+    locales: {en: {
+      subject: "{{courseTitle}} needs changes before publication",
+      html: "<p>Hello {{name}},</p>" +
+        "<p>{{reviewer}} returned <strong>{{courseTitle}}</strong> with " +
+        "these comments:</p>" +
+        "<blockquote>{{comments}}</blockquote>" +
+        "<p>Update the course under My Courses and submit it for review " +
+        "again.</p>",
+      text: "",
+    }},
+  },
+};
+
+export type TemplateVariables = Record<string, string | number>;
+
+export interface TemplatedMailResult extends MailResult {
+  version: number;
+  locale: string;
+}
+
+// 📦 Data shapes from the template editor
+interface SaveTemplateData {
+  key: TemplateKey;
+  locale: string;
+  content: TemplateContent;
+}
+
+interface PreviewTemplateData {
+  key: TemplateKey;
+  locale?: string;
+  content?: TemplateContent; // unsaved edits; the stored version otherwise
+  variables?: TemplateVariables;
+}
+
+/**
+ * Escapes a variable value for use inside HTML.
+ * @param {string} value The raw value.
+ * @return {string} The escaped value.
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Replaces {{variable}} placeholders; unknown variables render empty.
+ * @param {string} source The template text.
+ * @param {TemplateVariables} variables The values to insert.
+ * @param {boolean} html Whether values need HTML escaping.
+ * @return {string} The rendered text.
+ */
+function interpolate(
+  source: string,
+  variables: TemplateVariables,
+  html: boolean
+): string {
+  return source.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => {
+    const value = variables[name] === undefined ? "" : String(variables[name]);
+    return html ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * Derives a plain-text body from HTML for templates without one.
+ * @param {string} html The rendered HTML.
+ * @return {string} The plain text.
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/p>/gi, "\n\n")
+    .replace(/<a [^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, "$2: $1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&quot;/g, "\"")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/**
+ * Renders one template variant.
+ * @param {TemplateContent} content The variant to render.
+ * @param {TemplateVariables} variables The values to insert.
+ * @return {TemplateContent} Subject, HTML and plain text.
+ */
+export function renderTemplate(
+  content: TemplateContent,
+  variables: TemplateVariables
+): TemplateContent {
+  const html = interpolate(content.html, variables, true);
+  return {
+    subject: interpolate(content.subject, variables, false),
+    html,
+    text: content.text.trim() ?
+      interpolate(content.text, variables, false) :
+      htmlToText(html),
+  };
+}
+
+/**
+ * Picks the closest locale variant: exact match, then the base language,
+ * then the default locale.
+ * @param {Record<string, TemplateContent>} locales The available variants.
+ * @param {string} locale The requested locale, e.g. "fr-CA".
+ * @return {object} The chosen locale and its content.
+ */
+function pickLocale(
+  locales: Record<string, TemplateContent>,
+  locale: string
+): { locale: string; content: TemplateContent } {
+  const candidates = [locale, locale.split("-")[0], DEFAULT_LOCALE];
+  const match = candidates.find((candidate) => locales[candidate]) ||
+    Object.keys(locales)[0];
+  return {locale: match, content: locales[match]};
+}
+
+/**
+ * Loads a template, falling back to the built-in default (version 0).
+ * @param {TemplateKey} key The template to load.
+ * @return {Promise<object>} Its locale variants and version.
+ */
+async function loadTemplate(key: TemplateKey) {
+  const snap = await admin.firestore()
+    .collection("emailTemplates")
+    .doc(key)
+    .get();
+  const stored = snap.data();
+  return {
+    version: (stored?.version as number) || 0,
+    locales: {
+      ...DEFAULT_TEMPLATES[key].locales,
+      ...(stored?.locales as Record<string, TemplateContent> | undefined),
+    },
+  };
+}
+
+/**
+ * Looks up the email locale a user picked in their profile.
+ * @param {string | undefined} uid The recipient, if they have an account.
+ * @return {Promise<string>} Their locale, or the default.
+ */
+export async function localeFor(uid?: string): Promise<string> {
+  if (!uid) return DEFAULT_LOCALE;
+  const snap = await admin.firestore().collection("users").doc(uid).get();
+  return snap.data()?.locale || DEFAULT_LOCALE;
+}
+
+/**
+ * Renders a template in the recipient's locale, sends it and records the
+ * template version in emailLog.
+ * @param {TemplateKey} key The template to send.
+ * @param {string} to The recipient's address.
+ * @param {TemplateVariables} variables The values to insert.
+ * @param {string} locale The recipient's locale.
+ * @param {string[]} secrets Values, such as action links, that must not be
+ * kept in a captured copy.
+ * @return {Promise<TemplatedMailResult>} The driver's result and the
+ * template version and locale used.
+ */
+export async function sendTemplatedMail(
+  key: TemplateKey,
+  to: string,
+  variables: TemplateVariables,
+  locale: string = DEFAULT_LOCALE,
+  secrets: string[] = []
+): Promise<TemplatedMailResult> {
+  const template = await loadTemplate(key);
+  const chosen = pickLocale(template.locales, locale);
+  const rendered = renderTemplate(chosen.content, variables);
+  const result = await sendMail(
+    {to, ...rendered},
+    secrets.flatMap((secret) => [secret, escapeHtml(secret)])
+  );
+
+  await admin.firestore().collection("emailLog").add({
+    template: key,
+    version: template.version,
+    locale: chosen.locale,
+    to,
+    subject: rendered.subject,
+    driver: result.driver,
+    messageId: result.messageId,
+    sentAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return {...result, version: template.version, locale: chosen.locale};
+}
+
+/**
+ * Rejects template keys that have no built-in definition.
+ * @param {string} key The key sent by the client.
+ */
+function assertTemplateKey(key: string): asserts key is TemplateKey {
+  if (!Object.prototype.hasOwnProperty.call(DEFAULT_TEMPLATES, key)) {
+    throw new functions.https.HttpsError(
+      "invalid-argument",
+      "Unknown email template."
+    );
+  }
+}
+
+// 📚 Every template with its stored locales, for the editor
+export const getEmailTemplates = functions.https.onCall(
+  async (request: functions.https.CallableRequest<void>) => {
+    assertCan(request, "emails.manage", {allowViewingAs: true});
+    const keys = Object.keys(DEFAULT_TEMPLATES) as TemplateKey[];
+
+    return Promise.all(keys.map(async (key) => ({
+      key,
+      description: DEFAULT_TEMPLATES[key].description,
+      variables: DEFAULT_TEMPLATES[key].variables,
+      ...(await loadTemplate(key)),
+    })));
+  }
+);
+
+// 💾 Save one locale of a template as a new version
+export const saveEmailTemplate = functions.https.onCall(
+  async (request: functions.https.CallableRequest<SaveTemplateData>) => {
+    const auth = assertCan(request, "emails.manage");
+    const {key, content} = request.data;
+    const locale = String(request.data.locale || "").trim();
+    assertTemplateKey(key);
+
+    if (!/^[a-z]{2}(-[A-Z]{2})?$/.test(locale)) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Locale must look like \"en\" or \"fr-CA\"."
+      );
+    }
+    if (!content?.subject?.trim() || !content?.html?.trim()) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "A subject and an HTML body are required."
+      );
+    }
+
+    const templateRef = admin.firestore().collection("emailTemplates").doc(key);
+    const version = await admin.firestore().runTransaction(async (tx) => {
+      const snap = await tx.get(templateRef);
+      const next = ((snap.data()?.version as number) || 0) + 1;
+      const locales = {
+        ...DEFAULT_TEMPLATES[key].locales,
+        ...snap.data()?.locales,
+        [locale]: {
+          subject: content.subject,
+          html: content.html,
+          text: content.text || "",
+        },
+      };
+      const record = {
+        key,
+        version: next,
+        locales,
+        updatedBy: auth.uid,
+        updatedByName: auth.token.name || auth.token.email || "Admin",
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+
+      tx.set(templateRef, record);
+      tx.set(templateRef.collection("versions").doc(String(next)), record);
+      return next;
+    });
+
+    return {success: true, version};
+  }
+);
+
+// 👀 Render a template with sample values for the editor preview
+export const previewEmailTemplate = functions.https.onCall(
+  async (request: functions.https.CallableRequest<PreviewTemplateData>) => {
+    assertCan(request, "emails.manage", {allowViewingAs: true});
+    const {key, content, variables = {}} = request.data;
+    assertTemplateKey(key);
+
+    const samples: TemplateVariables = {};
+    DEFAULT_TEMPLATES[key].variables.forEach((name) => {
+      samples[name] = `[${name}]`;
+    });
+
+    const source = content ||
+      pickLocale(
+        (await loadTemplate(key)).locales,
+        request.data.locale || DEFAULT_LOCALE
+      ).content;
+    return renderTemplate(source, {...samples, ...variables});
+  }
+);
@@ -0,0 +1,139 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {localeFor, TemplateKey, TemplateVariables} from "./templates";
+import {enqueueMail} from "./mailQueue";
+
+/**
+ * Queues an email to a user with an account, in their locale. Failures
+ * are logged so one bad record does not stop a batch.
+ * @param {TemplateKey} key The template to send.
+ * @param {string} uid The recipient's uid.
+ * @param {TemplateVariables} variables Values besides the recipient's name.
+ * @return {Promise<void>}
+ */
+export async function emailUser(
+  key: TemplateKey,
+  uid: string,
+  variables: TemplateVariables
+): Promise<void> {
+  const user = (await admin.firestore().collection("users").doc(uid).get())
+    .data();
+  if (!user?.email) return;
+
+  try {
+    await enqueueMail(
+      key,
+      user.email,
+      {name: user.displayName || user.email, ...variables},
+      await localeFor(uid)
+    );
+  } catch (err) {
+    console.error(`${key} email to ${uid} could not be queued:`, err);
+  }
+}
+
+// 🎓 Tell a trainee when a grade is recorded or changed
+export const emailGradePublished = functions.firestore.onDocumentWritten(
+  "grades/{gradeId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!after?.traineeId || before?.grade === after.grade) return;
+
+    await emailUser("gradePublished", after.traineeId, {
+      courseTitle: after.courseTitle || "your course",
+      grade: after.grade,
+    });
+  }
+);
+
+// 📜 Tell a trainee when their course certificate is issued
+export const emailCertificateIssued = functions.firestore.onDocumentWritten(
+  "progress/{progressId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (
+      !after?.userId || !after.certificateIssued || before?.certificateIssued
+    ) {
+      return;
+    }
+
+    const course = after.courseId ?
+      await admin.firestore().collection("courses").doc(after.courseId).get() :
+      null;
+    await emailUser("certificateIssued", after.userId, {
+      courseTitle: course?.data()?.title || "your course",
+    });
+  }
+);
+
+// 📝 Tell a trainer when an admin publishes or returns their course
+export const emailCourseReviewed = functions.firestore.onDocumentWritten(
+  "courses/{courseId}",
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (before?.review?.status !== "pending" || !after?.instructorId) return;
+
+    const courseTitle = after.title || "your course";
+    if (after.review?.status === "returned") {
+      await emailUser("courseReturned", after.instructorId, {
+        courseTitle,
+        reviewer: after.review.reviewedByName || "An admin",
+        comments: after.review.comments || "",
+      });
+    } else if (!after.review && after.status === "active") {
+      await emailUser("coursePublished", after.instructorId, {courseTitle});
+    }
+  }
+);
+
+// ⏰ Remind trainees of training sessions starting in the next day
+export const sendSessionReminders = functions.scheduler.onSchedule(
+  "every day 08:00",
+  async () => {
+    const db = admin.firestore();
+    const now = admin.firestore.Timestamp.now();
+    const tomorrow = admin.firestore.Timestamp.fromMillis(
+      now.toMillis() + 24 * 60 * 60 * 1000
+    );
+
+    const sessions = await db
+      .collection("trainingSessions")
+      .where("date", ">=", now)
+      .where("date", "<", tomorrow)
+      .get();
+    if (sessions.empty) return;
+
+    // Enrollment docs hold a course array, so map courses to trainees once
+    const traineesByCourse = new Map<string, string[]>();
+    (await db.collection("enrollments").get()).docs.forEach((doc) => {
+      const courses: { courseId?: string }[] = doc.data().courses || [];
+      courses.forEach(({courseId}) => {
+        if (!courseId) return;
+        traineesByCourse.set(courseId, [
+          ...(traineesByCourse.get(courseId) || []),
+          doc.id,
+        ]);
+      });
+    });
+
+    for (const session of sessions.docs) {
+      const data = session.data();
+      if (data.reminderSentAt) continue;
+
+      const date = (data.date as admin.firestore.Timestamp).toDate();
+      const recipients = traineesByCourse.get(data.courseId) || [];
+      for (const uid of recipients) {
+        await emailUser("sessionReminder", uid, {
+          courseName: data.courseName || "your course",
+          date: date.toUTCString(),
+        });
+      }
+      await session.ref.update({
+        reminderSentAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+  }
+);
@@ -0,0 +1,332 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {logActivity} from "./activity";
+import {CallerAuth, assertCan, canAssignRole} from "./guards";
+import {enqueueMail} from "./mailQueue";
+import {assignableRoles, RoleCatalog} from "./permissions";
+import {parseAccessExpiry} from "./accessExpiry";
+import {loadUnitNames} from "./orgUnits";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_IMPORT_ROWS = 1000;
+const IMPORT_BATCH_SIZE = 20;
+
+// 📦 A new account as entered by an admin
+interface NewUser {
+  displayName: string;
+  email: string;
+  role: string;
+  department?: string;
+  unitId?: string; // orgUnits id; imports match department to a unit name
+  accessExpiresAt?: string; // ISO date, required for time-boxed roles
+}
+
+interface CreateUserData extends NewUser {
+  password?: string;
+  sendSetupLink?: boolean;
+}
+
+interface ProvisionResult {
+  uid: string;
+  passwordSetupLink?: string;
+  emailQueued?: boolean;
+}
+
+/**
+ * Checks a new account's fields before anything is created.
+ * @param {NewUser} user The account to check.
+ * @param {CallerAuth} auth The admin creating it.
+ * @param {RoleCatalog} roles The roles accounts can be created with.
+ * @param {Map<string, string>} units Unit names keyed by id.
+ * @return {string | null} Why the account is invalid, or null.
+ */
+function validateNewUser(
+  user: NewUser,
+  auth: CallerAuth,
+  roles: RoleCatalog,
+  units: Map<string, string>
+): string | null {
+  if (!user.displayName || !user.email || !user.role) {
+    return "Missing required fields.";
+  }
+  if (!EMAIL_PATTERN.test(user.email)) {
+    return "Email address is not valid.";
+  }
+  const role = roles[user.role];
+  if (!role) {
+    return `Unknown role: ${user.role}`;
+  }
+  if (role.timeBoxed && !parseAccessExpiry(user.accessExpiresAt)) {
+    return `${role.name} accounts need an access end date in the future.`;
+  }
+  if (user.unitId && !units.has(user.unitId)) {
+    return "Unknown department or unit.";
+  }
+  if (!canAssignRole(auth, user.role, role)) {
+    return user.role === "admin" ?
+      "Only Super Admins can create new admins." :
+      `${role.name} accounts hold permissions you do not have.`;
+  }
+  return null;
+}
+
+/**
+ * Creates the Auth account and users document, and optionally emails a
+ * password setup link.
+ * @param {CreateUserData} user The validated account to create.
+ * @param {CallerAuth} auth The admin creating it.
+ * @return {Promise<ProvisionResult>} The new uid and setup link details.
+ */
+async function provisionUser(
+  user: CreateUserData,
+  auth: CallerAuth
+): Promise<ProvisionResult> {
+  const {displayName, email, role, department, unitId, password,
+    sendSetupLink} = user;
+  const accessExpiresAt = parseAccessExpiry(user.accessExpiresAt);
+
+  let userRecord: admin.auth.UserRecord;
+  try {
+    userRecord = await admin.auth().createUser({
+      email,
+      displayName,
+      ...(password ? {password} : {}),
+    });
+  } catch (err) {
+    const code = (err as { code?: string }).code;
+    if (code === "auth/email-already-exists") {
+      throw new functions.https.HttpsError(
+        "already-exists",
+        "User with this email already exists."
+      );
+    }
+    if (code === "auth/invalid-password") {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Password must be at least 6 characters long."
+      );
+    }
+    throw err;
+  }
+
+  const uid = userRecord.uid;
+  await admin.firestore().collection("users").doc(uid).set({
+    uid,
+    email,
+    displayName,
+    role,
+    ...(department ? {department} : {}),
+    ...(unitId ? {unitId} : {}),
+    ...(accessExpiresAt ? {
+      accessExpiresAt: admin.firestore.Timestamp.fromDate(accessExpiresAt),
+    } : {}),
+    photoURL: "",
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    createdBy: auth.uid,
+  });
+
+  if (!sendSetupLink) {
+    return {uid};
+  }
+
+  try {
+    // The link is generated when the email is sent, not stored in the queue
+    await enqueueMail(
+      "accountSetup",
+      email,
+      {name: displayName, role},
+      undefined,
+      {passwordSetupLink: {kind: "passwordReset"}}
+    );
+    return {uid, emailQueued: true};
+  } catch (err) {
+    // The account exists either way; the admin can share the link directly
+    console.error("Setup email could not be queued:", err);
+  }
+
+  const passwordSetupLink = await admin.auth().generatePasswordResetLink(email);
+  return {uid, passwordSetupLink, emailQueued: false};
+}
+
+/**
+ * Finds which of the given emails already belong to an account. Auth
+ * matches emails regardless of case; users documents may store them
+ * mixed-case, so the Firestore lookup only catches exact matches.
+ * @param {string[]} emails Lower-cased emails to look up.
+ * @return {Promise<Set<string>>} The lower-cased emails that are taken.
+ */
+async function findExistingEmails(emails: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+  // Auth rejects malformed emails and looks up at most 100 at a time
+  const valid = emails.filter((email) => EMAIL_PATTERN.test(email));
+  for (let i = 0; i < valid.length; i += 100) {
+    const {users} = await admin
+      .auth()
+      .getUsers(valid.slice(i, i + 100).map((email) => ({email})));
+    users.forEach((user) => {
+      if (user.email) existing.add(user.email.toLowerCase());
+    });
+  }
+  // Firestore "in" queries accept at most 30 values
+  for (let i = 0; i < emails.length; i += 30) {
+    const snapshot = await admin
+      .firestore()
+      .collection("users")
+      .where("email", "in", emails.slice(i, i + 30))
+      .get();
+    snapshot.forEach((doc) => {
+      existing.add(String(doc.data().email).toLowerCase());
+    });
+  }
+  return existing;
+}
+
+// 👤 Create an account without touching the admin's own client session
+export const createUser = functions.https.onCall(
+  async (request: functions.https.CallableRequest<CreateUserData>) => {
+    const auth = assertCan(request, "users.manage");
+
+    const invalid = validateNewUser(
+      request.data,
+      auth,
+      await assignableRoles(),
+      await loadUnitNames()
+    );
+    if (invalid) {
+      throw new functions.https.HttpsError("invalid-argument", invalid);
+    }
+    if (!request.data.password && !request.data.sendSetupLink) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "Provide a password or send a password setup link."
+      );
+    }
+
+    const result = await provisionUser(request.data, auth);
+    return {success: true, ...result};
+  }
+);
+
+// 📦 Data shape from the bulk import screen
+interface ImportRow extends NewUser {
+  row: number;
+}
+
+interface ImportUsersData {
+  rows: ImportRow[];
+  dryRun: boolean;
+  sendSetupLinks?: boolean;
+  fileName?: string;
+}
+
+interface ImportRowResult {
+  row: number;
+  email: string;
+  status: "valid" | "invalid" | "created" | "failed";
+  message?: string;
+  uid?: string;
+}
+
+// 📥 Validate (dry run) or create a spreadsheet of accounts
+export const importUsers = functions.https.onCall(
+  {timeoutSeconds: 540},
+  async (request: functions.https.CallableRequest<ImportUsersData>) => {
+    const auth = assertCan(request, "users.manage");
+    const {rows, dryRun, sendSetupLinks, fileName} = request.data;
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "The import file has no rows."
+      );
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        `Imports are limited to ${MAX_IMPORT_ROWS} rows.`
+      );
+    }
+
+    // The department column is matched to a unit name, ignoring case
+    const units = await loadUnitNames();
+    const unitsByName = new Map(
+      Array.from(units, ([id, name]) => [String(name).toLowerCase(), id])
+    );
+
+    const normalized = rows.map((row) => {
+      const department = String(row.department || "").trim();
+      return {
+        ...row,
+        displayName: String(row.displayName || "").trim(),
+        email: String(row.email || "").trim().toLowerCase(),
+        role: String(row.role || "").trim().toLowerCase(),
+        department,
+        unitId: unitsByName.get(department.toLowerCase()),
+      };
+    });
+
+    const existing = await findExistingEmails(
+      normalized.map((row) => row.email).filter((email) => email)
+    );
+    const seen = new Set<string>();
+    const roles = await assignableRoles();
+
+    const results: ImportRowResult[] = normalized.map((row) => {
+      let message = validateNewUser(row, auth, roles, units);
+      if (!message && existing.has(row.email)) {
+        message = "A user with this email already exists.";
+      }
+      if (!message && seen.has(row.email)) {
+        message = "Duplicate email in this file.";
+      }
+      seen.add(row.email);
+      return message ?
+        {row: row.row, email: row.email, status: "invalid", message} :
+        {row: row.row, email: row.email, status: "valid"};
+    });
+
+    const validCount = results.filter((r) => r.status === "valid").length;
+
+    if (dryRun) {
+      return {dryRun: true, total: rows.length, valid: validCount, results};
+    }
+
+    // Create valid rows in small parallel batches; invalid rows are skipped
+    for (let i = 0; i < normalized.length; i += IMPORT_BATCH_SIZE) {
+      const batch = normalized.slice(i, i + IMPORT_BATCH_SIZE);
+      await Promise.all(batch.map(async (row, offset) => {
+        const result = results[i + offset];
+        if (result.status !== "valid") return;
+        try {
+          const created = await provisionUser(
+            {...row, sendSetupLink: sendSetupLinks !== false},
+            auth
+          );
+          result.status = "created";
+          result.uid = created.uid;
+          if (created.emailQueued === false) {
+            result.message =
+              "Created, but the setup email could not be queued.";
+          }
+        } catch (err) {
+          result.status = "failed";
+          result.message = (err as Error).message;
+        }
+      }));
+    }
+
+    const created = results.filter((r) => r.status === "created").length;
+
+    await logActivity({
+      userId: auth.uid,
+      userName: auth.token.name || auth.token.email || "Admin",
+      action: "imported users",
+      target: fileName || "CSV import",
+      details: `${rows.length} rows, ${created} created, ` +
+        `${rows.length - created} skipped or failed`,
+    });
+
+    return {dryRun: false, total: rows.length, valid: validCount, created,
+      results};
+  }
+);
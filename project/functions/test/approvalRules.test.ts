@@ -0,0 +1,225 @@
+import {strict as assert} from "assert";
+import * as admin from "firebase-admin";
+import {
+  ApprovalRule,
+  applyRulesTo,
+  classifySignup,
+  grantsRole,
+  ruleMatches,
+} from "../src/approvalRules";
+import {clearAuth, clearFirestore, describeWithEmulators} from "./setup";
+
+/**
+ * Creates a signup waiting for review.
+ * @param {string} uid The signup.
+ * @param {object} fields The pendingUsers fields.
+ * @return {Promise<admin.firestore.DocumentData>} The pending document.
+ */
+async function pendingSignup(
+  uid: string,
+  fields: admin.firestore.DocumentData
+): Promise<admin.firestore.DocumentData> {
+  const pending = {email: `${uid}@acme.test`, displayName: uid, ...fields};
+  await admin.auth().createUser({uid, email: pending.email});
+  const db = admin.firestore();
+  await db.collection("users").doc(uid).set({role: "pending"});
+  await db.collection("pendingUsers").doc(uid).set(pending);
+  return pending;
+}
+
+/**
+ * The role stored for a user, or null when they have no document.
+ * @param {string} uid The user.
+ * @return {Promise<string | null>} Their role.
+ */
+async function roleOf(uid: string): Promise<string | null> {
+  const snap = await admin.firestore().collection("users").doc(uid).get();
+  return snap.exists ? snap.data()?.role : null;
+}
+
+/**
+ * An enabled rule with the given conditions.
+ * @param {object} conditions The rule's conditions.
+ * @param {string} decision "approve" or "reject".
+ * @return {ApprovalRule} The rule.
+ */
+function rule(
+  conditions: ApprovalRule["conditions"],
+  decision: ApprovalRule["decision"] = "approve"
+): ApprovalRule {
+  return {name: "Rule", enabled: true, priority: 1, decision, conditions};
+}
+
+describe("ruleMatches", () => {
+  const signup = {email: "alice@Acme.test", role: "trainee", source: "email"};
+
+  it("needs every condition to match", () => {
+    assert.equal(ruleMatches(rule({emailDomains: ["acme.test"]}), signup),
+      true);
+    assert.equal(ruleMatches(rule({emailDomains: ["@ACME.test"]}), signup),
+      true);
+    assert.equal(ruleMatches(rule({
+      emailDomains: ["acme.test"],
+      roles: ["trainer"],
+    }), signup), false);
+    assert.equal(ruleMatches(rule({sources: ["google"]}), signup), false);
+  });
+
+  it("does not match on a subdomain or lookalike", () => {
+    const lookalike = {...signup, email: "eve@evil-acme.test"};
+    assert.equal(ruleMatches(rule({emailDomains: ["acme.test"]}), lookalike),
+      false);
+  });
+
+  it("never matches without conditions", () => {
+    assert.equal(ruleMatches(rule({}), signup), false);
+    assert.equal(ruleMatches(rule({emailDomains: [], roles: []}), signup),
+      false);
+  });
+});
+
+describe("classifySignup", () => {
+  const now = Date.parse("2026-01-10T00:00:00Z");
+  const invitation = (status: string, expiresAt: string) => ({
+    status,
+    expiresAt: admin.firestore.Timestamp.fromMillis(Date.parse(expiresAt)),
+  });
+
+  it("reads the provider when nobody invited the address", () => {
+    assert.equal(classifySignup("a", ["password"], [], now), "email");
+    assert.equal(classifySignup("a", ["google.com"], [], now), "google");
+  });
+
+  it("counts expired and revoked invitations as the source", () => {
+    assert.equal(classifySignup("a", ["google.com"], [
+      invitation("pending", "2026-01-01T00:00:00Z"),
+      invitation("revoked", "2026-02-01T00:00:00Z"),
+    ], now), "invitation");
+  });
+
+  it("leaves live or redeemed invitations to redeemInvitation", () => {
+    assert.equal(classifySignup("a", ["password"], [
+      invitation("pending", "2026-02-01T00:00:00Z"),
+    ], now), null);
+    assert.equal(classifySignup("a", ["password"], [
+      {...invitation("redeemed", "2026-01-01T00:00:00Z"), redeemedBy: "a"},
+    ], now), null);
+  });
+});
+
+describe("grantsRole", () => {
+  it("grants trainee without naming it", () => {
+    assert.equal(grantsRole(rule({emailDomains: ["acme.test"]}), "trainee"),
+      true);
+  });
+
+  it("grants other roles only when the rule names them", () => {
+    assert.equal(grantsRole(rule({emailDomains: ["acme.test"]}), "trainer"),
+      false);
+    assert.equal(grantsRole(rule({roles: ["trainer"]}), "trainer"), true);
+    assert.equal(grantsRole(rule({roles: ["trainer"]}), "admin"), false);
+  });
+});
+
+describeWithEmulators("applyRulesTo", () => {
+  beforeEach(async () => {
+    await Promise.all([clearFirestore(), clearAuth()]);
+    await admin.firestore().collection("approvalRules").add({
+      name: "Acme staff",
+      enabled: true,
+      priority: 1,
+      decision: "approve",
+      conditions: {emailDomains: ["acme.test"]},
+    });
+  });
+
+  it("approves trainees from a matching domain", async () => {
+    const pending = await pendingSignup("alice", {role: "trainee"});
+    await applyRulesTo("alice", pending);
+
+    assert.equal(await roleOf("alice"), "trainee");
+    const decisions = await admin.firestore()
+      .collection("approvalDecisions").where("uid", "==", "alice").get();
+    assert.equal(decisions.size, 1);
+    assert.equal(decisions.docs[0].data().source, "email");
+  });
+
+  it("leaves roles the rule does not name to an admin", async () => {
+    const pending = await pendingSignup("bob", {role: "trainer"});
+    await applyRulesTo("bob", pending);
+    assert.equal(await roleOf("bob"), "pending");
+
+    const admins = await pendingSignup("carol", {role: "admin"});
+    await applyRulesTo("carol", admins);
+    assert.equal(await roleOf("carol"), "pending");
+  });
+
+  it("grants roles a rule names", async () => {
+    await admin.firestore().collection("approvalRules").add({
+      name: "Acme trainers",
+      enabled: true,
+      priority: 0,
+      decision: "approve",
+      conditions: {emailDomains: ["acme.test"], roles: ["trainer"]},
+    });
+    const pending = await pendingSignup("bob", {role: "trainer"});
+    await applyRulesTo("bob", pending);
+    assert.equal(await roleOf("bob"), "trainer");
+  });
+
+  it("skips live invitations and signups sent back for review", async () => {
+    await admin.firestore().collection("invitations").add({
+      email: "dan@acme.test",
+      role: "trainee",
+      status: "pending",
+      expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + 60000),
+    });
+    const invited = await pendingSignup("dan", {role: "trainee"});
+    await applyRulesTo("dan", invited);
+    assert.equal(await roleOf("dan"), "pending");
+
+    const reconsidered = await pendingSignup("erin", {
+      role: "trainee",
+      manualReview: true,
+    });
+    await applyRulesTo("erin", reconsidered);
+    assert.equal(await roleOf("erin"), "pending");
+  });
+
+  it("matches signups whose invitation ran out", async () => {
+    await admin.firestore().collection("invitations").add({
+      email: "gina@acme.test",
+      role: "trainee",
+      status: "revoked",
+      expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + 60000),
+    });
+    await admin.firestore().collection("approvalRules").add({
+      name: "Withdrawn invitations",
+      enabled: true,
+      priority: 0,
+      decision: "reject",
+      conditions: {sources: ["invitation"]},
+    });
+    const pending = await pendingSignup("gina", {role: "trainee"});
+    await applyRulesTo("gina", pending);
+
+    assert.equal(await roleOf("gina"), null);
+  });
+
+  it("records the source from Auth, not the client", async () => {
+    const pending = await pendingSignup("frank", {
+      role: "trainee",
+      source: "google",
+    });
+    await admin.firestore().collection("approvalRules").add({
+      name: "Google only",
+      enabled: true,
+      priority: 0,
+      decision: "reject",
+      conditions: {sources: ["google"]},
+    });
+    await applyRulesTo("frank", pending);
+
+    assert.equal(await roleOf("frank"), "trainee");
+  });
+});
@@ -0,0 +1,45 @@
+import {strict as assert} from "assert";
+import * as admin from "firebase-admin";
+import {applyRoleClaims, claimsFromUserDoc} from "../src/claims";
+import {clearAuth, clearFirestore, describeWithEmulators} from "./setup";
+
+describeWithEmulators("claims", () => {
+  beforeEach(async () => {
+    await Promise.all([clearFirestore(), clearAuth()]);
+    await admin.auth().createUser({uid: "alice", email: "alice@acme.test"});
+  });
+
+  it("builds claims from the users document", async () => {
+    assert.deepEqual(await claimsFromUserDoc({role: "trainee"}), {
+      role: "trainee",
+      isSuperAdmin: false,
+      caps: ["courses.enroll"],
+    });
+    assert.deepEqual(await claimsFromUserDoc(undefined), {});
+  });
+
+  it("treats accounts without a role as pending", async () => {
+    const claims = await claimsFromUserDoc({});
+    assert.equal(claims.role, "pending");
+    assert.deepEqual(claims.caps, []);
+  });
+
+  it("writes role claims and keeps unrelated ones", async () => {
+    await admin.auth().setCustomUserClaims("alice", {tenant: "acme"});
+
+    const claims = await claimsFromUserDoc({role: "trainer"});
+    assert.equal(await applyRoleClaims("alice", claims), true);
+
+    const user = await admin.auth().getUser("alice");
+    assert.equal(user.customClaims?.tenant, "acme");
+    assert.equal(user.customClaims?.role, "trainer");
+  });
+
+  it("skips unchanged claims and unknown users", async () => {
+    const claims = await claimsFromUserDoc({role: "trainee"});
+    await applyRoleClaims("alice", claims);
+
+    assert.equal(await applyRoleClaims("alice", claims), false);
+    assert.equal(await applyRoleClaims("nobody", claims), false);
+  });
+});
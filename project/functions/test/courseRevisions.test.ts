@@ -0,0 +1,16 @@
+import {strict as assert} from "assert";
+import {trackedFields} from "../src/courseRevisions";
+
+describe("trackedFields", () => {
+  it("keeps status so rollbacks restore it", () => {
+    assert.deepEqual(trackedFields({
+      title: "Audit basics",
+      status: "active",
+      draft: {title: "Audit basics 2"},
+      review: {status: "pending"},
+      publishedAt: "2026-01-01",
+      currentParticipants: 3,
+      updatedBy: "admin1",
+    }), {title: "Audit basics", status: "active"});
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  assertFails,
+  assertSucceeds,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {doc, setDoc, updateDoc} from "firebase/firestore";
+import {DEFAULT_ROLES} from "../src/permissions";
+import {describeWithEmulators, rulesTestEnv} from "./setup";
+
+const TRAINER_CAPS = DEFAULT_ROLES.trainer.capabilities;
+
+describeWithEmulators("courses rules", () => {
+  let env: RulesTestEnvironment;
+
+  before(async () => {
+    env = await rulesTestEnv();
+  });
+
+  after(async () => {
+    await env?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "courses/submitted"), {
+        title: "Safety",
+        status: "draft",
+        instructorId: "trainer1",
+        review: {status: "pending"},
+      });
+    });
+  });
+
+  /**
+   * Firestore as a signed-in user with the given capabilities.
+   * @param {string} uid The user.
+   * @param {string[]} caps Their capabilities.
+   * @return {Firestore} Their client.
+   */
+  function as(uid: string, caps: string[]) {
+    return env.authenticatedContext(uid, {caps}).firestore();
+  }
+
+  const draft = {
+    title: "Forklifts",
+    status: "draft",
+    instructorId: "trainer1",
+    updatedBy: "trainer1",
+    students: [],
+  };
+
+  it("lets trainers create drafts of the reviewed fields", async () => {
+    const db = as("trainer1", TRAINER_CAPS);
+    await assertSucceeds(setDoc(doc(db, "courses/new"), draft));
+  });
+
+  it("refuses trainer drafts that set seats or extra keys", async () => {
+    const db = as("trainer1", TRAINER_CAPS);
+    await assertFails(setDoc(doc(db, "courses/seats"), {
+      ...draft,
+      currentParticipants: 30,
+    }));
+    await assertFails(setDoc(doc(db, "courses/queue"), {
+      ...draft,
+      waitlist: ["trainee1"],
+    }));
+    await assertFails(setDoc(doc(db, "courses/extra"), {
+      ...draft,
+      capacity: 1000,
+    }));
+  });
+
+  const approve = {
+    status: "active",
+    review: null,
+    draft: null,
+    publishedAt: new Date(),
+    updatedBy: "manager1",
+  };
+
+  it("refuses publishing with courses.manage alone", async () => {
+    const db = as("manager1", ["courses.manage"]);
+    await assertFails(updateDoc(doc(db, "courses/submitted"), approve));
+  });
+
+  it("lets courses.publish approve a submitted course", async () => {
+    const db = as("manager1", ["courses.publish"]);
+    await assertSucceeds(updateDoc(doc(db, "courses/submitted"), approve));
+  });
+});
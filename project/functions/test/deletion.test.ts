@@ -0,0 +1,203 @@
+import {strict as assert} from "assert";
+import * as admin from "firebase-admin";
+import {
+  anonymizedFields,
+  DEFAULT_RETENTION_POLICY,
+  deleteUserData,
+  effectivePolicy,
+  pseudonymFor,
+  RetentionRule,
+} from "../src/deletion";
+import {clearAuth, clearFirestore, describeWithEmulators} from "./setup";
+
+const ACTOR = {uid: "admin1", name: "Admin"};
+
+/**
+ * The effective rule for a collection and field.
+ * @param {RetentionRule[]} policy The policy to search.
+ * @param {string} collection The collection.
+ * @param {string} field The field holding the uid.
+ * @return {RetentionRule | undefined} The rule.
+ */
+function ruleFor(policy: RetentionRule[], collection: string, field: string) {
+  return policy.find(
+    (rule) => rule.collection === collection && rule.field === field
+  );
+}
+
+describe("effectivePolicy", () => {
+  it("is the default policy without overrides", () => {
+    assert.deepEqual(effectivePolicy({}), DEFAULT_RETENTION_POLICY);
+  });
+
+  it("applies delete and anonymize overrides", () => {
+    const policy = effectivePolicy({
+      attendance: "anonymize",
+      feedbacks: "delete",
+    });
+    assert.equal(ruleFor(policy, "attendance", "userId")?.action, "anonymize");
+    assert.equal(ruleFor(policy, "feedbacks", "trainerId")?.action, "delete");
+  });
+
+  it("ignores unknown actions and fixed rules", () => {
+    const policy = effectivePolicy({grades: "keep", users: "anonymize"});
+    assert.equal(ruleFor(policy, "grades", "traineeId")?.action, "delete");
+    assert.equal(ruleFor(policy, "users", "__id__")?.action, "delete");
+  });
+
+  it("never anonymizes documents keyed by the uid", () => {
+    const policy = effectivePolicy({enrollments: "anonymize"});
+    assert.equal(ruleFor(policy, "enrollments", "__id__")?.action, "delete");
+  });
+});
+
+describe("anonymizedFields", () => {
+  it("replaces the uid and name fields", () => {
+    const rule = ruleFor(DEFAULT_RETENTION_POLICY, "activityLogs", "userId");
+    assert.ok(rule);
+    assert.deepEqual(anonymizedFields(rule, pseudonymFor("alice")), {
+      userId: pseudonymFor("alice"),
+      userName: "Deleted user",
+    });
+  });
+
+  it("scrubs the user's name and address from free text", () => {
+    const rule = ruleFor(DEFAULT_RETENTION_POLICY, "activityLogs", "target");
+    assert.ok(rule);
+    const identity = {email: "alice@acme.test", name: "Alice Smith"};
+
+    assert.deepEqual(anonymizedFields(rule, "deleted-1", {
+      target: "Alice Smith",
+      details: "Invited Alice@Acme.test as Alice Smith, Alice Smithers stays",
+    }, identity), {
+      target: "deleted-1",
+      details: "Invited Deleted user as Deleted user, Alice Smithers stays",
+    });
+  });
+
+  it("leaves text that does not name the user alone", () => {
+    const rule = ruleFor(DEFAULT_RETENTION_POLICY, "activityLogs", "userId");
+    assert.ok(rule);
+    const update = anonymizedFields(rule, "deleted-1", {
+      target: "Safety course",
+      details: 42,
+    }, {email: "alice@acme.test", name: "Alice"});
+    assert.deepEqual(update, {userId: "deleted-1", userName: "Deleted user"});
+  });
+
+  it("gives each uid its own stable pseudonym", () => {
+    assert.equal(pseudonymFor("alice"), pseudonymFor("alice"));
+    assert.notEqual(pseudonymFor("alice"), pseudonymFor("bob"));
+    assert.ok(!pseudonymFor("alice").includes("alice"));
+  });
+});
+
+describeWithEmulators("deleteUserData", () => {
+  beforeEach(async () => {
+    await Promise.all([clearFirestore(), clearAuth()]);
+    const db = admin.firestore();
+    await admin.auth().createUser({uid: "alice", email: "alice@acme.test"});
+    await db.collection("users").doc("alice").set({
+      role: "trainee",
+      email: "alice@acme.test",
+      displayName: "Alice",
+    });
+    await db.collection("grades").add({traineeId: "alice", grade: 80});
+    await db.collection("Notifications").add({traineeId: "alice"});
+    await db.collection("approvalDecisions").add({uid: "alice"});
+    await db.collection("invitations").doc("token").set({
+      email: "alice@acme.test",
+    });
+    await db.collection("activityLogs").add({
+      userId: "alice",
+      userName: "Alice",
+    });
+    await db.collection("grades").add({traineeId: "bob", grade: 70});
+  });
+
+  it("removes the account and everything keyed by it", async () => {
+    const receipt = await deleteUserData("alice", ACTOR);
+    const db = admin.firestore();
+
+    assert.equal(receipt.complete, true);
+    assert.equal(receipt.authDeleted, true);
+    assert.equal((await db.collection("users").doc("alice").get()).exists,
+      false);
+    for (const [collection, field] of [
+      ["grades", "traineeId"],
+      ["Notifications", "traineeId"],
+      ["approvalDecisions", "uid"],
+      ["invitations", "email"],
+    ]) {
+      const value = field === "email" ? "alice@acme.test" : "alice";
+      const left = await db.collection(collection)
+        .where(field, "==", value).get();
+      assert.equal(left.size, 0, collection);
+    }
+    const others = await db.collection("grades")
+      .where("traineeId", "==", "bob").get();
+    assert.equal(others.size, 1);
+  });
+
+  it("anonymizes what the policy keeps", async () => {
+    await deleteUserData("alice", ACTOR);
+    const logs = await admin.firestore().collection("activityLogs")
+      .where("userId", "==", pseudonymFor("alice")).get();
+    assert.equal(logs.size, 1);
+    assert.equal(logs.docs[0].data().userName, "Deleted user");
+  });
+
+  it("ignores anonymize overrides for documents keyed by the uid", async () => {
+    await admin.firestore().collection("settings").doc("retentionPolicy")
+      .set({enrollments: "anonymize"});
+    await admin.firestore().collection("enrollments").doc("alice").set({
+      userId: "alice",
+      courses: [],
+    });
+
+    const receipt = await deleteUserData("alice", ACTOR);
+    const entry = receipt.collections.find(
+      (e) => e.collection === "enrollments"
+    );
+    assert.equal(entry?.action, "delete");
+    assert.equal(receipt.complete, true);
+    assert.equal(
+      (await admin.firestore().collection("enrollments").doc("alice").get())
+        .exists,
+      false
+    );
+  });
+
+  it("anonymizes entries others logged about the user", async () => {
+    const db = admin.firestore();
+    const approved = await db.collection("activityLogs").add({
+      userId: "admin1",
+      userName: "Admin",
+      action: "approved",
+      target: "Alice",
+      details: "Welcome, Alice",
+    });
+    const invited = await db.collection("emailLog").add({
+      to: "alice@acme.test",
+      subject: "Alice, your account is ready",
+    });
+
+    await deleteUserData("alice", ACTOR);
+
+    const entry = (await approved.get()).data();
+    assert.equal(entry?.userId, "admin1");
+    assert.equal(entry?.target, pseudonymFor("alice"));
+    assert.equal(entry?.details, "Welcome, Deleted user");
+    const mail = (await invited.get()).data();
+    assert.equal(mail?.to, pseudonymFor("alice"));
+    assert.equal(mail?.subject, "Deleted user, your account is ready");
+  });
+
+  it("stores a receipt under the pseudonym", async () => {
+    const receipt = await deleteUserData("alice", ACTOR);
+    const stored = await admin.firestore().collection("deletionReceipts")
+      .doc(receipt.id).get();
+    assert.equal(stored.data()?.subject, pseudonymFor("alice"));
+    assert.equal(stored.data()?.requestedBy, "admin1");
+  });
+});
@@ -0,0 +1,98 @@
+import {strict as assert} from "assert";
+import * as admin from "firebase-admin";
+import {enrollmentInstructors, seatTrainee} from "../src/enrollment";
+import {clearFirestore, describeWithEmulators} from "./setup";
+
+/**
+ * Creates a course.
+ * @param {string} id The course id.
+ * @param {object} fields The course fields.
+ * @return {Promise<void>}
+ */
+async function course(
+  id: string,
+  fields: admin.firestore.DocumentData
+): Promise<void> {
+  await admin.firestore().collection("courses").doc(id).set({
+    title: id,
+    status: "active",
+    ...fields,
+  });
+}
+
+/**
+ * Reads a course.
+ * @param {string} id The course id.
+ * @return {Promise<admin.firestore.DocumentData | undefined>} Its fields.
+ */
+async function read(id: string) {
+  return (await admin.firestore().collection("courses").doc(id).get()).data();
+}
+
+describe("enrollmentInstructors", () => {
+  it("lists each instructor once and skips courses without one", () => {
+    assert.deepEqual(enrollmentInstructors([
+      {courseId: "c1", instructorId: "t2"},
+      {courseId: "c2", instructorId: "t1"},
+      {courseId: "c3", instructorId: "t2"},
+      {courseId: "c4", instructorId: ""},
+      {courseId: "c5"},
+    ]), ["t1", "t2"]);
+  });
+});
+
+describeWithEmulators("seatTrainee", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  it("seats trainees until the course is full, then waitlists", async () => {
+    await course("small", {capacity: 2});
+
+    assert.deepEqual(await seatTrainee("a", "small"), {status: "enrolled"});
+    assert.deepEqual(await seatTrainee("b", "small"), {status: "enrolled"});
+    assert.deepEqual(await seatTrainee("c", "small"),
+      {status: "waitlisted", position: 1});
+    assert.deepEqual(await seatTrainee("d", "small"),
+      {status: "waitlisted", position: 2});
+
+    const small = await read("small");
+    assert.equal(small?.currentParticipants, 2);
+    assert.deepEqual(small?.waitlist, ["c", "d"]);
+  });
+
+  it("never overfills under concurrent requests", async () => {
+    await course("busy", {capacity: 2});
+    const uids = ["a", "b", "c", "d"];
+    const results = await Promise.all(
+      uids.map((uid) => seatTrainee(uid, "busy"))
+    );
+
+    const enrolled = results.filter((r) => r.status === "enrolled").length;
+    assert.equal(enrolled, 2);
+    const busy = await read("busy");
+    assert.equal(busy?.currentParticipants, 2);
+    assert.equal(busy?.waitlist.length, 2);
+  });
+
+  it("counts seats taken before the count was stored", async () => {
+    await course("legacy", {capacity: 1});
+    await admin.firestore().collection("enrollments").doc("a").set({
+      userId: "a",
+      courses: [{courseId: "legacy"}],
+    });
+
+    assert.equal((await seatTrainee("b", "legacy")).status, "waitlisted");
+  });
+
+  it("refuses duplicates, closed courses and other departments", async () => {
+    await course("open", {});
+    await course("closed", {status: "draft"});
+    await course("unit", {unitIds: ["finance"]});
+    await seatTrainee("a", "open");
+
+    await assert.rejects(seatTrainee("a", "open"), /Already enrolled/);
+    await assert.rejects(seatTrainee("a", "closed"), /not open/);
+    await assert.rejects(seatTrainee("a", "unit"), /other departments/);
+  });
+});
@@ -0,0 +1,85 @@
+import {strict as assert} from "assert";
+import {promises as fs} from "fs";
+import * as path from "path";
+import {CallerAuth, canAssignRole} from "../src/guards";
+import {renderGrantRules} from "../src/generateRules";
+import {DEFAULT_ROLES, RoleDefinition} from "../src/permissions";
+
+/**
+ * A caller holding the given capabilities.
+ * @param {string[]} caps Their role's capabilities.
+ * @param {boolean} isSuperAdmin Whether they are the super admin.
+ * @return {CallerAuth} Their auth data.
+ */
+function caller(caps: string[], isSuperAdmin = false): CallerAuth {
+  return {
+    uid: "caller",
+    token: {caps, isSuperAdmin},
+    rawToken: "",
+  } as unknown as CallerAuth;
+}
+
+const HELPDESK: RoleDefinition = {
+  name: "Helpdesk",
+  dashboard: "admin",
+  capabilities: ["users.manage", "courses.enroll"],
+};
+
+const USER_ADMIN: RoleDefinition = {
+  name: "User admin",
+  dashboard: "admin",
+  capabilities: ["users.manage", "roles.manage"],
+};
+
+describe("canAssignRole", () => {
+  const helpdesk = caller(HELPDESK.capabilities);
+
+  it("allows roles within the caller's capabilities", () => {
+    assert.equal(canAssignRole(helpdesk, "trainee", DEFAULT_ROLES.trainee),
+      true);
+    assert.equal(canAssignRole(helpdesk, "helpdesk", HELPDESK), true);
+  });
+
+  it("refuses roles that grant more than the caller holds", () => {
+    assert.equal(canAssignRole(helpdesk, "trainer", DEFAULT_ROLES.trainer),
+      false);
+    assert.equal(canAssignRole(helpdesk, "userAdmin", USER_ADMIN), false);
+  });
+
+  it("keeps the admin role to holders of admins.manage", () => {
+    const admin = caller(DEFAULT_ROLES.admin.capabilities);
+    assert.equal(canAssignRole(admin, "admin", DEFAULT_ROLES.admin), false);
+    assert.equal(canAssignRole(admin, "userAdmin", USER_ADMIN), true);
+    assert.equal(
+      canAssignRole(caller(["admins.manage"]), "admin", DEFAULT_ROLES.admin),
+      true
+    );
+    assert.equal(
+      canAssignRole(caller([], true), "admin", DEFAULT_ROLES.admin),
+      true
+    );
+  });
+
+  it("ignores capabilities that are no longer in the catalogue", () => {
+    const stale = {...HELPDESK, capabilities: ["users.manage", "old.cap"]};
+    assert.equal(canAssignRole(helpdesk, "stale", stale), true);
+  });
+});
+
+describe("generated rules", () => {
+  it("match firestore.rules, so `npm run rules` has been run", async () => {
+    const rules = await fs.readFile(
+      path.resolve(__dirname, "../../firestore.rules"),
+      "utf8"
+    );
+    assert.ok(rules.includes(renderGrantRules()));
+  });
+
+  it("list every built-in role's capabilities", () => {
+    const rendered = renderGrantRules();
+    for (const [id, role] of Object.entries(DEFAULT_ROLES)) {
+      const caps = role.capabilities.map((cap) => `'${cap}'`).join(", ");
+      assert.ok(rendered.includes(`'${id}': [${caps}]`), id);
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import {strict as assert} from "assert";
+import * as admin from "firebase-admin";
+import {createInvitation, redeemInvitation} from "../src/invitations";
+import {DEFAULT_ROLES} from "../src/permissions";
+import {clearFirestore, describeWithEmulators, fft} from "./setup";
+
+const create = fft.wrap(createInvitation);
+const redeem = fft.wrap(redeemInvitation);
+
+/**
+ * A callable request from a signed-in user.
+ * @param {object} data The request data.
+ * @param {string} uid The caller.
+ * @param {object} token The caller's token claims.
+ * @return {object} The request.
+ */
+function request(data: object, uid: string, token: object) {
+  return {data, auth: {uid, token}} as never;
+}
+
+/**
+ * An invitation request from an inviter with the given capabilities.
+ * @param {string} role The role to invite into.
+ * @param {string[]} caps The inviter's capabilities.
+ * @return {object} The request.
+ */
+function invite(role: string, caps: string[]) {
+  return request(
+    {email: "Alice@Acme.test", role, appUrl: "https://atms.test/"},
+    "inviter",
+    {caps, name: "Inviter"}
+  );
+}
+
+describeWithEmulators("invitations", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  it("only invites into roles within the inviter's capabilities", async () => {
+    const caps = ["users.invite", "courses.enroll"];
+    await create(invite("trainee", caps));
+    await assert.rejects(create(invite("trainer", caps)),
+      {code: "permission-denied"});
+
+    const admins = DEFAULT_ROLES.admin.capabilities;
+    const result = await create(invite("trainer", admins));
+    assert.equal(result.success, true);
+  });
+
+  it("refuses roles that cannot be invited", async () => {
+    await assert.rejects(
+      create(invite("admin", DEFAULT_ROLES.admin.capabilities)),
+      {code: "invalid-argument"}
+    );
+  });
+
+  it("activates the invitee with the invited role", async () => {
+    const {token} = await create(
+      invite("trainer", DEFAULT_ROLES.admin.capabilities)
+    );
+    const db = admin.firestore();
+    await db.collection("pendingUsers").doc("alice").set({role: "trainer"});
+
+    await assert.rejects(
+      redeem(request({token}, "eve", {email: "eve@acme.test"})),
+      {code: "permission-denied"}
+    );
+    const result = await redeem(
+      request({token}, "alice", {email: "alice@acme.test"})
+    );
+
+    assert.equal(result.role, "trainer");
+    const user = await db.collection("users").doc("alice").get();
+    assert.equal(user.data()?.role, "trainer");
+    assert.equal(
+      (await db.collection("pendingUsers").doc("alice").get()).exists,
+      false
+    );
+    await assert.rejects(
+      redeem(request({token}, "alice", {email: "alice@acme.test"})),
+      {code: "failed-precondition"}
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import {strict as assert} from "assert";
+import * as admin from "firebase-admin";
+import {reviewPendingUsers} from "../src/pendingReview";
+import {DEFAULT_ROLES} from "../src/permissions";
+import {
+  clearAuth,
+  clearFirestore,
+  describeWithEmulators,
+  fft,
+} from "./setup";
+
+const review = fft.wrap(reviewPendingUsers);
+
+/**
+ * A reviewer's callable request.
+ * @param {object} data The request data.
+ * @param {string[]} caps The reviewer's capabilities.
+ * @return {object} The request.
+ */
+function request(data: object, caps: string[]) {
+  return {
+    data,
+    auth: {uid: "reviewer", token: {caps, name: "Reviewer"}},
+  } as never;
+}
+
+/**
+ * Creates a verified signup waiting for review.
+ * @param {string} uid The signup.
+ * @param {string} role The role they asked for.
+ * @return {Promise<void>}
+ */
+async function pendingSignup(uid: string, role: string): Promise<void> {
+  await admin.auth().createUser({
+    uid,
+    email: `${uid}@example.com`,
+    emailVerified: true,
+  });
+  const db = admin.firestore();
+  await db.collection("users").doc(uid).set({role: "pending"});
+  await db.collection("pendingUsers").doc(uid).set({
+    email: `${uid}@example.com`,
+    displayName: uid,
+    role,
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+describeWithEmulators("reviewPendingUsers", () => {
+  beforeEach(async () => {
+    await Promise.all([clearFirestore(), clearAuth()]);
+    await pendingSignup("alice", "trainee");
+    await pendingSignup("bob", "trainer");
+    await pendingSignup("carol", "admin");
+  });
+
+  it("requires users.approve", async () => {
+    await assert.rejects(
+      review(request({uids: ["alice"], decision: "approve"}, [])),
+      {code: "permission-denied"}
+    );
+  });
+
+  it("only approves roles within the reviewer's capabilities", async () => {
+    const result = await review(request(
+      {uids: ["alice", "bob", "carol"], decision: "approve"},
+      ["users.approve", "courses.enroll"]
+    ));
+
+    assert.equal(result.reviewed, 1);
+    assert.deepEqual(result.invalidRole.sort(), ["bob", "carol"]);
+    const users = admin.firestore().collection("users");
+    assert.equal((await users.doc("alice").get()).data()?.role, "trainee");
+    assert.equal((await users.doc("bob").get()).data()?.role, "pending");
+  });
+
+  it("keeps approving admins to admins.manage", async () => {
+    const result = await review(request(
+      {uids: ["carol"], decision: "approve"},
+      DEFAULT_ROLES.admin.capabilities
+    ));
+    assert.deepEqual(result.invalidRole, ["carol"]);
+  });
+
+  it("does not approve unverified addresses", async () => {
+    await admin.auth().updateUser("alice", {emailVerified: false});
+    const result = await review(request(
+      {uids: ["alice"], decision: "approve"},
+      ["users.approve", "courses.enroll"]
+    ));
+    assert.deepEqual(result.unverified, ["alice"]);
+  });
+
+  it("keeps rejections for reconsideration", async () => {
+    const result = await review(request(
+      {uids: ["bob"], decision: "reject", message: "Not yet"},
+      ["users.approve"]
+    ));
+
+    assert.equal(result.reviewed, 1);
+    const db = admin.firestore();
+    const rejected = await db.collection("rejectedUsers").doc("bob").get();
+    assert.equal(rejected.data()?.rejectionMessage, "Not yet");
+    assert.equal((await db.collection("users").doc("bob").get()).exists,
+      false);
+    assert.equal(
+      (await db.collection("pendingUsers").doc("bob").get()).exists,
+      false
+    );
+  });
+});
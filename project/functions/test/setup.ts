@@ -0,0 +1,67 @@
+import {promises as fs} from "fs";
+import * as path from "path";
+import * as admin from "firebase-admin";
+import functionsTest from "firebase-functions-test";
+import {
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+
+// 🧪 Shared by every suite. Suites that touch Firestore, Auth or Storage
+// run under `npm run test:emulators` and are skipped otherwise.
+export const PROJECT_ID = "demo-atms";
+
+export const emulatorsRunning = Boolean(process.env.FIRESTORE_EMULATOR_HOST);
+
+// describe for suites that need the emulators
+export const describeWithEmulators = emulatorsRunning ?
+  describe :
+  describe.skip;
+
+export const fft = functionsTest({projectId: PROJECT_ID});
+
+if (!admin.apps.length) {
+  admin.initializeApp({
+    projectId: PROJECT_ID,
+    storageBucket: `${PROJECT_ID}.appspot.com`,
+  });
+}
+
+/**
+ * Deletes every document in the Firestore emulator.
+ * @return {Promise<void>}
+ */
+export async function clearFirestore(): Promise<void> {
+  const host = process.env.FIRESTORE_EMULATOR_HOST;
+  await fetch(
+    `http://${host}/emulator/v1/projects/${PROJECT_ID}` +
+      "/databases/(default)/documents",
+    {method: "DELETE"}
+  );
+}
+
+/**
+ * Deletes every account in the Auth emulator.
+ * @return {Promise<void>}
+ */
+export async function clearAuth(): Promise<void> {
+  const host = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+  await fetch(
+    `http://${host}/emulator/v1/projects/${PROJECT_ID}/accounts`,
+    {method: "DELETE"}
+  );
+}
+
+/**
+ * Starts a security rules test environment with the project's rules.
+ * @return {Promise<RulesTestEnvironment>} The environment.
+ */
+export async function rulesTestEnv(): Promise<RulesTestEnvironment> {
+  const read = (file: string) =>
+    fs.readFile(path.resolve(__dirname, "../..", file), "utf8");
+  return initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {rules: await read("firestore.rules")},
+    storage: {rules: await read("storage.rules")},
+  });
+}
@@ -0,0 +1,78 @@
+import {
+  assertFails,
+  assertSucceeds,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {describeWithEmulators, rulesTestEnv} from "./setup";
+
+const PHOTO = {contentType: "image/jpeg"};
+
+describeWithEmulators("storage rules", () => {
+  let env: RulesTestEnvironment;
+
+  before(async () => {
+    env = await rulesTestEnv();
+  });
+
+  after(async () => {
+    await env?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearStorage();
+  });
+
+  /**
+   * Uploads a small file as a signed-in user.
+   * @param {string} path Where to upload.
+   * @param {string} uid The user.
+   * @param {object} claims Their token claims.
+   * @return {Promise<unknown>} The upload.
+   */
+  function upload(
+    path: string,
+    uid: string,
+    claims: Record<string, unknown> = {}
+  ) {
+    return env.authenticatedContext(uid, claims).storage().ref(path)
+      .putString("photo", "raw", PHOTO).then();
+  }
+
+  it("lets users write only under their own folder", async () => {
+    await assertSucceeds(upload("users/alice/profile/photo.jpg", "alice"));
+    await assertSucceeds(upload("users/alice/notes/cv.jpg", "alice"));
+    await assertFails(upload("users/bob/profile/photo.jpg", "alice"));
+    await assertFails(upload("users/bob/notes/cv.jpg", "alice"));
+  });
+
+  it("refuses writes from read-only roles", async () => {
+    await assertFails(
+      upload("users/olive/profile/photo.jpg", "olive", {readOnly: true})
+    );
+    await assertFails(upload("uploads/report.jpg", "olive", {readOnly: true}));
+  });
+
+  it("refuses writes while viewing as another user", async () => {
+    const viewAsUntil = Math.floor(Date.now() / 1000) + 30 * 60;
+    await assertFails(
+      upload("users/admin1/profile/photo.jpg", "admin1", {viewAsUntil})
+    );
+    await assertFails(upload("uploads/report.jpg", "admin1", {viewAsUntil}));
+  });
+
+  it("keeps general uploads out of the course folders", async () => {
+    await assertSucceeds(upload("uploads/report.jpg", "alice"));
+    await assertFails(upload("courses/c1/slides.jpg", "alice"));
+  });
+
+  it("shows profile photos to everyone signed in", async () => {
+    await upload("users/alice/profile/photo.jpg", "alice");
+    await upload("users/alice/notes/cv.jpg", "alice");
+    const bob = env.authenticatedContext("bob").storage();
+
+    await assertSucceeds(
+      bob.ref("users/alice/profile/photo.jpg").getMetadata()
+    );
+    await assertFails(bob.ref("users/alice/notes/cv.jpg").getMetadata());
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  assertFails,
+  assertSucceeds,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import {DEFAULT_ROLES} from "../src/permissions";
+import {describeWithEmulators, rulesTestEnv} from "./setup";
+
+const ADMIN_CAPS = DEFAULT_ROLES.admin.capabilities;
+const HELPDESK_CAPS = ["users.manage", "courses.enroll"];
+
+describeWithEmulators("users and roles rules", () => {
+  let env: RulesTestEnvironment;
+
+  before(async () => {
+    env = await rulesTestEnv();
+  });
+
+  after(async () => {
+    await env?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, "users/trainee1"), {role: "trainee"});
+      await setDoc(doc(db, "users/trainer1"), {role: "trainer"});
+      await setDoc(doc(db, "users/admin1"), {role: "admin"});
+      await setDoc(doc(db, "enrollments/trainee1"), {
+        userId: "trainee1",
+        courses: [{courseId: "c1", instructorId: "trainer1"}],
+        instructorIds: ["trainer1"],
+      });
+      await setDoc(doc(db, "roles/helpdesk"), {
+        name: "Helpdesk",
+        capabilities: HELPDESK_CAPS,
+      });
+    });
+  });
+
+  /**
+   * Firestore as a signed-in user with the given claims.
+   * @param {string} uid The user.
+   * @param {string[]} caps Their capabilities.
+   * @param {boolean} isSuperAdmin Whether they are the super admin.
+   * @return {Firestore} Their client.
+   */
+  function as(uid: string, caps: string[], isSuperAdmin = false) {
+    return env.authenticatedContext(uid, {caps, isSuperAdmin}).firestore();
+  }
+
+  describe("role changes", () => {
+    it("lets users.manage move accounts between roles it covers", async () => {
+      const db = as("helpdesk1", HELPDESK_CAPS);
+      await assertSucceeds(
+        updateDoc(doc(db, "users/trainee1"), {role: "helpdesk"})
+      );
+    });
+
+    it("refuses roles that grant more than the editor holds", async () => {
+      const db = as("helpdesk1", HELPDESK_CAPS);
+      await assertFails(
+        updateDoc(doc(db, "users/trainee1"), {role: "trainer"})
+      );
+      await assertFails(setDoc(doc(db, "users/new1"), {role: "trainer"}));
+    });
+
+    it("refuses demoting an account out of a privileged role", async () => {
+      const db = as("helpdesk1", HELPDESK_CAPS);
+      await assertFails(
+        updateDoc(doc(db, "users/trainer1"), {role: "trainee"})
+      );
+    });
+
+    it("keeps the admin role to admins.manage", async () => {
+      const admin = as("admin1", ADMIN_CAPS);
+      await assertFails(
+        updateDoc(doc(admin, "users/trainee1"), {role: "admin"})
+      );
+      await assertFails(
+        updateDoc(doc(admin, "users/trainee1"), {isSuperAdmin: true})
+      );
+      const superAdmin = as("root", [], true);
+      await assertSucceeds(
+        updateDoc(doc(superAdmin, "users/trainee1"), {role: "admin"})
+      );
+    });
+
+    it("refuses users changing their own role", async () => {
+      const db = as("trainee1", ["courses.enroll"]);
+      await assertFails(
+        updateDoc(doc(db, "users/trainee1"), {role: "trainer"})
+      );
+    });
+  });
+
+  describe("trainer reads", () => {
+    it("shows trainers only the trainees in their courses", async () => {
+      const trainer = as("trainer1", ["courses.teach"]);
+      await assertSucceeds(getDoc(doc(trainer, "users/trainee1")));
+      await assertFails(getDoc(doc(trainer, "users/admin1")));
+
+      const other = as("trainer2", ["courses.teach"]);
+      await assertFails(getDoc(doc(other, "users/trainee1")));
+    });
+
+    it("lets trainers list their own rosters only", async () => {
+      const trainer = as("trainer1", ["courses.teach"]);
+      await assertSucceeds(getDocs(query(
+        collection(trainer, "enrollments"),
+        where("instructorIds", "array-contains", "trainer1")
+      )));
+      await assertFails(getDocs(collection(trainer, "enrollments")));
+    });
+  });
+
+  describe("sign-in times", () => {
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    it("only takes lastLogin from the server clock", async () => {
+      const db = as("trainee1", ["courses.enroll"]);
+      await assertFails(
+        updateDoc(doc(db, "users/trainee1"), {lastLogin: tomorrow})
+      );
+      await assertSucceeds(
+        updateDoc(doc(db, "users/trainee1"), {lastLogin: serverTimestamp()})
+      );
+    });
+
+    it("refuses users setting their own reactivatedAt", async () => {
+      const db = as("trainee1", ["courses.enroll"]);
+      await assertFails(
+        updateDoc(doc(db, "users/trainee1"), {reactivatedAt: tomorrow})
+      );
+    });
+
+    it("stamps new accounts with the server clock", async () => {
+      const db = as("new1", []);
+      await assertFails(setDoc(doc(db, "users/new1"), {
+        role: "pending",
+        createdAt: tomorrow,
+        lastLogin: tomorrow,
+      }));
+      await assertSucceeds(setDoc(doc(db, "users/new1"), {
+        role: "pending",
+        createdAt: serverTimestamp(),
+        lastLogin: serverTimestamp(),
+      }));
+    });
+  });
+
+  describe("roles", () => {
+    it("only hands out capabilities the editor holds", async () => {
+      const db = as("editor", ["roles.manage", "courses.enroll"]);
+      await assertSucceeds(setDoc(doc(db, "roles/learner"), {
+        name: "Learner",
+        capabilities: ["courses.enroll"],
+      }));
+      await assertFails(setDoc(doc(db, "roles/manager"), {
+        name: "Manager",
+        capabilities: ["courses.enroll", "users.manage"],
+      }));
+    });
+  });
+});
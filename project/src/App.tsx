@@ -1,6 +1,7 @@
-  import React, { useState } from 'react';
+  import React, { useEffect, useState } from 'react';
 import { WelcomePage } from './pages/WelcomePage';
 import { AuthPage } from './pages/AuthPage';
+import { AuthActionPage } from './pages/AuthActionPage';
 import { Dashboard } from './pages/Dashboard';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { ThemeProvider } from './contexts/ThemeContext';
@@ -8,15 +9,47 @@ import { Toaster } from "react-hot-toast";  // ✅ correct import
 import './index.css';
 
 const AppContent: React.FC = () => {
-  const [showAuth, setShowAuth] = useState(false);
+  // Invitation links look like /?invite=<token>
+  const [inviteToken, setInviteToken] = useState(() =>
+    new URLSearchParams(window.location.search).get('invite')
+  );
+  const [showAuth, setShowAuth] = useState(!!inviteToken);
+  // Password reset and verification emails link to /?mode=<action>&oobCode=<code>
+  const [emailAction, setEmailAction] = useState(() => {
+    const params = new URLSearchParams(window.location.search);
+    const mode = params.get('mode');
+    const oobCode = params.get('oobCode');
+    return mode && oobCode ? { mode, oobCode } : null;
+  });
   const { currentUser } = useAuth();
 
+  // Drop the token from the address bar once it has been used
+  useEffect(() => {
+    if (currentUser && inviteToken) {
+      window.history.replaceState(null, '', window.location.pathname);
+      setInviteToken(null);
+    }
+  }, [currentUser, inviteToken]);
+
+  if (emailAction) {
+    return (
+      <AuthActionPage
+        {...emailAction}
+        onDone={() => {
+          window.history.replaceState(null, '', window.location.pathname);
+          setEmailAction(null);
+          setShowAuth(true);
+        }}
+      />
+    );
+  }
+
   if (currentUser) {
     return <Dashboard />;
   }
 
   if (showAuth) {
-    return <AuthPage onBack={() => setShowAuth(false)} />;
+    return <AuthPage onBack={() => setShowAuth(false)} inviteToken={inviteToken} />;
   }
 
   return <WelcomePage onGetStarted={() => setShowAuth(true)} />;
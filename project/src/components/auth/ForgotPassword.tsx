@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { sendPasswordResetEmail } from 'firebase/auth';
+import { auth } from '../../lib/firebase';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+
+interface ForgotPasswordProps {
+  initialEmail: string;
+  onBack: () => void;
+}
+
+export const ForgotPassword: React.FC<ForgotPasswordProps> = ({ initialEmail, onBack }) => {
+  const [email, setEmail] = useState(initialEmail);
+  const [sent, setSent] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      // The link opens AuthActionPage when the project's action URL points at the app
+      await sendPasswordResetEmail(auth, email, { url: window.location.origin });
+      setSent(true);
+    } catch (err) {
+      const code = (err as { code?: string }).code;
+      if (code === 'auth/user-not-found') {
+        // Same answer either way, so the form cannot be used to probe for accounts
+        setSent(true);
+      } else if (code === 'auth/too-many-requests') {
+        setError('Too many attempts. Please try again later.');
+      } else {
+        setError((err as Error).message);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="space-y-6 text-center">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white">Check your inbox</h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          If an account exists for <strong>{email}</strong>, we have sent a link to reset its
+          password. The link expires after an hour.
+        </p>
+        <Button className="w-full" size="lg" onClick={onBack}>
+          Back to Sign In
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Reset Password</h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Enter your email and we will send you a link to choose a new password
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <Input
+          label="Email Address"
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Enter your email"
+        />
+        <Button type="submit" className="w-full" size="lg" loading={loading}>
+          Send Reset Link
+        </Button>
+      </form>
+
+      <div className="text-center">
+        <button
+          type="button"
+          onClick={onBack}
+          className="text-blue-600 dark:text-blue-400 hover:text-blue-500 dark:hover:text-blue-300 font-medium transition-colors"
+        >
+          Back to Sign In
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { auth } from '../../lib/firebase';
+import { verificationService } from '../../services/verificationService';
+import { Button } from '../ui/Button';
+
+// Shown to pending signups until they confirm their address; admins cannot
+// approve them before then
+export const VerifyEmailNotice: React.FC = () => {
+  const [verified, setVerified] = useState(auth.currentUser?.emailVerified ?? true);
+  const [cooldown, setCooldown] = useState(0);
+  const [sending, setSending] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const checkVerified = useCallback(async () => {
+    await auth.currentUser?.reload();
+    if (!auth.currentUser?.emailVerified) return false;
+    await verificationService.syncEmailVerification();
+    setVerified(true);
+    return true;
+  }, []);
+
+  // The link may have been followed on another device since the last sign-in
+  useEffect(() => {
+    if (!verified) {
+      checkVerified().catch((err) => console.error('Failed to check verification:', err));
+    }
+  }, [verified, checkVerified]);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown(cooldown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  if (verified) return null;
+
+  const handleResend = async () => {
+    setSending(true);
+    setMessage('');
+    try {
+      const { alreadyVerified, retryAfterSeconds } = await verificationService.sendVerificationEmail();
+      if (alreadyVerified) {
+        setVerified(true);
+        return;
+      }
+      setCooldown(retryAfterSeconds || 60);
+      setMessage(`We sent a new link to ${auth.currentUser?.email}.`);
+    } catch (err) {
+      const retryAfter = (err as { details?: { retryAfterSeconds?: number } }).details?.retryAfterSeconds;
+      if (retryAfter) setCooldown(retryAfter);
+      setMessage((err as Error).message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleCheck = async () => {
+    setChecking(true);
+    setMessage('');
+    try {
+      if (!(await checkVerified())) {
+        setMessage('Your email is not verified yet. Follow the link in the email first.');
+      }
+    } catch (err) {
+      setMessage((err as Error).message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-blue-50 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300 rounded-lg border border-blue-200 dark:border-blue-800 space-y-3">
+      <div className="flex items-start gap-2">
+        <MailWarning className="w-5 h-5 mt-0.5 flex-shrink-0" />
+        <p>
+          Please verify your email address. We sent a link to{' '}
+          <strong>{auth.currentUser?.email}</strong>; admins can review your request once you
+          follow it.
+        </p>
+      </div>
+      {message && <p className="text-sm">{message}</p>}
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={handleCheck} loading={checking}>
+          I have verified it
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleResend}
+          loading={sending}
+          disabled={cooldown > 0}
+        >
+          {cooldown > 0 ? `Resend in ${cooldown}s` : 'Resend email'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 import React from "react";
 import { motion } from "framer-motion";
-import { Clock, Calendar, BookOpen, Edit2, Trash2 } from "lucide-react";
+import { Clock, Calendar, BookOpen, Edit2, Trash2, Users, ListChecks } from "lucide-react";
 import { Course } from "../../types";
+import { seatsLeft, waitlistPosition } from "../../lib/courseSeats";
 import { Card, CardContent, CardFooter, CardHeader } from "../ui/Card";
 import { Button } from "../ui/Button";
 
@@ -65,8 +66,10 @@ interface CourseCardProps {
   onEdit?: () => void;
   onDelete?: () => void;
   onView?: () => void;
+  onSyllabus?: () => void;
   showActions?: boolean;
   className?: string;
+  currentUserId?: string; // shows the user's waitlist position
   onUnenroll?: () => Promise<void>;
   onLessonComplete?: (lessonName: string) => Promise<void>;
   onCourseComplete?: () => Promise<void>;
@@ -79,11 +82,16 @@ export const CourseCard: React.FC<CourseCardProps> = ({
   onEdit,
   onDelete,
   onView,
+  onSyllabus,
   showActions = true,
   className = "",
+  currentUserId,
 }) => {
   const levelColor = levelColors[course.level ?? "default"];
   const statusColor = statusColors[course.status ?? "default"];
+  const seats = seatsLeft(course);
+  const waiting = course.waitlist?.length || 0;
+  const position = waitlistPosition(course, currentUserId);
 
   return (
     <motion.div
@@ -140,6 +148,38 @@ export const CourseCard: React.FC<CourseCardProps> = ({
               {course.endDate ? formatDate(course.endDate) : "N/A"}
             </div>
           </div>
+
+          {/* ===== Seats ===== */}
+          {seats !== null && (
+            <div
+              className={`flex items-center gap-2 mt-3 text-sm ${
+                seats === 0
+                  ? "text-red-600 dark:text-red-400"
+                  : "text-gray-600 dark:text-gray-400"
+              }`}
+            >
+              <Users className="w-4 h-4 sm:w-5 sm:h-5" />
+              {seats === 0
+                ? `Full${waiting ? ` · ${waiting} on the waitlist` : ""}`
+                : `${seats} of ${course.capacity} seats left`}
+            </div>
+          )}
+          {course.prerequisites && course.prerequisites.length > 0 && (
+            <div className="flex items-start gap-2 mt-3 text-sm text-gray-600 dark:text-gray-400">
+              <ListChecks className="w-4 h-4 sm:w-5 sm:h-5 shrink-0" />
+              <span>
+                Requires{" "}
+                {course.prerequisites
+                  .map((p) => (p.minGrade != null ? `${p.courseTitle} (${p.minGrade}+)` : p.courseTitle))
+                  .join(", ")}
+              </span>
+            </div>
+          )}
+          {position !== null && (
+            <p className="mt-2 text-sm font-medium text-yellow-700 dark:text-yellow-400">
+              You are #{position} on the waitlist
+            </p>
+          )}
         </CardContent>
 
         {/* ===== Footer (Actions) ===== */}
@@ -151,12 +191,17 @@ export const CourseCard: React.FC<CourseCardProps> = ({
                   View Details
                 </Button>
               )}
+              {onSyllabus && (
+                <Button variant="outline" size="sm" onClick={onSyllabus} className="flex-1">
+                  Syllabus{course.modules?.length ? ` (${course.modules.length})` : ""}
+                </Button>
+              )}
             </div>
 
             {onEnroll && course.status === "active" && (
               <div className="mt-2 sm:mt-0">
                 <Button size="sm" onClick={onEnroll}>
-                  Enroll Now
+                  {seats === 0 ? "Join Waitlist" : "Enroll Now"}
                 </Button>
               </div>
             )}
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { collection, onSnapshot, orderBy, query, Timestamp } from 'firebase/firestore';
+import { History, RotateCcw } from 'lucide-react';
+import { db } from '../../lib/firebase';
+import { describeCourseField } from '../../lib/courseReview';
+import { courseFieldLabel, snapshotChanges } from '../../lib/courseRevisions';
+import { courseRevisionService } from '../../services/courseRevisionService';
+import { Course, CourseRevision } from '../../types';
+import { Button } from '../ui/Button';
+
+interface CourseHistoryProps {
+  course: Course;
+  onClose: () => void;
+  readOnly?: boolean; // observers see the history without rolling back
+}
+
+type Comparison = 'previous' | 'current';
+
+const formatWhen = (value: CourseRevision['createdAt']) =>
+  value instanceof Timestamp ? value.toDate().toLocaleString() : value ? new Date(value).toLocaleString() : 'Just now';
+
+// Every recorded change to a course, newest first, with rollback to any earlier version
+export const CourseHistory: React.FC<CourseHistoryProps> = ({ course, onClose, readOnly = false }) => {
+  const [revisions, setRevisions] = useState<CourseRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<Comparison>('previous');
+  const [rollingBack, setRollingBack] = useState(false);
+
+  useEffect(() => {
+    const q = query(collection(db, 'courses', course.id, 'revisions'), orderBy('createdAt', 'desc'));
+    const unsubscribe = onSnapshot(
+      q,
+      (snap) => {
+        setRevisions(snap.docs.map((d) => ({ id: d.id, ...d.data() }) as CourseRevision));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching course history:', err);
+        setLoading(false);
+      }
+    );
+    return () => unsubscribe();
+  }, [course.id]);
+
+  const selected = revisions.find((r) => r.id === selectedId) || revisions[0];
+  const isCurrent = !!selected && selected.id === revisions[0]?.id;
+  const restored = selected?.rolledBackTo ? revisions.find((r) => r.id === selected.rolledBackTo) : undefined;
+  // The newest revision's snapshot is the course as it stands now
+  const changes = !selected
+    ? []
+    : comparison === 'current'
+      ? snapshotChanges(selected.snapshot || {}, revisions[0].snapshot || {})
+      : selected.changes || [];
+
+  const handleRollback = async () => {
+    if (!selected) return;
+    const when = formatWhen(selected.createdAt);
+    if (!window.confirm(`Roll "${course.title}" back to how it was on ${when}?`)) return;
+    setRollingBack(true);
+    try {
+      await courseRevisionService.rollback(course.id, selected.id);
+      setSelectedId(null);
+      setComparison('previous');
+      alert('Course rolled back.');
+    } catch (err) {
+      console.error('Error rolling back course:', err);
+      alert(`Error: ${(err as Error).message}`);
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between p-4 border-b dark:border-gray-700">
+          <div>
+            <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-900 dark:text-white">
+              <History className="w-5 h-5" /> History: {course.title}
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Every change to the course, who made it and when.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="ml-4 text-gray-500 hover:text-gray-700 dark:hover:text-white font-bold text-xl"
+            aria-label="Close history"
+          >
+            ✕
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="p-4 text-gray-500 dark:text-gray-400">Loading history...</p>
+        ) : revisions.length === 0 ? (
+          <p className="p-4 text-gray-500 dark:text-gray-400">No changes recorded for this course yet.</p>
+        ) : (
+          <div className="flex flex-1 min-h-0 flex-col md:flex-row">
+            {/* Timeline */}
+            <ol className="md:w-72 overflow-y-auto border-b md:border-b-0 md:border-r dark:border-gray-700 p-3 space-y-2">
+              {revisions.map((revision, index) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left text-sm px-3 py-2 rounded-lg border-l-4 ${
+                      revision.id === selected?.id
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/40'
+                        : 'border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {revision.authorName} {revision.action} the course
+                      {index === 0 && <span className="ml-1 text-xs text-green-600">(current)</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{formatWhen(revision.createdAt)}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {(revision.changes || []).map((c) => courseFieldLabel(c.field)).join(', ')}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            {/* Comparison */}
+            {selected && (
+              <section className="flex-1 overflow-y-auto p-4 space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant={comparison === 'previous' ? 'primary' : 'outline'}
+                      onClick={() => setComparison('previous')}
+                    >
+                      Changes in this revision
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={comparison === 'current' ? 'primary' : 'outline'}
+                      disabled={isCurrent}
+                      onClick={() => setComparison('current')}
+                    >
+                      Compare with current
+                    </Button>
+                  </div>
+                  {!readOnly && !isCurrent && (
+                    <Button size="sm" variant="destructive" loading={rollingBack} onClick={handleRollback}>
+                      <RotateCcw className="w-4 h-4 mr-1" /> Roll back to this version
+                    </Button>
+                  )}
+                </div>
+
+                {restored && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Restored the version of {formatWhen(restored.createdAt)}.
+                  </p>
+                )}
+
+                <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                  <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                    <tr>
+                      <th className="px-4 py-2">Field</th>
+                      <th className="px-4 py-2">{comparison === 'current' ? 'This version' : 'Before'}</th>
+                      <th className="px-4 py-2">{comparison === 'current' ? 'Current' : 'After'}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map((change) => (
+                      <tr key={change.field} className="border-b dark:border-gray-600 align-top">
+                        <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">
+                          {courseFieldLabel(change.field)}
+                        </td>
+                        <td className="px-4 py-2 whitespace-pre-line">
+                          {describeCourseField(change.field, change.before) || '—'}
+                        </td>
+                        <td className="px-4 py-2 whitespace-pre-line">
+                          {describeCourseField(change.field, change.after) || '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {changes.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {comparison === 'current' ? 'Identical to the current version.' : 'No field changes.'}
+                  </p>
+                )}
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { collection, doc, getDocs, onSnapshot, query, where, Timestamp } from 'firebase/firestore';
+import { Calendar, CheckCircle, Circle, ClipboardCheck, Clock, FileText, ListTree } from 'lucide-react';
+import { db } from '../../lib/firebase';
+import { formatMinutes, syllabusLessons, syllabusProgress } from '../../lib/syllabus';
+import { progressId, progressService } from '../../services/progressService';
+import { Course } from '../../types';
+import { Button } from '../ui/Button';
+
+interface CourseSyllabusProps {
+  course: Course;
+  userId: string;
+  readOnly?: boolean; // admins viewing as the trainee: progress is not saved
+}
+
+interface LinkedMaterial {
+  name: string;
+  content: string;
+}
+
+// Opens a course's syllabus so a trainee can work through it lesson by lesson
+export const CourseSyllabus: React.FC<CourseSyllabusProps> = ({ course, userId, readOnly = false }) => {
+  const modules = course.modules || [];
+  const lessons = syllabusLessons(modules);
+  const [open, setOpen] = useState(false);
+  const [completed, setCompleted] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [materials, setMaterials] = useState<Record<string, LinkedMaterial>>({});
+  const [sessions, setSessions] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  // 🔹 Completed lessons, kept in the trainee's progress document
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      doc(db, 'progress', progressId(userId, course.id)),
+      (snap) => setCompleted(snap.exists() ? snap.data().completedSessions || [] : []),
+      () => setCompleted([])
+    );
+    return () => unsubscribe();
+  }, [userId, course.id]);
+
+  // 🔹 Materials and sessions the lessons link to, once the syllabus is opened
+  useEffect(() => {
+    if (!open) return;
+    const fetchLinks = async () => {
+      try {
+        const [materialSnap, sessionSnap] = await Promise.all([
+          getDocs(query(collection(db, 'trainingMaterials'), where('courseId', '==', course.id))),
+          getDocs(query(collection(db, 'trainingSessions'), where('courseId', '==', course.id))),
+        ]);
+        setMaterials(
+          Object.fromEntries(
+            materialSnap.docs.map((d) => [
+              d.id,
+              { name: d.data().name || 'Untitled', content: d.data().content || d.data().url || '' },
+            ])
+          )
+        );
+        setSessions(
+          Object.fromEntries(
+            sessionSnap.docs.map((d) => {
+              const date = d.data().date;
+              return [d.id, date instanceof Timestamp ? date.toDate().toLocaleString() : 'Session'];
+            })
+          )
+        );
+      } catch (err) {
+        console.error('Error fetching lesson materials:', err);
+      }
+    };
+    fetchLinks();
+  }, [open, course.id]);
+
+  if (lessons.length === 0) return null;
+
+  const progress = syllabusProgress(modules, completed);
+  const selectedIndex = Math.max(
+    0,
+    lessons.findIndex((lesson) => lesson.id === selectedId)
+  );
+  const lesson = lessons[selectedIndex];
+  const isDone = completed.includes(lesson.id);
+
+  const toggleComplete = async () => {
+    setSaving(true);
+    try {
+      setCompleted(await progressService.setLessonComplete(userId, course, lesson.id, !isDone));
+      if (!isDone && selectedIndex < lessons.length - 1) setSelectedId(lessons[selectedIndex + 1].id);
+    } catch (err) {
+      console.error('Error saving progress:', err);
+      alert(`Error: ${(err as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openSyllabus = () => {
+    // Pick up at the first lesson not yet completed
+    setSelectedId((lessons.find((l) => !completed.includes(l.id)) || lessons[0]).id);
+    setOpen(true);
+  };
+
+  return (
+    <>
+      <Button size="sm" variant="outline" className="mt-2 w-full" onClick={openSyllabus}>
+        <ListTree className="w-4 h-4 mr-1" /> Syllabus ({progress}% complete)
+      </Button>
+
+      {open && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+            <div className="flex items-start justify-between p-4 border-b dark:border-gray-700">
+              <div className="flex-1">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{course.title}</h2>
+                <div className="mt-2 h-2 bg-gray-200 dark:bg-gray-700 rounded-full">
+                  <div className="h-2 bg-green-500 rounded-full" style={{ width: `${progress}%` }} />
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {lessons.filter((l) => completed.includes(l.id)).length} of {lessons.length} lessons
+                  completed
+                </p>
+              </div>
+              <button
+                onClick={() => setOpen(false)}
+                className="ml-4 text-gray-500 hover:text-gray-700 dark:hover:text-white font-bold text-xl"
+                aria-label="Close syllabus"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="flex flex-1 min-h-0 flex-col md:flex-row">
+              {/* Outline */}
+              <nav className="md:w-72 overflow-y-auto border-b md:border-b-0 md:border-r dark:border-gray-700 p-3 space-y-3">
+                {modules.map((module, moduleIndex) => (
+                  <div key={module.id}>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                      {moduleIndex + 1}. {module.title}
+                    </p>
+                    {formatMinutes(module.lessons) && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{formatMinutes(module.lessons)}</p>
+                    )}
+                    <ul className="mt-1 space-y-1">
+                      {module.lessons.map((l) => (
+                        <li key={l.id}>
+                          <button
+                            onClick={() => setSelectedId(l.id)}
+                            className={`w-full flex items-center gap-2 text-left text-sm px-2 py-1 rounded ${
+                              l.id === lesson.id
+                                ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300'
+                                : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                            }`}
+                          >
+                            {completed.includes(l.id) ? (
+                              <CheckCircle className="w-4 h-4 text-green-500 shrink-0" />
+                            ) : (
+                              <Circle className="w-4 h-4 text-gray-400 shrink-0" />
+                            )}
+                            {l.title}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </nav>
+
+              {/* Lesson */}
+              <section className="flex-1 overflow-y-auto p-4 space-y-4 text-gray-700 dark:text-gray-300">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{lesson.title}</h3>
+                  {lesson.estimatedMinutes ? (
+                    <p className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+                      <Clock className="w-4 h-4" /> About {formatMinutes([lesson])}
+                    </p>
+                  ) : null}
+                </div>
+
+                {lesson.objectives.length > 0 && (
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">Objectives</p>
+                    <ul className="list-disc ml-5 text-sm">
+                      {lesson.objectives.map((objective, i) => (
+                        <li key={i}>{objective}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {lesson.materialIds.length > 0 && (
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">Materials</p>
+                    <ul className="text-sm space-y-1">
+                      {lesson.materialIds.map((id) => (
+                        <li key={id} className="flex items-center gap-2">
+                          <FileText className="w-4 h-4" />
+                          {materials[id]?.content ? (
+                            <a
+                              href={materials[id].content}
+                              target="_blank"
+                              rel="noreferrer"
+                              download={materials[id].name}
+                              className="text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              {materials[id].name}
+                            </a>
+                          ) : (
+                            materials[id]?.name || 'Material no longer available'
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {lesson.sessionIds.length > 0 && (
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">Sessions</p>
+                    <ul className="text-sm space-y-1">
+                      {lesson.sessionIds.map((id) => (
+                        <li key={id} className="flex items-center gap-2">
+                          <Calendar className="w-4 h-4" />
+                          {sessions[id] || 'Session no longer scheduled'}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {lesson.assessment && (
+                  <div className="flex items-center gap-2 text-sm p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/30">
+                    <ClipboardCheck className="w-4 h-4" />
+                    Assessment: {lesson.assessment.title || 'Lesson assessment'}
+                    {lesson.assessment.passingScore != null &&
+                      ` (pass mark ${lesson.assessment.passingScore}%)`}
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-2 pt-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={selectedIndex === 0}
+                    onClick={() => setSelectedId(lessons[selectedIndex - 1].id)}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={isDone ? 'secondary' : 'primary'}
+                    loading={saving}
+                    disabled={readOnly}
+                    onClick={toggleComplete}
+                  >
+                    {isDone ? 'Mark as not completed' : 'Mark as completed'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={selectedIndex === lessons.length - 1}
+                    onClick={() => setSelectedId(lessons[selectedIndex + 1].id)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </section>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { Course, CoursePrerequisite } from '../../types';
+
+interface PrerequisiteEditorProps {
+  value: CoursePrerequisite[];
+  onChange: (prerequisites: CoursePrerequisite[]) => void;
+  courses: Pick<Course, 'id' | 'title'>[];
+  courseId?: string; // the course being edited, which cannot require itself
+}
+
+// Prerequisite courses and the minimum grade each needs, as used in the course forms
+export const PrerequisiteEditor: React.FC<PrerequisiteEditorProps> = ({
+  value,
+  onChange,
+  courses,
+  courseId,
+}) => {
+  const options = courses.filter(
+    (course) => course.id !== courseId && !value.some((p) => p.courseId === course.id)
+  );
+
+  const addPrerequisite = (id: string) => {
+    const course = courses.find((c) => c.id === id);
+    if (!course) return;
+    onChange([...value, { courseId: course.id, courseTitle: course.title, minGrade: null }]);
+  };
+
+  const setMinGrade = (index: number, minGrade: string) =>
+    onChange(
+      value.map((p, i) =>
+        i === index
+          ? { ...p, minGrade: minGrade === '' ? null : Math.min(100, Math.max(0, Number(minGrade))) }
+          : p
+      )
+    );
+
+  return (
+    <div className="text-sm text-gray-700 dark:text-gray-300">
+      <p className="font-medium mb-1">Prerequisites</p>
+      {value.length > 0 && (
+        <ul className="space-y-2 mb-2">
+          {value.map((prerequisite, index) => (
+            <li key={prerequisite.courseId} className="flex items-center gap-2">
+              <span className="flex-1 truncate">{prerequisite.courseTitle}</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                placeholder="Any grade"
+                aria-label={`Minimum grade for ${prerequisite.courseTitle}`}
+                value={prerequisite.minGrade ?? ''}
+                onChange={(e) => setMinGrade(index, e.target.value)}
+                className="w-28 px-2 py-1 border border-gray-300 rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                className="text-red-500 hover:text-red-700"
+                aria-label={`Remove ${prerequisite.courseTitle}`}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <select
+        value=""
+        onChange={(e) => addPrerequisite(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+      >
+        <option value="">Add a prerequisite course...</option>
+        {options.map((course) => (
+          <option key={course.id} value={course.id}>
+            {course.title}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from 'react';
+import { collection, getDocs, query, where, Timestamp } from 'firebase/firestore';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { db } from '../../lib/firebase';
+import { emptyLesson, emptyModule } from '../../lib/syllabus';
+import { Course, CourseModule, Lesson } from '../../types';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+
+interface SyllabusEditorProps {
+  course: Course;
+  onSave: (modules: CourseModule[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface LinkOption {
+  id: string;
+  label: string;
+}
+
+const move = <T,>(items: T[], index: number, offset: number) => {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const copy = [...items];
+  [copy[index], copy[target]] = [copy[target], copy[index]];
+  return copy;
+};
+
+const toggle = (ids: string[], id: string) =>
+  ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id];
+
+const checkboxListClass =
+  'max-h-28 overflow-y-auto border rounded p-2 text-sm text-gray-700 dark:text-gray-300 dark:border-gray-600';
+
+// Modules and lessons of a course, with the materials and sessions each lesson uses
+export const SyllabusEditor: React.FC<SyllabusEditorProps> = ({ course, onSave, onCancel }) => {
+  const [modules, setModules] = useState<CourseModule[]>(course.modules || []);
+  const [materials, setMaterials] = useState<LinkOption[]>([]);
+  const [sessions, setSessions] = useState<LinkOption[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // The course's uploaded materials and scheduled sessions can be linked to lessons
+  useEffect(() => {
+    const fetchLinks = async () => {
+      try {
+        const [materialSnap, sessionSnap] = await Promise.all([
+          getDocs(query(collection(db, 'trainingMaterials'), where('courseId', '==', course.id))),
+          getDocs(query(collection(db, 'trainingSessions'), where('courseId', '==', course.id))),
+        ]);
+        setMaterials(materialSnap.docs.map((d) => ({ id: d.id, label: d.data().name || 'Untitled' })));
+        setSessions(
+          sessionSnap.docs.map((d) => {
+            const date = d.data().date;
+            return {
+              id: d.id,
+              label: date instanceof Timestamp ? date.toDate().toLocaleString() : 'Session',
+            };
+          })
+        );
+      } catch (err) {
+        console.error('Error fetching materials and sessions:', err);
+      }
+    };
+    fetchLinks();
+  }, [course.id]);
+
+  const updateModule = (moduleIndex: number, changes: Partial<CourseModule>) =>
+    setModules((prev) => prev.map((m, i) => (i === moduleIndex ? { ...m, ...changes } : m)));
+
+  const updateLesson = (moduleIndex: number, lessonIndex: number, changes: Partial<Lesson>) =>
+    setModules((prev) =>
+      prev.map((m, i) =>
+        i === moduleIndex
+          ? { ...m, lessons: m.lessons.map((l, j) => (j === lessonIndex ? { ...l, ...changes } : l)) }
+          : m
+      )
+    );
+
+  const handleSave = async () => {
+    const untitled = modules.some((m) => !m.title.trim() || m.lessons.some((l) => !l.title.trim()));
+    if (untitled) {
+      alert('Every module and lesson needs a title.');
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave(
+        modules.map((m) => ({
+          ...m,
+          lessons: m.lessons.map((l) => ({
+            ...l,
+            objectives: l.objectives.map((o) => o.trim()).filter(Boolean),
+          })),
+        }))
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded-lg space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Syllabus: {course.title}</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Trainees see modules and lessons in this order and mark each lesson complete.
+        </p>
+      </div>
+
+      {modules.map((module, moduleIndex) => (
+        <div key={module.id} className="p-4 bg-white dark:bg-gray-900 rounded-lg space-y-3">
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Input
+                label={`Module ${moduleIndex + 1}`}
+                placeholder="Module title"
+                value={module.title}
+                onChange={(e) => updateModule(moduleIndex, { title: e.target.value })}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              aria-label="Move module up"
+              onClick={() => setModules(move(modules, moduleIndex, -1))}
+            >
+              <ArrowUp className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              aria-label="Move module down"
+              onClick={() => setModules(move(modules, moduleIndex, 1))}
+            >
+              <ArrowDown className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              aria-label="Remove module"
+              onClick={() => setModules(modules.filter((_, i) => i !== moduleIndex))}
+            >
+              <Trash2 className="w-4 h-4 text-red-500" />
+            </Button>
+          </div>
+
+          {module.lessons.map((lesson, lessonIndex) => (
+            <div
+              key={lesson.id}
+              className="ml-4 p-3 border rounded-lg space-y-3 dark:border-gray-700"
+            >
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Input
+                    label={`Lesson ${moduleIndex + 1}.${lessonIndex + 1}`}
+                    placeholder="Lesson title"
+                    value={lesson.title}
+                    onChange={(e) => updateLesson(moduleIndex, lessonIndex, { title: e.target.value })}
+                  />
+                </div>
+                <div className="w-36">
+                  <Input
+                    label="Minutes"
+                    type="number"
+                    min={0}
+                    value={lesson.estimatedMinutes ?? ''}
+                    onChange={(e) =>
+                      updateLesson(moduleIndex, lessonIndex, {
+                        estimatedMinutes: e.target.value ? Number(e.target.value) : null,
+                      })
+                    }
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  aria-label="Move lesson up"
+                  onClick={() => updateModule(moduleIndex, { lessons: move(module.lessons, lessonIndex, -1) })}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  aria-label="Move lesson down"
+                  onClick={() => updateModule(moduleIndex, { lessons: move(module.lessons, lessonIndex, 1) })}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  aria-label="Remove lesson"
+                  onClick={() =>
+                    updateModule(moduleIndex, {
+                      lessons: module.lessons.filter((_, j) => j !== lessonIndex),
+                    })
+                  }
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              </div>
+
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Objectives (one per line)
+                <textarea
+                  rows={3}
+                  value={lesson.objectives.join('\n')}
+                  onChange={(e) =>
+                    updateLesson(moduleIndex, lessonIndex, { objectives: e.target.value.split('\n') })
+                  }
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+              </label>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Materials</p>
+                  <div className={checkboxListClass}>
+                    {materials.length === 0 && <p>No materials uploaded for this course.</p>}
+                    {materials.map((material) => (
+                      <label key={material.id} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={lesson.materialIds.includes(material.id)}
+                          onChange={() =>
+                            updateLesson(moduleIndex, lessonIndex, {
+                              materialIds: toggle(lesson.materialIds, material.id),
+                            })
+                          }
+                        />
+                        {material.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Sessions</p>
+                  <div className={checkboxListClass}>
+                    {sessions.length === 0 && <p>No sessions scheduled for this course.</p>}
+                    {sessions.map((session) => (
+                      <label key={session.id} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={lesson.sessionIds.includes(session.id)}
+                          onChange={() =>
+                            updateLesson(moduleIndex, lessonIndex, {
+                              sessionIds: toggle(lesson.sessionIds, session.id),
+                            })
+                          }
+                        />
+                        {session.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={!!lesson.assessment}
+                  onChange={(e) =>
+                    updateLesson(moduleIndex, lessonIndex, {
+                      assessment: e.target.checked ? { title: '', passingScore: null } : null,
+                    })
+                  }
+                />
+                Ends with an assessment
+              </label>
+              {lesson.assessment && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <Input
+                    placeholder="Assessment title"
+                    value={lesson.assessment.title}
+                    onChange={(e) =>
+                      updateLesson(moduleIndex, lessonIndex, {
+                        assessment: { ...lesson.assessment!, title: e.target.value },
+                      })
+                    }
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    placeholder="Passing score (%)"
+                    value={lesson.assessment.passingScore ?? ''}
+                    onChange={(e) =>
+                      updateLesson(moduleIndex, lessonIndex, {
+                        assessment: {
+                          ...lesson.assessment!,
+                          passingScore: e.target.value ? Number(e.target.value) : null,
+                        },
+                      })
+                    }
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-4"
+            onClick={() => updateModule(moduleIndex, { lessons: [...module.lessons, emptyLesson()] })}
+          >
+            <Plus className="w-4 h-4 mr-1" /> Add Lesson
+          </Button>
+        </div>
+      ))}
+
+      <Button variant="outline" onClick={() => setModules([...modules, emptyModule()])}>
+        <Plus className="w-4 h-4 mr-2" /> Add Module
+      </Button>
+
+      <div className="flex space-x-3">
+        <Button onClick={handleSave} loading={saving}>
+          Save Syllabus
+        </Button>
+        <Button variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { Clock } from 'lucide-react';
+import { db } from '../../lib/firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import { DEFAULT_SESSION_POLICY } from '../../services/sessionService';
+import { SessionPolicy } from '../../types';
+import { Button } from '../ui/Button';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+// Shared by every tab, so an idle tab does not sign out one in use
+const LAST_ACTIVITY_KEY = 'lastActivity';
+
+const readLastActivity = () => Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || Date.now();
+
+// Warns, then signs out, once nobody has touched the app for the policy's idle timeout
+export const IdleTimeout: React.FC = () => {
+  const { logout } = useAuth();
+  const [policy, setPolicy] = useState<SessionPolicy>(DEFAULT_SESSION_POLICY);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const warning = useRef(false);
+  const logoutRef = useRef(logout);
+  logoutRef.current = logout;
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      doc(db, 'settings', 'sessionPolicy'),
+      (snap) => setPolicy({ ...DEFAULT_SESSION_POLICY, ...snap.data() }),
+      () => setPolicy(DEFAULT_SESSION_POLICY)
+    );
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!policy.idleTimeoutMinutes) return;
+    const timeoutMs = policy.idleTimeoutMinutes * 60000;
+    const warningMs = Math.min(policy.warningSeconds * 1000, timeoutMs);
+
+    let lastWrite = 0;
+    const recordActivity = () => {
+      // Once the warning is up, only "Stay signed in" counts
+      if (warning.current || Date.now() - lastWrite < 5000) return;
+      lastWrite = Date.now();
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(lastWrite));
+    };
+    // A fresh start, not whatever the last user of this browser left behind
+    recordActivity();
+
+    const timer = setInterval(() => {
+      const remaining = readLastActivity() + timeoutMs - Date.now();
+      if (remaining <= 0) {
+        clearInterval(timer);
+        localStorage.removeItem(LAST_ACTIVITY_KEY);
+        warning.current = false;
+        logoutRef.current('idle');
+        return;
+      }
+      warning.current = remaining <= warningMs;
+      setSecondsLeft(warning.current ? Math.ceil(remaining / 1000) : null);
+    }, 1000);
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, recordActivity));
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, recordActivity));
+    };
+  }, [policy]);
+
+  const staySignedIn = () => {
+    warning.current = false;
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+    setSecondsLeft(null);
+  };
+
+  if (secondsLeft === null) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="w-full max-w-sm rounded-lg bg-white dark:bg-gray-800 p-6 shadow-lg space-y-4">
+        <div className="flex items-center gap-2 text-gray-900 dark:text-white">
+          <Clock className="w-5 h-5 text-amber-500" />
+          <h3 className="text-lg font-semibold">Are you still there?</h3>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          You will be signed out in {secondsLeft} second{secondsLeft === 1 ? '' : 's'} because the
+          app has been idle.
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => logout()}>
+            Sign out now
+          </Button>
+          <Button onClick={staySignedIn}>Stay signed in</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+import { ScanEye } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { Button } from '../ui/Button';
+
+// Stays on top of every page while an admin views the app as someone else
+export const ImpersonationBanner: React.FC = () => {
+  const { viewingAs, impersonator, role, stopViewingAs } = useAuth();
+  const [stopping, setStopping] = useState(false);
+
+  if (!viewingAs) return null;
+
+  const handleStop = async () => {
+    setStopping(true);
+    try {
+      await stopViewingAs();
+    } finally {
+      setStopping(false);
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-50 flex flex-wrap items-center justify-between gap-2 px-4 py-2 bg-amber-400 text-amber-950">
+      <div className="flex items-center gap-2 text-sm">
+        <ScanEye className="w-5 h-5" />
+        <span>
+          <strong>{impersonator?.displayName || 'You'}</strong> viewing as{' '}
+          <strong>{viewingAs.user.displayName || viewingAs.user.email}</strong> ({role.name}). Read-only;
+          ends at {viewingAs.expiresAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+        </span>
+      </div>
+      <Button size="sm" variant="outline" onClick={handleStop} loading={stopping}>
+        Exit view
+      </Button>
+    </div>
+  );
+};
@@ -6,6 +6,7 @@ import { useTheme } from '../../contexts/ThemeContext';
 import { Button } from '../ui/Button';
 import { collection, onSnapshot, query, orderBy, doc, getDoc, updateDoc } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
+import { profileService } from '../../services/profileService';
 
 export const Navbar: React.FC = () => {
   const { currentUser, logout } = useAuth();
@@ -69,7 +70,8 @@ export const Navbar: React.FC = () => {
       if (userDoc.exists()) {
         const data = userDoc.data();
         setUserInfo({ displayName: data.displayName || '', email: data.email || '' });
-        if (data.profileImageBase64) setProfileImage(data.profileImageBase64);
+        // Older accounts still carry an inline picture from before photos moved to Storage
+        if (data.photoURL || data.profileImageBase64) setProfileImage(data.photoURL || data.profileImageBase64);
       }
       setLoadingInfo(false);
     };
@@ -84,47 +86,11 @@ export const Navbar: React.FC = () => {
 
     try {
       setUploading(true);
-
-      const img = new Image();
-      img.src = URL.createObjectURL(file);
-      await new Promise(resolve => (img.onload = resolve));
-
-      const canvas = document.createElement('canvas');
-      const maxSize = 300;
-      let width = img.width;
-      let height = img.height;
-
-      if (width > height) {
-        if (width > maxSize) {
-          height = (height * maxSize) / width;
-          width = maxSize;
-        }
-      } else {
-        if (height > maxSize) {
-          width = (width * maxSize) / height;
-          height = maxSize;
-        }
-      }
-
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      ctx?.drawImage(img, 0, 0, width, height);
-
-      // Compress to under 1 MB
-      let quality = 0.8;
-      let base64String = canvas.toDataURL('image/jpeg', quality);
-      while (base64String.length > 950000 && quality > 0.1) {
-        quality -= 0.05;
-        base64String = canvas.toDataURL('image/jpeg', quality);
-      }
-
-      await updateDoc(doc(db, 'users', currentUser.uid), { profileImageBase64: base64String });
-      setProfileImage(base64String);
+      setProfileImage(await profileService.uploadPhoto(currentUser.uid, file));
       alert('✅ Profile image updated successfully!');
     } catch (error) {
       console.error('Error uploading image:', error);
-      alert('❌ Failed to upload image. Try again.');
+      alert('❌ Failed to upload image: ' + (error as Error).message);
     } finally {
       setUploading(false);
     }
@@ -12,10 +12,18 @@ import {
   Menu,
   X,
   House,
-  CheckSquare
+  CheckSquare,
+  Mail,
+  Settings,
+  Shield,
+  Building2,
+  Award,
+  UserX
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { clsx } from 'clsx';
+import { Capability } from '../../lib/permissions';
+import { RoleDashboard } from '../../types';
 
 interface SidebarProps {
   activeSection: string;
@@ -23,7 +31,7 @@ interface SidebarProps {
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({ activeSection, onSectionChange }) => {
-  const { currentUser } = useAuth();
+  const { role, can } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 1024);
   const [navbarHeight, setNavbarHeight] = useState(64); // default navbar height
@@ -41,32 +49,54 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeSection, onSectionChange
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  const allMenuItems = [
+  // Items show on one dashboard, and only when the role grants the capability
+  const allMenuItems: {
+    id: string;
+    label: string;
+    icon: typeof House;
+    dashboards?: RoleDashboard[];
+    capability?: Capability;
+  }[] = [
     { id: 'dashboard', label: 'Home', icon: House },
-    { id: 'users', label: 'User Management', icon: Users, roles: ['admin'] },
-    { id: 'pending-users', label: 'Pending Users', icon: UserCheck, roles: ['admin'] },
-    { id: 'sessions', label: 'Sessions', icon: Calendar, roles: ['admin'] },
-    { id: 'courses', label: 'Course Management', icon: BookOpen, roles: ['admin'] },
-    { id: 'grades', label: 'Grades', icon: BarChart3, roles: ['admin'] },
-    { id: 'activities', label: 'Activity Logs', icon: FileText, roles: ['admin'] },
-
-    { id: 'courses', label: 'My Courses', icon: BookOpen, roles: ['trainer'] },
-    { id: 'sessions', label: 'Training Sessions', icon: Calendar, roles: ['trainer'] },
-    { id: 'materials', label: 'Materials', icon: FileText, roles: ['trainer'] },
-    { id: 'grades', label: 'Trainee Grades', icon: BarChart3, roles: ['trainer'] },
-    {id:'feedback', label: 'Feedback', icon: CheckSquare, roles: ['trainer']},
-
-    { id: 'courses', label: 'My Courses', icon: GraduationCap, roles: ['trainee'] },
-    { id: 'schedule', label: 'Schedule', icon: Calendar, roles: ['trainee'] },
-    { id: 'resources', label: 'Resources', icon: FileText, roles: ['trainee'] },
-  {id:'grades', label: 'Grades', icon: BarChart3, roles: ['trainee']},
-    { id: 'courses-pending', label: 'Browse Courses', icon: BookOpen, roles: ['pending'] },
-    { id: 'profile', label: 'Profile', icon: Users, roles: ['pending'] },
-    { id: 'feedback', label: 'Send Feedback', icon: CheckSquare, roles: ['trainee'] },
+    { id: 'users', label: 'User Management', icon: Users, dashboards: ['admin'], capability: 'users.manage' },
+    { id: 'pending-users', label: 'Pending Users', icon: UserCheck, dashboards: ['admin'], capability: 'users.approve' },
+    { id: 'sessions', label: 'Sessions', icon: Calendar, dashboards: ['admin'], capability: 'sessions.manage' },
+    { id: 'courses', label: 'Course Management', icon: BookOpen, dashboards: ['admin'], capability: 'courses.manage' },
+    { id: 'grades', label: 'Grades', icon: BarChart3, dashboards: ['admin'], capability: 'grades.approve' },
+    { id: 'activities', label: 'Activity Logs', icon: FileText, dashboards: ['admin'], capability: 'activity.view' },
+    { id: 'email-templates', label: 'Email Templates', icon: Mail, dashboards: ['admin'], capability: 'emails.manage' },
+    { id: 'roles', label: 'Roles', icon: Shield, dashboards: ['admin'], capability: 'roles.manage' },
+    { id: 'org-units', label: 'Departments', icon: Building2, dashboards: ['admin'], capability: 'org.manage' },
+    { id: 'certifications', label: 'Certifications', icon: Award, dashboards: ['admin'], capability: 'users.manage' },
+    { id: 'dormant-accounts', label: 'Dormant Accounts', icon: UserX, dashboards: ['admin'], capability: 'users.manage' },
+    { id: 'settings', label: 'Settings', icon: Settings, dashboards: ['admin'], capability: 'settings.manage' },
+
+    { id: 'courses', label: 'My Courses', icon: BookOpen, dashboards: ['trainer'], capability: 'courses.teach' },
+    { id: 'sessions', label: 'Training Sessions', icon: Calendar, dashboards: ['trainer'], capability: 'sessions.manage' },
+    { id: 'materials', label: 'Materials', icon: FileText, dashboards: ['trainer'], capability: 'courses.teach' },
+    { id: 'grades', label: 'Trainee Grades', icon: BarChart3, dashboards: ['trainer'], capability: 'grades.edit' },
+    { id: 'feedback', label: 'Feedback', icon: CheckSquare, dashboards: ['trainer'] },
+
+    { id: 'courses', label: 'My Courses', icon: GraduationCap, dashboards: ['trainee'], capability: 'courses.enroll' },
+    { id: 'schedule', label: 'Schedule', icon: Calendar, dashboards: ['trainee'] },
+    { id: 'resources', label: 'Resources', icon: FileText, dashboards: ['trainee'] },
+    { id: 'grades', label: 'Grades', icon: BarChart3, dashboards: ['trainee'] },
+    { id: 'courses-pending', label: 'Browse Courses', icon: BookOpen, dashboards: ['user'] },
+    { id: 'profile', label: 'Profile', icon: Users, dashboards: ['user', 'trainee', 'trainer'] },
+    { id: 'feedback', label: 'Send Feedback', icon: CheckSquare, dashboards: ['trainee'] },
+
+    { id: 'courses', label: 'Courses', icon: BookOpen, dashboards: ['observer'], capability: 'records.view' },
+    { id: 'sessions', label: 'Sessions', icon: Calendar, dashboards: ['observer'], capability: 'records.view' },
+    { id: 'grades', label: 'Grades', icon: BarChart3, dashboards: ['observer'], capability: 'records.view' },
+    { id: 'attendance', label: 'Attendance', icon: CheckSquare, dashboards: ['observer'], capability: 'records.view' },
+    { id: 'activities', label: 'Activity Logs', icon: FileText, dashboards: ['observer'], capability: 'records.view' },
   ];
 
-  const role = currentUser?.role || 'pending';
-  const menuItems = allMenuItems.filter(item => !item.roles || item.roles.includes(role));
+  const menuItems = allMenuItems.filter(
+    (item) =>
+      (!item.dashboards || item.dashboards.includes(role.dashboard)) &&
+      (!item.capability || can(item.capability))
+  );
 
   return (
     <div className="flex">
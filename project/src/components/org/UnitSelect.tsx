@@ -0,0 +1,44 @@
+import React from 'react';
+import { flattenUnitTree, unitAndDescendants } from '../../lib/orgUnits';
+import { OrgUnit } from '../../types';
+
+interface UnitSelectProps {
+  units: OrgUnit[];
+  value: string;
+  onChange: (unitId: string) => void;
+  emptyLabel?: string; // the "no unit" option
+  excludeId?: string; // hides a unit and everything below it
+  className?: string;
+}
+
+// Indented department and unit picker; "" means no unit
+export const UnitSelect: React.FC<UnitSelectProps> = ({
+  units,
+  value,
+  onChange,
+  emptyLabel = 'No unit',
+  excludeId,
+  className,
+}) => {
+  const excluded = excludeId ? unitAndDescendants(units, excludeId) : [];
+  const rows = flattenUnitTree(units).filter(({ unit }) => !excluded.includes(unit.id));
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={
+        className ||
+        'px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white'
+      }
+    >
+      <option value="">{emptyLabel}</option>
+      {rows.map(({ unit, depth }) => (
+        <option key={unit.id} value={unit.id}>
+          {'\u00A0\u00A0'.repeat(depth * 2)}
+          {unit.name}
+        </option>
+      ))}
+    </select>
+  );
+};
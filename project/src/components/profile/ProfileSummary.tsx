@@ -0,0 +1,69 @@
+import React from 'react';
+import { Phone } from 'lucide-react';
+import { User } from '../../types';
+import { CERTIFICATION_STATUS_STYLES, certificationStatus } from '../../lib/certifications';
+
+interface ProfileSummaryProps {
+  user: Partial<
+    Pick<
+      User,
+      'displayName' | 'email' | 'photoURL' | 'employeeId' | 'jobGrade' | 'department' | 'phone' | 'certifications'
+    >
+  >;
+}
+
+// Photo, name and professional details as shown in trainer and admin rosters
+export const ProfileSummary: React.FC<ProfileSummaryProps> = ({ user }) => {
+  const name = user.displayName || user.email || 'Unknown';
+  const details = [
+    user.employeeId && `ID ${user.employeeId}`,
+    user.jobGrade,
+    user.department,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex items-center gap-3">
+      {user.photoURL ? (
+        <img src={user.photoURL} alt={name} className="w-10 h-10 rounded-full object-cover" />
+      ) : (
+        <div className="w-10 h-10 rounded-full bg-blue-600 flex items-center justify-center text-white font-semibold">
+          {name.charAt(0).toUpperCase()}
+        </div>
+      )}
+      <div className="space-y-1">
+        <p className="font-semibold text-gray-900 dark:text-gray-100">{name}</p>
+        {(details.length > 0 || user.phone) && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 flex flex-wrap items-center gap-x-2">
+            {details.join(' · ')}
+            {user.phone && (
+              <span className="inline-flex items-center gap-1">
+                <Phone className="w-3 h-3" /> {user.phone}
+              </span>
+            )}
+          </p>
+        )}
+        {user.certifications && user.certifications.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {user.certifications.map((certification, index) => {
+              const status = certificationStatus(certification);
+              return (
+                <span
+                  key={index}
+                  title={
+                    certification.expiresAt
+                      ? `Expires ${certification.expiresAt.toDate().toLocaleDateString()}`
+                      : 'Does not expire'
+                  }
+                  className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${CERTIFICATION_STATUS_STYLES[status]}`}
+                >
+                  {certification.type}
+                  {status === 'expired' && ' (expired)'}
+                </span>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
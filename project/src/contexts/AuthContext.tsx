@@ -8,27 +8,57 @@ import {
   signInWithPopup,
   updateProfile
 } from 'firebase/auth';
-import { doc, setDoc, getDoc, serverTimestamp, deleteDoc, onSnapshot } from 'firebase/firestore';
+import { doc, setDoc, getDoc, serverTimestamp, deleteDoc, onSnapshot, updateDoc } from 'firebase/firestore';
 import { auth, db } from '../lib/firebase';
-import { User } from '../types';
+import { RoleDefinition, SessionEndReason, User } from '../types';
+import { invitationService } from '../services/invitationService';
+import { impersonationService } from '../services/impersonationService';
+import { sessionService } from '../services/sessionService';
+import { verificationService } from '../services/verificationService';
+import { Capability, resolveRole } from '../lib/permissions';
 import { FieldValue } from 'firebase/firestore';
 
 interface UserWithTimestamp extends User {
   timestamp?: FieldValue;
 }
 
+// An admin's read-only "view as" session
+interface ViewingAs {
+  sessionId: string;
+  expiresAt: Date;
+  user: UserWithTimestamp;
+}
+
+// Survives a reload so an open session is not orphaned
+const VIEW_AS_KEY = 'viewAs';
+
+// Tabs of one browser share a userSessions document
+const SESSION_KEY = 'sessionId';
+const CHECK_IN_MINUTES = 5;
+
+// The rules only take these times from the server clock, so nobody can move
+// their last sign-in past the inactivity checks
+const serverStamps = () => ({ createdAt: serverTimestamp(), lastLogin: serverTimestamp() });
+
 interface AuthContextType {
-  currentUser: UserWithTimestamp | null;
+  currentUser: UserWithTimestamp | null; // the viewed user while viewing as someone
   login: (email: string, password: string) => Promise<void>;
   signup: (
     email: string,
     password: string,
     displayName: string,
-    selectedRole: 'user' | 'trainer' | 'trainee'
+    selectedRole: 'user' | 'trainer' | 'trainee',
+    inviteToken?: string
   ) => Promise<void>;
   loginWithGoogle: () => Promise<void>;
-  logout: () => Promise<void>;
+  logout: (reason?: SessionEndReason) => Promise<void>;
   loading: boolean;
+  role: RoleDefinition; // the current user's role, including custom roles
+  can: (capability: Capability) => boolean;
+  viewingAs: ViewingAs | null;
+  impersonator: UserWithTimestamp | null; // the signed-in admin while viewing as someone
+  startViewingAs: (uid: string) => Promise<void>;
+  stopViewingAs: () => Promise<void>;
   approveUser?: (userId: string) => Promise<void>;
   rejectUser?: (userId: string) => Promise<void>;
 }
@@ -40,13 +70,18 @@ export const useAuth = () => useContext(AuthContext);
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [currentUser, setCurrentUser] = useState<UserWithTimestamp | null>(null);
   const [loading, setLoading] = useState(true);
+  const [role, setRole] = useState<RoleDefinition>(resolveRole('pending'));
+  const [viewingAs, setViewingAs] = useState<ViewingAs | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const effectiveUser = viewingAs?.user ?? currentUser;
 
   // --- Signup ---
   const signup = async (
     email: string,
     password: string,
     displayName: string,
-    selectedRole: 'user' | 'trainer' | 'trainee'
+    selectedRole: 'user' | 'trainer' | 'trainee',
+    inviteToken?: string
   ) => {
     const result = await createUserWithEmailAndPassword(auth, email, password);
     await updateProfile(result.user, { displayName });
@@ -63,7 +98,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
 
     // --- Store in users collection with pending role ---
-    await setDoc(doc(db, 'users', result.user.uid), userData);
+    await setDoc(doc(db, 'users', result.user.uid), { ...userData, ...serverStamps() });
+
+    // --- Invited users skip the pending queue ---
+    if (inviteToken) {
+      try {
+        const { role } = await invitationService.redeemInvitation(inviteToken);
+        setCurrentUser({ ...userData, role });
+        return;
+      } catch (err) {
+        // Fall back to the normal approval flow rather than stranding the account
+        console.error('Invitation could not be redeemed:', err);
+      }
+    }
 
     // --- Store in pendingUsers collection with selected role ---
     await setDoc(doc(db, 'pendingUsers', result.user.uid), {
@@ -72,9 +119,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       displayName,
       role: selectedRole, // role chosen by user
       photoURL: result.user.photoURL || '',
+      emailVerified: false, // admins cannot approve until the address is confirmed
       timestamp: serverTimestamp(),
     });
 
+    try {
+      await verificationService.sendVerificationEmail();
+    } catch (err) {
+      // The pending page offers a resend
+      console.error('Verification email could not be sent:', err);
+    }
+
     setCurrentUser(userData); // allow dashboard render immediately
   };
 
@@ -95,13 +150,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         lastLogin: new Date(),
         timestamp: serverTimestamp(),
       };
-      await setDoc(userRef, newUser);
+      await setDoc(userRef, { ...newUser, ...serverStamps() });
       setCurrentUser(newUser);
       return;
     }
 
     const userData = userDoc.data() as UserWithTimestamp;
-    await setDoc(userRef, { ...userData, lastLogin: new Date() }, { merge: true });
+    // Only lastLogin, which read-only roles may stamp too
+    await updateDoc(userRef, { lastLogin: serverTimestamp() });
     setCurrentUser(userData);
   };
 
@@ -124,7 +180,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         lastLogin: new Date(),
         timestamp: serverTimestamp(),
       };
-      await setDoc(userRef, newUser);
+      await setDoc(userRef, { ...newUser, ...serverStamps() });
 
       await setDoc(doc(db, 'pendingUsers', result.user.uid), {
         uid: result.user.uid,
@@ -132,6 +188,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         displayName: result.user.displayName || '',
         role: 'trainee',
         photoURL: result.user.photoURL || '',
+        emailVerified: result.user.emailVerified,
         timestamp: serverTimestamp(),
       });
 
@@ -140,12 +197,53 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
 
     const userData = userDoc.data() as UserWithTimestamp;
-    await setDoc(userRef, { ...userData, lastLogin: new Date() }, { merge: true });
+    // Only lastLogin, which read-only roles may stamp too
+    await updateDoc(userRef, { lastLogin: serverTimestamp() });
     setCurrentUser(userData);
   };
 
   // --- Logout ---
-  const logout = async () => await signOut(auth);
+  const logout = async (reason: SessionEndReason = 'signed out') => {
+    if (viewingAs) await stopViewingAs();
+    if (sessionId) {
+      localStorage.removeItem(SESSION_KEY);
+      setSessionId(null);
+      try {
+        await updateDoc(doc(db, 'userSessions', sessionId), {
+          endedAt: serverTimestamp(),
+          endReason: reason,
+        });
+      } catch (err) {
+        // closeStaleSessions closes it once it stops checking in
+        console.error('Failed to close session:', err);
+      }
+    }
+    await signOut(auth);
+  };
+
+  // --- Admin views the app as another user, read-only ---
+  const startViewingAs = async (uid: string) => {
+    if (viewingAs) await stopViewingAs();
+    const { sessionId, expiresAt } = await impersonationService.start(uid);
+    const snap = await getDoc(doc(db, 'users', uid));
+    sessionStorage.setItem(
+      VIEW_AS_KEY,
+      JSON.stringify({ sessionId, uid, expiresAt: expiresAt.toISOString() })
+    );
+    setViewingAs({ sessionId, expiresAt, user: snap.data() as UserWithTimestamp });
+  };
+
+  const stopViewingAs = async () => {
+    if (!viewingAs) return;
+    sessionStorage.removeItem(VIEW_AS_KEY);
+    setViewingAs(null);
+    try {
+      await impersonationService.end(viewingAs.sessionId);
+    } catch (err) {
+      // closeExpiredImpersonations closes it once it runs out
+      console.error('Failed to end view-as session:', err);
+    }
+  };
 
   // --- Admin approves user ---
   const approveUser = async (userId: string) => {
@@ -187,11 +285,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             lastLogin: new Date(),
             timestamp: serverTimestamp(),
           };
-          await setDoc(userRef, newUser);
+          await setDoc(userRef, { ...newUser, ...serverStamps() });
           setCurrentUser(newUser);
         }
       } else {
         setCurrentUser(null);
+        setSessionId(null);
       }
       setLoading(false);
     });
@@ -199,13 +298,166 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return unsubscribe;
   }, []);
 
+  // --- Keep profile and ID token claims in sync with the users document ---
+  useEffect(() => {
+    if (!currentUser?.uid) return;
+
+    const unsubscribe = onSnapshot(doc(db, 'users', currentUser.uid), async (snap) => {
+      if (!snap.exists()) return;
+      const userData = snap.data() as UserWithTimestamp;
+
+      // syncUserClaims stamps claimsUpdatedAt after changing role claims;
+      // refresh the token if it was issued before that
+      const firebaseUser = auth.currentUser;
+      if (firebaseUser && userData.claimsUpdatedAt) {
+        try {
+          const token = await firebaseUser.getIdTokenResult();
+          if (new Date(token.issuedAtTime) < userData.claimsUpdatedAt.toDate()) {
+            await firebaseUser.getIdToken(true);
+          }
+        } catch (err) {
+          // Keep the profile current; the next snapshot retries the refresh
+          console.error('Failed to refresh ID token claims:', err);
+        }
+      }
+
+      setCurrentUser(userData);
+    });
+
+    return unsubscribe;
+  }, [currentUser?.uid]);
+
+  // --- Open or resume this browser's session so admins can see and revoke it ---
+  useEffect(() => {
+    if (!currentUser?.uid) return;
+    const uid = currentUser.uid;
+    let cancelled = false;
+
+    const resume = async () => {
+      const stored = localStorage.getItem(SESSION_KEY);
+      if (stored) {
+        const snap = await getDoc(doc(db, 'userSessions', stored)).catch(() => null);
+        if (snap?.exists() && snap.data().uid === uid && !snap.data().endedAt) return stored;
+      }
+      return sessionService.register();
+    };
+
+    resume()
+      .then((id) => {
+        if (cancelled) return;
+        localStorage.setItem(SESSION_KEY, id);
+        setSessionId(id);
+      })
+      .catch((err) => console.error('Failed to register session:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser?.uid]);
+
+  // --- Check in, and sign out when an admin or exam mode ends the session ---
+  useEffect(() => {
+    if (!sessionId) return;
+    const sessionRef = doc(db, 'userSessions', sessionId);
+
+    const unsubscribe = onSnapshot(
+      sessionRef,
+      async (snap) => {
+        const reason = snap.data()?.endedAt ? (snap.data()?.endReason as SessionEndReason) : null;
+        if (!reason || reason === 'signed out' || reason === 'idle') return;
+
+        localStorage.removeItem(SESSION_KEY);
+        if (reason === 'stale') {
+          // The browser slept past the cutoff; carry on in a new session
+          const id = await sessionService.register();
+          localStorage.setItem(SESSION_KEY, id);
+          setSessionId(id);
+          return;
+        }
+
+        setSessionId(null);
+        alert(
+          reason === 'replaced'
+            ? 'You signed in on another device. Only one session is allowed during exams.'
+            : 'An administrator ended your session.'
+        );
+        await signOut(auth);
+      },
+      (error) => console.error('Session listener failed:', error)
+    );
+
+    const timer = setInterval(() => {
+      updateDoc(sessionRef, { lastSeenAt: serverTimestamp() }).catch((err) =>
+        console.error('Session check-in failed:', err)
+      );
+    }, CHECK_IN_MINUTES * 60000);
+
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [sessionId]);
+
+  // --- Resume a view-as session after a reload, if it has not run out ---
+  useEffect(() => {
+    const stored = sessionStorage.getItem(VIEW_AS_KEY);
+    if (!currentUser?.uid || !stored) return;
+
+    const { sessionId, uid, expiresAt } = JSON.parse(stored);
+    if (new Date(expiresAt) <= new Date()) {
+      sessionStorage.removeItem(VIEW_AS_KEY);
+      return;
+    }
+    getDoc(doc(db, 'users', uid)).then((snap) => {
+      if (snap.exists()) {
+        setViewingAs({ sessionId, expiresAt: new Date(expiresAt), user: snap.data() as UserWithTimestamp });
+      }
+    });
+  }, [currentUser?.uid]);
+
+  // --- Drop back to the admin's own view when the session runs out ---
+  useEffect(() => {
+    if (!viewingAs) return;
+
+    const timer = setTimeout(() => {
+      sessionStorage.removeItem(VIEW_AS_KEY);
+      setViewingAs(null);
+    }, viewingAs.expiresAt.getTime() - Date.now());
+
+    return () => clearTimeout(timer);
+  }, [viewingAs]);
+
+  // --- Role definition behind can(); built-in roles work without a document ---
+  const roleId = effectiveUser?.role || 'pending';
+  useEffect(() => {
+    if (!effectiveUser?.uid) return;
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'roles', roleId),
+      (snap) => setRole(resolveRole(roleId, snap.data() as Partial<RoleDefinition> | undefined)),
+      () => setRole(resolveRole(roleId))
+    );
+
+    return unsubscribe;
+  }, [effectiveUser?.uid, roleId]);
+
+  // Super admins hold every capability, as in the security rules
+  const can = (capability: Capability) =>
+    effectiveUser?.isSuperAdmin === true || role.capabilities.includes(capability);
+
   const value: AuthContextType = {
-    currentUser,
+    currentUser: effectiveUser,
     login,
     signup,
     loginWithGoogle,
     logout,
     loading,
+    role,
+    can,
+    viewingAs,
+    impersonator: viewingAs ? currentUser : null,
+    startViewingAs,
+    stopViewingAs,
     approveUser,
     rejectUser,
   };
@@ -2,16 +2,21 @@ import { useEffect, useState, useCallback, useMemo } from "react";
 import {
   collection,
   doc,
-  getDoc,
-  setDoc,
   updateDoc,
   onSnapshot,
   query,
   where,
+  Timestamp,
 } from "firebase/firestore";
 import { db } from "../lib/firebase";
+import { isInUnits } from "../lib/orgUnits";
+import { enrollmentService } from "../services/enrollmentService";
 import { User, Course } from "../types";
 
+// Entries written by the enrollment functions hold Timestamps
+const toDate = (value: Date | Timestamp | string) =>
+  value instanceof Timestamp ? value.toDate() : value instanceof Date ? value : new Date(value);
+
 export interface EnrollmentCourse {
   courseId: string;
   enrolledAt: Date;
@@ -68,9 +73,9 @@ export const useCourses = (currentUser: User | null, statusFilter?: string) => {
         // Convert date fields
         let courses: EnrollmentCourse[] = data.courses.map((c) => ({
           ...c,
-          enrolledAt: c.enrolledAt instanceof Date ? c.enrolledAt : new Date(c.enrolledAt),
-          startDate: c.startDate ? new Date(c.startDate) : undefined,
-          endDate: c.endDate ? new Date(c.endDate) : undefined,
+          enrolledAt: toDate(c.enrolledAt),
+          startDate: c.startDate ? toDate(c.startDate) : undefined,
+          endDate: c.endDate ? toDate(c.endDate) : undefined,
         }));
 
         // Auto-update completed courses
@@ -109,53 +114,40 @@ export const useCourses = (currentUser: User | null, statusFilter?: string) => {
 
       const course = allCourses.find((c) => c.id === courseId);
       if (!course) throw new Error("Course not found");
-
-      const enrollmentRef = doc(db, "enrollments", currentUser.uid);
-
-      const newEnrollment: EnrollmentCourse = {
-        courseId,
-        enrolledAt: new Date(),
-        title: course.title,
-        instructorId: String(course.instructorId),
-        instructorName: course.instructorName,
-        hours: course.hours,
-        level: course.level,
-        category: course.category,
-        startDate: course.startDate,
-        endDate: course.endDate,
-        materials: course.materials || [],
-        status: course.status,
-      };
-
-      const snap = await getDoc(enrollmentRef);
-
-      if (snap.exists()) {
-        const data = snap.data() as Enrollment;
-        await updateDoc(enrollmentRef, { courses: [...data.courses, newEnrollment] });
-      } else {
-        const newData: Enrollment = { userId: currentUser.uid, courses: [newEnrollment] };
-        await setDoc(enrollmentRef, newData);
+      if (!isInUnits(currentUser.unitPath, course.unitIds)) {
+        throw new Error("This course is only open to other departments.");
       }
+
+      // Full courses put the trainee on the waitlist instead
+      return enrollmentService.enroll(courseId);
     },
     [currentUser, allCourses, enrolledCourseIds]
   );
 
-  // Unenroll from a course
+  // Unenroll from a course, or leave its waitlist
   const unenrollCourse = useCallback(
     async (courseId: string) => {
       if (!currentUser) throw new Error("User not logged in");
-
-      const enrollmentRef = doc(db, "enrollments", currentUser.uid);
-      const snap = await getDoc(enrollmentRef);
-      if (!snap.exists()) return;
-
-      const data = snap.data() as Enrollment;
-      const updatedCourses = data.courses.filter((c) => c.courseId !== courseId);
-      await updateDoc(enrollmentRef, { courses: updatedCourses });
+      return enrollmentService.unenroll(courseId);
     },
     [currentUser]
   );
 
+  // Courses scoped to units are only offered to members of those units; drafts to no one
+  const openCourses = useMemo(
+    () =>
+      allCourses.filter(
+        (course) => course.status !== "draft" && isInUnits(currentUser?.unitPath, course.unitIds)
+      ),
+    [allCourses, currentUser?.unitPath]
+  );
+
+  // Courses the user is waiting for a seat in
+  const waitlistedCourses = useMemo(
+    () => allCourses.filter((course) => currentUser && course.waitlist?.includes(currentUser.uid)),
+    [allCourses, currentUser]
+  );
+
   // Recent courses (last 2)
   const recentCourses = useMemo(() => {
     if (!enrollments) return [];
@@ -166,10 +158,12 @@ export const useCourses = (currentUser: User | null, statusFilter?: string) => {
 
   return {
     allCourses,
+    openCourses,
     enrollments,
     enrolledCourseIds,
     enrollCourse,
     unenrollCourse,
+    waitlistedCourses,
     recentCourses,
     loading,
   };
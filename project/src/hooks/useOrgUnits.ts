@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { OrgUnit } from '../types';
+
+// The department and unit tree, kept up to date
+export function useOrgUnits() {
+  const [units, setUnits] = useState<OrgUnit[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      collection(db, 'orgUnits'),
+      (snapshot) => {
+        setUnits(snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as OrgUnit));
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error fetching units:', error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  return { units, loading };
+}
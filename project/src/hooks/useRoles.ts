@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { useAuth } from '../contexts/AuthContext';
+import { Capability, DEFAULT_ROLES, resolveRole } from '../lib/permissions';
+import { RoleDefinition } from '../types';
+
+// Built-in roles merged with the roles collection, kept up to date
+export function useRoles() {
+  const [roles, setRoles] = useState<RoleDefinition[]>(DEFAULT_ROLES);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(collection(db, 'roles'), (snapshot) => {
+      const stored = new Map(
+        snapshot.docs.map((doc) => [doc.id, doc.data() as Partial<RoleDefinition>])
+      );
+      const builtInIds = DEFAULT_ROLES.map((role) => role.id);
+      const customIds = Array.from(stored.keys()).filter((id) => !builtInIds.includes(id));
+
+      setRoles([...builtInIds, ...customIds].map((id) => resolveRole(id, stored.get(id))));
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  // As in the rules and functions: roles granting anything the caller lacks,
+  // and the admin role itself, need admins.manage
+  const { can } = useAuth();
+  const canAssignRole = (roleId: string) =>
+    can('admins.manage') ||
+    (roleId !== 'admin' &&
+      (roles.find((role) => role.id === roleId)?.capabilities || []).every((cap) =>
+        can(cap as Capability)
+      ));
+
+  return { roles, loading, canAssignRole };
+}
@@ -0,0 +1,30 @@
+import { Certification } from '../types';
+
+export const CERTIFICATION_TYPES = ['CIA', 'CISA', 'CPA'];
+
+// Renewals take a while, so flag them well ahead of the date
+export const EXPIRY_WARNING_DAYS = 90;
+
+export type CertificationStatus = 'valid' | 'expiring' | 'expired' | 'no expiry';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Where a certification stands today, warning `warningDays` before it lapses
+ */
+export const certificationStatus = (
+  certification: Certification,
+  warningDays = EXPIRY_WARNING_DAYS
+): CertificationStatus => {
+  if (!certification.expiresAt) return 'no expiry';
+  const remaining = certification.expiresAt.toMillis() - Date.now();
+  if (remaining < 0) return 'expired';
+  return remaining <= warningDays * DAY_MS ? 'expiring' : 'valid';
+};
+
+export const CERTIFICATION_STATUS_STYLES: Record<CertificationStatus, string> = {
+  valid: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  expiring: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  expired: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  'no expiry': 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
@@ -0,0 +1,80 @@
+import { Timestamp } from 'firebase/firestore';
+import { Course, CourseDraft, CourseModule, CoursePrerequisite } from '../types';
+
+export const REVIEWED_FIELDS: { key: keyof CourseDraft; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'category', label: 'Category' },
+  { key: 'level', label: 'Level' },
+  { key: 'hours', label: 'Hours' },
+  { key: 'startDate', label: 'Start date' },
+  { key: 'endDate', label: 'End date' },
+  { key: 'prerequisites', label: 'Prerequisites' },
+  { key: 'modules', label: 'Syllabus' },
+];
+
+export interface CourseChange {
+  label: string;
+  published: string;
+  proposed: string;
+}
+
+/**
+ * A course field's value as text, for review diffs and the revision history
+ */
+export const describeCourseField = (key: string, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (key === 'startDate' || key === 'endDate') {
+    const date = value instanceof Timestamp ? value.toDate() : new Date(value as string | Date);
+    return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString();
+  }
+  if (key === 'prerequisites') {
+    return (value as CoursePrerequisite[])
+      .map((p) => (p.minGrade != null ? `${p.courseTitle} (${p.minGrade}+)` : p.courseTitle))
+      .join(', ');
+  }
+  if (key === 'modules') {
+    return (value as CourseModule[])
+      .map((m, i) => `${i + 1}. ${m.title}: ${m.lessons.map((l) => l.title).join(', ')}`)
+      .join('\n');
+  }
+  if (value instanceof Timestamp) return value.toDate().toLocaleString();
+  if (Array.isArray(value)) return value.map((v) => describeCourseField('', v)).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Whether trainees can see the course; courses from before the review queue count too
+ */
+export const isPublished = (course: Course) => course.status !== 'draft';
+
+/**
+ * Whether a course has changes an admin has not approved yet
+ */
+export const hasUnpublishedChanges = (course: Course) => !isPublished(course) || !!course.draft;
+
+/**
+ * The reviewed fields of a draft; nothing else in it is ever published
+ */
+export const draftFields = (draft?: CourseDraft): CourseDraft =>
+  Object.fromEntries(
+    REVIEWED_FIELDS.filter(({ key }) => draft?.[key] !== undefined).map(({ key }) => [key, draft?.[key]])
+  );
+
+/**
+ * The course as it will look once approved
+ */
+export const proposedCourse = (course: Course): Course => ({ ...course, ...draftFields(course.draft) });
+
+/**
+ * What approval would change, field by field. Courses never published are listed in full.
+ */
+export const courseChanges = (course: Course): CourseChange[] => {
+  const proposed = proposedCourse(course);
+  const published = isPublished(course);
+  return REVIEWED_FIELDS.map(({ key, label }) => ({
+    label,
+    published: published ? describeCourseField(key, course[key]) : '',
+    proposed: describeCourseField(key, proposed[key]),
+  })).filter((change) => (published ? change.published !== change.proposed : !!change.proposed));
+};
@@ -0,0 +1,46 @@
+import { auth } from './firebase';
+import { describeCourseField, REVIEWED_FIELDS } from './courseReview';
+import { CourseFieldChange } from '../types';
+
+const FIELD_LABELS: Record<string, string> = {
+  ...Object.fromEntries(REVIEWED_FIELDS.map(({ key, label }) => [key, label])),
+  status: 'Status',
+  capacity: 'Capacity',
+  duration: 'Duration (days)',
+  description: 'Description',
+  instructorId: 'Trainers',
+  instructorName: 'Trainer name',
+  unitIds: 'Restricted to units',
+  students: 'Students',
+  materials: 'Materials',
+  draft: 'Pending trainer changes',
+  publishedAt: 'Published',
+  publishedByName: 'Published by',
+  completionRate: 'Completion rate',
+};
+
+/**
+ * Who is making a course change; spread into every course write so the
+ * recordCourseRevision function can credit the revision
+ */
+export const courseAuthor = (name?: string) => ({
+  updatedBy: auth.currentUser?.uid || '',
+  updatedByName: name || auth.currentUser?.displayName || auth.currentUser?.email || '',
+});
+
+/**
+ * A readable name for a course field in the revision history
+ */
+export const courseFieldLabel = (field: string) => FIELD_LABELS[field] || field;
+
+/**
+ * The fields that differ between two course snapshots, as they would read in the history
+ */
+export const snapshotChanges = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): CourseFieldChange[] =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .sort()
+    .filter((field) => describeCourseField(field, before[field]) !== describeCourseField(field, after[field]))
+    .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
@@ -0,0 +1,15 @@
+import { Course } from '../types';
+
+/**
+ * Free seats in a course, or null when it has no capacity limit
+ */
+export const seatsLeft = (course: Course): number | null =>
+  course.capacity ? Math.max(0, course.capacity - (course.currentParticipants || 0)) : null;
+
+/**
+ * The user's place on the course's waitlist, counting from 1, or null
+ */
+export const waitlistPosition = (course: Course, uid?: string): number | null => {
+  const index = uid ? (course.waitlist || []).indexOf(uid) : -1;
+  return index === -1 ? null : index + 1;
+};
@@ -0,0 +1,64 @@
+import { OrgUnit } from '../types';
+
+export interface UnitTreeRow {
+  unit: OrgUnit;
+  depth: number;
+}
+
+/**
+ * Orders units depth-first under their parents, for indented lists.
+ * Units whose parent is missing are shown at the top level.
+ */
+export const flattenUnitTree = (units: OrgUnit[]): UnitTreeRow[] => {
+  const ids = new Set(units.map((unit) => unit.id));
+  const byParent = new Map<string | null, OrgUnit[]>();
+  units.forEach((unit) => {
+    const parentId = unit.parentId && ids.has(unit.parentId) ? unit.parentId : null;
+    byParent.set(parentId, [...(byParent.get(parentId) || []), unit]);
+  });
+
+  const rows: UnitTreeRow[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (byParent.get(parentId) || [])
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach((unit) => {
+        rows.push({ unit, depth });
+        visit(unit.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return rows;
+};
+
+/**
+ * A unit and every unit below it
+ */
+export const unitAndDescendants = (units: OrgUnit[], unitId: string): string[] => {
+  const result = [unitId];
+  for (let i = 0; i < result.length; i++) {
+    units.filter((unit) => unit.parentId === result[i]).forEach((unit) => result.push(unit.id));
+  }
+  return result;
+};
+
+/**
+ * Whether someone in the given unit falls within any of the scoped units.
+ * An empty scope covers everyone.
+ */
+export const isInUnits = (unitPath: string[] | undefined, unitIds: string[] | undefined) =>
+  !unitIds || unitIds.length === 0 || (unitPath || []).some((id) => unitIds.includes(id));
+
+/**
+ * "Financial Audit / Addis Ababa Office" style label for a unit
+ */
+export const unitLabel = (units: OrgUnit[], unitId?: string | null): string => {
+  if (!unitId) return '';
+  const names: string[] = [];
+  let current = units.find((unit) => unit.id === unitId);
+  while (current && names.length < 20) {
+    names.unshift(current.name);
+    const parentId = current.parentId;
+    current = parentId ? units.find((unit) => unit.id === parentId) : undefined;
+  }
+  return names.join(' / ');
+};
@@ -0,0 +1,71 @@
+import { RoleDefinition } from '../types';
+
+// Mirrors functions/src/permissions.ts; the server copy is authoritative
+export const CAPABILITIES = [
+  { id: 'users.manage', group: 'Users', label: 'Edit, suspend and delete accounts' },
+  { id: 'users.approve', group: 'Users', label: 'Review pending signups and approval rules' },
+  { id: 'users.invite', group: 'Users', label: 'Send and revoke invitations' },
+  { id: 'users.impersonate', group: 'Users', label: 'View the app as another user (read-only)' },
+  { id: 'admins.manage', group: 'Users', label: 'Manage admins (super admins only)' },
+  { id: 'roles.manage', group: 'Users', label: 'Edit roles and their capabilities' },
+  { id: 'org.manage', group: 'Users', label: 'Manage departments, units and their managers' },
+  { id: 'courses.manage', group: 'Courses', label: 'Create, edit and delete any course' },
+  { id: 'courses.publish', group: 'Courses', label: 'Publish courses to trainees' },
+  { id: 'courses.teach', group: 'Courses', label: 'Teach courses and manage their materials' },
+  { id: 'courses.enroll', group: 'Courses', label: 'Enroll in and take courses' },
+  { id: 'sessions.manage', group: 'Courses', label: 'Schedule training sessions' },
+  { id: 'grades.edit', group: 'Grades', label: 'Enter grades for trainees' },
+  { id: 'grades.approve', group: 'Grades', label: 'Review and approve grade reports' },
+  { id: 'activity.view', group: 'Administration', label: 'View the activity log' },
+  { id: 'emails.manage', group: 'Administration', label: 'Edit email templates and resend mail' },
+  { id: 'settings.manage', group: 'Administration', label: 'Change platform settings' },
+  { id: 'data.export', group: 'Administration', label: "Export any user's personal data" },
+  { id: 'records.view', group: 'Administration', label: 'View training records read-only' },
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number]['id'];
+
+export const DEFAULT_ROLES: RoleDefinition[] = [
+  {
+    id: 'admin',
+    name: 'Admin',
+    dashboard: 'admin',
+    capabilities: CAPABILITIES.map((cap) => cap.id).filter((id) => id !== 'admins.manage'),
+    builtIn: true,
+  },
+  {
+    id: 'trainer',
+    name: 'Trainer',
+    dashboard: 'trainer',
+    capabilities: ['courses.teach', 'sessions.manage', 'grades.edit'],
+    builtIn: true,
+  },
+  { id: 'trainee', name: 'Trainee', dashboard: 'trainee', capabilities: ['courses.enroll'], builtIn: true },
+  { id: 'user', name: 'User', dashboard: 'user', capabilities: [], builtIn: true },
+  {
+    id: 'observer',
+    name: 'Observer',
+    description: 'External reviewers with read-only, time-limited access',
+    dashboard: 'observer',
+    capabilities: ['records.view'],
+    readOnly: true,
+    timeBoxed: true,
+    builtIn: true,
+  },
+  { id: 'pending', name: 'Pending', dashboard: 'user', capabilities: [], builtIn: true },
+];
+
+/**
+ * Merges a stored roles document over the built-in definition, if any
+ */
+export const resolveRole = (id: string, stored?: Partial<RoleDefinition>): RoleDefinition => {
+  const builtIn = DEFAULT_ROLES.find((role) => role.id === id);
+  return {
+    name: id,
+    dashboard: 'user',
+    capabilities: [],
+    ...builtIn,
+    ...stored,
+    id,
+  };
+};
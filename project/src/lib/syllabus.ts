@@ -0,0 +1,47 @@
+import { CourseModule, Lesson } from '../types';
+
+// Ids only need to be unique within a course's syllabus
+const newSyllabusId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const emptyLesson = (): Lesson => ({
+  id: newSyllabusId(),
+  title: '',
+  objectives: [],
+  estimatedMinutes: null,
+  materialIds: [],
+  sessionIds: [],
+  assessment: null,
+});
+
+export const emptyModule = (): CourseModule => ({
+  id: newSyllabusId(),
+  title: '',
+  lessons: [emptyLesson()],
+});
+
+/**
+ * Every lesson of a syllabus, in teaching order
+ */
+export const syllabusLessons = (modules: CourseModule[] = []): Lesson[] =>
+  modules.flatMap((module) => module.lessons);
+
+/**
+ * Percent of the syllabus's lessons that are completed; lessons since removed do not count
+ */
+export const syllabusProgress = (modules: CourseModule[] = [], completed: string[] = []): number => {
+  const lessons = syllabusLessons(modules);
+  if (lessons.length === 0) return 0;
+  const done = lessons.filter((lesson) => completed.includes(lesson.id)).length;
+  return Math.round((done / lessons.length) * 100);
+};
+
+/**
+ * Total estimated time of a set of lessons, e.g. "1 h 30 min"
+ */
+export const formatMinutes = (lessons: Lesson[]): string => {
+  const minutes = lessons.reduce((sum, lesson) => sum + (lesson.estimatedMinutes || 0), 0);
+  if (!minutes) return '';
+  const hours = Math.floor(minutes / 60);
+  if (!hours) return `${minutes} min`;
+  return minutes % 60 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+};
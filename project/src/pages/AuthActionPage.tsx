@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { applyActionCode, confirmPasswordReset, verifyPasswordResetCode } from 'firebase/auth';
+import { auth } from '../lib/firebase';
+import { verificationService } from '../services/verificationService';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+
+interface AuthActionPageProps {
+  mode: string; // "resetPassword" or "verifyEmail", from the email link
+  oobCode: string;
+  onDone: () => void;
+}
+
+type Status = 'checking' | 'ready' | 'done' | 'failed';
+
+// Lands links from password reset and verification emails, once the Firebase
+// project's email action URL points at the app
+export const AuthActionPage: React.FC<AuthActionPageProps> = ({ mode, oobCode, onDone }) => {
+  const [status, setStatus] = useState<Status>('checking');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Action codes work once; do not spend it twice
+    if (started.current) return;
+    started.current = true;
+
+    if (mode === 'resetPassword') {
+      verifyPasswordResetCode(auth, oobCode)
+        .then((address) => {
+          setEmail(address);
+          setStatus('ready');
+        })
+        .catch(() => {
+          setError('This reset link is invalid or has expired. Please ask for a new one.');
+          setStatus('failed');
+        });
+    } else if (mode === 'verifyEmail') {
+      applyActionCode(auth, oobCode)
+        .then(async () => {
+          // Signed in on this browser: tell the pending queue straight away
+          if (auth.currentUser) {
+            await auth.currentUser.reload();
+            await verificationService.syncEmailVerification().catch((err) =>
+              console.error('Verification could not be recorded:', err)
+            );
+          }
+          setStatus('done');
+        })
+        .catch(() => {
+          setError('This verification link is invalid or has expired. Sign in to ask for a new one.');
+          setStatus('failed');
+        });
+    } else {
+      setError('This link is not supported.');
+      setStatus('failed');
+    }
+  }, [mode, oobCode]);
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters long');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await confirmPasswordReset(auth, oobCode, password);
+      setStatus('done');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const title =
+    mode === 'verifyEmail'
+      ? 'Email Verification'
+      : status === 'done'
+        ? 'Password Changed'
+        : 'Choose a New Password';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-blue-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <motion.div
+        className="w-full max-w-md bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 p-8 space-y-6"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <h2 className="text-3xl font-bold text-center text-gray-900 dark:text-white">{title}</h2>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {status === 'checking' && (
+          <p className="text-center text-gray-600 dark:text-gray-400">Checking your link...</p>
+        )}
+
+        {status === 'ready' && (
+          <form onSubmit={handleReset} className="space-y-6">
+            <p className="text-gray-600 dark:text-gray-400">
+              Choose a new password for <strong>{email}</strong>.
+            </p>
+            <Input
+              label="New Password"
+              type="password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <Input
+              label="Confirm Password"
+              type="password"
+              required
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+            <Button type="submit" className="w-full" size="lg" loading={saving}>
+              Change Password
+            </Button>
+          </form>
+        )}
+
+        {status === 'done' && (
+          <p className="text-center text-gray-600 dark:text-gray-400">
+            {mode === 'verifyEmail'
+              ? 'Your email address is verified. An admin can now review your account.'
+              : 'Your password has been changed. You can sign in with it now.'}
+          </p>
+        )}
+
+        {status !== 'checking' && status !== 'ready' && (
+          <Button className="w-full" size="lg" onClick={onDone}>
+            Continue
+          </Button>
+        )}
+      </motion.div>
+    </div>
+  );
+};
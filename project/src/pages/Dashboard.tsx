@@ -2,11 +2,16 @@ import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Navbar } from '../components/layout/Navbar';
 import { Sidebar } from '../components/layout/Sidebar';
+import { ImpersonationBanner } from '../components/layout/ImpersonationBanner';
+import { IdleTimeout } from '../components/layout/IdleTimeout';
+import { VerifyEmailNotice } from '../components/auth/VerifyEmailNotice';
 import { AdminDashboard } from './dashboards/AdminDashbored/AdminDashboard';
 import { TraineeDashboard } from './dashboards/TraineeDashbord/TraineeDashboard';
 import { TrainerDashboard } from './dashboards/TrainerDashbord/TrainerDashbord';
 import { UserDashboard } from './dashboards/AllUserDashbord/UserDashboard';
+import { ObserverDashboard } from './dashboards/ObserverDashboard/ObserverDashboard';
 import { PendingUsers } from './dashboards/AdminDashbored/PendingUsers';
+import { SuspendedPage } from './SuspendedPage';
 
 import { useAuth } from '../contexts/AuthContext';
 import { doc, onSnapshot } from 'firebase/firestore';
@@ -14,7 +19,7 @@ import { db } from '../lib/firebase';
 import { User } from '../types';
 
 export const Dashboard: React.FC = () => {
-  const { currentUser: authUser } = useAuth();
+  const { currentUser: authUser, role, can } = useAuth();
   const [currentUser, setCurrentUser] = useState<User | null>(authUser);
   const [activeSection, setActiveSection] = useState('dashboard');
 
@@ -30,6 +35,11 @@ export const Dashboard: React.FC = () => {
     return () => unsubscribe();
   }, [authUser?.uid]);
 
+  // Starting or leaving a "view as" session lands on the home page
+  useEffect(() => {
+    setActiveSection('dashboard');
+  }, [authUser?.uid]);
+
   const getDashboardComponent = () => {
     if (!currentUser) return null;
 
@@ -37,6 +47,7 @@ export const Dashboard: React.FC = () => {
       return (
         <div className="space-y-4">
           <UserDashboard activeSection={activeSection} />
+          <VerifyEmailNotice />
           <div className="p-4 bg-yellow-100 text-yellow-800 rounded-lg border border-yellow-300">
             Your account is pending admin approval.
           </div>
@@ -44,11 +55,12 @@ export const Dashboard: React.FC = () => {
       );
     }
 
-    switch (currentUser.role) {
+    // Custom roles reuse one of the built-in dashboards
+    switch (role.dashboard) {
       case 'admin':
         switch (activeSection) {
           case 'pending-users':
-            return <PendingUsers />;
+            return can('users.approve') ? <PendingUsers /> : <AdminDashboard activeSection="pending" />;
           default:
             return <AdminDashboard activeSection={activeSection} />;
         }
@@ -59,13 +71,29 @@ export const Dashboard: React.FC = () => {
       case 'trainee':
         return <TraineeDashboard activeSection={activeSection} />;
 
+      case 'observer':
+        return <ObserverDashboard activeSection={activeSection} />;
+
       default:
         return <UserDashboard activeSection={activeSection} />;
     }
   };
 
+  // Suspended accounts see nothing but the explanation
+  if (currentUser?.accountStatus === 'suspended') {
+    return (
+      <>
+        <ImpersonationBanner />
+        <IdleTimeout />
+        <SuspendedPage user={currentUser} />
+      </>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <ImpersonationBanner />
+      <IdleTimeout />
       <Navbar />
       <div className="flex">
         <Sidebar 
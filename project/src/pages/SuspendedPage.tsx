@@ -0,0 +1,46 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ShieldOff, LogOut } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { Button } from '../components/ui/Button';
+import { User } from '../types';
+
+interface SuspendedPageProps {
+  user: User;
+}
+
+export const SuspendedPage: React.FC<SuspendedPageProps> = ({ user }) => {
+  const { logout } = useAuth();
+  const until = user.suspension?.until?.toDate();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gray-50 dark:bg-gray-900">
+      <motion.div
+        className="w-full max-w-md bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 p-8 text-center"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <div className="w-16 h-16 bg-red-100 dark:bg-red-900/40 rounded-full flex items-center justify-center mx-auto mb-4">
+          <ShieldOff className="w-8 h-8 text-red-600 dark:text-red-400" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+          Your account is suspended
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400 mb-4">
+          {until
+            ? `Access will be restored on ${until.toLocaleDateString()}.`
+            : 'Access will be restored when an administrator reactivates your account.'}
+        </p>
+        {user.suspension?.reason && (
+          <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg mb-6 text-left">
+            <span className="font-medium">Reason:</span> {user.suspension.reason}
+          </div>
+        )}
+        <Button variant="outline" className="w-full" onClick={() => logout()}>
+          <LogOut className="w-4 h-4 mr-2" /> Sign Out
+        </Button>
+      </motion.div>
+    </div>
+  );
+};
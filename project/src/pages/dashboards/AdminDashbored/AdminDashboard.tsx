@@ -6,12 +6,40 @@ import  Session from "./Session";
 import { ActivityLogs } from "./ActivityLogs";
 import GradeReport from "./GradeReport";
 import { PendingUsers } from "./PendingUsers";
+import { EmailTemplates } from "./EmailTemplates";
+import { Settings } from "./Settings";
+import { Roles } from "./Roles";
+import { OrgUnits } from "./OrgUnits";
+import { CertificationReport } from "./CertificationReport";
+import { DormantAccounts } from "./DormantAccounts";
+import { useAuth } from "../../../contexts/AuthContext";
+import { Capability } from "../../../lib/permissions";
 
 interface AdminDashboardProps {
-  activeSection: "users" | "courses" | "sessions" | "activities" | "grades" | "pending";
+  activeSection: "users" | "courses" | "sessions" | "activities" | "grades" | "pending" | "email-templates" | "settings" | "roles" | "org-units" | "certifications" | "dormant-accounts";
 }
 
+// Sections hidden from the sidebar are also refused here
+const SECTION_CAPABILITIES: Record<AdminDashboardProps["activeSection"], Capability> = {
+  users: "users.manage",
+  courses: "courses.manage",
+  sessions: "sessions.manage",
+  activities: "activity.view",
+  grades: "grades.approve",
+  pending: "users.approve",
+  "email-templates": "emails.manage",
+  settings: "settings.manage",
+  roles: "roles.manage",
+  "org-units": "org.manage",
+  certifications: "users.manage",
+  "dormant-accounts": "users.manage",
+};
+
 export const AdminDashboard: React.FC<AdminDashboardProps> = ({ activeSection }) => {
+  const { can } = useAuth();
+  const capability = SECTION_CAPABILITIES[activeSection];
+  if (capability && !can(capability)) return <DashboardOverview />;
+
   switch (activeSection) {
     case "users":
       return <UserManagement />;
@@ -25,6 +53,18 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ activeSection })
       return <GradeReport />;
     case "pending":
       return <PendingUsers />;
+    case "email-templates":
+      return <EmailTemplates />;
+    case "settings":
+      return <Settings />;
+    case "roles":
+      return <Roles />;
+    case "org-units":
+      return <OrgUnits />;
+    case "certifications":
+      return <CertificationReport />;
+    case "dormant-accounts":
+      return <DormantAccounts />;
     default:
       return <DashboardOverview />;
   }
@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from "react";
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc,
+} from "firebase/firestore";
+import { Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Input } from "../../../components/ui/Input";
+import { db } from "../../../lib/firebase";
+import { ApprovalRule, SignupSource } from "../../../types";
+
+const ROLE_OPTIONS = ["trainee", "trainer"];
+const SOURCE_OPTIONS: { value: SignupSource; label: string }[] = [
+  { value: "email", label: "Email signup" },
+  { value: "google", label: "Google signup" },
+  // Live invitations are redeemed without the rules
+  { value: "invitation", label: "Invitation link (expired or revoked)" },
+];
+
+const EMPTY_FORM = {
+  name: "",
+  decision: "approve" as ApprovalRule["decision"],
+  emailDomains: "",
+  roles: [] as string[],
+  sources: [] as SignupSource[],
+  priority: 10,
+  message: "",
+};
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+
+export const ApprovalRules: React.FC = () => {
+  const [rules, setRules] = useState<ApprovalRule[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  // 🔹 Load rules in the order they are evaluated
+  useEffect(() => {
+    const q = query(collection(db, "approvalRules"), orderBy("priority"));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setRules(snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as ApprovalRule[]);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  const handleCreate = async () => {
+    const emailDomains = form.emailDomains
+      .split(",")
+      .map((domain) => domain.trim().toLowerCase().replace(/^@/, ""))
+      .filter(Boolean);
+
+    if (!form.name.trim()) {
+      alert("Please give the rule a name.");
+      return;
+    }
+    if (!emailDomains.length && !form.roles.length && !form.sources.length) {
+      alert("Please add at least one condition.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await addDoc(collection(db, "approvalRules"), {
+        name: form.name.trim(),
+        enabled: true,
+        priority: form.priority,
+        decision: form.decision,
+        message: form.message,
+        conditions: { emailDomains, roles: form.roles, sources: form.sources },
+        createdAt: serverTimestamp(),
+      });
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+    } catch (error) {
+      console.error("Error creating rule:", error);
+      alert(`Error: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: ApprovalRule) => {
+    try {
+      await updateDoc(doc(db, "approvalRules", rule.id), { enabled: !rule.enabled });
+    } catch (error) {
+      console.error("Error updating rule:", error);
+      alert(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDelete = async (rule: ApprovalRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"?`)) return;
+
+    try {
+      await deleteDoc(doc(db, "approvalRules", rule.id));
+    } catch (error) {
+      console.error("Error deleting rule:", error);
+      alert(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const describe = (rule: ApprovalRule) => {
+    const { emailDomains = [], roles = [], sources = [] } = rule.conditions || {};
+    return [
+      emailDomains.length && `domain ${emailDomains.map((d) => `@${d}`).join(" or ")}`,
+      roles.length && `role ${roles.join(" or ")}`,
+      sources.length && `source ${sources.join(" or ")}`,
+    ]
+      .filter(Boolean)
+      .join(", ");
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Approval Rules</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            New signups are checked against enabled rules in priority order; the first match
+            approves or rejects them automatically.
+          </p>
+        </div>
+        <Button size="sm" onClick={() => setShowForm(!showForm)}>
+          <Plus className="w-4 h-4 mr-1" /> Add Rule
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="space-y-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+              <Input
+                label="Email domains (comma-separated)"
+                placeholder="example.com"
+                value={form.emailDomains}
+                onChange={(e) => setForm({ ...form, emailDomains: e.target.value })}
+              />
+            </div>
+            <div className="flex flex-wrap gap-6 text-sm text-gray-700 dark:text-gray-300">
+              <div className="space-y-1">
+                <p className="font-medium">Requested role</p>
+                {ROLE_OPTIONS.map((role) => (
+                  <label key={role} className="flex items-center gap-2 capitalize">
+                    <input
+                      type="checkbox"
+                      checked={form.roles.includes(role)}
+                      onChange={() => setForm({ ...form, roles: toggle(form.roles, role) })}
+                    />
+                    {role}
+                  </label>
+                ))}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Approve rules only grant trainer when it is ticked here
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="font-medium">Signup source</p>
+                {SOURCE_OPTIONS.map(({ value, label }) => (
+                  <label key={value} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.sources.includes(value)}
+                      onChange={() => setForm({ ...form, sources: toggle(form.sources, value) })}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <p className="font-medium">Decision</p>
+                <select
+                  value={form.decision}
+                  onChange={(e) =>
+                    setForm({ ...form, decision: e.target.value as ApprovalRule["decision"] })
+                  }
+                  className="px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="approve">Approve</option>
+                  <option value="reject">Reject</option>
+                </select>
+                <label className="flex items-center gap-2">
+                  Priority
+                  <input
+                    type="number"
+                    value={form.priority}
+                    onChange={(e) => setForm({ ...form, priority: Number(e.target.value) })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+                  />
+                </label>
+              </div>
+            </div>
+            <Input
+              label="Message included in the email (optional)"
+              value={form.message}
+              onChange={(e) => setForm({ ...form, message: e.target.value })}
+            />
+            <div className="flex gap-2">
+              <Button onClick={handleCreate} loading={saving}>
+                Save Rule
+              </Button>
+              <Button variant="outline" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {rules.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-6">
+            No rules yet; every signup waits for manual approval
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+              <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                <tr>
+                  <th className="px-4 py-2">Priority</th>
+                  <th className="px-4 py-2">Name</th>
+                  <th className="px-4 py-2">When</th>
+                  <th className="px-4 py-2">Decision</th>
+                  <th className="px-4 py-2">Enabled</th>
+                  <th className="px-4 py-2">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map((rule) => (
+                  <tr key={rule.id} className="border-b dark:border-gray-600">
+                    <td className="px-4 py-2">{rule.priority}</td>
+                    <td className="px-4 py-2">{rule.name}</td>
+                    <td className="px-4 py-2">{describe(rule)}</td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${
+                          rule.decision === "approve"
+                            ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
+                            : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300"
+                        }`}
+                      >
+                        {rule.decision}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2">
+                      <input type="checkbox" checked={rule.enabled} onChange={() => handleToggle(rule)} />
+                    </td>
+                    <td className="px-4 py-2">
+                      <Trash2
+                        className="w-5 h-5 text-red-500 cursor-pointer hover:text-red-700"
+                        onClick={() => handleDelete(rule)}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from "react";
+import { collection, limit, onSnapshot, orderBy, query } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { Undo2 } from "lucide-react";
+import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { db, functions } from "../../../lib/firebase";
+import { ApprovalDecisionRecord } from "../../../types";
+
+export const AutoDecisions: React.FC = () => {
+  const [decisions, setDecisions] = useState<ApprovalDecisionRecord[]>([]);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  // 🔹 Most recent automated decisions
+  useEffect(() => {
+    const q = query(collection(db, "approvalDecisions"), orderBy("decidedAt", "desc"), limit(50));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setDecisions(
+        snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as ApprovalDecisionRecord[]
+      );
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  const handleRevert = async (decision: ApprovalDecisionRecord) => {
+    if (
+      !window.confirm(
+        `Revert the automatic ${decision.decision} of ${decision.displayName || decision.email}? ` +
+          "They will return to the pending list for manual review."
+      )
+    ) {
+      return;
+    }
+
+    setRevertingId(decision.id);
+    try {
+      const revertApprovalDecision = httpsCallable(functions, "revertApprovalDecision");
+      await revertApprovalDecision({ decisionId: decision.id });
+    } catch (error) {
+      console.error("Error reverting decision:", error);
+      alert(`Error: ${(error as Error).message}`);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  if (decisions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Automated Decisions</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Signups handled by approval rules. Reverting puts the user back in the pending list.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+            <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+              <tr>
+                <th className="px-4 py-2">User</th>
+                <th className="px-4 py-2">Role</th>
+                <th className="px-4 py-2">Decision</th>
+                <th className="px-4 py-2">Rule</th>
+                <th className="px-4 py-2">When</th>
+                <th className="px-4 py-2">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {decisions.map((decision) => (
+                <tr key={decision.id} className="border-b dark:border-gray-600">
+                  <td className="px-4 py-2">
+                    <div className="text-gray-900 dark:text-white">{decision.displayName}</div>
+                    <div className="text-xs">{decision.email}</div>
+                  </td>
+                  <td className="px-4 py-2 capitalize">{decision.role}</td>
+                  <td className="px-4 py-2">
+                    <span
+                      className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        decision.status === "reverted"
+                          ? "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
+                          : decision.decision === "approve"
+                          ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
+                          : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300"
+                      }`}
+                    >
+                      {decision.decision === "approve" ? "Approved" : "Rejected"}
+                      {decision.status === "reverted" && " (reverted)"}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">{decision.ruleName}</td>
+                  <td className="px-4 py-2">{decision.decidedAt?.toDate().toLocaleString() || "-"}</td>
+                  <td className="px-4 py-2">
+                    {decision.status === "applied" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        loading={revertingId === decision.id}
+                        onClick={() => handleRevert(decision)}
+                      >
+                        <Undo2 className="w-4 h-4 mr-1" /> Revert
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,288 @@
+import React, { useState } from "react";
+import { Upload, Download, CheckCircle, AlertTriangle } from "lucide-react";
+import { httpsCallable } from "firebase/functions";
+import { Card, CardContent } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { functions } from "../../../lib/firebase";
+
+interface ImportRow {
+  row: number;
+  displayName: string;
+  email: string;
+  role: string;
+  department: string;
+}
+
+interface ImportRowResult {
+  row: number;
+  email: string;
+  status: "valid" | "invalid" | "created" | "failed";
+  message?: string;
+}
+
+interface ImportResponse {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  created?: number;
+  results: ImportRowResult[];
+}
+
+interface BulkUserImportProps {
+  onClose: () => void;
+}
+
+// Accept a few common spellings of each column header
+const HEADER_ALIASES: Record<keyof Omit<ImportRow, "row">, string[]> = {
+  displayName: ["name", "full name", "fullname", "displayname", "display name"],
+  email: ["email", "email address", "e-mail"],
+  role: ["role"],
+  department: ["department", "dept", "division"],
+};
+
+// Splits CSV text into rows of cells: quoted cells may hold the separator,
+// line breaks and doubled quotes. Spreadsheets saved with a semicolon
+// separator are read too.
+const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const separator =
+    (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows;
+};
+
+const readRows = async (file: File): Promise<ImportRow[]> => {
+  const [header = [], ...records] = parseCsv(await file.text());
+  const column = (field: keyof typeof HEADER_ALIASES) =>
+    header.findIndex((name) => HEADER_ALIASES[field].includes(name.trim().toLowerCase()));
+  const columns = {
+    displayName: column("displayName"),
+    email: column("email"),
+    role: column("role"),
+    department: column("department"),
+  };
+
+  return records
+    .map((record, index) => {
+      const lookup = (field: keyof typeof HEADER_ALIASES) =>
+        columns[field] < 0 ? "" : (record[columns[field]] || "").trim();
+
+      return {
+        row: index + 2, // row 1 is the header
+        displayName: lookup("displayName"),
+        email: lookup("email"),
+        role: lookup("role"),
+        department: lookup("department"),
+      };
+    })
+    .filter((row) => row.displayName || row.email || row.role || row.department);
+};
+
+const csvCell = (value: string | number | undefined) =>
+  `"${String(value ?? "").replace(/"/g, '""')}"`;
+
+export const BulkUserImport: React.FC<BulkUserImportProps> = ({ onClose }) => {
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [report, setReport] = useState<ImportResponse | null>(null);
+  const [sendSetupLinks, setSendSetupLinks] = useState(true);
+  const [busyMessage, setBusyMessage] = useState<string | null>(null);
+
+  const runImport = async (importRows: ImportRow[], dryRun: boolean) => {
+    setBusyMessage(dryRun ? "Checking file..." : "Creating accounts...");
+    try {
+      const importUsers = httpsCallable<
+        { rows: ImportRow[]; dryRun: boolean; sendSetupLinks: boolean; fileName: string },
+        ImportResponse
+      >(functions, "importUsers");
+      const { data } = await importUsers({ rows: importRows, dryRun, sendSetupLinks, fileName });
+      setReport(data);
+    } catch (err) {
+      console.error("Error importing users:", err);
+      alert(`Error: ${(err as Error).message}`);
+    } finally {
+      setBusyMessage(null);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setReport(null);
+    try {
+      const parsed = await readRows(file);
+      setRows(parsed);
+      if (parsed.length === 0) {
+        alert("The file has no rows.");
+        return;
+      }
+      await runImport(parsed, true);
+    } catch (err) {
+      console.error("Error reading import file:", err);
+      alert("Could not read the file. Use a CSV with name, email, role and department columns.");
+    }
+  };
+
+  const downloadReport = () => {
+    if (!report) return;
+    const byRow = new Map(rows.map((r) => [r.row, r]));
+    const lines = [
+      ["Row", "Name", "Email", "Role", "Department", "Status", "Message"].map(csvCell).join(","),
+      ...report.results.map((r) => {
+        const source = byRow.get(r.row);
+        return [r.row, source?.displayName, r.email, source?.role, source?.department, r.status, r.message]
+          .map(csvCell)
+          .join(",");
+      }),
+    ];
+
+    const blob = new Blob([lines.join("\n")], { type: "text/csv" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `import-report-${fileName.replace(/\.[^.]+$/, "") || "users"}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  const statusClass: Record<ImportRowResult["status"], string> = {
+    valid: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+    created: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+    invalid: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+    failed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Import Users</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Upload a CSV file with <strong>name</strong>, <strong>email</strong>,{" "}
+            <strong>role</strong> (trainee, trainer or admin) and <strong>department</strong> columns.
+            Save spreadsheets as CSV first. The file is checked first; nothing is created until
+            you confirm.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="inline-flex items-center px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium cursor-pointer">
+            <Upload className="w-4 h-4 mr-2" />
+            {fileName || "Choose file"}
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={handleFile}
+              disabled={!!busyMessage}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={sendSetupLinks}
+              onChange={(e) => setSendSetupLinks(e.target.checked)}
+            />
+            Email password setup links
+          </label>
+        </div>
+
+        {busyMessage && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{busyMessage}</p>
+        )}
+
+        {report && (
+          <>
+            <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              {report.dryRun && report.valid < report.total ? (
+                <AlertTriangle className="w-4 h-4 text-yellow-500" />
+              ) : (
+                <CheckCircle className="w-4 h-4 text-green-600" />
+              )}
+              {report.dryRun
+                ? `${report.valid} of ${report.total} rows are ready to import.`
+                : `${report.created ?? 0} of ${report.total} accounts created.`}
+            </div>
+
+            <div className="overflow-x-auto max-h-80">
+              <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  <tr>
+                    <th className="px-4 py-2">Row</th>
+                    <th className="px-4 py-2">Email</th>
+                    <th className="px-4 py-2">Status</th>
+                    <th className="px-4 py-2">Message</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.results.map((r) => (
+                    <tr key={r.row} className="border-b dark:border-gray-600">
+                      <td className="px-4 py-2">{r.row}</td>
+                      <td className="px-4 py-2">{r.email || "-"}</td>
+                      <td className="px-4 py-2">
+                        <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${statusClass[r.status]}`}>
+                          {r.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2">{r.message || ""}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-2">
+          {report?.dryRun && report.valid > 0 && (
+            <Button onClick={() => runImport(rows, false)} loading={!!busyMessage}>
+              Import {report.valid} {report.valid === 1 ? "user" : "users"}
+            </Button>
+          )}
+          {report && (
+            <Button variant="outline" onClick={downloadReport}>
+              <Download className="w-4 h-4 mr-2" /> Download report
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
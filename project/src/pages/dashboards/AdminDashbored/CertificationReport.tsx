@@ -0,0 +1,224 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { collection, onSnapshot } from "firebase/firestore";
+import { Download } from "lucide-react";
+import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Input } from "../../../components/ui/Input";
+import { UnitSelect } from "../../../components/org/UnitSelect";
+import { db } from "../../../lib/firebase";
+import {
+  CERTIFICATION_STATUS_STYLES,
+  CertificationStatus,
+  EXPIRY_WARNING_DAYS,
+  certificationStatus,
+} from "../../../lib/certifications";
+import { isInUnits } from "../../../lib/orgUnits";
+import { useOrgUnits } from "../../../hooks/useOrgUnits";
+import { Certification, User } from "../../../types";
+
+type StatusFilter = "attention" | CertificationStatus | "all";
+
+interface CertificationRow {
+  user: User;
+  certification: Certification;
+  status: CertificationStatus;
+}
+
+const csvCell = (value: string | number | undefined) =>
+  `"${String(value ?? "").replace(/"/g, '""')}"`;
+
+// Certifications held across the organisation, soonest expiry first
+export const CertificationReport: React.FC = () => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("attention");
+  const [typeFilter, setTypeFilter] = useState("");
+  const [unitFilter, setUnitFilter] = useState("");
+  const [warningDays, setWarningDays] = useState(EXPIRY_WARNING_DAYS);
+  const { units } = useOrgUnits();
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      collection(db, "users"),
+      (snapshot) => setUsers(snapshot.docs.map((d) => ({ uid: d.id, ...d.data() }) as User)),
+      (error) => console.error("Error fetching users:", error)
+    );
+    return () => unsubscribe();
+  }, []);
+
+  const rows = useMemo<CertificationRow[]>(
+    () =>
+      users
+        .flatMap((user) =>
+          (user.certifications || []).map((certification) => ({
+            user,
+            certification,
+            status: certificationStatus(certification, warningDays),
+          }))
+        )
+        .sort(
+          (a, b) =>
+            (a.certification.expiresAt?.toMillis() ?? Infinity) -
+            (b.certification.expiresAt?.toMillis() ?? Infinity)
+        ),
+    [users, warningDays]
+  );
+
+  const types = Array.from(new Set(rows.map((row) => row.certification.type))).sort();
+
+  const visibleRows = rows.filter(
+    (row) =>
+      (statusFilter === "all" ||
+        (statusFilter === "attention"
+          ? row.status === "expired" || row.status === "expiring"
+          : row.status === statusFilter)) &&
+      (!typeFilter || row.certification.type === typeFilter) &&
+      (!unitFilter || isInUnits(row.user.unitPath, [unitFilter]))
+  );
+
+  const downloadReport = () => {
+    const lines = [
+      ["Name", "Email", "Employee ID", "Job Grade", "Department", "Certification", "Number", "Expires", "Status"]
+        .map(csvCell)
+        .join(","),
+      ...visibleRows.map(({ user, certification, status }) =>
+        [
+          user.displayName,
+          user.email,
+          user.employeeId,
+          user.jobGrade,
+          user.department,
+          certification.type,
+          certification.number,
+          certification.expiresAt?.toDate().toISOString().slice(0, 10),
+          status,
+        ]
+          .map(csvCell)
+          .join(",")
+      ),
+    ];
+    const blob = new Blob([lines.join("\n")], { type: "text/csv" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `certifications-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const selectClass =
+    "px-3 py-2 border border-gray-300 rounded-lg shadow-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+  return (
+    <div className="space-y-6 p-4">
+      <header>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Certifications</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Professional certifications recorded on user profiles, and when they expire
+        </p>
+      </header>
+
+      <Card>
+        <CardHeader className="flex flex-wrap items-end gap-3">
+          <label className="text-sm text-gray-700 dark:text-gray-300">
+            <span className="block mb-1">Status</span>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+              className={selectClass}
+            >
+              <option value="attention">Expired or expiring</option>
+              <option value="expired">Expired</option>
+              <option value="expiring">Expiring</option>
+              <option value="valid">Valid</option>
+              <option value="no expiry">No expiry</option>
+              <option value="all">All</option>
+            </select>
+          </label>
+          <label className="text-sm text-gray-700 dark:text-gray-300">
+            <span className="block mb-1">Certification</span>
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value)}
+              className={selectClass}
+            >
+              <option value="">All</option>
+              {types.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </label>
+          {units.length > 0 && (
+            <UnitSelect
+              units={units}
+              value={unitFilter}
+              onChange={setUnitFilter}
+              emptyLabel="All units"
+            />
+          )}
+          <div className="w-40">
+            <Input
+              label="Expiring within (days)"
+              type="number"
+              min={1}
+              value={warningDays}
+              onChange={(e) => setWarningDays(Math.max(1, Number(e.target.value) || 1))}
+            />
+          </div>
+          <Button variant="outline" onClick={downloadReport} disabled={visibleRows.length === 0}>
+            <Download className="w-4 h-4 mr-2" /> Download CSV
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {visibleRows.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No certifications match these filters.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  <tr>
+                    <th className="px-4 py-2">Name</th>
+                    <th className="px-4 py-2">Employee ID</th>
+                    <th className="px-4 py-2">Department</th>
+                    <th className="px-4 py-2">Certification</th>
+                    <th className="px-4 py-2">Number</th>
+                    <th className="px-4 py-2">Expires</th>
+                    <th className="px-4 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map(({ user, certification, status }, index) => (
+                    <tr key={`${user.uid}_${index}`} className="border-b dark:border-gray-600">
+                      <td className="px-4 py-2">
+                        <div className="font-medium text-gray-900 dark:text-white">
+                          {user.displayName || "-"}
+                        </div>
+                        <div className="text-xs">{user.email}</div>
+                      </td>
+                      <td className="px-4 py-2">{user.employeeId || "-"}</td>
+                      <td className="px-4 py-2">{user.department || "-"}</td>
+                      <td className="px-4 py-2">{certification.type}</td>
+                      <td className="px-4 py-2">{certification.number || "-"}</td>
+                      <td className="px-4 py-2">
+                        {certification.expiresAt?.toDate().toLocaleDateString() || "-"}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span
+                          className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${CERTIFICATION_STATUS_STYLES[status]}`}
+                        >
+                          {status}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
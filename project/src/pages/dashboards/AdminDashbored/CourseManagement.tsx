@@ -2,16 +2,25 @@ import React, { useEffect, useMemo, useState } from "react";
 import { Card, CardContent } from "../../../components/ui/Card";
 import { Button } from "../../../components/ui/Button";
 import { Input } from "../../../components/ui/Input";
-import { Plus, Edit2, Trash2 } from "lucide-react";
+import { Plus, Edit2, Trash2, UserPlus, ClipboardCheck, History } from "lucide-react";
+import { CourseHistory } from "../../../components/courses/CourseHistory";
+import { PrerequisiteEditor } from "../../../components/courses/PrerequisiteEditor";
 import { Course, ActivityLog, Session } from "../../../types";
+import { useAuth } from "../../../contexts/AuthContext";
 import { useFirestoreQuery } from "../../../hooks/useFirestoreQuery";
+import { useOrgUnits } from "../../../hooks/useOrgUnits";
+import { flattenUnitTree } from "../../../lib/orgUnits";
+import { courseChanges, draftFields, isPublished } from "../../../lib/courseReview";
+import { courseAuthor } from "../../../lib/courseRevisions";
 import { db } from "../../../lib/firebase";
+import { enrollmentService, EnrollResult } from "../../../services/enrollmentService";
 import DatePicker from "react-datepicker";
 import "react-datepicker/dist/react-datepicker.css";
 import {
   collection,
   addDoc,
   deleteDoc,
+  deleteField,
   doc,
   updateDoc,
   serverTimestamp,
@@ -25,6 +34,11 @@ import {
 
 const normalize = (s?: string) => (s || "").toString().trim().toLowerCase();
 
+// Seats and the waitlist belong to the enrollment functions
+const SEAT_FIELDS = ["currentParticipants", "waitlist"];
+const withoutSeats = (course: Course) =>
+  Object.fromEntries(Object.entries(course).filter(([key]) => !SEAT_FIELDS.includes(key)));
+
 const defaultCourseData: Omit<Course, "id" | "createdAt" | "updatedAt"> = {
   title: "",
   instructorName: "",
@@ -38,6 +52,8 @@ const defaultCourseData: Omit<Course, "id" | "createdAt" | "updatedAt"> = {
   materials: [],
   status: "draft",
   students: [],
+  capacity: null,
+  prerequisites: [],
 };
 
 interface ModalProps {
@@ -64,11 +80,18 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children }) => {
   );
 };
 
-export const CourseManagement: React.FC = () => {
+interface CourseManagementProps {
+  readOnly?: boolean; // observers browse courses without editing
+}
+
+export const CourseManagement: React.FC<CourseManagementProps> = ({ readOnly = false }) => {
   const { data: coursesFromDB, loading: coursesLoading } = useFirestoreQuery<Course>(
     "courses",
     [orderBy("createdAt", "desc"), limit(50)]
   );
+  const { units } = useOrgUnits();
+  const { currentUser, can } = useAuth();
+  const canPublish = can("courses.publish");
 
   const [courses, setCourses] = useState<Course[]>([]);
   const [sessions, setSessions] = useState<Session[]>([]);
@@ -80,6 +103,15 @@ export const CourseManagement: React.FC = () => {
     defaultCourseData
   );
   const [newMaterial, setNewMaterial] = useState("");
+  const [enrollingCourse, setEnrollingCourse] = useState<Course | null>(null);
+  const [trainees, setTrainees] = useState<{ uid: string; name: string }[]>([]);
+  const [selectedTraineeId, setSelectedTraineeId] = useState("");
+  const [enrolling, setEnrolling] = useState(false);
+  const [reviewQueue, setReviewQueue] = useState<Course[]>([]);
+  const [reviewingCourse, setReviewingCourse] = useState<Course | null>(null);
+  const [reviewComments, setReviewComments] = useState("");
+  const [reviewing, setReviewing] = useState(false);
+  const [historyCourse, setHistoryCourse] = useState<Course | null>(null);
 
   /* -------------------------
      Sessions (real-time)
@@ -107,6 +139,36 @@ export const CourseManagement: React.FC = () => {
     return () => unsub();
   }, []);
 
+  /* -------------------------
+     Trainees admins can enroll
+  ------------------------- */
+  useEffect(() => {
+    if (readOnly) return;
+    const q = query(collection(db, "users"), where("role", "==", "trainee"));
+    const unsub = onSnapshot(q, (snap) => {
+      setTrainees(
+        snap.docs
+          .map((d) => ({ uid: d.id, name: d.data().displayName || d.data().email || d.id }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    });
+
+    return () => unsub();
+  }, [readOnly]);
+
+  /* -------------------------
+     Courses waiting for publication
+  ------------------------- */
+  useEffect(() => {
+    if (readOnly) return;
+    const q = query(collection(db, "courses"), where("review.status", "==", "pending"));
+    const unsub = onSnapshot(q, (snap) => {
+      setReviewQueue(snap.docs.map((d) => ({ id: d.id, ...d.data() }) as Course));
+    });
+
+    return () => unsub();
+  }, [readOnly]);
+
   /* -------------------------
      Normalize courses
   ------------------------- */
@@ -223,8 +285,11 @@ export const CourseManagement: React.FC = () => {
         ...newCourse,
         instructorId,
         status,
+        currentParticipants: 0,
+        waitlist: [],
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp(),
+        ...courseAuthor(),
       };
 
       const courseRef = await addDoc(collection(db, "courses"), coursePayload);
@@ -265,13 +330,17 @@ export const CourseManagement: React.FC = () => {
 
     try {
       const instructorId = await getInstructorUid(editingCourse.instructorName);
-      const status = computeStatus(!!instructorId, editingCourse.startDate, editingCourse.endDate);
+      // Courses a trainer submitted only go live through the review queue
+      const status = editingCourse.review
+        ? editingCourse.status
+        : computeStatus(!!instructorId, editingCourse.startDate, editingCourse.endDate);
 
       await updateDoc(doc(db, "courses", editingCourse.id!), {
-        ...editingCourse,
+        ...withoutSeats(editingCourse),
         instructorId,
         status,
         updatedAt: serverTimestamp(),
+        ...courseAuthor(),
       });
 
       setCourses((prev) =>
@@ -292,6 +361,98 @@ export const CourseManagement: React.FC = () => {
     }
   };
 
+  /* -------------------------
+     Enroll a trainee
+  ------------------------- */
+  const handleEnrollTrainee = async () => {
+    if (!enrollingCourse || !selectedTraineeId) return;
+    setEnrolling(true);
+    try {
+      let result: EnrollResult;
+      try {
+        result = await enrollmentService.enrollTrainee(enrollingCourse.id, selectedTraineeId);
+      } catch (err) {
+        // Missing prerequisites can be overridden, with a reason for the activity log
+        const unmet = (err as { details?: { unmet?: string[] } }).details?.unmet;
+        if (!unmet) throw err;
+        const reason = window.prompt(
+          `This trainee has not completed: ${unmet.join(", ")}.\n\nTo enroll them anyway, give a reason for the override:`
+        );
+        if (!reason?.trim()) return;
+        result = await enrollmentService.enrollTrainee(enrollingCourse.id, selectedTraineeId, reason);
+      }
+
+      alert(
+        result.status === "waitlisted"
+          ? `The course is full. The trainee is #${result.position} on the waitlist.`
+          : "Trainee enrolled successfully!"
+      );
+      setEnrollingCourse(null);
+    } catch (err) {
+      console.error(err);
+      alert(`Error enrolling trainee: ${(err as Error).message}`);
+    } finally {
+      setEnrolling(false);
+    }
+  };
+
+  /* -------------------------
+     Review submitted courses
+  ------------------------- */
+  const reviewerName = currentUser?.displayName || "Admin";
+
+  const handleApproveCourse = async () => {
+    if (!reviewingCourse || !canPublish) return;
+    setReviewing(true);
+    try {
+      // A published course's draft replaces its reviewed fields, and only those
+      await updateDoc(doc(db, "courses", reviewingCourse.id), {
+        ...draftFields(reviewingCourse.draft),
+        draft: deleteField(),
+        review: deleteField(),
+        status: "active",
+        publishedAt: serverTimestamp(),
+        publishedByName: reviewerName,
+        updatedAt: serverTimestamp(),
+        ...courseAuthor(reviewerName),
+      });
+      await logActivity(reviewerName, "published", `course: ${reviewingCourse.title}`, reviewComments);
+      setReviewingCourse(null);
+      alert("Course approved and published!");
+    } catch (err) {
+      console.error(err);
+      alert(`Error approving course: ${(err as Error).message}`);
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const handleReturnCourse = async () => {
+    if (!reviewingCourse) return;
+    if (!reviewComments.trim()) {
+      alert("Add comments so the trainer knows what to change.");
+      return;
+    }
+    setReviewing(true);
+    try {
+      await updateDoc(doc(db, "courses", reviewingCourse.id), {
+        "review.status": "returned",
+        "review.comments": reviewComments.trim(),
+        "review.reviewedByName": reviewerName,
+        "review.reviewedAt": serverTimestamp(),
+        ...courseAuthor(reviewerName),
+      });
+      await logActivity(reviewerName, "returned", `course: ${reviewingCourse.title}`, reviewComments.trim());
+      setReviewingCourse(null);
+      alert("Course returned to the trainer.");
+    } catch (err) {
+      console.error(err);
+      alert(`Error returning course: ${(err as Error).message}`);
+    } finally {
+      setReviewing(false);
+    }
+  };
+
   /* -------------------------
      Delete Course
   ------------------------- */
@@ -312,6 +473,7 @@ export const CourseManagement: React.FC = () => {
      Auto-update draft courses if trainer exists
   ------------------------- */
   useEffect(() => {
+    if (readOnly) return;
     const usersRef = collection(db, "users");
     const unsubscribe = onSnapshot(usersRef, async (snapshot) => {
       const users = snapshot.docs.map((d) => {
@@ -328,6 +490,8 @@ export const CourseManagement: React.FC = () => {
 
       for (const courseDoc of draftSnap.docs) {
         const courseData = courseDoc.data() as any;
+        // Trainers' own drafts wait for the review queue instead
+        if (courseData.instructorId) continue;
         const courseInstructorName = normalize(courseData.instructorName);
 
         const matchedUser = users.find(
@@ -343,6 +507,7 @@ export const CourseManagement: React.FC = () => {
             instructorId: matchedUser.id,
             status: newStatus,
             updatedAt: serverTimestamp(),
+            ...courseAuthor("System"),
           });
 
           setCourses((prev) =>
@@ -364,7 +529,7 @@ export const CourseManagement: React.FC = () => {
     });
 
     return () => unsubscribe();
-  }, []);
+  }, [readOnly]);
 
   const datePickerClass = "border rounded p-2 w-full dark:bg-gray-700 dark:text-white dark:border-gray-600";
 
@@ -374,20 +539,120 @@ export const CourseManagement: React.FC = () => {
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Course Management</h1>
-          <p className="text-gray-600 dark:text-gray-400 mt-1">Manage all courses</p>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            {readOnly ? "All courses, read-only" : "Manage all courses"}
+          </p>
         </div>
-        <Button
-          onClick={() => {
-            setShowForm(true);
-            setEditingCourse(null);
-            setNewCourse({ ...defaultCourseData, startDate: new Date(), endDate: new Date() });
-            setNewMaterial("");
-          }}
-        >
-          <Plus className="w-4 h-4 mr-2" /> Create Course
-        </Button>
+        {!readOnly && (
+          <Button
+            onClick={() => {
+              setShowForm(true);
+              setEditingCourse(null);
+              setNewCourse({ ...defaultCourseData, startDate: new Date(), endDate: new Date() });
+              setNewMaterial("");
+            }}
+          >
+            <Plus className="w-4 h-4 mr-2" /> Create Course
+          </Button>
+        )}
       </div>
 
+      {/* Review Queue */}
+      {!readOnly && reviewQueue.length > 0 && (
+        <Card>
+          <CardContent>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+              Waiting for Review ({reviewQueue.length})
+            </h2>
+            <ul className="divide-y dark:divide-gray-700">
+              {reviewQueue.map((course) => (
+                <li key={course.id} className="flex items-center justify-between gap-4 py-2">
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-gray-100">
+                      {course.draft?.title || course.title}
+                    </p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {isPublished(course) ? "Changes to a published course" : "New course"} from{" "}
+                      {course.review?.submittedByName || course.instructorName}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setReviewingCourse(course);
+                      setReviewComments("");
+                    }}
+                  >
+                    <ClipboardCheck className="w-4 h-4 mr-1" /> Review
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Review Modal */}
+      <Modal isOpen={!!reviewingCourse} onClose={() => setReviewingCourse(null)}>
+        {reviewingCourse && (
+          <div className="p-6 w-full mx-auto">
+            <h2 className="text-xl font-semibold mb-1 text-gray-900 dark:text-gray-100">Review Course</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              {isPublished(reviewingCourse)
+                ? "Changes against the published version"
+                : "New course, not yet published"}
+            </p>
+            <div className="max-h-[50vh] overflow-auto">
+              <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  <tr>
+                    <th className="px-4 py-2">Field</th>
+                    {isPublished(reviewingCourse) && <th className="px-4 py-2">Published</th>}
+                    <th className="px-4 py-2">Proposed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {courseChanges(reviewingCourse).map((change) => (
+                    <tr key={change.label} className="border-b dark:border-gray-600 align-top">
+                      <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{change.label}</td>
+                      {isPublished(reviewingCourse) && (
+                        <td className="px-4 py-2 whitespace-pre-line line-through">{change.published || "—"}</td>
+                      )}
+                      <td className="px-4 py-2 whitespace-pre-line">{change.proposed || "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {courseChanges(reviewingCourse).length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">No changes to the published version.</p>
+              )}
+            </div>
+            <textarea
+              rows={3}
+              placeholder="Comments for the trainer (required when returning)"
+              value={reviewComments}
+              onChange={(e) => setReviewComments(e.target.value)}
+              className="mt-4 w-full px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            />
+            <div className="flex justify-end gap-3 mt-4">
+              {canPublish ? (
+                <Button onClick={handleApproveCourse} loading={reviewing}>
+                  Approve & Publish
+                </Button>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400 self-center">
+                  Publishing needs the courses.publish permission.
+                </p>
+              )}
+              <Button variant="outline" onClick={handleReturnCourse} disabled={reviewing}>
+                Return to Trainer
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
       {/* Filters */}
       <Card>
         <CardContent>
@@ -457,6 +722,60 @@ export const CourseManagement: React.FC = () => {
                   : setNewCourse({ ...newCourse, hours: Number(e.target.value) })
               }
             />
+            <Input
+              type="number"
+              min={1}
+              placeholder="Capacity (empty for unlimited)"
+              value={(editingCourse ? editingCourse.capacity : newCourse.capacity) ?? ""}
+              onChange={(e) => {
+                const capacity = e.target.value ? Number(e.target.value) : null;
+                if (editingCourse) setEditingCourse({ ...editingCourse, capacity });
+                else setNewCourse({ ...newCourse, capacity });
+              }}
+            />
+            <PrerequisiteEditor
+              value={(editingCourse ? editingCourse.prerequisites : newCourse.prerequisites) || []}
+              onChange={(prerequisites) =>
+                editingCourse
+                  ? setEditingCourse({ ...editingCourse, prerequisites })
+                  : setNewCourse({ ...newCourse, prerequisites })
+              }
+              courses={courses}
+              courseId={editingCourse?.id}
+            />
+
+            {/* Enrollment scope */}
+            {units.length > 0 && (
+              <div className="text-sm text-gray-700 dark:text-gray-300">
+                <p className="font-medium mb-1">Open to units (none selected means everyone)</p>
+                <div className="max-h-40 overflow-y-auto border rounded p-2 dark:border-gray-600">
+                  {flattenUnitTree(units).map(({ unit, depth }) => {
+                    const unitIds = (editingCourse ? editingCourse.unitIds : newCourse.unitIds) || [];
+                    const toggled = unitIds.includes(unit.id)
+                      ? unitIds.filter((id) => id !== unit.id)
+                      : [...unitIds, unit.id];
+                    return (
+                      <label
+                        key={unit.id}
+                        className="flex items-center gap-2"
+                        style={{ paddingLeft: `${depth * 1.25}rem` }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={unitIds.includes(unit.id)}
+                          onChange={() =>
+                            editingCourse
+                              ? setEditingCourse({ ...editingCourse, unitIds: toggled })
+                              : setNewCourse({ ...newCourse, unitIds: toggled })
+                          }
+                        />
+                        {unit.name}
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
 
             {/* Date Pickers */}
             <div className="flex gap-2">
@@ -505,6 +824,38 @@ export const CourseManagement: React.FC = () => {
         </div>
       </Modal>
 
+      {/* Enroll Trainee Modal */}
+      <Modal isOpen={!!enrollingCourse} onClose={() => setEnrollingCourse(null)}>
+        <div className="p-6 w-full max-w-lg mx-auto">
+          <h2 className="text-xl font-semibold mb-2 text-gray-900 dark:text-gray-100">Enroll Trainee</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{enrollingCourse?.title}</p>
+          <select
+            value={selectedTraineeId}
+            onChange={(e) => setSelectedTraineeId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+          >
+            <option value="">Select a trainee</option>
+            {trainees.map((trainee) => (
+              <option key={trainee.uid} value={trainee.uid}>
+                {trainee.name}
+              </option>
+            ))}
+          </select>
+          <div className="flex justify-end gap-3 mt-6">
+            <Button onClick={handleEnrollTrainee} loading={enrolling} disabled={!selectedTraineeId}>
+              Enroll
+            </Button>
+            <Button variant="outline" onClick={() => setEnrollingCourse(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {historyCourse && (
+        <CourseHistory course={historyCourse} readOnly={readOnly} onClose={() => setHistoryCourse(null)} />
+      )}
+
       {/* Courses Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {coursesLoading ? (
@@ -524,17 +875,36 @@ export const CourseManagement: React.FC = () => {
                   <strong>Trainer: </strong> {course.instructorName || "—"} | <strong>Status:</strong> {course.status}
                 </p>
                 <div className="mt-4 flex gap-2">
-                  <Edit2
-                    className="w-5 h-5 text-blue-500 cursor-pointer hover:text-blue-700"
-                    onClick={() => {
-                      setEditingCourse(course);
-                      setShowForm(true);
-                    }}
-                  />
-                  <Trash2
-                    className="w-5 h-5 text-red-500 cursor-pointer hover:text-red-700"
-                    onClick={() => handleDeleteCourse(course)}
+                  <History
+                    className="w-5 h-5 text-gray-500 cursor-pointer hover:text-gray-700 dark:hover:text-gray-300"
+                    aria-label="Course history"
+                    onClick={() => setHistoryCourse(course)}
                   />
+                  {!readOnly && (
+                    <>
+                      <Edit2
+                        className="w-5 h-5 text-blue-500 cursor-pointer hover:text-blue-700"
+                        onClick={() => {
+                          setEditingCourse(course);
+                          setShowForm(true);
+                        }}
+                      />
+                      <Trash2
+                        className="w-5 h-5 text-red-500 cursor-pointer hover:text-red-700"
+                        onClick={() => handleDeleteCourse(course)}
+                      />
+                      {course.status === "active" && (
+                        <UserPlus
+                          className="w-5 h-5 text-green-600 cursor-pointer hover:text-green-800"
+                          aria-label="Enroll a trainee"
+                          onClick={() => {
+                            setEnrollingCourse(course);
+                            setSelectedTraineeId("");
+                          }}
+                        />
+                      )}
+                    </>
+                  )}
                 </div>
               </CardContent>
             </Card>
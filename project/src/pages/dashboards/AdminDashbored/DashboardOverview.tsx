@@ -6,10 +6,15 @@ import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
 import { Button } from "../../../components/ui/Button";
 import { Users, BookOpen, TrendingUp, Activity } from "lucide-react";
 import { db } from "../../../lib/firebase";
+import { courseAuthor } from "../../../lib/courseRevisions";
 import { collection, query, orderBy, onSnapshot, Timestamp, doc, updateDoc } from "firebase/firestore";
 import { Course, ActivityLog } from "../../../types";
 
-export const DashboardOverview: React.FC = () => {
+interface DashboardOverviewProps {
+  readOnly?: boolean; // observers: no user count and no writes
+}
+
+export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ readOnly = false }) => {
   const [usersCount, setUsersCount] = useState(0);
   const [courses, setCourses] = useState<Course[]>([]);
   const [coursesLoading, setCoursesLoading] = useState(true);
@@ -20,9 +25,11 @@ export const DashboardOverview: React.FC = () => {
 
   useEffect(() => {
     // --- Users count listener ---
-    const unsubscribeUsers = onSnapshot(collection(db, "users"), (snapshot) => {
-      setUsersCount(snapshot.size);
-    });
+    const unsubscribeUsers = readOnly
+      ? () => {}
+      : onSnapshot(collection(db, "users"), (snapshot) => {
+          setUsersCount(snapshot.size);
+        });
 
     // --- Courses listener ---
     const coursesQuery = query(collection(db, "courses"), orderBy("createdAt", "desc"));
@@ -35,13 +42,20 @@ export const DashboardOverview: React.FC = () => {
           const endDate = data.endDate?.toDate ? data.endDate.toDate() : new Date();
           let status = data.status || "active";
 
-          // Automatically mark as completed if endDate has passed
-          if (endDate < now && status !== "completed") {
+          // Automatically mark as completed if endDate has passed; drafts and courses
+          // awaiting review stay unpublished until an admin approves them
+          const unpublished = status === "draft" || data.review?.status === "pending";
+          if (endDate < now && status !== "completed" && !unpublished) {
             status = "completed";
-            try {
-              await updateDoc(doc(db, "courses", docSnapshot.id), { status: "completed" });
-            } catch (error) {
-              console.error("Failed to update course status:", error);
+            if (!readOnly) {
+              try {
+                await updateDoc(doc(db, "courses", docSnapshot.id), {
+                  status: "completed",
+                  ...courseAuthor("System"),
+                });
+              } catch (error) {
+                console.error("Failed to update course status:", error);
+              }
             }
           }
 
@@ -95,7 +109,7 @@ export const DashboardOverview: React.FC = () => {
       unsubscribeCourses();
       unsubscribeLogs();
     };
-  }, []);
+  }, [readOnly]);
 
   // --- Derived stats ---
   const completionRate = courses.length
@@ -118,7 +132,9 @@ export const DashboardOverview: React.FC = () => {
 
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <StatsCard title="Total Users" value={usersCount.toString()} icon={Users} color="blue" />
+        {!readOnly && (
+          <StatsCard title="Total Users" value={usersCount.toString()} icon={Users} color="blue" />
+        )}
         <StatsCard title="Active Courses" value={courses.length.toString()} icon={BookOpen} color="green" />
         <StatsCard title="Completion Rate" value={`${completionRate}%`} icon={TrendingUp} color="yellow" />
         <StatsCard title="Monthly Sessions" value={monthlySessions.toString()} icon={Activity} color="purple" />
@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from "react";
+import { collection, doc, onSnapshot, Timestamp } from "firebase/firestore";
+import { Download } from "lucide-react";
+import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Input } from "../../../components/ui/Input";
+import { UnitSelect } from "../../../components/org/UnitSelect";
+import { db } from "../../../lib/firebase";
+import { isInUnits } from "../../../lib/orgUnits";
+import { useOrgUnits } from "../../../hooks/useOrgUnits";
+import { DEFAULT_INACTIVITY_POLICY, inactivityService } from "../../../services/inactivityService";
+import { InactivityPolicy, User } from "../../../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toMillis = (value?: Date | Timestamp) =>
+  value instanceof Timestamp ? value.toMillis() : value instanceof Date ? value.getTime() : 0;
+
+// Same signals the daily check starts from; it also counts browsers that stay signed in
+const lastActiveAt = (user: User) =>
+  Math.max(toMillis(user.lastLogin), toMillis(user.createdAt), toMillis(user.reactivatedAt));
+
+const csvCell = (value: string | number | undefined) =>
+  `"${String(value ?? "").replace(/"/g, '""')}"`;
+
+const statusOf = (user: User) => {
+  if (user.inactivity?.exempt) return "Exempt";
+  if (user.accountStatus === "suspended") {
+    return user.inactivity?.disabledAt ? "Disabled" : "Suspended";
+  }
+  if (user.inactivity?.disableAt) {
+    return `Warned, disabled on ${user.inactivity.disableAt.toDate().toLocaleDateString()}`;
+  }
+  return "Dormant";
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  Exempt: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+  Disabled: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+  Suspended: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+  Dormant: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300",
+};
+const WARNED_STYLE = "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300";
+
+// Trainers and trainees who have not signed in for a while, with exemptions
+export const DormantAccounts: React.FC = () => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [policy, setPolicy] = useState<InactivityPolicy>(DEFAULT_INACTIVITY_POLICY);
+  const [days, setDays] = useState<number | null>(null);
+  const [roleFilter, setRoleFilter] = useState("");
+  const [unitFilter, setUnitFilter] = useState("");
+  const [showExempt, setShowExempt] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { units } = useOrgUnits();
+
+  useEffect(() => {
+    const unsubscribeUsers = onSnapshot(
+      collection(db, "users"),
+      (snapshot) => setUsers(snapshot.docs.map((d) => ({ uid: d.id, ...d.data() }) as User)),
+      (error) => console.error("Error fetching users:", error)
+    );
+    // Only settings managers can read the policy; the defaults do otherwise
+    const unsubscribePolicy = onSnapshot(
+      doc(db, "settings", "inactivityPolicy"),
+      (snapshot) => setPolicy({ ...DEFAULT_INACTIVITY_POLICY, ...snapshot.data() }),
+      () => setPolicy(DEFAULT_INACTIVITY_POLICY)
+    );
+    return () => {
+      unsubscribeUsers();
+      unsubscribePolicy();
+    };
+  }, []);
+
+  const threshold = days ?? policy.inactiveDays;
+  const cutoff = Date.now() - threshold * DAY_MS;
+
+  const dormant = users
+    .filter(
+      (user) =>
+        policy.roles.includes(user.role) &&
+        !user.isSuperAdmin &&
+        lastActiveAt(user) < cutoff &&
+        (!roleFilter || user.role === roleFilter) &&
+        (!unitFilter || isInUnits(user.unitPath, [unitFilter])) &&
+        (showExempt || !user.inactivity?.exempt)
+    )
+    .sort((a, b) => lastActiveAt(a) - lastActiveAt(b));
+
+  const handleExemption = async (user: User, exempt: boolean) => {
+    let reason: string | undefined;
+    if (exempt) {
+      const answer = window.prompt(
+        `Why should ${user.displayName || user.email} be exempt from inactivity checks?`
+      );
+      if (answer === null) return;
+      reason = answer.trim();
+    } else if (
+      !window.confirm(
+        `Remove the exemption for ${user.displayName || user.email}? They are checked again from tomorrow.`
+      )
+    ) {
+      return;
+    }
+
+    setSavingId(user.uid);
+    try {
+      await inactivityService.setExemption(user.uid, exempt, reason);
+    } catch (err) {
+      console.error("Error updating exemption:", err);
+      alert(`Error: ${(err as Error).message}`);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const downloadReport = () => {
+    const lines = [
+      ["Name", "Email", "Role", "Last active", "Days inactive", "Status", "Exemption reason"]
+        .map(csvCell)
+        .join(","),
+      ...dormant.map((user) => {
+        const lastActive = lastActiveAt(user);
+        return [
+          user.displayName,
+          user.email,
+          user.role,
+          lastActive ? new Date(lastActive).toISOString().slice(0, 10) : "",
+          lastActive ? Math.floor((Date.now() - lastActive) / DAY_MS) : "",
+          statusOf(user),
+          user.inactivity?.exemptReason,
+        ]
+          .map(csvCell)
+          .join(",");
+      }),
+    ];
+    const blob = new Blob([lines.join("\n")], { type: "text/csv" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `dormant-accounts-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const selectClass =
+    "px-3 py-2 border border-gray-300 rounded-lg shadow-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+  return (
+    <div className="space-y-6 p-4">
+      <header>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Dormant Accounts</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          {policy.enabled
+            ? `Accounts are warned after ${policy.inactiveDays} days without a sign-in and disabled ${policy.graceDays} days later.`
+            : "Automatic inactivity checks are off; turn them on in Settings."}
+        </p>
+      </header>
+
+      <Card>
+        <CardHeader className="flex flex-wrap items-end gap-3">
+          <div className="w-44">
+            <Input
+              label="Inactive for (days)"
+              type="number"
+              min={1}
+              value={threshold}
+              onChange={(e) => setDays(Math.max(1, Number(e.target.value) || 1))}
+            />
+          </div>
+          <label className="text-sm text-gray-700 dark:text-gray-300">
+            <span className="block mb-1">Role</span>
+            <select
+              value={roleFilter}
+              onChange={(e) => setRoleFilter(e.target.value)}
+              className={`${selectClass} capitalize`}
+            >
+              <option value="">All checked roles</option>
+              {policy.roles.map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+          </label>
+          {units.length > 0 && (
+            <UnitSelect
+              units={units}
+              value={unitFilter}
+              onChange={setUnitFilter}
+              emptyLabel="All units"
+            />
+          )}
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 pb-2">
+            <input
+              type="checkbox"
+              checked={showExempt}
+              onChange={(e) => setShowExempt(e.target.checked)}
+            />
+            Show exempt accounts
+          </label>
+          <Button variant="outline" onClick={downloadReport} disabled={dormant.length === 0}>
+            <Download className="w-4 h-4 mr-2" /> Download CSV
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {dormant.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No accounts have been inactive for {threshold} days.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  <tr>
+                    <th className="px-4 py-2">Name</th>
+                    <th className="px-4 py-2">Role</th>
+                    <th className="px-4 py-2">Last active</th>
+                    <th className="px-4 py-2">Days inactive</th>
+                    <th className="px-4 py-2">Status</th>
+                    <th className="px-4 py-2">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dormant.map((user) => {
+                    const lastActive = lastActiveAt(user);
+                    const status = statusOf(user);
+                    return (
+                      <tr key={user.uid} className="border-b dark:border-gray-600">
+                        <td className="px-4 py-2">
+                          <div className="font-medium text-gray-900 dark:text-white">
+                            {user.displayName || "-"}
+                          </div>
+                          <div className="text-xs">{user.email}</div>
+                        </td>
+                        <td className="px-4 py-2 capitalize">{user.role}</td>
+                        <td className="px-4 py-2">
+                          {lastActive ? new Date(lastActive).toLocaleDateString() : "Never"}
+                        </td>
+                        <td className="px-4 py-2">
+                          {lastActive ? Math.floor((Date.now() - lastActive) / DAY_MS) : "-"}
+                        </td>
+                        <td className="px-4 py-2">
+                          <span
+                            title={user.inactivity?.exemptReason}
+                            className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status] || WARNED_STYLE}`}
+                          >
+                            {status}
+                          </span>
+                          {user.inactivity?.exempt && user.inactivity.exemptByName && (
+                            <div className="text-xs mt-1">by {user.inactivity.exemptByName}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleExemption(user, !user.inactivity?.exempt)}
+                            loading={savingId === user.uid}
+                          >
+                            {user.inactivity?.exempt ? "Remove exemption" : "Exempt"}
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from "react";
+import { Mail, Eye, Save } from "lucide-react";
+import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Input } from "../../../components/ui/Input";
+import { EMAIL_LOCALES, emailTemplateService } from "../../../services/emailTemplateService";
+import { EmailTemplate, EmailTemplateContent } from "../../../types";
+import { FailedEmails } from "./FailedEmails";
+
+const EMPTY_CONTENT: EmailTemplateContent = { subject: "", html: "", text: "" };
+
+const textareaClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm font-mono text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+export const EmailTemplates: React.FC = () => {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedKey, setSelectedKey] = useState("");
+  const [locale, setLocale] = useState("en");
+  const [draft, setDraft] = useState<EmailTemplateContent>(EMPTY_CONTENT);
+  const [preview, setPreview] = useState<EmailTemplateContent | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const selected = templates.find((template) => template.key === selectedKey);
+
+  const loadTemplates = async () => {
+    try {
+      const data = await emailTemplateService.getTemplates();
+      setTemplates(data);
+      setSelectedKey((current) => current || data[0]?.key || "");
+    } catch (error) {
+      console.error("Error loading email templates:", error);
+      alert(`Error: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  // 🔹 Reset the editor when switching template or locale
+  const storedContent = selected?.locales[locale];
+  useEffect(() => {
+    setDraft(storedContent || EMPTY_CONTENT);
+    setPreview(null);
+  }, [storedContent, selectedKey, locale]);
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      setPreview(await emailTemplateService.previewTemplate(selectedKey, draft));
+    } catch (error) {
+      console.error("Error previewing template:", error);
+      alert(`Error: ${(error as Error).message}`);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft.subject.trim() || !draft.html.trim()) {
+      alert("Please enter a subject and an HTML body.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const version = await emailTemplateService.saveTemplate(selectedKey, locale, draft);
+      alert(`Template saved as version ${version}.`);
+      await loadTemplates();
+    } catch (error) {
+      console.error("Error saving template:", error);
+      alert(`Error: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Email Templates</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Edit the emails the platform sends, per language, and resend failed ones
+        </p>
+      </div>
+
+      <FailedEmails />
+
+      {loading ? (
+        <p className="text-center text-gray-500 dark:text-gray-400 py-6">Loading templates...</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="lg:col-span-1">
+            <CardContent className="p-2">
+              {templates.map((template) => (
+                <button
+                  key={template.key}
+                  onClick={() => setSelectedKey(template.key)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm ${
+                    template.key === selectedKey
+                      ? "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300"
+                      : "text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+                  }`}
+                >
+                  <span className="flex items-center gap-2 font-medium">
+                    <Mail className="w-4 h-4" /> {template.key}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {template.version ? `Version ${template.version}` : "Default"}
+                  </span>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {selected && (
+            <Card className="lg:col-span-3">
+              <CardHeader className="flex justify-between items-center">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    {selected.key}
+                  </h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{selected.description}</p>
+                </div>
+                <select
+                  value={locale}
+                  onChange={(e) => setLocale(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+                >
+                  {EMAIL_LOCALES.map(({ code, label }) => (
+                    <option key={code} value={code}>
+                      {label}
+                      {selected.locales[code] ? "" : " (not translated)"}
+                    </option>
+                  ))}
+                </select>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Variables:{" "}
+                  {selected.variables.map((name) => (
+                    <code key={name} className="mr-2 px-1 rounded bg-gray-100 dark:bg-gray-700">
+                      {`{{${name}}}`}
+                    </code>
+                  ))}
+                </p>
+                <Input
+                  label="Subject"
+                  value={draft.subject}
+                  onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                />
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    HTML body
+                  </label>
+                  <textarea
+                    rows={8}
+                    value={draft.html}
+                    onChange={(e) => setDraft({ ...draft, html: e.target.value })}
+                    className={textareaClass}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Plain-text body (leave empty to derive it from the HTML)
+                  </label>
+                  <textarea
+                    rows={5}
+                    value={draft.text}
+                    onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                    className={textareaClass}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={handlePreview} loading={previewing}>
+                    <Eye className="w-4 h-4 mr-2" /> Preview
+                  </Button>
+                  <Button onClick={handleSave} loading={saving}>
+                    <Save className="w-4 h-4 mr-2" /> Save
+                  </Button>
+                </div>
+
+                {preview && (
+                  <div className="space-y-3 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                    <p className="text-sm text-gray-900 dark:text-white">
+                      <span className="font-medium">Subject:</span> {preview.subject}
+                    </p>
+                    <iframe
+                      title="Email preview"
+                      sandbox=""
+                      srcDoc={preview.html}
+                      className="w-full h-64 bg-white rounded border border-gray-200"
+                    />
+                    <pre className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300">
+                      {preview.text}
+                    </pre>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from "react";
+import { collection, onSnapshot, orderBy, query, where } from "firebase/firestore";
+import { RefreshCw } from "lucide-react";
+import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { db } from "../../../lib/firebase";
+import { emailTemplateService } from "../../../services/emailTemplateService";
+import { QueuedEmail } from "../../../types";
+
+export const FailedEmails: React.FC = () => {
+  const [messages, setMessages] = useState<QueuedEmail[]>([]);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+
+  // 🔹 Messages that ran out of retries, newest first
+  useEffect(() => {
+    const q = query(
+      collection(db, "mailQueue"),
+      where("status", "==", "dead"),
+      orderBy("deadAt", "desc")
+    );
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setMessages(snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as QueuedEmail[]);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  const handleResend = async (message: QueuedEmail) => {
+    setResendingId(message.id);
+    try {
+      await emailTemplateService.resendMail(message.id);
+    } catch (error) {
+      console.error("Error resending email:", error);
+      alert(`Error: ${(error as Error).message}`);
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Failed Emails</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Messages that could not be delivered after all retries.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {messages.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-6">No failed emails</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+              <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                <tr>
+                  <th className="px-4 py-2">Recipient</th>
+                  <th className="px-4 py-2">Template</th>
+                  <th className="px-4 py-2">Attempts</th>
+                  <th className="px-4 py-2">Last Error</th>
+                  <th className="px-4 py-2">Failed At</th>
+                  <th className="px-4 py-2">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {messages.map((message) => (
+                  <tr key={message.id} className="border-b dark:border-gray-600">
+                    <td className="px-4 py-2">{message.to}</td>
+                    <td className="px-4 py-2">{message.template}</td>
+                    <td className="px-4 py-2">{message.attempts}</td>
+                    <td className="px-4 py-2 text-red-600 dark:text-red-400">{message.lastError}</td>
+                    <td className="px-4 py-2">{message.deadAt?.toDate().toLocaleString() || "-"}</td>
+                    <td className="px-4 py-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        loading={resendingId === message.id}
+                        onClick={() => handleResend(message)}
+                      >
+                        <RefreshCw className="w-4 h-4 mr-1" /> Resend
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
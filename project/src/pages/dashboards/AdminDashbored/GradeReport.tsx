@@ -12,6 +12,9 @@ import {
   addDoc,
 } from "firebase/firestore";
 import { db } from "../../../lib/firebase";
+import { useOrgUnits } from "../../../hooks/useOrgUnits";
+import { UnitSelect } from "../../../components/org/UnitSelect";
+import { isInUnits } from "../../../lib/orgUnits";
 
 // Convert numeric grade to letter grade
 const getGradeLetter = (grade: number) => {
@@ -51,9 +54,23 @@ interface GradeRecord {
   average: number;
 }
 
-export default function GradeReport() {
+export default function GradeReport({ readOnly = false }: { readOnly?: boolean }) {
   const [grades, setGrades] = useState<GradeRecord[]>([]);
   const [loading, setLoading] = useState(true);
+  const { units } = useOrgUnits();
+  const [unitFilter, setUnitFilter] = useState("");
+  const [unitPaths, setUnitPaths] = useState<Map<string, string[]>>(new Map());
+
+  // Trainees' units for the unit filter; observers cannot read users
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      collection(db, "users"),
+      (snapshot) =>
+        setUnitPaths(new Map(snapshot.docs.map((d) => [d.id, d.data().unitPath || []]))),
+      () => setUnitPaths(new Map())
+    );
+    return () => unsubscribe();
+  }, []);
 
   // Real-time listener
   useEffect(() => {
@@ -158,6 +175,10 @@ export default function GradeReport() {
     }
   };
 
+  const visibleGrades = unitFilter
+    ? grades.filter((t) => isInUnits(unitPaths.get(t.traineeId), [unitFilter]))
+    : grades;
+
   if (loading)
     return <div className="p-6 text-gray-700 dark:text-gray-300">Loading...</div>;
 
@@ -167,12 +188,24 @@ export default function GradeReport() {
         <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
           Grade Report
         </h2>
-        <button
-          onClick={handleSaveAll}
-          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg"
-        >
-          Save / Update All
-        </button>
+        <div className="flex items-center gap-2">
+          {units.length > 0 && unitPaths.size > 0 && (
+            <UnitSelect
+              units={units}
+              value={unitFilter}
+              onChange={setUnitFilter}
+              emptyLabel="All units"
+            />
+          )}
+          {!readOnly && (
+            <button
+              onClick={handleSaveAll}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg"
+            >
+              Save / Update All
+            </button>
+          )}
+        </div>
       </div>
 
       <Card className="w-full max-w-7xl shadow-lg">
@@ -191,7 +224,7 @@ export default function GradeReport() {
                 </tr>
               </thead>
               <tbody>
-                {grades.map((t) => (
+                {visibleGrades.map((t) => (
                   <tr
                     key={t.traineeId}
                     className="hover:bg-gray-50 dark:hover:bg-gray-700 transition"
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from "react";
+import { doc, onSnapshot, setDoc } from "firebase/firestore";
+import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Input } from "../../../components/ui/Input";
+import { db } from "../../../lib/firebase";
+import { logActivity } from "../../../lib/LogActivity";
+import { useRoles } from "../../../hooks/useRoles";
+import { DEFAULT_INACTIVITY_POLICY } from "../../../services/inactivityService";
+import { InactivityPolicy } from "../../../types";
+
+// Accounts that never sign in are not worth checking
+const UNCHECKED_ROLES = ["pending", "admin"];
+
+export const InactivitySettings: React.FC = () => {
+  const [policy, setPolicy] = useState<InactivityPolicy>(DEFAULT_INACTIVITY_POLICY);
+  const [saving, setSaving] = useState(false);
+  const { roles } = useRoles();
+
+  // 🔹 Load the stored policy, falling back to the defaults
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, "settings", "inactivityPolicy"), (snapshot) => {
+      setPolicy({ ...DEFAULT_INACTIVITY_POLICY, ...snapshot.data() });
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  const toggleRole = (roleId: string, checked: boolean) =>
+    setPolicy({
+      ...policy,
+      roles: checked ? [...policy.roles, roleId] : policy.roles.filter((id) => id !== roleId),
+    });
+
+  const handleSave = async () => {
+    if (policy.inactiveDays < 7) {
+      alert("Allow at least 7 days without a sign-in.");
+      return;
+    }
+    if (policy.graceDays < 1) {
+      alert("The grace period must be at least one day.");
+      return;
+    }
+    if (policy.enabled && policy.roles.length === 0) {
+      alert("Choose at least one role to check.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await setDoc(doc(db, "settings", "inactivityPolicy"), policy, { merge: true });
+      await logActivity(
+        "updated inactivity policy",
+        "",
+        policy.enabled
+          ? `Warn after ${policy.inactiveDays} days, disable ${policy.graceDays} days later`
+          : "Inactivity checks off"
+      );
+      alert("Settings saved.");
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      alert(`Error: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Inactive Accounts</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Accounts without a sign-in for this long are warned by email, then disabled after the
+          grace period unless they sign in. Admins can exempt accounts on the Dormant Accounts
+          page.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={policy.enabled}
+            onChange={(e) => setPolicy({ ...policy, enabled: e.target.checked })}
+          />
+          Check for inactive accounts every day
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Warn after (days without a sign-in)"
+            type="number"
+            min={7}
+            value={policy.inactiveDays}
+            onChange={(e) => setPolicy({ ...policy, inactiveDays: Number(e.target.value) })}
+          />
+          <Input
+            label="Disable after the warning (days)"
+            type="number"
+            min={1}
+            value={policy.graceDays}
+            onChange={(e) => setPolicy({ ...policy, graceDays: Number(e.target.value) })}
+          />
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Roles checked</p>
+          <div className="flex flex-wrap gap-4">
+            {roles
+              .filter((role) => !UNCHECKED_ROLES.includes(role.id))
+              .map((role) => (
+                <label
+                  key={role.id}
+                  className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+                >
+                  <input
+                    type="checkbox"
+                    checked={policy.roles.includes(role.id)}
+                    onChange={(e) => toggleRole(role.id, e.target.checked)}
+                  />
+                  {role.name}
+                </label>
+              ))}
+          </div>
+        </div>
+        <Button onClick={handleSave} loading={saving}>
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
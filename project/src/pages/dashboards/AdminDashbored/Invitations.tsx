@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from "react";
+import { collection, onSnapshot, orderBy, query, Timestamp } from "firebase/firestore";
+import { Mail, Plus, Copy, Ban } from "lucide-react";
+import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Input } from "../../../components/ui/Input";
+import { db } from "../../../lib/firebase";
+import { useRoles } from "../../../hooks/useRoles";
+import { invitationService } from "../../../services/invitationService";
+import { Invitation } from "../../../types";
+
+interface CourseOption {
+  id: string;
+  title: string;
+}
+
+const INVITABLE_ROLES: { value: Invitation["role"]; label: string }[] = [
+  { value: "trainee", label: "Trainee" },
+  { value: "trainer", label: "Trainer" },
+];
+
+const toDate = (value: Date | Timestamp) =>
+  value instanceof Timestamp ? value.toDate() : new Date(value);
+
+export const Invitations: React.FC = () => {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [form, setForm] = useState({
+    email: "",
+    role: "trainee" as Invitation["role"],
+    courseIds: [] as string[],
+    expiresInDays: 7,
+  });
+  // Invitations grant their role like any other assignment
+  const { canAssignRole } = useRoles();
+  const roleOptions = INVITABLE_ROLES.filter((option) => canAssignRole(option.value));
+
+  // 🔹 Load invitations in real-time
+  useEffect(() => {
+    const q = query(collection(db, "invitations"), orderBy("createdAt", "desc"));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setInvitations(
+        snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as Invitation[]
+      );
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  // 🔹 Courses that can be attached to an invitation
+  useEffect(() => {
+    const unsubscribe = onSnapshot(collection(db, "courses"), (snapshot) => {
+      setCourses(snapshot.docs.map((doc) => ({ id: doc.id, title: doc.data().title })));
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  const toggleCourse = (courseId: string) => {
+    setForm((prev) => ({
+      ...prev,
+      courseIds: prev.courseIds.includes(courseId)
+        ? prev.courseIds.filter((id) => id !== courseId)
+        : [...prev.courseIds, courseId],
+    }));
+  };
+
+  const handleCreate = async () => {
+    if (!form.email) {
+      alert("Please enter an email address.");
+      return;
+    }
+    if (!canAssignRole(form.role)) {
+      alert("You can only invite users into roles that hold no permissions beyond your own.");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { inviteLink, emailQueued } = await invitationService.createInvitation(
+        form.email,
+        form.role,
+        form.courseIds,
+        form.expiresInDays
+      );
+
+      if (emailQueued) {
+        alert(`Invitation sent to ${form.email}.`);
+      } else {
+        prompt("The invitation email could not be queued. Share this link instead:", inviteLink);
+      }
+
+      setForm({ email: "", role: "trainee", courseIds: [], expiresInDays: 7 });
+      setShowForm(false);
+    } catch (error) {
+      console.error("Error creating invitation:", error);
+      alert(`Error: ${(error as Error).message}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!window.confirm(`Revoke the invitation for ${invitation.email}?`)) return;
+
+    try {
+      await invitationService.revokeInvitation(invitation.id);
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      alert(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleCopy = async (invitation: Invitation) => {
+    await navigator.clipboard.writeText(invitationService.inviteLink(invitation.id));
+    alert("Invitation link copied.");
+  };
+
+  const statusOf = (invitation: Invitation) =>
+    invitation.status === "pending" && toDate(invitation.expiresAt) < new Date()
+      ? "expired"
+      : invitation.status;
+
+  const statusClass: Record<string, string> = {
+    pending: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+    redeemed: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+    revoked: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+    expired: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300",
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Invitations</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Invited users are activated with their role as soon as they sign up.
+          </p>
+        </div>
+        <Button size="sm" onClick={() => setShowForm(!showForm)}>
+          <Plus className="w-4 h-4 mr-1" /> Invite User
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="space-y-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+            <Input
+              type="email"
+              placeholder="Email"
+              value={form.email}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+            />
+            <div className="flex flex-wrap gap-4">
+              <select
+                value={form.role}
+                onChange={(e) => setForm({ ...form, role: e.target.value as Invitation["role"] })}
+                className="px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+              >
+                {roleOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                Expires in
+                <input
+                  type="number"
+                  min={1}
+                  max={90}
+                  value={form.expiresInDays}
+                  onChange={(e) => setForm({ ...form, expiresInDays: Number(e.target.value) })}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+                />
+                days
+              </label>
+            </div>
+            {courses.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Enroll in courses (optional)
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+                  {courses.map((course) => (
+                    <label
+                      key={course.id}
+                      className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={form.courseIds.includes(course.id)}
+                        onChange={() => toggleCourse(course.id)}
+                      />
+                      {course.title}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button onClick={handleCreate} loading={submitting}>
+                <Mail className="w-4 h-4 mr-2" /> Send Invitation
+              </Button>
+              <Button variant="outline" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-6">Loading invitations...</p>
+        ) : invitations.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-6">No invitations yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+              <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                <tr>
+                  <th className="px-4 py-2">Email</th>
+                  <th className="px-4 py-2">Role</th>
+                  <th className="px-4 py-2">Courses</th>
+                  <th className="px-4 py-2">Status</th>
+                  <th className="px-4 py-2">Expires</th>
+                  <th className="px-4 py-2">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invitations.map((invitation) => {
+                  const status = statusOf(invitation);
+                  return (
+                    <tr key={invitation.id} className="border-b dark:border-gray-600">
+                      <td className="px-4 py-2">{invitation.email}</td>
+                      <td className="px-4 py-2 capitalize">{invitation.role}</td>
+                      <td className="px-4 py-2">{invitation.courseIds?.length || 0}</td>
+                      <td className="px-4 py-2">
+                        <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${statusClass[status]}`}>
+                          {status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2">{toDate(invitation.expiresAt).toLocaleDateString()}</td>
+                      <td className="px-4 py-2 flex gap-2">
+                        {status === "pending" && (
+                          <>
+                            <Button size="sm" variant="outline" onClick={() => handleCopy(invitation)}>
+                              <Copy className="w-4 h-4 mr-1" /> Copy Link
+                            </Button>
+                            <Button size="sm" variant="destructive" onClick={() => handleRevoke(invitation)}>
+                              <Ban className="w-4 h-4 mr-1" /> Revoke
+                            </Button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
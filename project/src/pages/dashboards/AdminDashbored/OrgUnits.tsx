@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  serverTimestamp,
+  updateDoc,
+} from "firebase/firestore";
+import { Edit2, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Input } from "../../../components/ui/Input";
+import { UnitSelect } from "../../../components/org/UnitSelect";
+import { db } from "../../../lib/firebase";
+import { logActivity } from "../../../lib/LogActivity";
+import { flattenUnitTree } from "../../../lib/orgUnits";
+import { useOrgUnits } from "../../../hooks/useOrgUnits";
+import { OrgUnit, OrgUnitType, User } from "../../../types";
+
+const UNIT_TYPES: { value: OrgUnitType; label: string }[] = [
+  { value: "division", label: "Audit division" },
+  { value: "region", label: "Regional office" },
+  { value: "unit", label: "Unit" },
+];
+
+const EMPTY_UNIT: OrgUnit = {
+  id: "",
+  name: "",
+  type: "division",
+  parentId: null,
+  managerId: null,
+};
+
+export const OrgUnits: React.FC = () => {
+  const { units, loading } = useOrgUnits();
+  const [users, setUsers] = useState<User[]>([]);
+  const [editing, setEditing] = useState<OrgUnit | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Managers and member counts; needs users.manage as well as org.manage
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      collection(db, "users"),
+      (snapshot) => setUsers(snapshot.docs.map((d) => d.data() as User)),
+      (error) => console.error("Error fetching users:", error)
+    );
+    return () => unsubscribe();
+  }, []);
+
+  const memberCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    users.forEach((user) => {
+      if (user.unitId) counts.set(user.unitId, (counts.get(user.unitId) || 0) + 1);
+    });
+    return counts;
+  }, [users]);
+
+  const managerOptions = users
+    .filter((user) => user.role !== "pending" && user.accountStatus !== "suspended")
+    .sort((a, b) => (a.displayName || a.email).localeCompare(b.displayName || b.email));
+
+  const handleSave = async () => {
+    if (!editing) return;
+    if (!editing.name.trim()) {
+      alert("Please give the unit a name.");
+      return;
+    }
+
+    const manager = users.find((user) => user.uid === editing.managerId);
+    const data = {
+      name: editing.name.trim(),
+      type: editing.type,
+      parentId: editing.parentId || null,
+      managerId: editing.managerId || null,
+      managerName: manager ? manager.displayName || manager.email : "",
+      updatedAt: serverTimestamp(),
+    };
+
+    setSaving(true);
+    try {
+      if (editing.id) {
+        await updateDoc(doc(db, "orgUnits", editing.id), data);
+      } else {
+        await addDoc(collection(db, "orgUnits"), { ...data, createdAt: serverTimestamp() });
+      }
+      await logActivity(
+        editing.id ? "edited unit" : "created unit",
+        data.name,
+        data.managerName ? `Manager: ${data.managerName}` : ""
+      );
+      setEditing(null);
+    } catch (error) {
+      console.error("Error saving unit:", error);
+      alert(`Error: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (unit: OrgUnit) => {
+    if (units.some((other) => other.parentId === unit.id)) {
+      alert("Move or delete the units inside this one first.");
+      return;
+    }
+    if (memberCounts.get(unit.id)) {
+      alert("Move every member out of this unit before deleting it.");
+      return;
+    }
+    if (!window.confirm(`Delete "${unit.name}"?`)) return;
+
+    try {
+      await deleteDoc(doc(db, "orgUnits", unit.id));
+      await logActivity("deleted unit", unit.name);
+    } catch (error) {
+      console.error("Error deleting unit:", error);
+      alert(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Departments & Units</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Audit divisions, regional offices and the units inside them
+          </p>
+        </div>
+        <Button onClick={() => setEditing(EMPTY_UNIT)}>
+          <Plus className="w-4 h-4 mr-1" /> New Unit
+        </Button>
+      </div>
+
+      {editing && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {editing.id ? `Edit ${editing.name}` : "New Unit"}
+            </h3>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Name"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              />
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Type
+                <select
+                  value={editing.type}
+                  onChange={(e) => setEditing({ ...editing, type: e.target.value as OrgUnitType })}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+                >
+                  {UNIT_TYPES.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Part of
+                <UnitSelect
+                  units={units}
+                  value={editing.parentId || ""}
+                  onChange={(parentId) => setEditing({ ...editing, parentId: parentId || null })}
+                  emptyLabel="Top level"
+                  excludeId={editing.id || undefined}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+                />
+              </label>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Manager
+                <select
+                  value={editing.managerId || ""}
+                  onChange={(e) => setEditing({ ...editing, managerId: e.target.value || null })}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="">No manager</option>
+                  {managerOptions.map((user) => (
+                    <option key={user.uid} value={user.uid}>
+                      {user.displayName || user.email}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} loading={saving}>
+                Save Unit
+              </Button>
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent>
+          {loading ? (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-12">Loading units...</p>
+          ) : units.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-12">
+              No units yet. Start with your audit divisions.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  <tr>
+                    <th className="px-4 py-2">Unit</th>
+                    <th className="px-4 py-2">Type</th>
+                    <th className="px-4 py-2">Manager</th>
+                    <th className="px-4 py-2">Members</th>
+                    <th className="px-4 py-2">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {flattenUnitTree(units).map(({ unit, depth }) => (
+                    <tr key={unit.id} className="border-b dark:border-gray-600">
+                      <td className="px-4 py-2 text-gray-900 dark:text-white">
+                        <span style={{ paddingLeft: `${depth * 1.5}rem` }}>{unit.name}</span>
+                      </td>
+                      <td className="px-4 py-2">
+                        {UNIT_TYPES.find((type) => type.value === unit.type)?.label || unit.type}
+                      </td>
+                      <td className="px-4 py-2">{unit.managerName || "-"}</td>
+                      <td className="px-4 py-2">{memberCounts.get(unit.id) || 0}</td>
+                      <td className="px-4 py-2">
+                        <div className="flex gap-3">
+                          <Edit2
+                            className="w-5 h-5 text-blue-500 cursor-pointer hover:text-blue-700"
+                            onClick={() => setEditing(unit)}
+                          />
+                          <Trash2
+                            className="w-5 h-5 text-red-500 cursor-pointer hover:text-red-700"
+                            onClick={() => handleDelete(unit)}
+                          />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
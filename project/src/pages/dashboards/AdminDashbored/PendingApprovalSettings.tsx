@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from "react";
+import { doc, onSnapshot, setDoc } from "firebase/firestore";
+import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Input } from "../../../components/ui/Input";
+import { db } from "../../../lib/firebase";
+import { DEFAULT_PENDING_SETTINGS } from "../../../services/pendingReviewService";
+import { PendingApprovalSettings as Settings } from "../../../types";
+
+export const PendingApprovalSettings: React.FC = () => {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_PENDING_SETTINGS);
+  const [saving, setSaving] = useState(false);
+
+  // 🔹 Load the stored settings, falling back to the defaults
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, "settings", "pendingApprovals"), (snapshot) => {
+      setSettings({ ...DEFAULT_PENDING_SETTINGS, ...snapshot.data() });
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  const handleSave = async () => {
+    if (settings.slaDays < 1) {
+      alert("The SLA must be at least one day.");
+      return;
+    }
+    if (settings.expireAfterDays !== null && settings.expireAfterDays <= settings.slaDays) {
+      alert("Requests should expire later than the SLA.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await setDoc(doc(db, "settings", "pendingApprovals"), settings, { merge: true });
+      alert("Settings saved.");
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      alert(`Error: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Pending Approvals</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Requests waiting longer than the SLA are highlighted and included in a daily reminder
+          to admins.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="SLA (days)"
+            type="number"
+            min={1}
+            value={settings.slaDays}
+            onChange={(e) => setSettings({ ...settings, slaDays: Number(e.target.value) })}
+          />
+          <Input
+            label="Expire requests after (days, empty for never)"
+            type="number"
+            min={1}
+            value={settings.expireAfterDays ?? ""}
+            onChange={(e) =>
+              setSettings({
+                ...settings,
+                expireAfterDays: e.target.value ? Number(e.target.value) : null,
+              })
+            }
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings.reminderEnabled}
+            onChange={(e) => setSettings({ ...settings, reminderEnabled: e.target.checked })}
+          />
+          Send a daily reminder about overdue requests
+        </label>
+        <Button onClick={handleSave} loading={saving}>
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
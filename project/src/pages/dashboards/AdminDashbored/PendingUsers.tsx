@@ -1,39 +1,54 @@
 import React, { useState, useEffect } from "react";
 import { Card, CardContent } from "../../../components/ui/Card";
 import { Button } from "../../../components/ui/Button";
-import { CheckCircle, Circle as XCircle, Clock } from "lucide-react";
-import { db, auth } from "../../../lib/firebase";
+import { CheckCircle, Circle as XCircle, Clock, MailCheck } from "lucide-react";
+import { db } from "../../../lib/firebase";
+import { collection, onSnapshot, query, orderBy, doc, Timestamp } from "firebase/firestore";
+import { Invitations } from "./Invitations";
+import { AutoDecisions } from "./AutoDecisions";
+import { RejectedUsers } from "./RejectedUsers";
 import {
-  collection,
-  onSnapshot,
-  query,
-  orderBy,
-  doc,
-  updateDoc,
-  deleteDoc,
-  getDoc,
-  serverTimestamp,
-  setDoc,
-} from "firebase/firestore";
-import { getFunctions, httpsCallable } from "firebase/functions";
+  DEFAULT_PENDING_SETTINGS,
+  pendingReviewService,
+} from "../../../services/pendingReviewService";
+import { verificationService } from "../../../services/verificationService";
 
 interface PendingUser {
   uid: string;
   displayName: string;
   email: string;
   role: string;
-  timestamp?: any;
+  manualReview?: boolean; // put back after an automatic decision was reverted
+  emailVerified?: boolean; // false until the signup confirms their address
+  timestamp?: Timestamp;
 }
 
+type AgeFilter = "all" | "new" | "overdue";
+type EmailFilter = "all" | "verified" | "unverified";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ageInDays = (user: PendingUser) =>
+  user.timestamp ? (Date.now() - user.timestamp.toMillis()) / DAY_MS : 0;
+
+// Requests from before verification was required have no flag
+const isUnverified = (user: PendingUser) => user.emailVerified === false;
+
 export const PendingUsers: React.FC = () => {
   const [pendingUsers, setPendingUsers] = useState<PendingUser[]>([]);
   const [loading, setLoading] = useState(true);
-  const [actioningUserId, setActioningUserId] = useState<string | null>(null);
-  const [showApprovalForm, setShowApprovalForm] = useState(false);
-  const [showRejectionForm, setShowRejectionForm] = useState(false);
-  const [selectedUser, setSelectedUser] = useState<PendingUser | null>(null);
-  const [approvalMessage, setApprovalMessage] = useState("");
-  const [rejectionMessage, setRejectionMessage] = useState("");
+  const [slaDays, setSlaDays] = useState(DEFAULT_PENDING_SETTINGS.slaDays);
+  const [roleFilter, setRoleFilter] = useState("all");
+  const [ageFilter, setAgeFilter] = useState<AgeFilter>("all");
+  const [emailFilter, setEmailFilter] = useState<EmailFilter>("all");
+  const [checking, setChecking] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [review, setReview] = useState<{
+    decision: "approve" | "reject";
+    users: PendingUser[];
+  } | null>(null);
+  const [message, setMessage] = useState("");
+  const [submitting, setSubmitting] = useState(false);
 
   // 🔹 Load pending users in real-time
   useEffect(() => {
@@ -44,131 +59,103 @@ export const PendingUsers: React.FC = () => {
         ...doc.data(),
       })) as PendingUser[];
       setPendingUsers(users);
+      setSelectedIds((ids) => ids.filter((id) => users.some((user) => user.uid === id)));
       setLoading(false);
     });
 
     return () => unsubscribe();
   }, []);
 
-  // 🔹 Activity log helper
-  const addActivityLog = async (
-    action: "approved" | "rejected",
-    targetUser: PendingUser,
-    message?: string
-  ) => {
-    try {
-      await setDoc(doc(collection(db, "activityLogs")), {
-        userName: auth.currentUser?.displayName || "Admin",
-        action,
-        target: targetUser.displayName,
-        targetEmail: targetUser.email,
-        message: message || "",
-        timestamp: serverTimestamp(),
-      });
-    } catch (err) {
-      console.error("Error logging activity:", err);
-    }
-  };
+  // 🔹 SLA from the settings page
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, "settings", "pendingApprovals"), (snapshot) => {
+      setSlaDays(snapshot.data()?.slaDays ?? DEFAULT_PENDING_SETTINGS.slaDays);
+    });
 
-  // 🔹 Approve user
-  const handleApprove = async () => {
-    if (!selectedUser) return;
+    return () => unsubscribe();
+  }, []);
 
-    setActioningUserId(selectedUser.uid);
+  const roles = Array.from(new Set(pendingUsers.map((user) => user.role)));
+  // Unverified requests cannot be approved yet, so they are not overdue
+  const isOverdue = (user: PendingUser) => !isUnverified(user) && ageInDays(user) > slaDays;
 
-    try {
-      const pendingRef = doc(db, "pendingUsers", selectedUser.uid);
-      const pendingDoc = await getDoc(pendingRef);
-      if (!pendingDoc.exists()) throw new Error("User not found");
+  const filteredUsers = pendingUsers.filter(
+    (user) =>
+      (roleFilter === "all" || user.role === roleFilter) &&
+      (ageFilter === "all" ||
+        (ageFilter === "new" && ageInDays(user) <= 1) ||
+        (ageFilter === "overdue" && isOverdue(user))) &&
+      (emailFilter === "all" || (emailFilter === "unverified") === isUnverified(user))
+  );
+
+  const allSelected =
+    filteredUsers.length > 0 && filteredUsers.every((user) => selectedIds.includes(user.uid));
 
-      const pendingData = pendingDoc.data();
-      const userRef = doc(db, "users", selectedUser.uid);
+  const toggleSelected = (uid: string) => {
+    setSelectedIds((ids) => (ids.includes(uid) ? ids.filter((id) => id !== uid) : [...ids, uid]));
+  };
 
-      // Update user's role
-      await updateDoc(userRef, {
-        role: pendingData.role,
-        approvedAt: new Date(),
-      });
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : filteredUsers.map((user) => user.uid));
+  };
 
-      // Delete from pending
-      await deleteDoc(pendingRef);
+  const openReview = (decision: "approve" | "reject", users: PendingUser[]) => {
+    setReview({ decision, users });
+    setMessage("");
+  };
 
-      // Log activity
-      await addActivityLog("approved", selectedUser, approvalMessage);
+  // 🔹 Approve or reject one or many users with the same message
+  const handleReview = async () => {
+    if (!review) return;
 
-      // Send email via cloud function
-      const functions = getFunctions();
-      const sendEmail = httpsCallable(functions, "handleUserAction");
-      try {
-        await sendEmail({
-          pendingUserId: selectedUser.uid,
-          to_name: selectedUser.displayName,
-          to_email: selectedUser.email,
-          message:
-            approvalMessage ||
-            "Your account has been approved. You can now access the system.",
-          action: "approve",
-        });
-      } catch (emailError) {
-        console.error("Email sending failed:", emailError);
-      }
+    setSubmitting(true);
+    try {
+      const { reviewed, missing, unverified, invalidRole } = await pendingReviewService.reviewPendingUsers(
+        review.users.map((user) => user.uid),
+        review.decision,
+        message
+      );
 
-      alert(`User ${selectedUser.displayName} approved successfully!`);
-      setShowApprovalForm(false);
-      setSelectedUser(null);
-      setApprovalMessage("");
-    } catch (error: any) {
-      console.error("Error approving user:", error);
-      alert(`Error: ${error.message}`);
+      const verb = review.decision === "approve" ? "approved" : "rejected";
+      alert(
+        [
+          `${reviewed} user(s) ${verb}.`,
+          missing.length ? `${missing.length} had already been handled.` : "",
+          unverified.length ? `${unverified.length} have not verified their email yet.` : "",
+          invalidRole.length ? `${invalidRole.length} requested a role you cannot grant.` : "",
+        ]
+          .filter(Boolean)
+          .join(" ")
+      );
+      setSelectedIds((ids) => ids.filter((id) => !review.users.some((user) => user.uid === id)));
+      setReview(null);
+      setMessage("");
+    } catch (error) {
+      console.error("Error reviewing users:", error);
+      alert(`Error: ${(error as Error).message}`);
     } finally {
-      setActioningUserId(null);
+      setSubmitting(false);
     }
   };
 
-  // 🔹 Reject user
-  const handleReject = async () => {
-    if (!selectedUser) return;
-
-    setActioningUserId(selectedUser.uid);
-
+  // 🔹 Pick up verifications whose signup has not come back to the app yet
+  const handleCheckVerification = async () => {
+    const uids = pendingUsers.filter(isUnverified).map((user) => user.uid);
+    setChecking(true);
     try {
-      const pendingRef = doc(db, "pendingUsers", selectedUser.uid);
-      await deleteDoc(pendingRef);
-
-      const userRef = doc(db, "users", selectedUser.uid);
-      const userDoc = await getDoc(userRef);
-      if (userDoc.exists()) await deleteDoc(userRef);
-
-      // Log activity
-      await addActivityLog("rejected", selectedUser, rejectionMessage);
-
-      // Send email via cloud function
-      const functions = getFunctions();
-      const sendEmail = httpsCallable(functions, "handleUserAction");
-      try {
-        await sendEmail({
-          pendingUserId: selectedUser.uid,
-          to_name: selectedUser.displayName,
-          to_email: selectedUser.email,
-          message: rejectionMessage || "Your account registration has been rejected.",
-          action: "reject",
-        });
-      } catch (emailError) {
-        console.error("Email sending failed:", emailError);
-      }
-
-      alert(`User ${selectedUser.displayName} rejected.`);
-      setShowRejectionForm(false);
-      setSelectedUser(null);
-      setRejectionMessage("");
-    } catch (error: any) {
-      console.error("Error rejecting user:", error);
-      alert(`Error: ${error.message}`);
+      const verified = await verificationService.syncEmailVerification(uids);
+      alert(`${verified.length} of ${uids.length} unverified user(s) have now confirmed their email.`);
+    } catch (error) {
+      console.error("Error checking verification:", error);
+      alert(`Error: ${(error as Error).message}`);
     } finally {
-      setActioningUserId(null);
+      setChecking(false);
     }
   };
 
+  const selectedUsers = pendingUsers.filter((user) => selectedIds.includes(user.uid));
+  const approvableSelected = selectedUsers.filter((user) => !isUnverified(user));
+
   return (
     <div className="space-y-6">
       <div>
@@ -176,83 +163,52 @@ export const PendingUsers: React.FC = () => {
           Pending User Approvals
         </h1>
         <p className="text-gray-600 dark:text-gray-400 mt-1">
-          Review and approve or reject new user registrations
+          Review new user registrations and manage invitations
         </p>
       </div>
 
-      {/* Approval Form */}
-      {showApprovalForm && selectedUser && (
+      {/* Approval / Rejection Form */}
+      {review && (
         <Card>
           <CardContent className="space-y-4">
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-              Approve {selectedUser.displayName}
+              {review.decision === "approve" ? "Approve" : "Reject"}{" "}
+              {review.users.length === 1
+                ? review.users[0].displayName
+                : `${review.users.length} users`}
             </h3>
             <p className="text-sm text-gray-600 dark:text-gray-400">
-              Email: {selectedUser.email} | Role: {selectedUser.role}
+              {review.users.length === 1
+                ? `Email: ${review.users[0].email} | Role: ${review.users[0].role}`
+                : review.users.map((user) => user.email).join(", ")}
             </p>
             <textarea
-              value={approvalMessage}
-              onChange={(e) => setApprovalMessage(e.target.value)}
-              placeholder="Enter a message for the user..."
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder={
+                review.decision === "approve"
+                  ? "Enter a message for the user..."
+                  : "Enter the reason for rejection..."
+              }
               className="w-full px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white min-h-[100px]"
             />
             <div className="flex gap-2">
-              <Button
-                onClick={handleApprove}
-                disabled={!!actioningUserId}
-                className="bg-green-600 hover:bg-green-700"
-              >
-                <CheckCircle className="w-4 h-4 mr-2" />
-                Confirm Approval
-              </Button>
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setShowApprovalForm(false);
-                  setSelectedUser(null);
-                  setApprovalMessage("");
-                }}
-              >
-                Cancel
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Rejection Form */}
-      {showRejectionForm && selectedUser && (
-        <Card>
-          <CardContent className="space-y-4">
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-              Reject {selectedUser.displayName}
-            </h3>
-            <p className="text-sm text-gray-600 dark:text-gray-400">
-              Email: {selectedUser.email} | Role: {selectedUser.role}
-            </p>
-            <textarea
-              value={rejectionMessage}
-              onChange={(e) => setRejectionMessage(e.target.value)}
-              placeholder="Enter the reason for rejection..."
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white min-h-[100px]"
-            />
-            <div className="flex gap-2">
-              <Button
-                onClick={handleReject}
-                disabled={!!actioningUserId}
-                variant="destructive"
-              >
-                <XCircle className="w-4 h-4 mr-2" />
-                Confirm Rejection
-              </Button>
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setShowRejectionForm(false);
-                  setSelectedUser(null);
-                  setRejectionMessage("");
-                }}
-              >
+              {review.decision === "approve" ? (
+                <Button
+                  onClick={handleReview}
+                  loading={submitting}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Confirm Approval
+                </Button>
+              ) : (
+                <Button onClick={handleReview} loading={submitting} variant="destructive">
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Confirm Rejection
+                </Button>
+              )}
+              <Button variant="outline" onClick={() => setReview(null)}>
                 Cancel
               </Button>
             </div>
@@ -262,12 +218,74 @@ export const PendingUsers: React.FC = () => {
 
       {/* Pending Users Table */}
       <Card>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={roleFilter}
+              onChange={(e) => setRoleFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+            >
+              <option value="all">All roles</option>
+              {roles.map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <select
+              value={ageFilter}
+              onChange={(e) => setAgeFilter(e.target.value as AgeFilter)}
+              className="px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+            >
+              <option value="all">Any age</option>
+              <option value="new">Last 24 hours</option>
+              <option value="overdue">Older than {slaDays} days (overdue)</option>
+            </select>
+            <select
+              value={emailFilter}
+              onChange={(e) => setEmailFilter(e.target.value as EmailFilter)}
+              className="px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+            >
+              <option value="all">Any email status</option>
+              <option value="verified">Email verified</option>
+              <option value="unverified">Awaiting verification</option>
+            </select>
+            {pendingUsers.some(isUnverified) && (
+              <Button size="sm" variant="outline" onClick={handleCheckVerification} loading={checking}>
+                <MailCheck className="w-4 h-4 mr-1" /> Check verification
+              </Button>
+            )}
+            {selectedUsers.length > 0 && (
+              <div className="flex items-center gap-2 ml-auto">
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {selectedUsers.length} selected
+                </span>
+                <Button
+                  size="sm"
+                  className="bg-green-600 hover:bg-green-700"
+                  onClick={() => openReview("approve", approvableSelected)}
+                  disabled={approvableSelected.length === 0}
+                >
+                  <CheckCircle className="w-4 h-4 mr-1" /> Approve selected
+                  {approvableSelected.length < selectedUsers.length &&
+                    ` (${approvableSelected.length} verified)`}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => openReview("reject", selectedUsers)}
+                >
+                  <XCircle className="w-4 h-4 mr-1" /> Reject selected
+                </Button>
+              </div>
+            )}
+          </div>
+
           {loading ? (
             <p className="text-center text-gray-500 dark:text-gray-400 py-12">
               Loading pending users...
             </p>
-          ) : pendingUsers.length === 0 ? (
+          ) : filteredUsers.length === 0 ? (
             <div className="text-center py-12">
               <Clock className="w-12 h-12 text-gray-400 mx-auto mb-4" />
               <p className="text-gray-500 dark:text-gray-400">No pending approvals</p>
@@ -277,18 +295,52 @@ export const PendingUsers: React.FC = () => {
               <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
                 <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
                   <tr>
+                    <th className="px-4 py-2">
+                      <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+                    </th>
                     <th className="px-4 py-2">Name</th>
                     <th className="px-4 py-2">Email</th>
+                    <th className="px-4 py-2">Verification</th>
                     <th className="px-4 py-2">Requested Role</th>
                     <th className="px-4 py-2">Submitted At</th>
                     <th className="px-4 py-2">Actions</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {pendingUsers.map((user) => (
-                    <tr key={user.uid} className="border-b dark:border-gray-600">
-                      <td className="px-4 py-2">{user.displayName}</td>
+                  {filteredUsers.map((user) => (
+                    <tr
+                      key={user.uid}
+                      className={`border-b dark:border-gray-600 ${
+                        isOverdue(user) ? "bg-red-50 dark:bg-red-900/20" : ""
+                      }`}
+                    >
+                      <td className="px-4 py-2">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(user.uid)}
+                          onChange={() => toggleSelected(user.uid)}
+                        />
+                      </td>
+                      <td className="px-4 py-2">
+                        {user.displayName}
+                        {user.manualReview && (
+                          <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300">
+                            Reverted
+                          </span>
+                        )}
+                      </td>
                       <td className="px-4 py-2">{user.email}</td>
+                      <td className="px-4 py-2">
+                        {isUnverified(user) ? (
+                          <span className="inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300">
+                            Awaiting
+                          </span>
+                        ) : (
+                          <span className="inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
+                            Verified
+                          </span>
+                        )}
+                      </td>
                       <td className="px-4 py-2">
                         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300">
                           {user.role}
@@ -298,16 +350,18 @@ export const PendingUsers: React.FC = () => {
                         {user.timestamp?.toDate
                           ? user.timestamp.toDate().toLocaleDateString()
                           : "-"}
+                        {isOverdue(user) && (
+                          <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300">
+                            Overdue ({Math.floor(ageInDays(user))} days)
+                          </span>
+                        )}
                       </td>
                       <td className="px-4 py-2 flex gap-2">
                         <Button
                           size="sm"
-                          onClick={() => {
-                            setSelectedUser(user);
-                            setShowApprovalForm(true);
-                            setShowRejectionForm(false);
-                          }}
-                          disabled={actioningUserId === user.uid}
+                          onClick={() => openReview("approve", [user])}
+                          disabled={submitting || isUnverified(user)}
+                          title={isUnverified(user) ? "The user has not verified their email yet" : undefined}
                           className="bg-green-600 hover:bg-green-700"
                         >
                           <CheckCircle className="w-4 h-4 mr-1" />
@@ -316,12 +370,8 @@ export const PendingUsers: React.FC = () => {
                         <Button
                           size="sm"
                           variant="destructive"
-                          onClick={() => {
-                            setSelectedUser(user);
-                            setShowRejectionForm(true);
-                            setShowApprovalForm(false);
-                          }}
-                          disabled={actioningUserId === user.uid}
+                          onClick={() => openReview("reject", [user])}
+                          disabled={submitting}
                         >
                           <XCircle className="w-4 h-4 mr-1" />
                           Reject
@@ -335,6 +385,15 @@ export const PendingUsers: React.FC = () => {
           )}
         </CardContent>
       </Card>
+
+      {/* Decisions made by approval rules */}
+      <AutoDecisions />
+
+      {/* Rejection history */}
+      <RejectedUsers />
+
+      {/* Invitations */}
+      <Invitations />
     </div>
   );
 };
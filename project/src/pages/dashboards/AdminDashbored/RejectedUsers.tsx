@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from "react";
+import { collection, limit, onSnapshot, orderBy, query } from "firebase/firestore";
+import { RotateCcw } from "lucide-react";
+import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { db } from "../../../lib/firebase";
+import { pendingReviewService } from "../../../services/pendingReviewService";
+import { RejectedUser } from "../../../types";
+
+export const RejectedUsers: React.FC = () => {
+  const [rejectedUsers, setRejectedUsers] = useState<RejectedUser[]>([]);
+  const [reconsideringId, setReconsideringId] = useState<string | null>(null);
+
+  // 🔹 Most recent rejections and expired requests
+  useEffect(() => {
+    const q = query(collection(db, "rejectedUsers"), orderBy("rejectedAt", "desc"), limit(100));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setRejectedUsers(
+        snapshot.docs.map((doc) => ({ uid: doc.id, ...doc.data() })) as RejectedUser[]
+      );
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  const handleReconsider = async (user: RejectedUser) => {
+    if (!window.confirm(`Move ${user.displayName || user.email} back to the pending list?`)) return;
+
+    setReconsideringId(user.uid);
+    try {
+      await pendingReviewService.reconsiderRejection(user.uid);
+    } catch (error) {
+      console.error("Error reconsidering rejection:", error);
+      alert(`Error: ${(error as Error).message}`);
+    } finally {
+      setReconsideringId(null);
+    }
+  };
+
+  if (rejectedUsers.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Rejected Requests</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Rejected and expired signups. Reconsidering returns them to the pending list.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+            <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+              <tr>
+                <th className="px-4 py-2">Name</th>
+                <th className="px-4 py-2">Email</th>
+                <th className="px-4 py-2">Role</th>
+                <th className="px-4 py-2">Outcome</th>
+                <th className="px-4 py-2">Message</th>
+                <th className="px-4 py-2">When</th>
+                <th className="px-4 py-2">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rejectedUsers.map((user) => (
+                <tr key={user.uid} className="border-b dark:border-gray-600">
+                  <td className="px-4 py-2">{user.displayName}</td>
+                  <td className="px-4 py-2">{user.email}</td>
+                  <td className="px-4 py-2 capitalize">{user.role}</td>
+                  <td className="px-4 py-2">
+                    <span
+                      className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        user.reason === "expired"
+                          ? "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
+                          : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300"
+                      }`}
+                    >
+                      {user.reason === "expired" ? "Expired" : "Rejected"}
+                    </span>
+                    {user.rejectedByName && (
+                      <div className="text-xs mt-1">by {user.rejectedByName}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">{user.rejectionMessage || "-"}</td>
+                  <td className="px-4 py-2">{user.rejectedAt?.toDate().toLocaleDateString() || "-"}</td>
+                  <td className="px-4 py-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      loading={reconsideringId === user.uid}
+                      onClick={() => handleReconsider(user)}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" /> Reconsider
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
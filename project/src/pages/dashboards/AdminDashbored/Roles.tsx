@@ -0,0 +1,312 @@
+import React, { useState } from "react";
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  limit,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+} from "firebase/firestore";
+import { Edit2, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Input } from "../../../components/ui/Input";
+import { db } from "../../../lib/firebase";
+import { logActivity } from "../../../lib/LogActivity";
+import { CAPABILITIES } from "../../../lib/permissions";
+import { useAuth } from "../../../contexts/AuthContext";
+import { useRoles } from "../../../hooks/useRoles";
+import { RoleDashboard, RoleDefinition } from "../../../types";
+
+const DASHBOARD_OPTIONS: { value: RoleDashboard; label: string }[] = [
+  { value: "admin", label: "Admin" },
+  { value: "trainer", label: "Trainer" },
+  { value: "trainee", label: "Trainee" },
+  { value: "user", label: "Basic" },
+  { value: "observer", label: "Observer (read-only)" },
+];
+
+const CAPABILITY_GROUPS = Array.from(new Set(CAPABILITIES.map((cap) => cap.group)));
+
+const EMPTY_ROLE: RoleDefinition = {
+  id: "",
+  name: "",
+  description: "",
+  dashboard: "admin",
+  capabilities: [],
+};
+
+const slugify = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export const Roles: React.FC = () => {
+  const { currentUser, can } = useAuth();
+  const { roles, loading } = useRoles();
+  const [editing, setEditing] = useState<RoleDefinition | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const toggleCapability = (capability: string) => {
+    if (!editing) return;
+    setEditing({
+      ...editing,
+      capabilities: editing.capabilities.includes(capability)
+        ? editing.capabilities.filter((cap) => cap !== capability)
+        : [...editing.capabilities, capability],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const id = isNew ? slugify(editing.name) : editing.id;
+    if (!id) {
+      alert("Please give the role a name.");
+      return;
+    }
+    if (isNew && roles.some((role) => role.id === id)) {
+      alert(`A role with the id "${id}" already exists.`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await setDoc(doc(db, "roles", id), {
+        name: editing.name.trim(),
+        description: editing.description || "",
+        dashboard: editing.dashboard,
+        capabilities: editing.capabilities,
+        readOnly: editing.readOnly === true,
+        timeBoxed: editing.timeBoxed === true,
+        builtIn: editing.builtIn === true,
+        updatedAt: serverTimestamp(),
+      });
+      await logActivity(
+        isNew ? "created role" : "edited role",
+        editing.name,
+        editing.capabilities.join(", ")
+      );
+      setEditing(null);
+    } catch (error) {
+      console.error("Error saving role:", error);
+      alert(`Error: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: RoleDefinition) => {
+    if (!window.confirm(`Delete the role "${role.name}"?`)) return;
+
+    try {
+      const holders = await getDocs(
+        query(collection(db, "users"), where("role", "==", role.id), limit(1))
+      );
+      if (!holders.empty) {
+        alert("Move every user off this role before deleting it.");
+        return;
+      }
+
+      await deleteDoc(doc(db, "roles", role.id));
+      await logActivity("deleted role", role.name);
+    } catch (error) {
+      console.error("Error deleting role:", error);
+      alert(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Roles</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Group capabilities into roles. Changes apply to every member the next time their
+            session refreshes.
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            setEditing(EMPTY_ROLE);
+            setIsNew(true);
+          }}
+        >
+          <Plus className="w-4 h-4 mr-1" /> New Role
+        </Button>
+      </div>
+
+      {editing && (
+        <Card>
+          <CardHeader>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {isNew ? "New Role" : `Edit ${editing.name}`}
+            </h3>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input
+                label="Name"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              />
+              <Input
+                label="Description"
+                value={editing.description || ""}
+                onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+              />
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Dashboard
+                <select
+                  value={editing.dashboard}
+                  onChange={(e) =>
+                    setEditing({ ...editing, dashboard: e.target.value as RoleDashboard })
+                  }
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+                >
+                  {DASHBOARD_OPTIONS.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-700 dark:text-gray-300">
+              {CAPABILITY_GROUPS.map((group) => (
+                <div key={group} className="space-y-1">
+                  <p className="font-medium">{group}</p>
+                  {CAPABILITIES.filter((cap) => cap.group === group).map((cap) => (
+                    <label key={cap.id} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={editing.capabilities.includes(cap.id)}
+                        // Editors only hand out what they hold; admin management
+                        // is for super admins alone
+                        disabled={
+                          cap.id === "admins.manage" ? !currentUser?.isSuperAdmin : !can(cap.id)
+                        }
+                        onChange={() => toggleCapability(cap.id)}
+                      />
+                      {cap.label}
+                      <code className="text-xs text-gray-400">{cap.id}</code>
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-6 text-sm text-gray-700 dark:text-gray-300">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={editing.readOnly === true}
+                  onChange={(e) => setEditing({ ...editing, readOnly: e.target.checked })}
+                />
+                Read-only (members can never write)
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={editing.timeBoxed === true}
+                  onChange={(e) => setEditing({ ...editing, timeBoxed: e.target.checked })}
+                />
+                Time-boxed (members need an access end date)
+              </label>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} loading={saving}>
+                Save Role
+              </Button>
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent>
+          {loading ? (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-12">Loading roles...</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  <tr>
+                    <th className="px-4 py-2">Role</th>
+                    <th className="px-4 py-2">Dashboard</th>
+                    <th className="px-4 py-2">Capabilities</th>
+                    <th className="px-4 py-2">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {roles.map((role) => (
+                    <tr key={role.id} className="border-b dark:border-gray-600">
+                      <td className="px-4 py-2">
+                        <div className="text-gray-900 dark:text-white">
+                          {role.name}
+                          {role.builtIn && (
+                            <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+                              Built-in
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs">{role.description || role.id}</div>
+                      </td>
+                      <td className="px-4 py-2 capitalize">
+                        {role.dashboard}
+                        {role.readOnly && <div className="text-xs normal-case">Read-only</div>}
+                        {role.timeBoxed && <div className="text-xs normal-case">Time-boxed</div>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex flex-wrap gap-1">
+                          {role.capabilities.length === 0
+                            ? "-"
+                            : role.capabilities.map((cap) => (
+                                <span
+                                  key={cap}
+                                  className="inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300"
+                                >
+                                  {cap}
+                                </span>
+                              ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex gap-3">
+                          <Edit2
+                            className="w-5 h-5 text-blue-500 cursor-pointer hover:text-blue-700"
+                            onClick={() => {
+                              setEditing(role);
+                              setIsNew(false);
+                            }}
+                          />
+                          {!role.builtIn && (
+                            <Trash2
+                              className="w-5 h-5 text-red-500 cursor-pointer hover:text-red-700"
+                              onClick={() => handleDelete(role)}
+                            />
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -24,7 +24,7 @@ interface SessionType {
   trainEnd: string;
 }
 
-export default function Session() {
+export default function Session({ readOnly = false }: { readOnly?: boolean }) {
   const [sessions, setSessions] = useState<SessionType[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -155,15 +155,17 @@ export default function Session() {
           <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">
             📅 Sessions
           </h2>
-          <Button
-            onClick={() => {
-              setShowForm(!showForm);
-              setEditingId(null);
-              setNewSession({ title: "", regStart: "", regEnd: "", trainStart: "", trainEnd: "" });
-            }}
-          >
-            {showForm ? "Close Form" : "➕ Create Session"}
-          </Button>
+          {!readOnly && (
+            <Button
+              onClick={() => {
+                setShowForm(!showForm);
+                setEditingId(null);
+                setNewSession({ title: "", regStart: "", regEnd: "", trainStart: "", trainEnd: "" });
+              }}
+            >
+              {showForm ? "Close Form" : "➕ Create Session"}
+            </Button>
+          )}
         </div>
 
         {/* Create/Edit Form */}
@@ -264,7 +266,9 @@ export default function Session() {
                 <th className="px-4 py-2 text-left border border-gray-200 dark:border-gray-700">Reg End</th>
                 <th className="px-4 py-2 text-left border border-gray-200 dark:border-gray-700">Training Start</th>
                 <th className="px-4 py-2 text-left border border-gray-200 dark:border-gray-700">Training End</th>
-                <th className="px-4 py-2 text-center border border-gray-200 dark:border-gray-700">Actions</th>
+                {!readOnly && (
+                  <th className="px-4 py-2 text-center border border-gray-200 dark:border-gray-700">Actions</th>
+                )}
               </tr>
             </thead>
             <tbody>
@@ -275,20 +279,22 @@ export default function Session() {
                   <td className="px-4 py-2 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300">{s.regEnd}</td>
                   <td className="px-4 py-2 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300">{s.trainStart}</td>
                   <td className="px-4 py-2 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300">{s.trainEnd}</td>
-                  <td className="px-4 py-2 text-center flex items-center justify-center space-x-3">
-                    <button
-                      className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
-                      onClick={() => handleEditSession(s)}
-                    >
-                      <Pencil size={18} />
-                    </button>
-                    <button
-                      className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
-                      onClick={() => handleDeleteSession(s.id!, s.title)}
-                    >
-                      <Trash2 size={18} />
-                    </button>
-                  </td>
+                  {!readOnly && (
+                    <td className="px-4 py-2 text-center flex items-center justify-center space-x-3">
+                      <button
+                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                        onClick={() => handleEditSession(s)}
+                      >
+                        <Pencil size={18} />
+                      </button>
+                      <button
+                        className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                        onClick={() => handleDeleteSession(s.id!, s.title)}
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </td>
+                  )}
                 </tr>
               ))}
             </tbody>
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from "react";
+import { doc, onSnapshot, setDoc } from "firebase/firestore";
+import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { Input } from "../../../components/ui/Input";
+import { db } from "../../../lib/firebase";
+import { logActivity } from "../../../lib/LogActivity";
+import { DEFAULT_SESSION_POLICY } from "../../../services/sessionService";
+import { SessionPolicy } from "../../../types";
+
+export const SessionSettings: React.FC = () => {
+  const [policy, setPolicy] = useState<SessionPolicy>(DEFAULT_SESSION_POLICY);
+  const [saving, setSaving] = useState(false);
+
+  // 🔹 Load the stored policy, falling back to the defaults
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, "settings", "sessionPolicy"), (snapshot) => {
+      setPolicy({ ...DEFAULT_SESSION_POLICY, ...snapshot.data() });
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  const handleSave = async () => {
+    if (policy.idleTimeoutMinutes !== null && policy.idleTimeoutMinutes < 1) {
+      alert("The idle timeout must be at least one minute.");
+      return;
+    }
+    if (policy.warningSeconds < 10) {
+      alert("Show the warning for at least 10 seconds.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await setDoc(doc(db, "settings", "sessionPolicy"), policy, { merge: true });
+      await logActivity(
+        "updated session policy",
+        "",
+        `Idle timeout: ${policy.idleTimeoutMinutes ?? "off"}, exam mode: ${policy.examMode ? "on" : "off"}`
+      );
+      alert("Settings saved.");
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      alert(`Error: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Sessions</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Sign people out of shared training-room machines after a period without activity. They
+          are warned first and can stay signed in.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Idle timeout (minutes, empty for never)"
+            type="number"
+            min={1}
+            value={policy.idleTimeoutMinutes ?? ""}
+            onChange={(e) =>
+              setPolicy({
+                ...policy,
+                idleTimeoutMinutes: e.target.value ? Number(e.target.value) : null,
+              })
+            }
+          />
+          <Input
+            label="Warn before signing out (seconds)"
+            type="number"
+            min={10}
+            value={policy.warningSeconds}
+            onChange={(e) => setPolicy({ ...policy, warningSeconds: Number(e.target.value) })}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={policy.examMode}
+            onChange={(e) => setPolicy({ ...policy, examMode: e.target.checked })}
+          />
+          Exam mode: trainees can only be signed in once, and a new sign-in ends their other
+          sessions
+        </label>
+        <Button onClick={handleSave} loading={saving}>
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
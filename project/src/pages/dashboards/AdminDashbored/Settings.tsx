@@ -0,0 +1,26 @@
+import React from "react";
+import { ApprovalRules } from "./ApprovalRules";
+import { PendingApprovalSettings } from "./PendingApprovalSettings";
+import { SessionSettings } from "./SessionSettings";
+import { InactivitySettings } from "./InactivitySettings";
+
+export const Settings: React.FC = () => {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Settings</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Configure how the platform handles accounts
+        </p>
+      </div>
+
+      <ApprovalRules />
+
+      <PendingApprovalSettings />
+
+      <SessionSettings />
+
+      <InactivitySettings />
+    </div>
+  );
+};
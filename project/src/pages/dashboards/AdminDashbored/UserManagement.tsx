@@ -2,65 +2,114 @@ import React, { useState, useEffect } from "react";
 import { Card, CardContent } from "../../../components/ui/Card";
 import { Button } from "../../../components/ui/Button";
 import { Input } from "../../../components/ui/Input";
-import { Users, Plus, Edit2, Trash2, Eye, EyeOff } from "lucide-react";
-import { db, auth } from "../../../lib/firebase";
+import {
+  Users,
+  Plus,
+  Edit2,
+  Trash2,
+  Eye,
+  EyeOff,
+  Upload,
+  Ban,
+  RotateCcw,
+  Download,
+  ScanEye,
+  MonitorSmartphone,
+} from "lucide-react";
+import { db, auth, functions } from "../../../lib/firebase";
 import {
   collection,
   doc,
   setDoc,
-  getDocs,
-  deleteDoc,
   updateDoc,
   serverTimestamp,
   orderBy,
   limit,
   query,
   onSnapshot,
-  where,
-  getDoc,
+  Timestamp,
+  deleteField,
 } from "firebase/firestore";
-import { createUserWithEmailAndPassword, updateEmail } from "firebase/auth";
+import { updateEmail } from "firebase/auth";
+import { httpsCallable } from "firebase/functions";
+import { BulkUserImport } from "./BulkUserImport";
+import { UserSessions } from "./UserSessions";
+import { Certification, DeletionReceipt } from "../../../types";
+import { dataExportService } from "../../../services/dataExportService";
+import { useAuth } from "../../../contexts/AuthContext";
+import { useRoles } from "../../../hooks/useRoles";
+import { useOrgUnits } from "../../../hooks/useOrgUnits";
+import { UnitSelect } from "../../../components/org/UnitSelect";
+import { isInUnits, unitLabel } from "../../../lib/orgUnits";
+import { ProfileSummary } from "../../../components/profile/ProfileSummary";
+
+// Accounts get these roles through signup, never from this screen
+const UNASSIGNABLE_ROLES = ["pending", "user"];
 
 interface User {
   id?: string;
   uid: string;
   displayName: string;
   email: string;
-  role: "trainee" | "trainer" | "admin" | "pending";
+  role: string;
   createdAt?: Date;
   isSuperAdmin?: boolean;
+  accountStatus?: "active" | "suspended";
+  suspension?: {
+    reason: string;
+    until: Timestamp | null;
+  };
+  accessExpiresAt?: Timestamp;
+  unitId?: string;
+  unitPath?: string[];
+  photoURL?: string;
+  employeeId?: string;
+  jobGrade?: string;
+  department?: string;
+  phone?: string;
+  certifications?: Certification[];
 }
 
+// Time-boxed access runs to the end of the chosen day
+const endOfDay = (date: string) => new Date(`${date}T23:59:59`);
+const toDateInput = (ts?: Timestamp) => (ts ? ts.toDate().toLocaleDateString("en-CA") : "");
+
 export const UserManagement: React.FC = () => {
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddUserForm, setShowAddUserForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [showPassword, setShowPassword] = useState(false);
-  const [isSuperAdmin, setIsSuperAdmin] = useState(false);
+
+  const [creatingUser, setCreatingUser] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<"all" | "active" | "suspended">("all");
+  const [unitFilter, setUnitFilter] = useState("");
+  const [suspendingUser, setSuspendingUser] = useState<User | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null);
+  const [suspendForm, setSuspendForm] = useState({ reason: "", until: "" });
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+  const [exportingUid, setExportingUid] = useState<string | null>(null);
+  const [editAccessUntil, setEditAccessUntil] = useState("");
 
   const [newUser, setNewUser] = useState({
     displayName: "",
     email: "",
     password: "",
-    role: "trainee" as "trainee" | "trainer" | "admin",
+    role: "trainee",
+    sendSetupLink: true,
+    accessExpiresAt: "",
+    unitId: "",
   });
 
   const currentUser = auth.currentUser;
-
-  // 🔹 Check if current user is Super Admin
-  useEffect(() => {
-    const fetchSuperAdminStatus = async () => {
-      if (!currentUser) return;
-      const userRef = doc(db, "users", currentUser.uid);
-      const snap = await getDoc(userRef);
-      if (snap.exists()) {
-        const data = snap.data();
-        setIsSuperAdmin(data.isSuperAdmin === true);
-      }
-    };
-    fetchSuperAdminStatus();
-  }, [currentUser]);
+  const { can, startViewingAs } = useAuth();
+  const canManageAdmins = can("admins.manage");
+  const canViewAs = can("users.impersonate");
+  const { roles, canAssignRole } = useRoles();
+  const { units } = useOrgUnits();
+  const assignableRoles = roles.filter((role) => !UNASSIGNABLE_ROLES.includes(role.id));
+  const isTimeBoxed = (roleId: string) => roles.some((role) => role.id === roleId && role.timeBoxed);
 
   // 🔹 Real-time Firestore subscription
   useEffect(() => {
@@ -101,69 +150,71 @@ export const UserManagement: React.FC = () => {
     }
   };
 
-  // 🔹 Add User
+  // 🔹 Add User (server-side, so the admin stays signed in)
   const handleAddUser = async () => {
-    const { displayName, email, password, role } = newUser;
-    if (!displayName || !email || !password) {
+    const { displayName, email, password, role, sendSetupLink, accessExpiresAt } = newUser;
+    if (!displayName || !email || (!password && !sendSetupLink)) {
       alert("Please fill all fields.");
       return;
     }
+    if (isTimeBoxed(role) && !accessExpiresAt) {
+      alert("This role needs an access end date.");
+      return;
+    }
 
-    try {
-      // Prevent duplicate users
-      const userRef = collection(db, "users");
-      const q = query(userRef, where("email", "==", email));
-      const snapshot = await getDocs(q);
-      if (!snapshot.empty) {
-        alert("User with this email already exists!");
-        return;
-      }
-
-      // Prevent non-super admins from creating admins
-      if (role === "admin" && !isSuperAdmin) {
-        alert("Only Super Admins can create new admins!");
-        return;
-      }
-
-      // Create Firebase Auth user
-      const userCredential = await createUserWithEmailAndPassword(auth, email, password);
-      const uid = userCredential.user.uid;
-
-      const userData: User = {
-        uid,
-        displayName,
-        email,
-        role: "pending",
-        createdAt: new Date(),
-      };
-
-      await setDoc(doc(db, "users", uid), {
-        ...userData,
-        lastLogin: new Date(),
-        timestamp: serverTimestamp(),
-      });
+    // Only holders of admins.manage can create admins or roles above the editor
+    if (!canAssignRole(role)) {
+      alert(
+        role === "admin"
+          ? "Only Super Admins can create new admins!"
+          : "This role holds permissions you do not have."
+      );
+      return;
+    }
 
-      await setDoc(doc(db, "pendingUsers", uid), {
-        uid,
-        displayName,
-        email,
-        role,
-        timestamp: serverTimestamp(),
+    setCreatingUser(true);
+    try {
+      const createUser = httpsCallable<
+        typeof newUser,
+        { uid: string; passwordSetupLink?: string; emailQueued?: boolean }
+      >(functions, "createUser");
+      const { data } = await createUser({
+        ...newUser,
+        accessExpiresAt:
+          isTimeBoxed(role) && accessExpiresAt ? endOfDay(accessExpiresAt).toISOString() : "",
       });
 
       await addActivityLog(
         currentUser?.displayName || "Admin",
         "added",
         displayName,
-        `Requested role: ${role}`
+        `Role: ${role}${isTimeBoxed(role) ? `, access until ${accessExpiresAt}` : ""}`
       );
 
-      setNewUser({ displayName: "", email: "", password: "", role: "trainee" });
+      setNewUser({
+        displayName: "",
+        email: "",
+        password: "",
+        role: "trainee",
+        sendSetupLink: true,
+        accessExpiresAt: "",
+        unitId: "",
+      });
       setShowAddUserForm(false);
-      alert("User added successfully (pending approval)!");
+
+      if (data.passwordSetupLink && !data.emailQueued) {
+        prompt(
+          "User created, but the setup email could not be queued. Share this link with them:",
+          data.passwordSetupLink
+        );
+      } else {
+        alert("User created successfully!");
+      }
     } catch (err: any) {
       console.error("Error adding user:", err);
       alert(`Error: ${err.message}`);
+    } finally {
+      setCreatingUser(false);
     }
   };
 
@@ -172,20 +223,38 @@ export const UserManagement: React.FC = () => {
     if (!editingUser || !editingUser.id) return;
 
     try {
-      // Only super admins can edit other admins
+      // Only holders of admins.manage can edit other admins
       if (
         editingUser.role === "admin" &&
         editingUser.uid !== currentUser?.uid &&
-        !isSuperAdmin
+        !canManageAdmins
       ) {
         alert("You cannot edit another admin!");
         return;
       }
+      const previousRole = users.find((u) => u.id === editingUser.id)?.role;
+      if (
+        previousRole !== editingUser.role &&
+        !(canAssignRole(previousRole || "pending") && canAssignRole(editingUser.role))
+      ) {
+        alert("You can only grant or remove roles that hold no permissions beyond your own.");
+        return;
+      }
+
+      const timeBoxed = isTimeBoxed(editingUser.role);
+      if (timeBoxed && (!editAccessUntil || endOfDay(editAccessUntil) <= new Date())) {
+        alert("This role needs an access end date in the future.");
+        return;
+      }
 
       await updateDoc(doc(db, "users", editingUser.id), {
         displayName: editingUser.displayName,
         email: editingUser.email,
         role: editingUser.role,
+        accessExpiresAt: timeBoxed
+          ? Timestamp.fromDate(endOfDay(editAccessUntil))
+          : deleteField(),
+        unitId: editingUser.unitId || deleteField(),
       });
 
       if (
@@ -200,7 +269,7 @@ export const UserManagement: React.FC = () => {
         currentUser?.displayName || "Admin",
         "edited",
         editingUser.displayName,
-        `Role changed to: ${editingUser.role}`
+        `Role changed to: ${editingUser.role}${timeBoxed ? `, access until ${editAccessUntil}` : ""}`
       );
 
       setEditingUser(null);
@@ -211,6 +280,23 @@ export const UserManagement: React.FC = () => {
     }
   };
 
+  // 🔹 View the app as this user, read-only
+  const handleViewAs = async (user: User) => {
+    if (
+      !window.confirm(
+        `View the app as ${user.displayName || user.email}? You cannot change anything until you exit, and the session is logged.`
+      )
+    )
+      return;
+
+    try {
+      await startViewingAs(user.uid);
+    } catch (err) {
+      console.error("Error starting view-as session:", err);
+      alert(`Error: ${(err as Error).message}`);
+    }
+  };
+
   // 🔹 Delete User
   const handleDeleteUser = async (user: User) => {
     if (!window.confirm("Are you sure you want to delete this user?")) return;
@@ -222,7 +308,7 @@ export const UserManagement: React.FC = () => {
     }
 
     if (
-      (user.role === "admin" && !isSuperAdmin) ||
+      (user.role === "admin" && !canManageAdmins) ||
       user.uid === currentUser?.uid
     ) {
       alert("You cannot delete this user!");
@@ -230,22 +316,101 @@ export const UserManagement: React.FC = () => {
     }
 
     try {
-      if (!user.id) return;
-      await deleteDoc(doc(db, "users", user.id));
-
-      await addActivityLog(
-        currentUser?.displayName || "Admin",
-        "deleted",
-        user.displayName
+      const deleteUserAccount = httpsCallable<
+        { uid: string },
+        { receipt: DeletionReceipt; emailSent: boolean }
+      >(
+        functions,
+        "deleteUserAccount"
+      );
+      const { data } = await deleteUserAccount({ uid: user.uid });
+
+      const summary = data.receipt.collections
+        .filter((entry) => entry.count > 0)
+        .map(
+          (entry) =>
+            `${entry.collection}: ${entry.count - (entry.failed || 0)} ` +
+            `${entry.action === "delete" ? "deleted" : "anonymized"}` +
+            (entry.failed ? `, ${entry.failed} failed` : "")
+        )
+        .concat(data.receipt.filesDeleted ? [`files: ${data.receipt.filesDeleted} deleted`] : [])
+        .join("\n");
+      alert(
+        `${
+          data.receipt.complete === false
+            ? "User deleted, but some records could not be removed."
+            : "User deleted successfully!"
+        }\n\nReceipt ${data.receipt.id}\n${summary}` +
+          (data.emailSent ? "" : "\n\nThe user was not emailed about the deletion.")
       );
-
-      alert("User deleted successfully!");
     } catch (err: any) {
       console.error("Error deleting user:", err);
       alert(`Error: ${err.message}`);
     }
   };
 
+  // 🔹 Suspend User (disables sign-in but keeps all data)
+  const handleSuspend = async () => {
+    if (!suspendingUser) return;
+    if (!suspendForm.reason.trim()) {
+      alert("Please enter a reason for the suspension.");
+      return;
+    }
+
+    setUpdatingStatus(true);
+    try {
+      const suspendUser = httpsCallable(functions, "suspendUser");
+      await suspendUser({
+        uid: suspendingUser.uid,
+        reason: suspendForm.reason.trim(),
+        until: suspendForm.until ? new Date(`${suspendForm.until}T00:00:00`).toISOString() : null,
+      });
+
+      setSuspendingUser(null);
+      setSuspendForm({ reason: "", until: "" });
+      alert("User suspended.");
+    } catch (err) {
+      console.error("Error suspending user:", err);
+      alert(`Error: ${(err as Error).message}`);
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
+  // 🔹 Reactivate User
+  const handleReactivate = async (user: User) => {
+    if (!window.confirm(`Reactivate ${user.displayName || user.email}?`)) return;
+
+    try {
+      const reactivateUser = httpsCallable(functions, "reactivateUser");
+      await reactivateUser({ uid: user.uid });
+      alert("User reactivated.");
+    } catch (err) {
+      console.error("Error reactivating user:", err);
+      alert(`Error: ${(err as Error).message}`);
+    }
+  };
+
+  // 🔹 Export a user's personal data
+  const handleExport = async (user: User) => {
+    setExportingUid(user.uid);
+    try {
+      await dataExportService.downloadUserData(user.uid);
+    } catch (err) {
+      console.error("Error exporting user data:", err);
+      alert(`Error: ${(err as Error).message}`);
+    } finally {
+      setExportingUid(null);
+    }
+  };
+
+  // A unit filter includes the units below it
+  const filteredUsers = users.filter(
+    (user) =>
+      (statusFilter === "all" || (user.accountStatus || "active") === statusFilter) &&
+      (!unitFilter || isInUnits(user.unitPath, [unitFilter]))
+  );
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -258,11 +423,19 @@ export const UserManagement: React.FC = () => {
             Manage users and their roles
           </p>
         </div>
-        <Button onClick={() => setShowAddUserForm(true)}>
-          <Plus className="w-4 h-4 mr-2" /> Add User
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowImport(true)}>
+            <Upload className="w-4 h-4 mr-2" /> Import Users
+          </Button>
+          <Button onClick={() => setShowAddUserForm(true)}>
+            <Plus className="w-4 h-4 mr-2" /> Add User
+          </Button>
+        </div>
       </div>
 
+      {/* Bulk Import */}
+      {showImport && <BulkUserImport onClose={() => setShowImport(false)} />}
+
       {/* Add User Form */}
       {showAddUserForm && (
         <Card>
@@ -281,9 +454,19 @@ export const UserManagement: React.FC = () => {
                 setNewUser({ ...newUser, email: e.target.value })
               }
             />
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={newUser.sendSetupLink}
+                onChange={(e) =>
+                  setNewUser({ ...newUser, sendSetupLink: e.target.checked })
+                }
+              />
+              Email a password setup link
+            </label>
             <div className="relative">
               <Input
-                placeholder="Password"
+                placeholder={newUser.sendSetupLink ? "Password (optional)" : "Password"}
                 type={showPassword ? "text" : "password"}
                 value={newUser.password}
                 onChange={(e) =>
@@ -303,20 +486,34 @@ export const UserManagement: React.FC = () => {
             </div>
             <select
               value={newUser.role}
-              onChange={(e) =>
-                setNewUser({
-                  ...newUser,
-                  role: e.target.value as "trainee" | "trainer" | "admin",
-                })
-              }
+              onChange={(e) => setNewUser({ ...newUser, role: e.target.value })}
               className="px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
             >
-              <option value="trainee">Trainee</option>
-              <option value="trainer">Trainer</option>
-              {isSuperAdmin && <option value="admin">Admin</option>}
+              {assignableRoles
+                .filter((role) => canAssignRole(role.id))
+                .map((role) => (
+                  <option key={role.id} value={role.id}>
+                    {role.name}
+                  </option>
+                ))}
             </select>
+            <UnitSelect
+              units={units}
+              value={newUser.unitId}
+              onChange={(unitId) => setNewUser({ ...newUser, unitId })}
+            />
+            {isTimeBoxed(newUser.role) && (
+              <Input
+                label="Access until"
+                type="date"
+                value={newUser.accessExpiresAt}
+                onChange={(e) => setNewUser({ ...newUser, accessExpiresAt: e.target.value })}
+              />
+            )}
             <div className="flex gap-2">
-              <Button onClick={handleAddUser}>Save User</Button>
+              <Button onClick={handleAddUser} loading={creatingUser}>
+                Save User
+              </Button>
               <Button
                 variant="outline"
                 onClick={() => setShowAddUserForm(false)}
@@ -348,20 +545,34 @@ export const UserManagement: React.FC = () => {
             />
             <select
               value={editingUser.role}
-              onChange={(e) =>
-                setEditingUser({
-                  ...editingUser,
-                  role: e.target.value as "trainee" | "trainer" | "admin",
-                })
-              }
+              onChange={(e) => setEditingUser({ ...editingUser, role: e.target.value })}
               className="px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
             >
-              <option value="trainee">Trainee</option>
-              <option value="trainer">Trainer</option>
-              {(isSuperAdmin || editingUser.uid === currentUser?.uid) && (
-                <option value="admin">Admin</option>
-              )}
+              {assignableRoles
+                .filter(
+                  (role) =>
+                    canAssignRole(role.id) ||
+                    role.id === users.find((u) => u.id === editingUser.id)?.role
+                )
+                .map((role) => (
+                  <option key={role.id} value={role.id}>
+                    {role.name}
+                  </option>
+                ))}
             </select>
+            <UnitSelect
+              units={units}
+              value={editingUser.unitId || ""}
+              onChange={(unitId) => setEditingUser({ ...editingUser, unitId })}
+            />
+            {isTimeBoxed(editingUser.role) && (
+              <Input
+                label="Access until"
+                type="date"
+                value={editAccessUntil}
+                onChange={(e) => setEditAccessUntil(e.target.value)}
+              />
+            )}
             <div className="flex gap-2">
               <Button onClick={handleSaveEdit}>Save Changes</Button>
               <Button variant="outline" onClick={() => setEditingUser(null)}>
@@ -372,6 +583,66 @@ export const UserManagement: React.FC = () => {
         </Card>
       )}
 
+      {/* Suspend User Form */}
+      {suspendingUser && (
+        <Card>
+          <CardContent className="space-y-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Suspend {suspendingUser.displayName || suspendingUser.email}
+            </h3>
+            <textarea
+              value={suspendForm.reason}
+              onChange={(e) => setSuspendForm({ ...suspendForm, reason: e.target.value })}
+              placeholder="Reason (shown to the user)..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white min-h-[80px]"
+            />
+            <Input
+              label="Suspended until (optional)"
+              type="date"
+              value={suspendForm.until}
+              onChange={(e) => setSuspendForm({ ...suspendForm, until: e.target.value })}
+            />
+            <div className="flex gap-2">
+              <Button variant="destructive" onClick={handleSuspend} loading={updatingStatus}>
+                Suspend User
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setSuspendingUser(null);
+                  setSuspendForm({ reason: "", until: "" });
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {sessionsUser && (
+        <UserSessions user={sessionsUser} onClose={() => setSessionsUser(null)} />
+      )}
+
+      {/* Filters */}
+      <div className="flex justify-end gap-2">
+        <UnitSelect
+          units={units}
+          value={unitFilter}
+          onChange={setUnitFilter}
+          emptyLabel="All units"
+        />
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as "all" | "active" | "suspended")}
+          className="px-3 py-2 border border-gray-300 rounded-lg dark:bg-gray-700 dark:text-white"
+        >
+          <option value="all">All statuses</option>
+          <option value="active">Active</option>
+          <option value="suspended">Suspended</option>
+        </select>
+      </div>
+
       {/* Users Table */}
       <Card>
         <CardContent>
@@ -379,7 +650,7 @@ export const UserManagement: React.FC = () => {
             <p className="text-center text-gray-500 dark:text-gray-400 py-12">
               Loading users...
             </p>
-          ) : users.length === 0 ? (
+          ) : filteredUsers.length === 0 ? (
             <div className="text-center py-12">
               <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
               <p className="text-gray-500 dark:text-gray-400">No users found.</p>
@@ -392,16 +663,30 @@ export const UserManagement: React.FC = () => {
                     <th className="px-4 py-2">Name</th>
                     <th className="px-4 py-2">Email</th>
                     <th className="px-4 py-2">Role</th>
+                    <th className="px-4 py-2">Unit</th>
+                    <th className="px-4 py-2">Status</th>
                     <th className="px-4 py-2">Created At</th>
                     <th className="px-4 py-2">Actions</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {users.map((user) => {
+                  {filteredUsers.map((user) => {
                     const disableEdit =
-                      user.isSuperAdmin && !isSuperAdmin; // disable edit if viewing super admin and not super admin
+                      user.isSuperAdmin && !canManageAdmins; // disable edit if viewing super admin and not super admin
                     const disableDelete =
-                      user.isSuperAdmin && !isSuperAdmin; // disable delete same way
+                      user.isSuperAdmin && !canManageAdmins; // disable delete same way
+                    const disableSuspend =
+                      user.isSuperAdmin ||
+                      user.uid === currentUser?.uid ||
+                      (user.role === "admin" && !canManageAdmins);
+                    const disableViewAs =
+                      user.isSuperAdmin ||
+                      user.uid === currentUser?.uid ||
+                      (user.role === "admin" && !canManageAdmins);
+                    const disableSessions =
+                      user.uid !== currentUser?.uid &&
+                      (user.isSuperAdmin || (user.role === "admin" && !canManageAdmins));
+                    const isSuspended = user.accountStatus === "suspended";
 
                     return (
                       <tr
@@ -409,7 +694,7 @@ export const UserManagement: React.FC = () => {
                         className="border-b dark:border-gray-600"
                       >
                         <td className="px-4 py-2">
-                          {user.displayName || "N/A"}
+                          <ProfileSummary user={{ ...user, displayName: user.displayName || "N/A" }} />
                           {user.isSuperAdmin && (
                             <span className="ml-2 text-xs text-yellow-500 font-semibold">
                               (Super Admin)
@@ -417,7 +702,31 @@ export const UserManagement: React.FC = () => {
                           )}
                         </td>
                         <td className="px-4 py-2">{user.email}</td>
-                        <td className="px-4 py-2 capitalize">{user.role}</td>
+                        <td className="px-4 py-2 capitalize">
+                          {user.role}
+                          {user.accessExpiresAt && (
+                            <div className="text-xs normal-case">
+                              Access until {user.accessExpiresAt.toDate().toLocaleDateString()}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">{unitLabel(units, user.unitId) || "-"}</td>
+                        <td className="px-4 py-2">
+                          {isSuspended ? (
+                            <span
+                              title={user.suspension?.reason}
+                              className="inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300"
+                            >
+                              Suspended
+                              {user.suspension?.until &&
+                                ` until ${user.suspension.until.toDate().toLocaleDateString()}`}
+                            </span>
+                          ) : (
+                            <span className="inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
+                              Active
+                            </span>
+                          )}
+                        </td>
                         <td className="px-4 py-2">
                           {user.createdAt instanceof Date
                             ? user.createdAt.toLocaleDateString()
@@ -431,7 +740,9 @@ export const UserManagement: React.FC = () => {
                                 : "text-blue-500 cursor-pointer hover:text-blue-700"
                             }`}
                             onClick={() => {
-                              if (!disableEdit) setEditingUser(user);
+                              if (disableEdit) return;
+                              setEditingUser(user);
+                              setEditAccessUntil(toDateInput(user.accessExpiresAt));
                             }}
                           />
                           <Trash2
@@ -444,6 +755,59 @@ export const UserManagement: React.FC = () => {
                               if (!disableDelete) handleDeleteUser(user);
                             }}
                           />
+                          {canViewAs && (
+                            <span title="View as this user">
+                              <ScanEye
+                                className={`w-5 h-5 ${
+                                  disableViewAs
+                                    ? "text-gray-400 cursor-not-allowed"
+                                    : "text-purple-500 cursor-pointer hover:text-purple-700"
+                                }`}
+                                onClick={() => {
+                                  if (!disableViewAs) handleViewAs(user);
+                                }}
+                              />
+                            </span>
+                          )}
+                          <span title="Active sessions">
+                            <MonitorSmartphone
+                              className={`w-5 h-5 ${
+                                disableSessions
+                                  ? "text-gray-400 cursor-not-allowed"
+                                  : "text-teal-500 cursor-pointer hover:text-teal-700"
+                              }`}
+                              onClick={() => {
+                                if (!disableSessions) setSessionsUser(user);
+                              }}
+                            />
+                          </span>
+                          <Download
+                            className={`w-5 h-5 ${
+                              exportingUid === user.uid
+                                ? "text-gray-400 cursor-wait"
+                                : "text-gray-500 cursor-pointer hover:text-gray-700"
+                            }`}
+                            onClick={() => {
+                              if (!exportingUid) handleExport(user);
+                            }}
+                          />
+                          {isSuspended ? (
+                            <RotateCcw
+                              className="w-5 h-5 text-green-500 cursor-pointer hover:text-green-700"
+                              onClick={() => handleReactivate(user)}
+                            />
+                          ) : (
+                            <Ban
+                              className={`w-5 h-5 ${
+                                disableSuspend
+                                  ? "text-gray-400 cursor-not-allowed"
+                                  : "text-orange-500 cursor-pointer hover:text-orange-700"
+                              }`}
+                              onClick={() => {
+                                if (!disableSuspend) setSuspendingUser(user);
+                              }}
+                            />
+                          )}
                         </td>
                       </tr>
                     );
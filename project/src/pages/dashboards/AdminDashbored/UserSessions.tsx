@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from "react";
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import { Card, CardContent } from "../../../components/ui/Card";
+import { Button } from "../../../components/ui/Button";
+import { db } from "../../../lib/firebase";
+import { sessionService } from "../../../services/sessionService";
+import { UserSession } from "../../../types";
+
+interface UserSessionsProps {
+  user: { uid: string; displayName?: string; email: string };
+  onClose: () => void;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Mac OS/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// "Chrome on Windows" is enough to tell a training-room PC from a phone
+const describeDevice = (userAgent: string) => {
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] || "Browser";
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return system ? `${browser} on ${system}` : browser;
+};
+
+export const UserSessions: React.FC<UserSessionsProps> = ({ user, onClose }) => {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  useEffect(() => {
+    const q = query(
+      collection(db, "userSessions"),
+      where("uid", "==", user.uid),
+      where("endedAt", "==", null)
+    );
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) =>
+        setSessions(
+          snapshot.docs
+            .map((d) => ({ id: d.id, ...d.data() }) as UserSession)
+            .sort((a, b) => (b.lastSeenAt?.toMillis() || 0) - (a.lastSeenAt?.toMillis() || 0))
+        ),
+      (error) => console.error("Error fetching sessions:", error)
+    );
+    return () => unsubscribe();
+  }, [user.uid]);
+
+  const handleRevoke = async (sessionId?: string) => {
+    const message = sessionId
+      ? "End this session? The browser is signed out straight away."
+      : `Sign ${user.displayName || user.email} out everywhere? Their refresh tokens are revoked, so every device has to sign in again.`;
+    if (!window.confirm(message)) return;
+
+    setRevoking(sessionId || "all");
+    try {
+      await sessionService.revoke(user.uid, sessionId);
+    } catch (err) {
+      console.error("Error revoking sessions:", err);
+      alert(`Error: ${(err as Error).message}`);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Active sessions for {user.displayName || user.email}
+          </h3>
+          <div className="flex gap-2">
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => handleRevoke()}
+              loading={revoking === "all"}
+            >
+              Sign out everywhere
+            </Button>
+            <Button variant="outline" size="sm" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </div>
+
+        {sessions.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No active sessions.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+              <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                <tr>
+                  <th className="px-4 py-2">Device</th>
+                  <th className="px-4 py-2">Signed in</th>
+                  <th className="px-4 py-2">Last seen</th>
+                  <th className="px-4 py-2">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sessions.map((session) => (
+                  <tr key={session.id} className="border-b dark:border-gray-600">
+                    <td className="px-4 py-2" title={session.userAgent}>
+                      {describeDevice(session.userAgent)}
+                    </td>
+                    <td className="px-4 py-2">{session.startedAt?.toDate().toLocaleString() || "-"}</td>
+                    <td className="px-4 py-2">{session.lastSeenAt?.toDate().toLocaleString() || "-"}</td>
+                    <td className="px-4 py-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRevoke(session.id)}
+                        loading={revoking === session.id}
+                      >
+                        Revoke
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -5,12 +5,13 @@ import { CourseCard } from "../../../components/courses/CourseCard";
 import { Input } from "../../../components/ui/Input";
 import { Card, CardContent } from "../../../components/ui/Card";
 import { User, Course } from "../../../types";
+import { isInUnits } from "../../../lib/orgUnits";
 
 interface BrowseCoursesProps {
   currentUser: User | null;
 }
 
-export const BrowseCourses: React.FC<BrowseCoursesProps> = () => {
+export const BrowseCourses: React.FC<BrowseCoursesProps> = ({ currentUser }) => {
   const [courses, setCourses] = useState<Course[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -64,9 +65,16 @@ export const BrowseCourses: React.FC<BrowseCoursesProps> = () => {
       const matchesLevel =
         selectedLevel === "All Levels" || course.level === selectedLevel;
 
-      return matchesSearch && matchesCategory && matchesLevel;
+      // Drafts stay hidden until an admin publishes them
+      return (
+        course.status !== "draft" &&
+        matchesSearch &&
+        matchesCategory &&
+        matchesLevel &&
+        isInUnits(currentUser?.unitPath, course.unitIds)
+      );
     });
-  }, [courses, searchTerm, selectedCategory, selectedLevel]);
+  }, [courses, searchTerm, selectedCategory, selectedLevel, currentUser?.unitPath]);
 
   return (
     <div className="space-y-8">
@@ -130,7 +138,12 @@ export const BrowseCourses: React.FC<BrowseCoursesProps> = () => {
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
           {filteredCourses.map((course) => (
-            <CourseCard key={course.id} course={course} showActions={false} />
+            <CourseCard
+              key={course.id}
+              course={course}
+              showActions={false}
+              currentUserId={currentUser?.uid}
+            />
           ))}
         </div>
       )}
@@ -1,11 +1,21 @@
-import React, { useState } from "react";
-import { Users } from "lucide-react";
+import React, { useRef, useState } from "react";
+import { Users, Download, Camera, Plus, Trash2 } from "lucide-react";
 import { Button } from "../../../components/ui/Button";
 import { Input } from "../../../components/ui/Input";
 import { Card, CardContent, CardHeader } from "../../../components/ui/Card";
 import { User } from "../../../types";
 import { db, auth } from "../../../lib/firebase";
-import { doc, updateDoc } from "firebase/firestore";
+import { doc, updateDoc, Timestamp } from "firebase/firestore";
+import { dataExportService } from "../../../services/dataExportService";
+import { profileService } from "../../../services/profileService";
+import { useOrgUnits } from "../../../hooks/useOrgUnits";
+import { unitLabel } from "../../../lib/orgUnits";
+import {
+  CERTIFICATION_STATUS_STYLES,
+  CERTIFICATION_TYPES,
+  certificationStatus,
+} from "../../../lib/certifications";
+import { EMAIL_LOCALES } from "../../../services/emailTemplateService";
 import {
   updateEmail,
   updateProfile,
@@ -16,9 +26,26 @@ import {
 
 interface ProfileProps {
   currentUser: User | null;
+  readOnly?: boolean; // admins viewing as the user: no edits or exports
+}
+
+// Certifications as edited in the form; expiry is a yyyy-mm-dd string
+interface CertificationRow {
+  type: string;
+  number: string;
+  expiresOn: string;
 }
 
-export const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
+const toRows = (user: User | null): CertificationRow[] =>
+  (user?.certifications || []).map((certification) => ({
+    type: certification.type,
+    number: certification.number || "",
+    expiresOn: certification.expiresAt
+      ? certification.expiresAt.toDate().toISOString().slice(0, 10)
+      : "",
+  }));
+
+export const Profile: React.FC<ProfileProps> = ({ currentUser, readOnly = false }) => {
   const [displayName, setDisplayName] = useState(currentUser?.displayName || "");
   const [email, setEmail] = useState(currentUser?.email || "");
   const [role] = useState(
@@ -27,6 +54,20 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
 
   const [isEditing, setIsEditing] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [locale, setLocale] = useState(currentUser?.locale || "en");
+
+  // Professional profile
+  const [employeeId, setEmployeeId] = useState(currentUser?.employeeId || "");
+  const [jobGrade, setJobGrade] = useState(currentUser?.jobGrade || "");
+  const [department, setDepartment] = useState(currentUser?.department || "");
+  const [phone, setPhone] = useState(currentUser?.phone || "");
+  const [certifications, setCertifications] = useState<CertificationRow[]>(toRows(currentUser));
+  const [photoURL, setPhotoURL] = useState(currentUser?.photoURL || "");
+  const [uploadingPhoto, setUploadingPhoto] = useState(false);
+  const photoInput = useRef<HTMLInputElement>(null);
+  const { units } = useOrgUnits();
+  const unitName = unitLabel(units, currentUser?.unitId);
 
   // Re-authentication state
   const [showReauth, setShowReauth] = useState(false);
@@ -34,6 +75,10 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
 
   const handleSave = async () => {
     if (!currentUser || !auth.currentUser) return;
+    if (certifications.some((row) => !row.type.trim())) {
+      alert("Choose a name for every certification, or remove the empty rows.");
+      return;
+    }
     setLoading(true);
 
     try {
@@ -64,7 +109,19 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
       }
 
       // ✅ Update Firestore user document
-      await updateDoc(userRef, { displayName, email });
+      await updateDoc(userRef, {
+        displayName,
+        email,
+        employeeId: employeeId.trim(),
+        jobGrade: jobGrade.trim(),
+        department: department.trim(),
+        phone: phone.trim(),
+        certifications: certifications.map((row) => ({
+          type: row.type.trim(),
+          number: row.number.trim(),
+          expiresAt: row.expiresOn ? Timestamp.fromDate(new Date(`${row.expiresOn}T00:00:00`)) : null,
+        })),
+      });
 
       alert("✅ Profile updated successfully!");
       setIsEditing(false);
@@ -76,6 +133,62 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
     }
   };
 
+  // 📷 Profile photo, kept in Storage under the user's own folder
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !currentUser) return;
+
+    setUploadingPhoto(true);
+    try {
+      setPhotoURL(await profileService.uploadPhoto(currentUser.uid, file));
+    } catch (err) {
+      console.error("Error uploading photo:", err);
+      alert("❌ Error: " + (err as Error).message);
+    } finally {
+      setUploadingPhoto(false);
+    }
+  };
+
+  const updateCertification = (index: number, changes: Partial<CertificationRow>) =>
+    setCertifications(
+      certifications.map((row, i) => (i === index ? { ...row, ...changes } : row))
+    );
+
+  const cancelEditing = () => {
+    setEmployeeId(currentUser?.employeeId || "");
+    setJobGrade(currentUser?.jobGrade || "");
+    setDepartment(currentUser?.department || "");
+    setPhone(currentUser?.phone || "");
+    setCertifications(toRows(currentUser));
+    setIsEditing(false);
+  };
+
+  // ✉️ Language used for emails sent to the user
+  const handleLocaleChange = async (value: string) => {
+    if (!currentUser) return;
+    setLocale(value);
+    try {
+      await updateDoc(doc(db, "users", currentUser.uid), { locale: value });
+    } catch (err) {
+      console.error("Error updating email language:", err);
+      alert("❌ Error: " + (err as Error).message);
+    }
+  };
+
+  // 📦 Download everything we hold about the user
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await dataExportService.downloadUserData();
+    } catch (err) {
+      console.error("Error exporting data:", err);
+      alert("❌ Error: " + (err as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const handleReauth = async () => {
     if (!auth.currentUser?.email) return;
     setLoading(true);
@@ -112,9 +225,34 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
         <Card className="lg:col-span-1 bg-white dark:bg-gray-800 shadow-md rounded-lg">
           <CardContent className="flex flex-col items-center text-center p-6">
             {/* Avatar */}
-            <div className="w-24 h-24 bg-blue-600 rounded-full flex items-center justify-center mb-4">
-              <Users className="w-12 h-12 text-white" />
+            <div className="relative mb-4">
+              {photoURL ? (
+                <img src={photoURL} alt="Profile" className="w-24 h-24 rounded-full object-cover" />
+              ) : (
+                <div className="w-24 h-24 bg-blue-600 rounded-full flex items-center justify-center">
+                  <Users className="w-12 h-12 text-white" />
+                </div>
+              )}
+              <button
+                type="button"
+                title="Change photo"
+                onClick={() => photoInput.current?.click()}
+                disabled={readOnly || uploadingPhoto}
+                className="absolute bottom-0 right-0 p-2 rounded-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                <Camera className="w-4 h-4" />
+              </button>
+              <input
+                ref={photoInput}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={handlePhotoChange}
+              />
             </div>
+            {uploadingPhoto && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">Uploading photo...</p>
+            )}
 
             {/* Name */}
             <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-1">
@@ -127,16 +265,29 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
             </span>
 
             {/* Edit Button */}
-            <Button
-  className={`w-full mt-6 px-4 py-2 rounded-lg font-medium transition-colors
-    ${isEditing 
-      ? "bg-red-600 text-white hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-600" 
-      : "bg-blue-600 text-white hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
-    }`}
-  onClick={() => setIsEditing(!isEditing)}
->
-  {isEditing ? "Cancel" : "Edit Profile"}
-</Button>
+            {!readOnly && (
+              <>
+                <Button
+                  className={`w-full mt-6 px-4 py-2 rounded-lg font-medium transition-colors
+                    ${isEditing
+                      ? "bg-red-600 text-white hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-600"
+                      : "bg-blue-600 text-white hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
+                    }`}
+                  onClick={() => (isEditing ? cancelEditing() : setIsEditing(true))}
+                >
+                  {isEditing ? "Cancel" : "Edit Profile"}
+                </Button>
+
+                <Button
+                  variant="outline"
+                  className="w-full mt-3"
+                  onClick={handleExport}
+                  loading={exporting}
+                >
+                  <Download className="w-4 h-4 mr-2" /> Download my data
+                </Button>
+              </>
+            )}
 
           </CardContent>
         </Card>
@@ -182,6 +333,138 @@ export const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
                 </label>
                 <Input value={role} disabled />
               </div>
+
+              {/* Email Language */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Email Language
+                </label>
+                <select
+                  value={locale}
+                  onChange={(e) => handleLocaleChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                >
+                  {EMAIL_LOCALES.map(({ code, label }) => (
+                    <option key={code} value={code}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Professional Profile */}
+            <div className="border-t border-gray-200 dark:border-gray-700 pt-6 space-y-4">
+              <h4 className="text-md font-semibold text-gray-900 dark:text-white">
+                Professional Profile
+              </h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <Input
+                  label="Employee ID"
+                  value={employeeId}
+                  onChange={(e) => setEmployeeId(e.target.value)}
+                  disabled={!isEditing}
+                />
+                <Input
+                  label="Job Grade"
+                  value={jobGrade}
+                  onChange={(e) => setJobGrade(e.target.value)}
+                  disabled={!isEditing}
+                />
+                <Input
+                  label="Department"
+                  value={department}
+                  onChange={(e) => setDepartment(e.target.value)}
+                  disabled={!isEditing}
+                />
+                <Input
+                  label="Phone"
+                  type="tel"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  disabled={!isEditing}
+                />
+                {unitName && <Input label="Unit (assigned by admins)" value={unitName} disabled />}
+              </div>
+
+              {/* Certifications */}
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Certifications
+                  </label>
+                  {isEditing && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        setCertifications([...certifications, { type: "", number: "", expiresOn: "" }])
+                      }
+                    >
+                      <Plus className="w-4 h-4 mr-1" /> Add
+                    </Button>
+                  )}
+                </div>
+                {certifications.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No certifications added.</p>
+                )}
+                <datalist id="certification-types">
+                  {CERTIFICATION_TYPES.map((type) => (
+                    <option key={type} value={type} />
+                  ))}
+                </datalist>
+                {certifications.map((row, index) => {
+                  const status = row.expiresOn
+                    ? certificationStatus({
+                        type: row.type,
+                        expiresAt: Timestamp.fromDate(new Date(`${row.expiresOn}T00:00:00`)),
+                      })
+                    : "no expiry";
+                  return (
+                    <div key={index} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-center">
+                      <Input
+                        placeholder="CIA, CISA, CPA..."
+                        list="certification-types"
+                        value={row.type}
+                        onChange={(e) => updateCertification(index, { type: e.target.value })}
+                        disabled={!isEditing}
+                      />
+                      <Input
+                        placeholder="Certificate number"
+                        value={row.number}
+                        onChange={(e) => updateCertification(index, { number: e.target.value })}
+                        disabled={!isEditing}
+                      />
+                      <Input
+                        type="date"
+                        title="Expiry date (leave empty if it does not expire)"
+                        value={row.expiresOn}
+                        onChange={(e) => updateCertification(index, { expiresOn: e.target.value })}
+                        disabled={!isEditing}
+                      />
+                      <div className="flex items-center gap-2">
+                        <span
+                          className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${CERTIFICATION_STATUS_STYLES[status]}`}
+                        >
+                          {status}
+                        </span>
+                        {isEditing && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Remove"
+                            onClick={() =>
+                              setCertifications(certifications.filter((_, i) => i !== index))
+                            }
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
             </div>
 
             {/* Save Button */}
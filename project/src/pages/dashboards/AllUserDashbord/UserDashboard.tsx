@@ -10,13 +10,13 @@ interface UserDashboardProps {
 }
 
 export const UserDashboard: React.FC<UserDashboardProps> = ({ activeSection }) => {
-  const { currentUser } = useAuth();
+  const { currentUser, viewingAs } = useAuth();
 
   switch (activeSection) {
     case 'courses':
       return <BrowseCourses currentUser={currentUser} />;
     case 'profile':
-      return <Profile currentUser={currentUser} />;
+      return <Profile currentUser={currentUser} readOnly={!!viewingAs} />;
     default:
       return <DashboardOverview currentUser={currentUser} />;
   }
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from "react";
+import { collection, limit, onSnapshot, orderBy, query, Timestamp } from "firebase/firestore";
+import { Card, CardContent } from "../../../components/ui/Card";
+import { Input } from "../../../components/ui/Input";
+import { db } from "../../../lib/firebase";
+import { AttendanceRecord } from "../../../types";
+
+type AttendanceRow = AttendanceRecord & { durationMinutes?: number };
+
+export const AttendanceRecords: React.FC = () => {
+  const [records, setRecords] = useState<AttendanceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+
+  useEffect(() => {
+    const q = query(collection(db, "attendance"), orderBy("timestamp", "desc"), limit(200));
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        setRecords(
+          snapshot.docs.map((docSnap) => {
+            const data = docSnap.data();
+            return {
+              id: docSnap.id,
+              sessionId: data.sessionId || "",
+              studentId: data.studentId || data.userId || "",
+              studentName: data.studentName || data.userName || "",
+              status: data.status || "present",
+              durationMinutes: data.durationMinutes,
+              timestamp: data.timestamp instanceof Timestamp ? data.timestamp.toDate() : new Date(data.timestamp),
+            };
+          })
+        );
+        setLoading(false);
+      },
+      (error) => {
+        console.error("Error fetching attendance:", error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  const term = searchTerm.toLowerCase();
+  const filtered = records.filter(
+    (r) =>
+      r.studentName.toLowerCase().includes(term) ||
+      r.studentId.toLowerCase().includes(term) ||
+      r.sessionId.toLowerCase().includes(term)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Attendance</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">Latest session attendance, read-only</p>
+      </div>
+
+      <Card>
+        <CardContent className="space-y-4">
+          <Input
+            placeholder="Search by trainee or session..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+
+          {loading ? (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-12">Loading attendance...</p>
+          ) : filtered.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-12">No attendance records found.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm text-left text-gray-500 dark:text-gray-400">
+                <thead className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  <tr>
+                    <th className="px-4 py-2">Trainee</th>
+                    <th className="px-4 py-2">Session</th>
+                    <th className="px-4 py-2">Status</th>
+                    <th className="px-4 py-2">Duration</th>
+                    <th className="px-4 py-2">Recorded</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filtered.map((r) => (
+                    <tr key={r.id} className="border-b dark:border-gray-600">
+                      <td className="px-4 py-2 text-gray-900 dark:text-white">{r.studentName || r.studentId}</td>
+                      <td className="px-4 py-2">{r.sessionId || "-"}</td>
+                      <td className="px-4 py-2">
+                        <span
+                          className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            r.status === "present"
+                              ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
+                              : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300"
+                          }`}
+                        >
+                          {r.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2">
+                        {r.durationMinutes != null ? `${r.durationMinutes} min` : "-"}
+                      </td>
+                      <td className="px-4 py-2">{(r.timestamp as Date).toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from "react";
+import { Eye } from "lucide-react";
+import { DashboardOverview } from "../AdminDashbored/DashboardOverview";
+import { CourseManagement } from "../AdminDashbored/CourseManagement";
+import Session from "../AdminDashbored/Session";
+import GradeReport from "../AdminDashbored/GradeReport";
+import { ActivityLogs } from "../AdminDashbored/ActivityLogs";
+import { AttendanceRecords } from "./AttendanceRecords";
+import { useAuth } from "../../../contexts/AuthContext";
+
+interface ObserverDashboardProps {
+  activeSection: string;
+}
+
+// External reviewers see the admin pages with every edit control hidden;
+// security rules refuse their writes regardless
+export const ObserverDashboard: React.FC<ObserverDashboardProps> = ({ activeSection }) => {
+  const { currentUser, can } = useAuth();
+  const accessUntil = currentUser?.accessExpiresAt?.toDate();
+
+  const renderSection = () => {
+    if (!can("records.view")) return <DashboardOverview readOnly />;
+
+    switch (activeSection) {
+      case "courses":
+        return <CourseManagement readOnly />;
+      case "sessions":
+        return <Session readOnly />;
+      case "grades":
+        return <GradeReport readOnly />;
+      case "attendance":
+        return <AttendanceRecords />;
+      case "activities":
+        return <ActivityLogs />;
+      default:
+        return <DashboardOverview readOnly />;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 p-4 bg-blue-50 text-blue-800 rounded-lg border border-blue-200 dark:bg-blue-900 dark:text-blue-200 dark:border-blue-800">
+        <Eye className="w-5 h-5" />
+        <span>
+          Read-only access
+          {accessUntil ? ` until ${accessUntil.toLocaleDateString()}` : ""}. Nothing you view here
+          can be changed.
+        </span>
+      </div>
+      {renderSection()}
+    </div>
+  );
+};
@@ -6,15 +6,17 @@ import { RecentActivity, ActivityLog } from "../../../components/Cards/RecentAct
 import { CourseCard } from "../../../components/courses/CourseCard";
 import { User, Course } from "../../../types";
 import { useCourses } from "../../../hooks/useCourses";
+import { seatsLeft } from "../../../lib/courseSeats";
 import { collection, doc, onSnapshot, setDoc, updateDoc } from "firebase/firestore";
 import { db } from "../../../lib/firebase";
 
 interface DashboardOverviewProps {
   currentUser: User;
+  readOnly?: boolean; // admins viewing as the trainee: no enrolling
 }
 
-export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ currentUser }) => {
-  const { allCourses, enrollments, enrolledCourseIds, enrollCourse, unenrollCourse, recentCourses } = useCourses(currentUser);
+export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ currentUser, readOnly = false }) => {
+  const { allCourses, openCourses, enrollments, enrolledCourseIds, enrollCourse, unenrollCourse, recentCourses } = useCourses(currentUser);
 
   const [showForm, setShowForm] = useState(false);
   const [selectedCourse, setSelectedCourse] = useState<string>("");
@@ -63,8 +65,11 @@ export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ currentUse
     return () => unsubscribe();
   }, [currentUser]);
 
-  const availableCourses: Course[] = allCourses.filter(
-    (course) => !enrolledCourseIds.includes(course.id) && course.status === "active"
+  const availableCourses: Course[] = openCourses.filter(
+    (course) =>
+      !enrolledCourseIds.includes(course.id) &&
+      !course.waitlist?.includes(currentUser.uid) &&
+      course.status === "active"
   );
 
   // Enroll in a course
@@ -74,9 +79,14 @@ export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ currentUse
     if (!course) return;
 
     try {
-      await enrollCourse(selectedCourse);
-      await logActivity("Enrolled in Course", course.title || "Unknown Course");
-      setSuccessMessage("Successfully enrolled!");
+      const result = await enrollCourse(selectedCourse);
+      if (result.status === "waitlisted") {
+        await logActivity("Joined Course Waitlist", course.title || "Unknown Course");
+        setSuccessMessage(`The course is full. You are #${result.position} on the waitlist.`);
+      } else {
+        await logActivity("Enrolled in Course", course.title || "Unknown Course");
+        setSuccessMessage("Successfully enrolled!");
+      }
       setShowSuccess(true);
       setShowForm(false);
       setSelectedCourse("");
@@ -145,14 +155,16 @@ export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ currentUse
                 <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
                   Recent Courses
                 </h3>
-                <Button
-                  size="sm"
-                  onClick={() => setShowForm(true)}
-                  className="bg-blue-600 hover:bg-blue-700 text-white"
-                >
-                  <Plus className="w-4 h-4 mr-2" />
-                  Enroll
-                </Button>
+                {!readOnly && (
+                  <Button
+                    size="sm"
+                    onClick={() => setShowForm(true)}
+                    className="bg-blue-600 hover:bg-blue-700 text-white"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Enroll
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent>
@@ -169,7 +181,7 @@ export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ currentUse
                       <CourseCard
                         key={course.id}
                         course={course}
-                        showActions={true}
+                        showActions={!readOnly}
                         onUnenroll={() => handleUnenroll(course.id)}
                         onLessonComplete={(lessonName: string) =>
                           handleLessonComplete(course.id, lessonName)
@@ -224,6 +236,7 @@ export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ currentUse
                 {availableCourses.map((course) => (
                   <option key={course.id} value={course.id}>
                     {course.title || "-"}
+                    {seatsLeft(course) === 0 ? " (full, join the waitlist)" : ""}
                   </option>
                 ))}
               </select>
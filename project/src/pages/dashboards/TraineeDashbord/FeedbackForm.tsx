@@ -26,7 +26,11 @@ interface Feedback {
   sender: "trainee" | "trainer";
 }
 
-export const FeedbackForm: React.FC = () => {
+interface FeedbackFormProps {
+  readOnly?: boolean; // admins viewing as the trainee: no messages sent
+}
+
+export const FeedbackForm: React.FC<FeedbackFormProps> = ({ readOnly = false }) => {
   const { currentUser } = useAuth();
   const traineeId = currentUser?.uid;
 
@@ -297,9 +301,9 @@ export const FeedbackForm: React.FC = () => {
         />
         <Button
           onClick={handleSend}
-          disabled={!message.trim() || !trainerId}
+          disabled={readOnly || !message.trim() || !trainerId}
           className={`w-full sm:w-auto mt-2 sm:mt-0 ${
-            !message.trim() || !trainerId ? "opacity-50 cursor-not-allowed" : ""
+            readOnly || !message.trim() || !trainerId ? "opacity-50 cursor-not-allowed" : ""
           }`}
         >
           {editingMessageId ? "Update" : "Send"}
@@ -2,19 +2,23 @@ import React, { useState, useMemo } from "react";
 import { Button } from "../../../components/ui/Button";
 import { BookOpen, Search } from "lucide-react";
 import { CourseCard } from "../../../components/courses/CourseCard";
+import { CourseSyllabus } from "../../../components/courses/CourseSyllabus";
 import { User, Course } from "../../../types";
 import { useCourses } from "../../../hooks/useCourses";
+import { seatsLeft } from "../../../lib/courseSeats";
 import { db } from "../../../lib/firebase";
 import { collection, doc, setDoc } from "firebase/firestore";
 
 interface MyCoursesProps {
   currentUser?: User | null;
+  readOnly?: boolean; // admins viewing as the trainee: no enrolling
 }
 
-export const MyCourses: React.FC<MyCoursesProps> = ({ currentUser }) => {
+export const MyCourses: React.FC<MyCoursesProps> = ({ currentUser, readOnly = false }) => {
   if (!currentUser) return <p>Loading user data...</p>;
 
-  const { allCourses, enrollments, enrollCourse, unenrollCourse } = useCourses(currentUser);
+  const { allCourses, openCourses, enrollments, enrollCourse, unenrollCourse, waitlistedCourses } =
+    useCourses(currentUser);
 
   const [showAllCourses, setShowAllCourses] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
@@ -41,7 +45,9 @@ export const MyCourses: React.FC<MyCoursesProps> = ({ currentUser }) => {
   }, [enrolledCourseIds, allCourses, enrollments]);
 
   // Available courses
-  const availableCoursesBase: Course[] = allCourses.filter((c) => !enrolledCourseIds.includes(c.id));
+  const availableCoursesBase: Course[] = openCourses.filter(
+    (c) => !enrolledCourseIds.includes(c.id) && !c.waitlist?.includes(currentUser.uid)
+  );
 
   const availableCourses: Course[] = useMemo(() => {
     let filtered = availableCoursesBase;
@@ -103,7 +109,12 @@ export const MyCourses: React.FC<MyCoursesProps> = ({ currentUser }) => {
   const handleEnroll = async (course: Course) => {
     if (course.status !== "active") return;
     try {
-      await enrollCourse(course.id);
+      const result = await enrollCourse(course.id);
+      if (result.status === "waitlisted") {
+        await logActivity("Joined Course Waitlist", course.title || "Unknown Course");
+        showFeedback(`"${course.title}" is full. You are #${result.position} on the waitlist.`);
+        return;
+      }
       await logActivity("Enrolled in Course", course.title || "Unknown Course");
       showFeedback(`Successfully enrolled in "${course.title}"!`);
     } catch (error: any) {
@@ -113,7 +124,12 @@ export const MyCourses: React.FC<MyCoursesProps> = ({ currentUser }) => {
 
   const handleUnenroll = async (course: Course) => {
     try {
-      await unenrollCourse(course.id);
+      const status = await unenrollCourse(course.id);
+      if (status === "left waitlist") {
+        await logActivity("Left Course Waitlist", course.title || "Unknown Course");
+        showFeedback(`You have left the waitlist for "${course.title}"`);
+        return;
+      }
       await logActivity("Unenrolled from Course", course.title || "Unknown Course");
       showFeedback(`You have unenrolled from "${course.title}"`);
     } catch (error: any) {
@@ -158,7 +174,13 @@ export const MyCourses: React.FC<MyCoursesProps> = ({ currentUser }) => {
                 className="flex flex-col justify-between h-auto rounded-lg shadow p-4 bg-white dark:bg-gray-800"
               >
                 <CourseCard course={course} showActions={false} className="h-40" />
-                <Button size="sm" className="mt-2 w-full" onClick={() => handleUnenroll(course)}>
+                <CourseSyllabus course={course} userId={currentUser.uid} readOnly={readOnly} />
+                <Button
+                  size="sm"
+                  className="mt-2 w-full"
+                  onClick={() => handleUnenroll(course)}
+                  disabled={readOnly}
+                >
                   Unenroll
                 </Button>
               </div>
@@ -167,6 +189,38 @@ export const MyCourses: React.FC<MyCoursesProps> = ({ currentUser }) => {
         )}
       </div>
 
+      {/* Waitlisted Courses */}
+      {waitlistedCourses.length > 0 && (
+        <div className="p-6 bg-gray-100 dark:bg-gray-800 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+            Waiting for a Seat
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {waitlistedCourses.map((course) => (
+              <div
+                key={course.id}
+                className="flex flex-col justify-between h-auto rounded-lg shadow p-4 bg-white dark:bg-gray-800"
+              >
+                <CourseCard
+                  course={course}
+                  showActions={false}
+                  currentUserId={currentUser.uid}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="mt-2 w-full"
+                  onClick={() => handleUnenroll(course)}
+                  disabled={readOnly}
+                >
+                  Leave Waitlist
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Browse All Courses */}
       {showAllCourses && (
         <div className="p-6 bg-gray-50 dark:bg-gray-900 rounded-lg shadow-md">
@@ -215,6 +269,7 @@ export const MyCourses: React.FC<MyCoursesProps> = ({ currentUser }) => {
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
                   {groupedCourses[status].map((course) => {
                     const isDisabled = course.status !== "active";
+                    const isFull = seatsLeft(course) === 0;
                     return (
                       <div
                         key={course.id}
@@ -229,9 +284,9 @@ export const MyCourses: React.FC<MyCoursesProps> = ({ currentUser }) => {
                           size="sm"
                           className="mt-2 w-full"
                           onClick={() => handleEnroll(course)}
-                          disabled={isDisabled}
+                          disabled={readOnly || isDisabled}
                         >
-                          {isDisabled ? "Unavailable" : "Enroll Now"}
+                          {isDisabled ? "Unavailable" : isFull ? "Join Waitlist" : "Enroll Now"}
                         </Button>
                       </div>
                     );
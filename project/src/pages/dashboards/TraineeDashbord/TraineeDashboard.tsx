@@ -8,13 +8,16 @@ import { Schedule } from "./Schedule";
 import { Resources } from "./Resources";
 import { DashboardOverview } from "./DashboardOverview";
 import TraineeGrades from "./TraineeGrade";
+import { Profile } from "../AllUserDashbord/Profile";
 
 interface TraineeDashboardProps {
   activeSection: string;
 }
 
 export const TraineeDashboard: React.FC<TraineeDashboardProps> = ({ activeSection }) => {
-  const { currentUser } = useAuth();
+  const { currentUser, viewingAs } = useAuth();
+  // Admins viewing as the trainee look around without changing anything
+  const readOnly = !!viewingAs;
   const [trainerId, setTrainerId] = useState<string>("");
 
   if (!currentUser) {
@@ -43,21 +46,24 @@ export const TraineeDashboard: React.FC<TraineeDashboardProps> = ({ activeSectio
 
   switch (activeSection) {
     case "courses":
-      return <MyCourses currentUser={currentUser} />;
+      return <MyCourses currentUser={currentUser} readOnly={readOnly} />;
     case "schedule":
       return <Schedule />;
     case "resources":
       return <Resources />;
     case "grades":
       return <TraineeGrades />;
+    case "profile":
+      return <Profile currentUser={currentUser} readOnly={readOnly} />;
     case "feedback":
       return (
         <FeedbackForm
           trainerId={trainerId} // ✅ dynamically fetched from enrolments
           traineeId={currentUser.uid}
+          readOnly={readOnly}
         />
       );
     default:
-      return <DashboardOverview currentUser={currentUser} />;
+      return <DashboardOverview currentUser={currentUser} readOnly={readOnly} />;
   }
 };
@@ -1,10 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { CourseCard } from '../../../components/courses/CourseCard';
+import { PrerequisiteEditor } from '../../../components/courses/PrerequisiteEditor';
+import { SyllabusEditor } from '../../../components/courses/SyllabusEditor';
 import { Button } from '../../../components/ui/Button';
 import { Input } from '../../../components/ui/Input';
 import { Plus, BookOpen } from 'lucide-react';
 import { useAuth } from '../../../contexts/AuthContext';
 import { db } from '../../../lib/firebase';
+import { hasUnpublishedChanges, isPublished, proposedCourse } from '../../../lib/courseReview';
+import { courseAuthor } from '../../../lib/courseRevisions';
+import { Course, CourseDraft, CourseModule, CoursePrerequisite } from '../../../types';
 import {
   collection,
   query,
@@ -52,25 +57,30 @@ interface FormData {
   title: string;
   category: string;
   level: 'beginner' | 'intermediate' | 'advanced';
-  status: 'active' | 'draft' | 'completed' | 'cancelled';
   startDate: string;
   endDate: string;
   hours: string;
 }
 
-export const TrainerCourses: React.FC = () => {
+interface TrainerCoursesProps {
+  readOnly?: boolean; // admins viewing as the trainer: no edits
+}
+
+export const TrainerCourses: React.FC<TrainerCoursesProps> = ({ readOnly = false }) => {
   const { currentUser } = useAuth();
   const [courses, setCourses] = useState<any[]>([]);
   const [coursesLoading, setCoursesLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingCourseId, setEditingCourseId] = useState<string | null>(null);
   const [sessionDates, setSessionDates] = useState<{ trainStart: string; trainEnd: string } | null>(null);
+  const [courseOptions, setCourseOptions] = useState<{ id: string; title: string }[]>([]);
+  const [prerequisites, setPrerequisites] = useState<CoursePrerequisite[]>([]);
+  const [syllabusCourse, setSyllabusCourse] = useState<Course | null>(null);
 
   const [formData, setFormData] = useState<FormData>({
     title: '',
     category: '',
     level: 'beginner',
-    status: 'active',
     startDate: '',
     endDate: '',
     hours: '',
@@ -93,6 +103,15 @@ export const TrainerCourses: React.FC = () => {
     fetchSession();
   }, []);
 
+  // Any course can be a prerequisite, not only the trainer's own
+  useEffect(() => {
+    const fetchCourseOptions = async () => {
+      const snapshot = await getDocs(collection(db, 'courses'));
+      setCourseOptions(snapshot.docs.map(doc => ({ id: doc.id, title: doc.data().title || 'Untitled Course' })));
+    };
+    fetchCourseOptions();
+  }, []);
+
   // Fetch trainer courses
   const fetchCourses = async () => {
     if (!currentUser) return;
@@ -157,6 +176,17 @@ export const TrainerCourses: React.FC = () => {
     if (errors[name as keyof FormData]) setErrors(prev => ({ ...prev, [name]: '' }));
   };
 
+  // Changes to a published course wait in its draft until an admin approves them.
+  // Dates are kept as the form's date strings.
+  const writeChanges = async (course: Course, changes: Partial<Record<keyof CourseDraft, unknown>>) => {
+    await updateDoc(
+      doc(db, 'courses', course.id),
+      isPublished(course)
+        ? { draft: { ...course.draft, ...changes }, updatedAt: serverTimestamp(), ...courseAuthor() }
+        : { ...changes, updatedAt: serverTimestamp(), ...courseAuthor() }
+    );
+  };
+
   // Save new or edited course
   const saveCourse = async () => {
     if (!currentUser) return;
@@ -173,15 +203,15 @@ export const TrainerCourses: React.FC = () => {
 
     try {
       if (editingCourseId) {
-        await updateDoc(doc(db, 'courses', editingCourseId), {
+        const course = courses.find(c => c.id === editingCourseId);
+        await writeChanges(course, {
           title: formData.title,
           category: formData.category,
           level: formData.level,
-          status: formData.status,
           startDate: formData.startDate,
           endDate: formData.endDate,
           hours: Number(formData.hours),
-          updatedAt: serverTimestamp(),
+          prerequisites,
         });
 
         await logActivity({
@@ -198,13 +228,15 @@ export const TrainerCourses: React.FC = () => {
           title: formData.title,
           category: formData.category,
           level: formData.level,
-          status: formData.status,
+          status: 'draft',
           startDate: formData.startDate,
           endDate: formData.endDate,
           hours: Number(formData.hours),
+          prerequisites,
           instructorId: currentUser.uid,
           instructorName: currentUser.displayName,
           createdAt: serverTimestamp(),
+          ...courseAuthor(),
           students: [],
         });
 
@@ -222,11 +254,11 @@ export const TrainerCourses: React.FC = () => {
         title: '',
         category: '',
         level: 'beginner',
-        status: 'active',
         startDate: '',
         endDate: '',
         hours: '',
       });
+      setPrerequisites([]);
       setErrors({});
       setShowForm(false);
       fetchCourses();
@@ -256,18 +288,69 @@ export const TrainerCourses: React.FC = () => {
     }
   };
 
-  // Edit a course
+  // Save a course's modules and lessons
+  const saveSyllabus = async (modules: CourseModule[]) => {
+    if (!currentUser || !syllabusCourse) return;
+
+    try {
+      await writeChanges(syllabusCourse, { modules });
+      await logActivity({
+        userId: currentUser.uid,
+        userName: currentUser.displayName || 'Trainer',
+        trainerId: currentUser.uid,
+        action: 'Updated Syllabus',
+        target: syllabusCourse.title,
+        details: `${modules.length} modules`,
+      });
+      setSyllabusCourse(null);
+      fetchCourses();
+    } catch (err) {
+      console.error('Error saving syllabus:', err);
+      alert(`Error saving syllabus: ${(err as Error).message}`);
+    }
+  };
+
+  // Ask an admin to publish the course, or its changes
+  const submitForReview = async (course: Course) => {
+    if (!currentUser) return;
+
+    try {
+      await updateDoc(doc(db, 'courses', course.id), {
+        review: {
+          status: 'pending',
+          submittedAt: serverTimestamp(),
+          submittedByName: currentUser.displayName || 'Trainer',
+        },
+        ...courseAuthor(),
+      });
+      await logActivity({
+        userId: currentUser.uid,
+        userName: currentUser.displayName || 'Trainer',
+        trainerId: currentUser.uid,
+        action: 'Submitted Course for Review',
+        target: course.title,
+      });
+      fetchCourses();
+    } catch (err) {
+      console.error('Error submitting course:', err);
+      alert(`Error submitting course: ${(err as Error).message}`);
+    }
+  };
+
+  // Edit a course, starting from any changes still awaiting review
   const handleEditCourse = (course: any) => {
+    const current = { ...course, ...course.draft };
     setFormData({
-      title: course.title,
-      category: course.category,
-      level: course.level,
-      status: course.status,
-      startDate: course.startDate,
-      endDate: course.endDate,
-      hours: String(course.hours),
+      title: current.title,
+      category: current.category,
+      level: current.level,
+      startDate: current.startDate,
+      endDate: current.endDate,
+      hours: String(current.hours),
     });
+    setPrerequisites(current.prerequisites || []);
     setEditingCourseId(course.id);
+    setSyllabusCourse(null);
     setShowForm(true);
   };
 
@@ -279,23 +362,26 @@ export const TrainerCourses: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">My Courses</h1>
           <p className="text-gray-600 dark:text-gray-400 mt-1">Manage your training courses</p>
         </div>
-        <Button
-          onClick={() => {
-            setShowForm(!showForm);
-            setEditingCourseId(null);
-            setFormData({
-              title: '',
-              category: '',
-              level: 'beginner',
-              status: 'active',
-              startDate: '',
-              endDate: '',
-              hours: '',
-            });
-          }}
-        >
-          <Plus className="w-4 h-4 mr-2" /> Create Course
-        </Button>
+        {!readOnly && (
+          <Button
+            onClick={() => {
+              setShowForm(!showForm);
+              setEditingCourseId(null);
+              setSyllabusCourse(null);
+              setFormData({
+                title: '',
+                category: '',
+                level: 'beginner',
+                startDate: '',
+                endDate: '',
+                hours: '',
+              });
+              setPrerequisites([]);
+            }}
+          >
+            <Plus className="w-4 h-4 mr-2" /> Create Course
+          </Button>
+        )}
       </div>
 
       {/* Form */}
@@ -333,17 +419,9 @@ export const TrainerCourses: React.FC = () => {
                 <option value="advanced">Advanced</option>
               </select>
             </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Status</label>
-              <select
-                name="status"
-                value={formData.status}
-                onChange={handleChange}
-                className="w-full px-3 py-2 rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
-              >
-                <option value="active">Active</option>
-              </select>
-            </div>
+            <p className="self-end text-sm text-gray-600 dark:text-gray-400">
+              Changes are saved as a draft. Submit the course for review and an admin publishes it.
+            </p>
           </div>
           <div className="grid grid-cols-2 gap-4">
             <Input
@@ -375,6 +453,12 @@ export const TrainerCourses: React.FC = () => {
             onFocus={handleFocus}
             error={errors.hours}
           />
+          <PrerequisiteEditor
+            value={prerequisites}
+            onChange={setPrerequisites}
+            courses={courseOptions}
+            courseId={editingCourseId || undefined}
+          />
           <div className="flex space-x-3">
             <Button onClick={saveCourse}>{editingCourseId ? 'Update Course' : 'Save Course'}</Button>
             <Button
@@ -384,11 +468,11 @@ export const TrainerCourses: React.FC = () => {
                   title: '',
                   category: '',
                   level: 'beginner',
-                  status: 'active',
                   startDate: '',
                   endDate: '',
                   hours: '',
                 });
+                setPrerequisites([]);
                 setErrors({});
                 setShowForm(false);
                 setEditingCourseId(null);
@@ -400,6 +484,15 @@ export const TrainerCourses: React.FC = () => {
         </div>
       )}
 
+      {syllabusCourse && (
+        <SyllabusEditor
+          key={syllabusCourse.id}
+          course={syllabusCourse}
+          onSave={saveSyllabus}
+          onCancel={() => setSyllabusCourse(null)}
+        />
+      )}
+
       {/* Courses Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {coursesLoading ? (
@@ -418,13 +511,34 @@ export const TrainerCourses: React.FC = () => {
           </div>
         ) : (
           courses.map(course => (
-            <CourseCard
-              key={course.id}
-              course={course}
-              showActions={true}
-              onEdit={() => handleEditCourse(course)}
-              onDelete={() => handleDeleteCourse(course.id, course.title)}
-            />
+            <div key={course.id} className="flex flex-col gap-2">
+              <CourseCard
+                course={proposedCourse(course)}
+                showActions={!readOnly}
+                onEdit={() => handleEditCourse(course)}
+                onDelete={() => handleDeleteCourse(course.id, course.title)}
+                onSyllabus={() => {
+                  setShowForm(false);
+                  setSyllabusCourse(proposedCourse(course));
+                }}
+              />
+              {course.review?.status === 'pending' ? (
+                <p className="text-sm text-yellow-700 dark:text-yellow-400">Waiting for admin review</p>
+              ) : (
+                !readOnly && hasUnpublishedChanges(course) && (
+                  <div className="space-y-2">
+                    {course.review?.status === 'returned' && (
+                      <p className="text-sm text-red-600 dark:text-red-400">
+                        Returned by {course.review.reviewedByName || 'an admin'}: {course.review.comments}
+                      </p>
+                    )}
+                    <Button size="sm" variant="outline" className="w-full" onClick={() => submitForReview(course)}>
+                      {isPublished(course) ? 'Submit Changes for Review' : 'Submit for Review'}
+                    </Button>
+                  </div>
+                )
+              )}
+            </div>
           ))
         )}
       </div>
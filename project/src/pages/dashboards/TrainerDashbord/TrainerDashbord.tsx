@@ -6,13 +6,16 @@ import { TrainingSessions } from "./TrainingSessions";
 import { TrainerFeedback } from "./TrainerFeedback";
 import { TrainingMaterials } from "./TrainingMaterials";
 import { TrainerGrades } from "./TrainerGrades";
+import { Profile } from "../AllUserDashbord/Profile";
 
 interface TrainerDashboardProps {
   activeSection: string;
 }
 
 export const TrainerDashboard: React.FC<TrainerDashboardProps> = ({ activeSection }) => {
-  const { currentUser } = useAuth();
+  const { currentUser, viewingAs } = useAuth();
+  // Admins viewing as the trainer look around without changing anything
+  const readOnly = !!viewingAs;
 
   // Handle null user (trainer not logged in)
   if (!currentUser) {
@@ -28,15 +31,17 @@ export const TrainerDashboard: React.FC<TrainerDashboardProps> = ({ activeSectio
 
   switch (activeSection) {
     case "courses":
-      return <TrainerCourses />;
+      return <TrainerCourses readOnly={readOnly} />;
     case "sessions":
-      return <TrainingSessions />;
+      return <TrainingSessions readOnly={readOnly} />;
     case "feedback":
-      return <TrainerFeedback trainerId={trainerId} />;
+      return <TrainerFeedback trainerId={trainerId} readOnly={readOnly} />;
     case "materials":
-      return <TrainingMaterials />;
+      return <TrainingMaterials readOnly={readOnly} />;
     case "grades":
-      return <TrainerGrades />;
+      return <TrainerGrades readOnly={readOnly} />;
+    case "profile":
+      return <Profile currentUser={currentUser} readOnly={readOnly} />;
     default:
       return <TrainerOverview />;
   }
@@ -26,9 +26,10 @@ interface FeedbackMessage {
 
 interface TrainerFeedbackProps {
   trainerId: string;
+  readOnly?: boolean; // admins viewing as the trainer: no replies
 }
 
-export const TrainerFeedback: React.FC<TrainerFeedbackProps> = ({ trainerId }) => {
+export const TrainerFeedback: React.FC<TrainerFeedbackProps> = ({ trainerId, readOnly = false }) => {
   const [messages, setMessages] = useState<FeedbackMessage[]>([]);
   const [reply, setReply] = useState("");
   const [selectedTrainee, setSelectedTrainee] = useState<string | null>(null);
@@ -189,44 +190,48 @@ export const TrainerFeedback: React.FC<TrainerFeedbackProps> = ({ trainerId }) =
                     >
                       {msg.message}
 
-                      <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition">
-                        {msg.sender === "trainer" && (
-                          <button onClick={() => handleEdit(msg)}>
-                            <Edit2 size={16} className="text-white dark:text-gray-200" />
+                      {!readOnly && (
+                        <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition">
+                          {msg.sender === "trainer" && (
+                            <button onClick={() => handleEdit(msg)}>
+                              <Edit2 size={16} className="text-white dark:text-gray-200" />
+                            </button>
+                          )}
+                          <button onClick={() => handleHideMessage(msg)}>
+                            <Trash2
+                              size={16}
+                              className={`${
+                                msg.sender === "trainer"
+                                  ? "text-white dark:text-gray-200"
+                                  : "text-gray-900 dark:text-gray-100"
+                              }`}
+                            />
                           </button>
-                        )}
-                        <button onClick={() => handleHideMessage(msg)}>
-                          <Trash2
-                            size={16}
-                            className={`${
-                              msg.sender === "trainer"
-                                ? "text-white dark:text-gray-200"
-                                : "text-gray-900 dark:text-gray-100"
-                            }`}
-                          />
-                        </button>
-                      </div>
+                        </div>
+                      )}
                     </div>
                   ))}
                 <div ref={chatEndRef} />
               </div>
 
               {/* Reply box */}
-              <div className="flex flex-col items-center gap-2 mt-4">
-                <textarea
-                  ref={textareaRef}
-                  value={reply}
-                  onChange={(e) => setReply(e.target.value)}
-                  placeholder="Type your reply..."
-                  className="w-full max-w-[80%] resize-none min-h-[80px] max-h-44 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
-                />
-                <Button
-                  onClick={handleReply}
-                  className="px-6 py-2 rounded-full bg-blue-500 text-white hover:bg-blue-600 transition"
-                >
-                  {editingMessageId ? "Update" : "Send"}
-                </Button>
-              </div>
+              {!readOnly && (
+                <div className="flex flex-col items-center gap-2 mt-4">
+                  <textarea
+                    ref={textareaRef}
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    placeholder="Type your reply..."
+                    className="w-full max-w-[80%] resize-none min-h-[80px] max-h-44 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
+                  />
+                  <Button
+                    onClick={handleReply}
+                    className="px-6 py-2 rounded-full bg-blue-500 text-white hover:bg-blue-600 transition"
+                  >
+                    {editingMessageId ? "Update" : "Send"}
+                  </Button>
+                </div>
+              )}
             </>
           ) : (
             <p className="text-gray-500 dark:text-gray-400 text-center mt-10">
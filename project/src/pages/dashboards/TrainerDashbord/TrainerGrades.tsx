@@ -16,6 +16,8 @@ import {
 import { useAuth } from "../../../contexts/AuthContext";
 import { Card, CardHeader, CardContent } from "../../../components/ui/Card";
 import { Button } from "../../../components/ui/Button";
+import { ProfileSummary } from "../../../components/profile/ProfileSummary";
+import { User as UserProfile } from "../../../types";
 
 interface Course {
   courseId: string;
@@ -31,17 +33,26 @@ interface User {
   displayName: string;
 }
 
-export const TrainerGrades: React.FC = () => {
+interface TrainerGradesProps {
+  readOnly?: boolean; // admins viewing as the trainer: grades are not saved
+}
+
+export const TrainerGrades: React.FC<TrainerGradesProps> = ({ readOnly = false }) => {
   const { currentUser } = useAuth();
   const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
   const [grades, setGrades] = useState<{ [key: string]: number }>({});
   const [userNames, setUserNames] = useState<{ [key: string]: string }>({});
+  const [profiles, setProfiles] = useState<{ [key: string]: Partial<UserProfile> }>({});
 
   // ✅ Fetch enrollments grouped by trainee
   useEffect(() => {
     if (!currentUser) return;
 
-    const unsubscribe = onSnapshot(collection(db, "enrollments"), async (snapshot) => {
+    const rosterQuery = query(
+      collection(db, "enrollments"),
+      where("instructorIds", "array-contains", currentUser.uid)
+    );
+    const unsubscribe = onSnapshot(rosterQuery, async (snapshot) => {
       const data: { [userId: string]: Enrollment } = {};
       const userIdsToFetch: Set<string> = new Set();
 
@@ -64,12 +75,14 @@ export const TrainerGrades: React.FC = () => {
 
       // Fetch user names from "users" collection
       const names: { [key: string]: string } = {};
+      const fetchedProfiles: { [key: string]: Partial<UserProfile> } = {};
       await Promise.all(
         Array.from(userIdsToFetch).map(async (uid) => {
           const userDoc = await getDoc(doc(db, "users", uid));
           if (userDoc.exists()) {
             const userData = userDoc.data() as User;
             names[uid] = userData.displayName || "Unknown";
+            fetchedProfiles[uid] = userDoc.data() as Partial<UserProfile>;
           } else {
             names[uid] = "Unknown";
           }
@@ -77,6 +90,7 @@ export const TrainerGrades: React.FC = () => {
       );
 
       setUserNames(names);
+      setProfiles(fetchedProfiles);
     });
 
     return () => unsubscribe();
@@ -91,13 +105,17 @@ export const TrainerGrades: React.FC = () => {
   // ✅ Function to notify admin when grades change
   const notifyAdminOnGradeChange = async (
     trainerName: string,
+    traineeId: string,
     traineeName: string,
     courseTitle: string,
     gradeValue: number
   ) => {
     try {
+      // The ids let account deletion find the notification
       await addDoc(collection(db, "Notifications"), {
         type: "grade_update",
+        traineeId,
+        trainerId: currentUser?.uid || "",
         message: `${trainerName} submitted ${gradeValue}% for ${traineeName} in ${courseTitle}`,
         createdAt: serverTimestamp(),
         isRead: false,
@@ -147,6 +165,7 @@ const handleSave = async (trainee: Enrollment) => {
     // ✅ Send notification to admin
     await notifyAdminOnGradeChange(
       trainerName,
+      trainee.userId,
       userNames[trainee.userId] || "Unknown",
       course.title,
       gradeValue
@@ -189,16 +208,18 @@ const handleSave = async (trainee: Enrollment) => {
             className="mb-6 bg-white dark:bg-gray-900 shadow-lg rounded-2xl border border-gray-200 dark:border-gray-700"
           >
             <CardHeader className="flex justify-between items-center">
-              <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
-                {userNames[trainee.userId] || "Unknown"}
-              </h3>
-              <Button
-                size="sm"
-                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-1 rounded-lg transition"
-                onClick={() => handleSave(trainee)}
-              >
-                Save
-              </Button>
+              <ProfileSummary
+                user={profiles[trainee.userId] || { displayName: userNames[trainee.userId] }}
+              />
+              {!readOnly && (
+                <Button
+                  size="sm"
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-1 rounded-lg transition"
+                  onClick={() => handleSave(trainee)}
+                >
+                  Save
+                </Button>
+              )}
             </CardHeader>
             <CardContent>
               <div className="overflow-x-auto">
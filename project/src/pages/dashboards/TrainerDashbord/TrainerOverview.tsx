@@ -61,7 +61,7 @@ export const TrainerOverview: React.FC = () => {
 
     const courseIds = trainerCourses.map((c) => c.id);
     const enrollmentCol = collection(db, "enrollments");
-    const q = query(enrollmentCol, where("courses", "!=", [])); // Firestore array check
+    const q = query(enrollmentCol, where("instructorIds", "array-contains", currentUser.uid));
 
     const unsubscribe = onSnapshot(q, (snapshot) => {
       const studentsSet = new Set<string>();
@@ -52,7 +52,11 @@ interface Toast {
   message: string;
 }
 
-export const TrainingMaterials: React.FC = () => {
+interface TrainingMaterialsProps {
+  readOnly?: boolean; // admins viewing as the trainer: no uploads or deletes
+}
+
+export const TrainingMaterials: React.FC<TrainingMaterialsProps> = ({ readOnly = false }) => {
   const { currentUser } = useAuth();
   const [materials, setMaterials] = useState<Material[]>([]);
   const [uploadQueue, setUploadQueue] = useState<FileWithDescription[]>([]);
@@ -298,7 +302,7 @@ export const TrainingMaterials: React.FC = () => {
         <h1 className="text-3xl font-bold">Training Materials</h1>
         <Button
           onClick={() => document.getElementById('materialUpload')?.click()}
-          disabled={!selectedCourse}
+          disabled={readOnly || !selectedCourse}
           className="flex items-center gap-2"
         >
           <Upload className="w-4 h-4" /> Upload File
@@ -412,12 +416,14 @@ export const TrainingMaterials: React.FC = () => {
               >
                 <Download className="w-5 h-5" />
               </a>
-              <button
-                onClick={() => handleDelete(mat)}
-                className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 transition"
-              >
-                <Trash2 className="w-5 h-5" />
-              </button>
+              {!readOnly && (
+                <button
+                  onClick={() => handleDelete(mat)}
+                  className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 transition"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              )}
             </div>
           </div>
         ))}
@@ -28,7 +28,11 @@ interface GeneralSession {
   trainEnd: string;
 }
 
-export const TrainingSessions: React.FC = () => {
+interface TrainingSessionsProps {
+  readOnly?: boolean; // admins viewing as the trainer: no scheduling
+}
+
+export const TrainingSessions: React.FC<TrainingSessionsProps> = ({ readOnly = false }) => {
   const { currentUser } = useAuth();
   const [sessions, setSessions] = useState<TrainingSession[]>([]);
   const [generalSessions, setGeneralSessions] = useState<GeneralSession[]>([]);
@@ -285,12 +289,14 @@ export const TrainingSessions: React.FC = () => {
           <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100">
             My Training Sessions
           </h1>
-          <Button
-            onClick={() => setShowFormModal(true)}
-            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white"
-          >
-            <Plus className="w-4 h-4" /> Add Session
-          </Button>
+          {!readOnly && (
+            <Button
+              onClick={() => setShowFormModal(true)}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white"
+            >
+              <Plus className="w-4 h-4" /> Add Session
+            </Button>
+          )}
         </div>
 
         <Card className="bg-white dark:bg-gray-900 shadow-md overflow-x-auto">
@@ -311,7 +317,7 @@ export const TrainingSessions: React.FC = () => {
                     <th className="px-4 py-2 text-left">Start Time</th>
                     <th className="px-4 py-2 text-left">End Time</th>
                     <th className="px-4 py-2 text-left">Duration (hrs)</th>
-                    <th className="px-4 py-2 text-left">Actions</th>
+                    {!readOnly && <th className="px-4 py-2 text-left">Actions</th>}
                   </tr>
                 </thead>
                 <tbody>
@@ -340,16 +346,18 @@ export const TrainingSessions: React.FC = () => {
                         <td className="px-4 py-2 text-gray-700 dark:text-gray-300">
                           {s.hours.toFixed(2)}
                         </td>
-                        <td className="px-4 py-2 flex gap-3">
-                          <Edit2
-                            className="w-5 h-5 cursor-pointer text-blue-600 hover:text-blue-400"
-                            onClick={() => handleEdit(s)}
-                          />
-                          <Trash2
-                            className="w-5 h-5 cursor-pointer text-red-600 hover:text-red-400"
-                            onClick={() => handleDelete(s)}
-                          />
-                        </td>
+                        {!readOnly && (
+                          <td className="px-4 py-2 flex gap-3">
+                            <Edit2
+                              className="w-5 h-5 cursor-pointer text-blue-600 hover:text-blue-400"
+                              onClick={() => handleEdit(s)}
+                            />
+                            <Trash2
+                              className="w-5 h-5 cursor-pointer text-red-600 hover:text-red-400"
+                              onClick={() => handleDelete(s)}
+                            />
+                          </td>
+                        )}
                       </tr>
                     );
                   })}
@@ -0,0 +1,15 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../lib/firebase';
+
+// Revisions themselves are recorded by the recordCourseRevision function
+export const courseRevisionService = {
+  // Restores a course to how it was after the revision; the rollback becomes a revision too
+  async rollback(courseId: string, revisionId: string) {
+    const rollback = httpsCallable<{ courseId: string; revisionId: string }, { success: boolean }>(
+      functions,
+      'rollbackCourse'
+    );
+    const { data } = await rollback({ courseId, revisionId });
+    return data;
+  },
+};
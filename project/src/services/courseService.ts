@@ -12,6 +12,7 @@ import {
   limit
 } from 'firebase/firestore';
 import { db } from '../lib/firebase';
+import { courseAuthor } from '../lib/courseRevisions';
 import { Course } from '../types';
 
 export const courseService = {
@@ -20,6 +21,7 @@ export const courseService = {
       ...courseData,
       createdAt: new Date(),
       updatedAt: new Date(),
+      ...courseAuthor(),
     });
     return docRef.id;
   },
@@ -78,6 +80,7 @@ export const courseService = {
     await updateDoc(docRef, {
       ...updates,
       updatedAt: new Date(),
+      ...courseAuthor(),
     });
   },
 
@@ -0,0 +1,30 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../lib/firebase';
+
+export interface DataExportManifest {
+  subject: string;
+  requestedBy: string;
+  generatedAt: string;
+  collections: { collection: string; records: number; files: string[] }[];
+}
+
+export const dataExportService = {
+  // Without a uid the signed-in user's own data is exported
+  async downloadUserData(uid?: string) {
+    const exportUserData = httpsCallable<
+      { uid?: string },
+      { fileName: string; zipBase64: string; manifest: DataExportManifest }
+    >(functions, 'exportUserData');
+    const { data } = await exportUserData({ uid });
+
+    const bytes = Uint8Array.from(atob(data.zipBase64), (char) => char.charCodeAt(0));
+    const url = URL.createObjectURL(new Blob([bytes], { type: 'application/zip' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = data.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    return data.manifest;
+  },
+};
@@ -0,0 +1,41 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../lib/firebase';
+import { EmailTemplate, EmailTemplateContent } from '../types';
+
+// Locales offered in the template editor and the profile language picker
+export const EMAIL_LOCALES: { code: string; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'ar', label: 'العربية' },
+  { code: 'fr', label: 'Français' },
+];
+
+export const emailTemplateService = {
+  async getTemplates() {
+    const getEmailTemplates = httpsCallable<void, EmailTemplate[]>(functions, 'getEmailTemplates');
+    const { data } = await getEmailTemplates();
+    return data;
+  },
+
+  async saveTemplate(key: string, locale: string, content: EmailTemplateContent) {
+    const saveEmailTemplate = httpsCallable<
+      { key: string; locale: string; content: EmailTemplateContent },
+      { version: number }
+    >(functions, 'saveEmailTemplate');
+    const { data } = await saveEmailTemplate({ key, locale, content });
+    return data.version;
+  },
+
+  async previewTemplate(key: string, content: EmailTemplateContent) {
+    const previewEmailTemplate = httpsCallable<
+      { key: string; content: EmailTemplateContent },
+      EmailTemplateContent
+    >(functions, 'previewEmailTemplate');
+    const { data } = await previewEmailTemplate({ key, content });
+    return data;
+  },
+
+  async resendMail(id: string) {
+    const resendMail = httpsCallable<{ id: string }, { success: boolean }>(functions, 'resendMail');
+    await resendMail({ id });
+  },
+};
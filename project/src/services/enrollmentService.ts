@@ -0,0 +1,33 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../lib/firebase';
+
+export type EnrollResult = { status: 'enrolled' } | { status: 'waitlisted'; position: number };
+
+// Seats are counted on the server so two trainees cannot take the last one
+export const enrollmentService = {
+  async enroll(courseId: string) {
+    const enroll = httpsCallable<{ courseId: string }, EnrollResult>(functions, 'enrollInCourse');
+    const { data } = await enroll({ courseId });
+    return data;
+  },
+
+  // Admins enrolling a trainee; the reason is required when prerequisites are missing
+  async enrollTrainee(courseId: string, traineeId: string, overrideReason?: string) {
+    const enrollTrainee = httpsCallable<
+      { courseId: string; traineeId: string; overrideReason?: string },
+      EnrollResult
+    >(functions, 'enrollTrainee');
+    const { data } = await enrollTrainee({ courseId, traineeId, overrideReason });
+    return data;
+  },
+
+  // Also takes the trainee off the course's waitlist
+  async unenroll(courseId: string) {
+    const unenroll = httpsCallable<
+      { courseId: string },
+      { status: 'unenrolled' | 'left waitlist' }
+    >(functions, 'unenrollFromCourse');
+    const { data } = await unenroll({ courseId });
+    return data.status;
+  },
+};
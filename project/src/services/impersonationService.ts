@@ -0,0 +1,24 @@
+import { httpsCallable } from 'firebase/functions';
+import { auth, functions } from '../lib/firebase';
+
+export const impersonationService = {
+  // Also picks up the viewAsUntil claim that makes the rules refuse writes
+  async start(uid: string) {
+    const start = httpsCallable<{ uid: string }, { sessionId: string; expiresAt: string }>(
+      functions,
+      'startImpersonation'
+    );
+    const { data } = await start({ uid });
+    await auth.currentUser?.getIdToken(true);
+    return { sessionId: data.sessionId, expiresAt: new Date(data.expiresAt) };
+  },
+
+  async end(sessionId: string) {
+    const end = httpsCallable<{ sessionId: string }, { success: boolean }>(
+      functions,
+      'endImpersonation'
+    );
+    await end({ sessionId });
+    await auth.currentUser?.getIdToken(true);
+  },
+};
@@ -0,0 +1,22 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../lib/firebase';
+import { InactivityPolicy } from '../types';
+
+// Mirrors the defaults used by detectInactiveAccounts
+export const DEFAULT_INACTIVITY_POLICY: InactivityPolicy = {
+  enabled: false,
+  inactiveDays: 90,
+  graceDays: 14,
+  roles: ['trainer', 'trainee'],
+};
+
+export const inactivityService = {
+  // Exempt accounts are never warned or disabled for inactivity
+  async setExemption(uid: string, exempt: boolean, reason?: string) {
+    const setExemption = httpsCallable<
+      { uid: string; exempt: boolean; reason?: string },
+      { success: boolean }
+    >(functions, 'setInactivityExemption');
+    await setExemption({ uid, exempt, reason });
+  },
+};
@@ -0,0 +1,55 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../lib/firebase';
+import { Invitation } from '../types';
+
+export interface InvitationPreview {
+  email: string;
+  role: Invitation['role'];
+  status: Invitation['status'] | 'expired';
+  expiresAt: number;
+}
+
+export const invitationService = {
+  async createInvitation(
+    email: string,
+    role: Invitation['role'],
+    courseIds: string[],
+    expiresInDays: number
+  ) {
+    const create = httpsCallable<
+      { email: string; role: string; courseIds: string[]; expiresInDays: number; appUrl: string },
+      { inviteLink: string; emailQueued: boolean }
+    >(functions, 'createInvitation');
+    const { data } = await create({
+      email,
+      role,
+      courseIds,
+      expiresInDays,
+      appUrl: window.location.origin,
+    });
+    return data;
+  },
+
+  async revokeInvitation(token: string) {
+    await httpsCallable(functions, 'revokeInvitation')({ token });
+  },
+
+  async getInvitation(token: string) {
+    const get = httpsCallable<{ token: string }, InvitationPreview>(functions, 'getInvitation');
+    const { data } = await get({ token });
+    return data;
+  },
+
+  async redeemInvitation(token: string) {
+    const redeem = httpsCallable<{ token: string }, { role: Invitation['role'] }>(
+      functions,
+      'redeemInvitation'
+    );
+    const { data } = await redeem({ token });
+    return data;
+  },
+
+  inviteLink(token: string) {
+    return `${window.location.origin}/?invite=${token}`;
+  },
+};
@@ -0,0 +1,29 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../lib/firebase';
+import { PendingApprovalSettings } from '../types';
+
+// Mirrors the defaults used by the pendingApprovalsDaily function
+export const DEFAULT_PENDING_SETTINGS: PendingApprovalSettings = {
+  slaDays: 3,
+  reminderEnabled: true,
+  expireAfterDays: null,
+};
+
+export const pendingReviewService = {
+  async reviewPendingUsers(uids: string[], decision: 'approve' | 'reject', message: string) {
+    const review = httpsCallable<
+      { uids: string[]; decision: string; message: string },
+      { reviewed: number; missing: string[]; unverified: string[]; invalidRole: string[] }
+    >(functions, 'reviewPendingUsers');
+    const { data } = await review({ uids, decision, message });
+    return data;
+  },
+
+  async reconsiderRejection(uid: string) {
+    const reconsider = httpsCallable<{ uid: string }, { success: boolean }>(
+      functions,
+      'reconsiderRejection'
+    );
+    await reconsider({ uid });
+  },
+};
@@ -0,0 +1,55 @@
+import { deleteField, doc, updateDoc } from 'firebase/firestore';
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { updateProfile } from 'firebase/auth';
+import { auth, db, storage } from '../lib/firebase';
+
+const MAX_PHOTO_SIZE = 300; // pixels on the longest side
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+// Scales the picture down before upload; avatars never show it larger
+const resizePhoto = async (file: File): Promise<Blob> => {
+  const img = new Image();
+  img.src = URL.createObjectURL(file);
+  await new Promise((resolve, reject) => {
+    img.onload = resolve;
+    img.onerror = reject;
+  });
+
+  const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+  URL.revokeObjectURL(img.src);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not read the image.'))),
+      'image/jpeg',
+      0.85
+    )
+  );
+};
+
+export const profileService = {
+  // Stored under users/{uid}/profile, which storage.rules lets only the owner write
+  async uploadPhoto(uid: string, file: File) {
+    if (!file.type.startsWith('image/')) {
+      throw new Error('Please choose an image file.');
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      throw new Error('Please choose an image smaller than 5 MB.');
+    }
+
+    const photoRef = ref(storage, `users/${uid}/profile/photo.jpg`);
+    await uploadBytes(photoRef, await resizePhoto(file), { contentType: 'image/jpeg' });
+    const photoURL = await getDownloadURL(photoRef);
+
+    // The inline picture the navbar used to store is replaced for good
+    await updateDoc(doc(db, 'users', uid), { photoURL, profileImageBase64: deleteField() });
+    if (auth.currentUser?.uid === uid) {
+      await updateProfile(auth.currentUser, { photoURL });
+    }
+    return photoURL;
+  },
+};
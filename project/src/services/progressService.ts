@@ -0,0 +1,31 @@
+import { doc, getDoc, serverTimestamp, setDoc, updateDoc } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { syllabusProgress } from '../lib/syllabus';
+import { Course } from '../types';
+
+// One progress document per trainee and course
+export const progressId = (userId: string, courseId: string) => `${userId}_${courseId}`;
+
+export const progressService = {
+  // Marks a syllabus lesson done or not done and recomputes the course progress
+  async setLessonComplete(userId: string, course: Course, lessonId: string, done: boolean) {
+    const ref = doc(db, 'progress', progressId(userId, course.id));
+    const snap = await getDoc(ref);
+    const previous: string[] = snap.exists() ? snap.data().completedSessions || [] : [];
+    const completedSessions = done
+      ? [...new Set([...previous, lessonId])]
+      : previous.filter((id) => id !== lessonId);
+    const changes = {
+      completedSessions,
+      progress: syllabusProgress(course.modules, completedSessions),
+      lastAccessed: serverTimestamp(),
+    };
+
+    if (snap.exists()) {
+      await updateDoc(ref, changes);
+    } else {
+      await setDoc(ref, { userId, courseId: course.id, certificateIssued: false, ...changes });
+    }
+    return completedSessions;
+  },
+};
@@ -0,0 +1,31 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../lib/firebase';
+import { SessionPolicy } from '../types';
+
+// Mirrors the defaults used by the session functions
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  idleTimeoutMinutes: 30,
+  warningSeconds: 60,
+  examMode: false,
+};
+
+export const sessionService = {
+  async register() {
+    const register = httpsCallable<{ userAgent: string }, { sessionId: string }>(
+      functions,
+      'registerSession'
+    );
+    const { data } = await register({ userAgent: navigator.userAgent });
+    return data.sessionId;
+  },
+
+  // Without a sessionId the user is signed out everywhere
+  async revoke(uid: string, sessionId?: string) {
+    const revoke = httpsCallable<{ uid: string; sessionId?: string }, { revoked: number }>(
+      functions,
+      'revokeSessions'
+    );
+    const { data } = await revoke({ uid, sessionId });
+    return data.revoked;
+  },
+};
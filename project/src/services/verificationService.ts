@@ -0,0 +1,24 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../lib/firebase';
+
+export const verificationService = {
+  // Rate-limited by the function; a refusal says how long to wait
+  async sendVerificationEmail() {
+    const send = httpsCallable<
+      { appUrl: string },
+      { alreadyVerified: boolean; retryAfterSeconds?: number }
+    >(functions, 'sendVerificationEmail');
+    const { data } = await send({ appUrl: window.location.origin });
+    return data;
+  },
+
+  // Without uids the caller's own status is copied to their pending request
+  async syncEmailVerification(uids?: string[]) {
+    const sync = httpsCallable<{ uids?: string[] }, { verified: string[] }>(
+      functions,
+      'syncEmailVerification'
+    );
+    const { data } = await sync(uids ? { uids } : {});
+    return data.verified;
+  },
+};
@@ -6,10 +6,219 @@ export interface User {
   uid: string;
   email: string;
   displayName?: string;
-  role: "admin" | "trainer" | "trainee" | "user" | "pending";
+  role: string; // a built-in role or the id of a custom roles document
   photoURL?: string;
   createdAt: Date | Timestamp; // ✅ Firestore-safe
   lastLogin: Date | Timestamp;
+  isSuperAdmin?: boolean;
+  department?: string; // free text from imports; unitId is the managed assignment
+  unitId?: string;
+  unitPath?: string[]; // the unit's ancestors then the unit, kept by syncUserUnit
+  claimsUpdatedAt?: Timestamp; // set by syncUserClaims when custom claims change
+  accountStatus?: "active" | "suspended"; // missing means active
+  suspension?: AccountSuspension;
+  locale?: string; // language for emails, e.g. "en" or "fr-CA"
+  accessExpiresAt?: Timestamp; // time-boxed roles lose access after this
+  employeeId?: string;
+  jobGrade?: string;
+  phone?: string;
+  certifications?: Certification[];
+  reactivatedAt?: Timestamp;
+  inactivity?: AccountInactivity; // written by the inactivity check and admins
+}
+
+export interface Certification {
+  type: string; // "CIA", "CISA", "CPA" or another name
+  number?: string;
+  expiresAt: Timestamp | null; // null for certifications that do not expire
+}
+
+export interface AccountSuspension {
+  reason: string;
+  until: Timestamp | null; // null means until an admin reactivates
+  suspendedBy: string;
+  suspendedByName: string;
+  suspendedAt: Timestamp;
+}
+
+export interface AccountInactivity {
+  exempt?: boolean;
+  exemptReason?: string;
+  exemptByName?: string;
+  warnedAt?: Timestamp;
+  disableAt?: Timestamp; // when the account is disabled unless it signs in
+  disabledAt?: Timestamp;
+}
+
+export interface InactivityPolicy {
+  enabled: boolean;
+  inactiveDays: number; // without a sign-in before the warning
+  graceDays: number; // between the warning and disabling the account
+  roles: string[]; // roles that are checked
+}
+
+// -------------------- SESSIONS --------------------
+export interface SessionPolicy {
+  idleTimeoutMinutes: number | null; // null never signs anyone out
+  warningSeconds: number; // how long the warning shows before logout
+  examMode: boolean; // trainees may only be signed in once
+}
+
+export type SessionEndReason = "signed out" | "idle" | "revoked" | "replaced" | "stale";
+
+export interface UserSession {
+  id: string;
+  uid: string;
+  userName: string;
+  role: string;
+  userAgent: string;
+  startedAt: Timestamp;
+  lastSeenAt: Timestamp;
+  endedAt: Timestamp | null;
+  endReason?: SessionEndReason;
+}
+
+// -------------------- ROLES --------------------
+export type RoleDashboard = "admin" | "trainer" | "trainee" | "user" | "observer";
+
+export interface RoleDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  dashboard: RoleDashboard; // which dashboard members of the role see
+  capabilities: string[];
+  readOnly?: boolean; // security rules refuse every write
+  timeBoxed?: boolean; // members need an access end date
+  builtIn?: boolean; // built-in roles can be edited but not deleted
+}
+
+// -------------------- ORGANIZATION --------------------
+export type OrgUnitType = "division" | "region" | "unit";
+
+export interface OrgUnit {
+  id: string;
+  name: string;
+  type: OrgUnitType;
+  parentId: string | null;
+  managerId: string | null;
+  managerName?: string;
+  path?: string[]; // ancestor ids then the unit's own, kept by syncUnitPaths
+}
+
+// -------------------- INVITATION --------------------
+export interface Invitation {
+  id: string; // the invitation token
+  email: string;
+  role: "trainer" | "trainee";
+  courseIds: string[];
+  status: "pending" | "redeemed" | "revoked";
+  createdBy: string;
+  createdByName?: string;
+  createdAt: Date | Timestamp;
+  expiresAt: Date | Timestamp;
+  redeemedBy?: string;
+  redeemedAt?: Date | Timestamp;
+}
+
+// -------------------- DELETION RECEIPT --------------------
+export interface DeletionReceipt {
+  id: string;
+  subject: string; // pseudonym of the deleted uid
+  requestedBy: string;
+  requestedByName: string;
+  completedAt: string | Timestamp;
+  authDeleted: boolean;
+  filesDeleted?: number; // uploads under users/{uid}/ in Storage
+  complete?: boolean; // false when some records could not be removed
+  collections: {
+    collection: string;
+    field: string; // "__id__" when the document id is the uid
+    action: "delete" | "anonymize";
+    count: number;
+    failed?: number;
+  }[];
+}
+
+// -------------------- APPROVAL RULES --------------------
+export type SignupSource = "email" | "google" | "invitation";
+
+export interface ApprovalRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  priority: number; // lower runs first; the first match decides
+  decision: "approve" | "reject";
+  message?: string;
+  conditions: {
+    emailDomains?: string[];
+    roles?: string[];
+    sources?: SignupSource[];
+  };
+  createdAt?: Timestamp;
+}
+
+export interface ApprovalDecisionRecord {
+  id: string;
+  uid: string;
+  email: string;
+  displayName: string;
+  role: string;
+  source: SignupSource;
+  decision: "approve" | "reject";
+  ruleId: string;
+  ruleName: string;
+  status: "applied" | "reverted";
+  decidedAt: Timestamp;
+  revertedBy?: string;
+  revertedAt?: Timestamp;
+}
+
+// -------------------- PENDING APPROVALS --------------------
+export interface PendingApprovalSettings {
+  slaDays: number; // requests older than this are overdue
+  reminderEnabled: boolean; // daily email to admins about overdue requests
+  expireAfterDays: number | null; // null keeps requests until reviewed
+}
+
+export interface RejectedUser {
+  uid: string;
+  email: string;
+  displayName: string;
+  role: string;
+  reason?: "rejected" | "expired";
+  rejectionMessage?: string;
+  rejectedByName?: string;
+  rejectedAt?: Timestamp;
+}
+
+// -------------------- EMAIL TEMPLATE --------------------
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text: string; // plain-text fallback; derived from html when empty
+}
+
+export interface EmailTemplate {
+  key: string;
+  description: string;
+  variables: string[];
+  version: number; // 0 means the built-in default
+  locales: Record<string, EmailTemplateContent>;
+}
+
+export interface QueuedEmail {
+  id: string;
+  template: string;
+  to: string;
+  locale: string;
+  status: "pending" | "sending" | "retrying" | "sent" | "dead";
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: Timestamp;
+  templateVersion?: number;
+  createdAt: Timestamp;
+  sentAt?: Timestamp;
+  deadAt?: Timestamp;
 }
 
 // -------------------- COURSE --------------------
@@ -30,6 +239,79 @@ export interface Course {
   createdAt: Date | Timestamp;
   updatedAt: Date | Timestamp;
   completionRate?: number;
+  unitIds?: string[]; // only members of these units may enroll; empty means everyone
+  capacity?: number | null; // seats; missing or null means unlimited
+  currentParticipants?: number; // kept by the enrollment functions
+  waitlist?: string[]; // uids waiting for a seat, in order
+  prerequisites?: CoursePrerequisite[];
+  modules?: CourseModule[]; // the syllabus, in teaching order
+  draft?: CourseDraft; // a trainer's changes to a published course, awaiting review
+  review?: CourseReview;
+  publishedAt?: Date | Timestamp; // last approval; never set for unpublished drafts
+  publishedByName?: string;
+  updatedBy?: string; // uid of whoever made the last change; credited in the revision history
+  updatedByName?: string;
+}
+
+// The course fields trainers edit and admins review before publication
+export type CourseDraft = Partial<
+  Pick<Course, "title" | "category" | "level" | "hours" | "startDate" | "endDate" | "prerequisites" | "modules">
+>;
+
+export interface CourseReview {
+  status: "pending" | "returned";
+  submittedAt: Date | Timestamp;
+  submittedByName: string;
+  comments?: string; // the reviewer's, when returned
+  reviewedByName?: string;
+  reviewedAt?: Date | Timestamp;
+}
+
+// An immutable record of one course change, kept in courses/{id}/revisions
+export interface CourseRevision {
+  id: string;
+  createdAt: Date | Timestamp;
+  authorId: string | null;
+  authorName: string;
+  action: "created" | "updated" | "rolled back";
+  rolledBackTo?: string | null; // the revision restored, for rollbacks
+  changes: CourseFieldChange[];
+  snapshot: Record<string, unknown>; // the course's tracked fields after the change
+}
+
+export interface CourseFieldChange {
+  field: string;
+  before: unknown; // null when the field was missing
+  after: unknown;
+}
+
+// A course that must be completed first; any recorded grade counts without a minimum
+export interface CoursePrerequisite {
+  courseId: string;
+  courseTitle: string;
+  minGrade: number | null;
+}
+
+// -------------------- SYLLABUS --------------------
+export interface CourseModule {
+  id: string;
+  title: string;
+  lessons: Lesson[];
+}
+
+export interface Lesson {
+  id: string;
+  title: string;
+  objectives: string[];
+  estimatedMinutes: number | null;
+  materialIds: string[]; // trainingMaterials
+  sessionIds: string[]; // trainingSessions
+  assessment: LessonAssessment | null;
+}
+
+export interface LessonAssessment {
+  title: string;
+  passingScore: number | null; // percent
 }
 
 // -------------------- TRAINING SESSION --------------------
@@ -72,7 +354,7 @@ export interface Progress {
   id: string;
   userId: string;
   courseId: string;
-  completedSessions: string[];
+  completedSessions: string[]; // ids of completed syllabus lessons
   progress: number;
   lastAccessed: Date | Timestamp;
   certificateIssued: boolean;